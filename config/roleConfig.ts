@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * SavingsBank role holders per network (config/roles.json).
+ * Entries are addresses or hardhat-deploy named accounts (e.g. "deployer").
+ */
+export interface RoleConfig {
+  /** DEFAULT_ADMIN_ROLE: grants/revokes roles, registers assets (default: deployer) */
+  admins?: string[];
+  /** PLAN_MANAGER_ROLE: createPlan / enablePlan / plan settings (rates go through the timelock) */
+  planManagers: string[];
+  /** TREASURER_ROLE: fundVault / fundAssetVault */
+  treasurers: string[];
+  /** PAUSER_ROLE: pause / unpause (guardian) */
+  pausers: string[];
+  /** KEEPER_ROLE: performAutoRenew (keeper bot / Chainlink Automation forwarder) */
+  keepers: string[];
+  /** Drop every role the deployer is not listed for once the system is configured */
+  revokeDeployer: boolean;
+  /** SavingsTimelock (granted TIMELOCK_ROLE in initialize: updatePlan, setPlanEarlyRate, withdrawVault, withdrawAssetVault) */
+  timelock: {
+    /** Seconds between schedule and execute */
+    minDelay: number;
+    /** Schedule and cancel operations */
+    proposers: string[];
+    /** Execute ready operations (address(0) = anyone) */
+    executors: string[];
+  };
+}
+
+/** Config key -> SavingsBank role constant getter */
+export const ROLE_KEYS = {
+  admins: "DEFAULT_ADMIN_ROLE",
+  planManagers: "PLAN_MANAGER_ROLE",
+  treasurers: "TREASURER_ROLE",
+  pausers: "PAUSER_ROLE",
+  keepers: "KEEPER_ROLE",
+} as const;
+
+export function loadRoleConfig(network: string): RoleConfig {
+  const file = path.join(__dirname, "roles.json");
+  const all = JSON.parse(fs.readFileSync(file, "utf8")) as Record<string, RoleConfig>;
+  const config = all[network];
+  if (!config) throw new Error(`config/roles.json: no entry for network "${network}"`);
+  return config;
+}
+
+/**
+ * Resolve named accounts to addresses
+ */
+export function resolveAccounts(entries: string[] = [], named: Record<string, string>): string[] {
+  return entries.map((entry) => {
+    if (/^0x[0-9a-fA-F]{40}$/.test(entry)) return entry;
+    const address = named[entry];
+    if (!address) throw new Error(`config/roles.json: unknown account "${entry}"`);
+    return address;
+  });
+}
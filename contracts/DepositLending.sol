@@ -0,0 +1,359 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/IDepositNFT.sol";
+import "./interfaces/ISavingsBank.sol";
+import "./libraries/InterestCalculator.sol";
+
+/**
+ * @title DepositLending
+ * @dev Borrow USDC against a locked deposit certificate
+ * @notice The holder escrows the DepositNFT here and draws up to ltvBps of the certificate's
+ *         value (principal + interest accrued so far). The loan accrues simple interest per
+ *         second at the rate locked when it was opened.
+ *
+ * Key Features:
+ * - Repaying the whole debt returns the NFT to the borrower (before or after maturity)
+ * - At maturity anyone can settle: the certificate is withdrawn from SavingsBank, the debt is
+ *   repaid from the proceeds and the rest goes to the borrower
+ * - Auto-renew is switched off while the NFT is escrowed (so the certificate matures into
+ *   cash) and restored when the NFT is returned
+ * - Liquidity is funded and withdrawn by the owner; loan interest stays in the pool
+ */
+contract DepositLending is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using InterestCalculator for uint256;
+
+    // ==================== STRUCTS ====================
+
+    /**
+     * @dev Loan against one escrowed certificate (keyed by tokenId)
+     */
+    struct Loan {
+        address borrower;       // Receives the NFT back (or the settlement surplus)
+        uint256 debt;           // Outstanding debt at lastAccrual (interest capitalized)
+        uint256 lastAccrual;    // Timestamp debt was last brought up to date
+        uint256 aprBps;         // Borrow rate locked when the loan was opened
+        bool autoRenew;         // Certificate's auto-renew flag before escrow
+    }
+
+    // ==================== CONSTANTS ====================
+
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+
+    // Certificate status (mirrors SavingsBank.STATUS_ACTIVE)
+    uint8 private constant STATUS_ACTIVE = 0;
+
+    // ==================== STATE VARIABLES ====================
+
+    /// @dev SavingsBank the certificates belong to
+    ISavingsBank public immutable savingsBank;
+
+    /// @dev Certificate NFT (escrowed while a loan is open)
+    IDepositNFT public immutable depositNFT;
+
+    /// @dev Loan asset; only certificates in this asset are accepted
+    IERC20 public immutable usdc;
+
+    /// @dev Max debt as a share of the certificate value, in basis points (0 = no new borrowing)
+    uint256 public ltvBps;
+
+    /// @dev Borrow APR locked into new loans, in basis points
+    uint256 public borrowAprBps;
+
+    /// @dev tokenId => loan
+    mapping(uint256 => Loan) public loans;
+
+    // ==================== EVENTS ====================
+
+    event LoanTermsUpdated(uint256 ltvBps, uint256 borrowAprBps);
+    event LiquidityFunded(address indexed from, uint256 amount);
+    event LiquidityWithdrawn(address indexed to, uint256 amount);
+    event Borrowed(uint256 indexed tokenId, address indexed borrower, uint256 amount, uint256 debt);
+    event Repaid(uint256 indexed tokenId, address indexed payer, uint256 amount, uint256 debt);
+    event LoanClosed(uint256 indexed tokenId, address indexed borrower);
+    event LoanSettled(
+        uint256 indexed tokenId,
+        address indexed borrower,
+        uint256 proceeds,
+        uint256 repaid,
+        uint256 surplus,
+        uint256 shortfall
+    );
+
+    // ==================== CONSTRUCTOR ====================
+
+    /**
+     * @dev Initialize DepositLending
+     * @param _savingsBank SavingsBank (proxy) address
+     * @param _depositNFT DepositNFT wired into the bank
+     * @param _usdc Loan asset
+     * @param _ltvBps Initial loan-to-value in basis points
+     * @param _borrowAprBps Initial borrow APR in basis points
+     */
+    constructor(
+        address _savingsBank,
+        address _depositNFT,
+        address _usdc,
+        uint256 _ltvBps,
+        uint256 _borrowAprBps
+    ) Ownable(msg.sender) {
+        require(_savingsBank != address(0), "DepositLending: Invalid SavingsBank");
+        require(_depositNFT != address(0), "DepositLending: Invalid DepositNFT");
+        require(_usdc != address(0), "DepositLending: Invalid USDC address");
+
+        savingsBank = ISavingsBank(_savingsBank);
+        depositNFT = IDepositNFT(_depositNFT);
+        usdc = IERC20(_usdc);
+        _setLoanTerms(_ltvBps, _borrowAprBps);
+    }
+
+    // ==================== ADMIN FUNCTIONS ====================
+
+    /**
+     * @dev Set loan-to-value and borrow APR
+     * @notice The LTV applies to every new draw (including on open loans); the APR only to
+     *         loans opened afterwards
+     * @param _ltvBps Loan-to-value in basis points (< 100%, 0 stops new borrowing)
+     * @param _borrowAprBps Borrow APR in basis points
+     */
+    function setLoanTerms(uint256 _ltvBps, uint256 _borrowAprBps) external onlyOwner {
+        _setLoanTerms(_ltvBps, _borrowAprBps);
+    }
+
+    /**
+     * @dev Add lending liquidity
+     * @param amount Amount pulled from the owner
+     */
+    function fundLiquidity(uint256 amount) external onlyOwner {
+        require(amount > 0, "DepositLending: Amount must be greater than 0");
+
+        usdc.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit LiquidityFunded(msg.sender, amount);
+    }
+
+    /**
+     * @dev Withdraw idle liquidity (including loan interest earned)
+     * @param to Recipient
+     * @param amount Amount to withdraw
+     */
+    function withdrawLiquidity(address to, uint256 amount) external onlyOwner {
+        require(to != address(0), "DepositLending: Invalid to address");
+        require(amount > 0, "DepositLending: Amount must be greater than 0");
+        require(amount <= availableLiquidity(), "DepositLending: Insufficient liquidity");
+
+        usdc.safeTransfer(to, amount);
+
+        emit LiquidityWithdrawn(to, amount);
+    }
+
+    // ==================== BORROWER FUNCTIONS ====================
+
+    /**
+     * @dev Borrow against a certificate
+     * @notice The first draw escrows the NFT (approve this contract on DepositNFT first) and
+     *         locks the borrow APR; later draws add to the same loan. The certificate must be
+     *         active, in the loan asset and not yet matured.
+     * @param tokenId Certificate NFT token ID (same as depositId)
+     * @param amount Amount to borrow
+     */
+    function borrow(uint256 tokenId, uint256 amount) external nonReentrant {
+        require(amount > 0, "DepositLending: Amount must be greater than 0");
+
+        (, , , uint256 maturityTime, , bool isAutoRenewEnabled, uint8 status) = savingsBank.getDepositDetails(
+            tokenId
+        );
+        require(status == STATUS_ACTIVE, "DepositLending: Deposit not active");
+        require(block.timestamp < maturityTime, "DepositLending: Deposit matured");
+
+        Loan storage loan = loans[tokenId];
+        if (loan.borrower == address(0)) {
+            require(depositNFT.ownerOf(tokenId) == msg.sender, "DepositLending: Not owner");
+            require(savingsBank.getDepositAsset(tokenId) == address(usdc), "DepositLending: Asset mismatch");
+
+            depositNFT.transferFrom(msg.sender, address(this), tokenId);
+            if (isAutoRenewEnabled) {
+                savingsBank.setAutoRenew(tokenId, false);
+            }
+
+            loan.borrower = msg.sender;
+            loan.aprBps = borrowAprBps;
+            loan.autoRenew = isAutoRenewEnabled;
+        } else {
+            require(loan.borrower == msg.sender, "DepositLending: Not borrower");
+        }
+
+        uint256 debt = debtOf(tokenId) + amount;
+        require(debt <= maxDebt(tokenId), "DepositLending: Exceeds LTV");
+        require(amount <= availableLiquidity(), "DepositLending: Insufficient liquidity");
+
+        loan.debt = debt;
+        loan.lastAccrual = block.timestamp;
+
+        usdc.safeTransfer(msg.sender, amount);
+
+        emit Borrowed(tokenId, msg.sender, amount, debt);
+    }
+
+    /**
+     * @dev Repay a loan (anyone may pay on the borrower's behalf)
+     * @notice Payments above the debt are capped. Clearing the debt returns the NFT to the
+     *         borrower and restores its auto-renew flag.
+     * @param tokenId Certificate NFT token ID
+     * @param amount Amount to repay
+     * @return paid Amount actually pulled from the caller
+     */
+    function repay(uint256 tokenId, uint256 amount) external nonReentrant returns (uint256 paid) {
+        require(amount > 0, "DepositLending: Amount must be greater than 0");
+        Loan storage loan = loans[tokenId];
+        require(loan.borrower != address(0), "DepositLending: No loan");
+
+        uint256 debt = debtOf(tokenId);
+        paid = amount < debt ? amount : debt;
+        debt -= paid;
+
+        loan.debt = debt;
+        loan.lastAccrual = block.timestamp;
+
+        usdc.safeTransferFrom(msg.sender, address(this), paid);
+
+        emit Repaid(tokenId, msg.sender, paid, debt);
+
+        if (debt == 0) {
+            address borrower = loan.borrower;
+            bool autoRenew = loan.autoRenew;
+            delete loans[tokenId];
+
+            (, , , , , , uint8 status) = savingsBank.getDepositDetails(tokenId);
+            if (autoRenew && status == STATUS_ACTIVE) {
+                savingsBank.setAutoRenew(tokenId, true);
+            }
+            depositNFT.transferFrom(address(this), borrower, tokenId);
+
+            emit LoanClosed(tokenId, borrower);
+        }
+    }
+
+    /**
+     * @dev Settle a loan at maturity (callable by anyone, e.g. a keeper)
+     * @notice Withdraws the certificate (principal + interest) from SavingsBank, repays the debt
+     *         and sends the surplus to the borrower. A debt above the proceeds is written off
+     *         (reported as shortfall).
+     * @param tokenId Certificate NFT token ID
+     */
+    function settle(uint256 tokenId) external nonReentrant {
+        Loan storage loan = loans[tokenId];
+        require(loan.borrower != address(0), "DepositLending: No loan");
+
+        uint256 debt = debtOf(tokenId);
+        address borrower = loan.borrower;
+        delete loans[tokenId];
+
+        // Reverts before maturity ("SavingsBank: Not matured")
+        uint256 balanceBefore = usdc.balanceOf(address(this));
+        savingsBank.withdraw(tokenId);
+        uint256 proceeds = usdc.balanceOf(address(this)) - balanceBefore;
+
+        uint256 repaid = proceeds < debt ? proceeds : debt;
+        uint256 surplus = proceeds - repaid;
+        if (surplus > 0) {
+            usdc.safeTransfer(borrower, surplus);
+        }
+
+        emit LoanSettled(tokenId, borrower, proceeds, repaid, surplus, debt - repaid);
+    }
+
+    // ==================== VIEW FUNCTIONS ====================
+
+    /**
+     * @dev Current debt of a loan (stored debt + interest since lastAccrual)
+     * @param tokenId Certificate NFT token ID
+     * @return debt Amount that clears the loan now (0 = no loan)
+     */
+    function debtOf(uint256 tokenId) public view returns (uint256 debt) {
+        Loan storage loan = loans[tokenId];
+        return
+            loan.debt +
+            loan.debt.calculateInterest(
+                loan.aprBps,
+                loan.lastAccrual,
+                block.timestamp,
+                InterestCalculator.InterestMode.PerSecond,
+                InterestCalculator.DayCount.Actual365
+            );
+    }
+
+    /**
+     * @dev Current value of a certificate: principal + interest accrued so far at its locked APR
+     *      and interest mode (never above the full-term interest)
+     * @param tokenId Certificate NFT token ID
+     * @return value Collateral value in the deposit asset
+     */
+    function collateralValue(uint256 tokenId) public view returns (uint256 value) {
+        (, uint256 principal, uint256 startTime, uint256 maturityTime, uint256 lockedAprBps, , ) = savingsBank
+            .getDepositDetails(tokenId);
+        (uint8 interestMode, uint8 dayCount) = savingsBank.getDepositInterestMode(tokenId);
+
+        uint256 end = block.timestamp < maturityTime ? block.timestamp : maturityTime;
+        uint256 accrued = principal.calculateInterest(
+            lockedAprBps,
+            startTime,
+            end,
+            InterestCalculator.InterestMode(interestMode),
+            InterestCalculator.DayCount(dayCount)
+        );
+        return principal + accrued;
+    }
+
+    /**
+     * @dev Max debt a certificate supports now (collateralValue * ltvBps)
+     * @param tokenId Certificate NFT token ID
+     */
+    function maxDebt(uint256 tokenId) public view returns (uint256) {
+        return (collateralValue(tokenId) * ltvBps) / BPS_DENOMINATOR;
+    }
+
+    /**
+     * @dev Amount a borrower can still draw on a certificate (0 when at or above the LTV)
+     * @param tokenId Certificate NFT token ID
+     */
+    function availableToBorrow(uint256 tokenId) external view returns (uint256) {
+        uint256 limit = maxDebt(tokenId);
+        uint256 debt = debtOf(tokenId);
+        return limit > debt ? limit - debt : 0;
+    }
+
+    /**
+     * @dev Whether settle() can run now (loan open and certificate matured)
+     * @param tokenId Certificate NFT token ID
+     */
+    function isSettleable(uint256 tokenId) external view returns (bool) {
+        if (loans[tokenId].borrower == address(0)) return false;
+        (, , , uint256 maturityTime, , , ) = savingsBank.getDepositDetails(tokenId);
+        return block.timestamp >= maturityTime;
+    }
+
+    /**
+     * @dev Liquidity available for new loans and owner withdrawals
+     */
+    function availableLiquidity() public view returns (uint256) {
+        return usdc.balanceOf(address(this));
+    }
+
+    // ==================== INTERNAL FUNCTIONS ====================
+
+    function _setLoanTerms(uint256 _ltvBps, uint256 _borrowAprBps) internal {
+        require(_ltvBps < BPS_DENOMINATOR, "DepositLending: Invalid LTV");
+        require(_borrowAprBps <= BPS_DENOMINATOR, "DepositLending: Invalid APR");
+
+        ltvBps = _ltvBps;
+        borrowAprBps = _borrowAprBps;
+
+        emit LoanTermsUpdated(_ltvBps, _borrowAprBps);
+    }
+}
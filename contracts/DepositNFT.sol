@@ -5,6 +5,7 @@ import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
 import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "./interfaces/ISavingsBank.sol";
 import "./interfaces/IDepositNFT.sol";
 
@@ -18,6 +19,8 @@ import "./interfaces/IDepositNFT.sol";
  * - On-chain SVG generation (no IPFS)
  * - Dynamic metadata updates based on deposit status
  * - Beautiful certificate design with gradient background
+ * - Amounts shown in the deposit asset's symbol and decimals
+ * - Transfers reported to SavingsBank; certificates of soulbound plans are locked (ERC-5192)
  */
 contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
     using Strings for uint256;
@@ -28,8 +31,8 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
     /// @dev SavingsBank contract reference
     ISavingsBank public immutable savingsBank;
 
-    /// @dev Next token ID
-    uint256 private _nextTokenId;
+    /// @dev Soulbound certificates (ERC-5192)
+    mapping(uint256 => bool) private _locked;
 
     // ==================== CONSTRUCTOR ====================
 
@@ -40,25 +43,25 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
     constructor(address _savingsBank) ERC721("DeFi Savings Certificate", "DSC") Ownable(msg.sender) {
         require(_savingsBank != address(0), "DepositNFT: Invalid SavingsBank");
         savingsBank = ISavingsBank(_savingsBank);
-        _nextTokenId = 1;
     }
 
     // ==================== EXTERNAL FUNCTIONS ====================
 
     /**
      * @dev Mint new NFT
+     * @notice tokenId is assigned by SavingsBank (tokenId == depositId), so
+     *         metadata lookups by tokenId always hit the right certificate
      * @param to Address to mint to
-     * @return tokenId Minted token ID
+     * @param tokenId Token ID to mint (depositId)
      */
-    function mint(address to) external onlyOwner returns (uint256) {
+    function mint(address to, uint256 tokenId) external onlyOwner {
         require(to != address(0), "DepositNFT: Invalid address");
+        // Checked up front (as _mint would after the fact) so an existing NFT never reaches the transfer hook
+        if (_ownerOf(tokenId) != address(0)) revert ERC721InvalidSender(address(0));
 
-        uint256 tokenId = _nextTokenId++;
         _safeMint(to, tokenId);
 
         emit DepositNFTMinted(tokenId, to);
-
-        return tokenId;
     }
 
     /**
@@ -71,6 +74,17 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
         emit DepositNFTBurned(tokenId);
     }
 
+    /**
+     * @dev Make NFT non-transferable (certificate of a soulbound plan)
+     * @param tokenId Token ID
+     */
+    function lock(uint256 tokenId) external onlyOwner {
+        _requireOwned(tokenId);
+        _locked[tokenId] = true;
+
+        emit Locked(tokenId);
+    }
+
     /**
      * @dev Refresh metadata (emit event for marketplaces)
      * @param tokenId Token ID
@@ -103,8 +117,40 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
         return string(abi.encodePacked("data:application/json;base64,", Base64.encode(bytes(json))));
     }
 
+    /**
+     * @dev ERC-5192 locking status
+     * @param tokenId Token ID
+     * @return True if the certificate cannot be transferred
+     */
+    function locked(uint256 tokenId) external view returns (bool) {
+        _requireOwned(tokenId);
+        return _locked[tokenId];
+    }
+
+    /**
+     * @dev ERC-165: ERC721, ERC721Enumerable and ERC-5192
+     */
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721Enumerable, IERC165) returns (bool) {
+        return interfaceId == type(IERC5192).interfaceId || super.supportsInterface(interfaceId);
+    }
+
     // ==================== INTERNAL FUNCTIONS ====================
 
+    /**
+     * @dev Block transfers of locked certificates and report the others to SavingsBank, so the
+     *      certificate's owner and plan usage follow the NFT. Mint and burn come from SavingsBank itself.
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+
+        if (from != address(0) && to != address(0)) {
+            require(!_locked[tokenId], "DepositNFT: Soulbound");
+            savingsBank.onDepositTransfer(tokenId, from, to);
+        } else if (to == address(0)) {
+            delete _locked[tokenId];
+        }
+    }
+
     /**
      * @dev Generate SVG image
      */
@@ -121,6 +167,7 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
         ) = savingsBank.getDepositDetails(depositId);
 
         string memory planName = savingsBank.getPlanName(planId);
+        (uint8 interestMode, uint8 dayCount) = savingsBank.getDepositInterestMode(depositId);
 
         // Calculate progress and status  
         uint256 elapsed = block.timestamp > startTime ? block.timestamp - startTime : 0;
@@ -130,8 +177,9 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
         string memory statusText = _getStatusText(status);
         string memory statusColor = _getStatusColor(status);
 
-        // Format amounts
-        string memory principalStr = _formatAmount(principal);
+        // Format amounts in the deposit asset
+        IERC20Metadata asset = IERC20Metadata(savingsBank.getDepositAsset(depositId));
+        string memory principalStr = _formatAmount(principal, asset.decimals());
         string memory aprStr = _formatBps(lockedAprBps);
 
         // Calculate days
@@ -152,7 +200,7 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
             '<text x="200" y="60" text-anchor="middle" font-size="24" fill="white" font-weight="bold">Deposit Certificate</text>',
             '<text x="200" y="90" text-anchor="middle" font-size="16" fill="white">#', depositId.toString(), '</text>',
             '<text x="40" y="130" font-size="14" fill="white">Plan: ', planName, '</text>',
-            '<text x="40" y="160" font-size="14" fill="white">Principal: ', principalStr, ' USDC</text>',
+            '<text x="40" y="160" font-size="14" fill="white">Principal: ', principalStr, ' ', asset.symbol(), '</text>',
             '<text x="40" y="190" font-size="14" fill="white">Locked APR: ', aprStr, '%</text>',
             '<text x="40" y="220" font-size="14" fill="white">Duration: ', totalDays.toString(), ' days</text>',
             '<text x="40" y="250" font-size="14" fill="white">Days Elapsed: ', daysElapsed.toString(), '</text>',
@@ -165,6 +213,7 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
             '<text x="200" y="410" text-anchor="middle" font-size="14" fill="white" font-weight="bold">', statusText, '</text>',
             '<text x="40" y="460" font-size="12" fill="white">Auto-Renew: ', isAutoRenewEnabled ? "Enabled" : "Disabled", '</text>',
             '<text x="40" y="490" font-size="12" fill="white">Maturity: ', _formatTimestamp(maturityTime), '</text>',
+            '<text x="40" y="520" font-size="12" fill="white">Interest: ', _getInterestModeText(interestMode), ' (', _getDayCountText(dayCount), ')</text>',
             '<text x="200" y="560" text-anchor="middle" font-size="10" fill="white" opacity="0.7">DeFi Savings Protocol</text>',
             '</svg>'
         ));
@@ -191,6 +240,11 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
         ) = savingsBank.getDepositDetails(depositId);
 
         string memory planName = savingsBank.getPlanName(planId);
+        (uint8 interestMode, uint8 dayCount) = savingsBank.getDepositInterestMode(depositId);
+        uint256 expectedInterest = savingsBank.calculateInterest(depositId);
+        IERC20Metadata asset = IERC20Metadata(savingsBank.getDepositAsset(depositId));
+        string memory symbol = asset.symbol();
+        uint8 decimals = asset.decimals();
         
         uint256 elapsed = block.timestamp > startTime ? block.timestamp - startTime : 0;
         uint256 duration = maturityTime - startTime;
@@ -205,13 +259,18 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
             '"image":"data:image/svg+xml;base64,', svgBase64, '",',
             '"attributes":[',
             '{"trait_type":"Plan","value":"', planName, '"},',
-            '{"trait_type":"Principal (USDC)","value":"', _formatAmount(principal), '"},',
+            '{"trait_type":"Asset","value":"', symbol, '"},',
+            '{"trait_type":"Principal (', symbol, ')","value":"', _formatAmount(principal, decimals), '"},',
             '{"trait_type":"Locked APR","value":"', _formatBps(lockedAprBps), '%"},',
+            '{"trait_type":"Interest Mode","value":"', _getInterestModeText(interestMode), '"},',
+            '{"trait_type":"Day Count","value":"', _getDayCountText(dayCount), '"},',
+            '{"trait_type":"Expected Interest (', symbol, ')","value":"', _formatAmount(expectedInterest, decimals), '"},',
             '{"trait_type":"Duration (Days)","value":', totalDays.toString(), '},',
             '{"trait_type":"Days Elapsed","value":', daysElapsed.toString(), '},',
             '{"trait_type":"Days Remaining","value":', daysRemaining.toString(), '},',
             '{"trait_type":"Status","value":"', _getStatusText(status), '"},',
             '{"trait_type":"Auto-Renew","value":"', isAutoRenewEnabled ? "Enabled" : "Disabled", '"},',
+            _renewalTrait(depositId),
             '{"trait_type":"Maturity Date","value":"', _formatTimestamp(maturityTime), '"}',
             ']',
             '}'
@@ -219,16 +278,30 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
     }
 
     /**
-     * @dev Format amount (6 decimals)
+     * @dev "Renewal count" trait (built separately to keep _generateJSON within the stack limit)
      */
-    function _formatAmount(uint256 amount) internal pure returns (string memory) {
-        uint256 wholePart = amount / 1e6;
-        uint256 decimalPart = amount % 1e6;
-        
+    function _renewalTrait(uint256 depositId) internal view returns (string memory) {
+        (uint256 renewalCount, ) = savingsBank.getDepositRenewal(depositId);
+        return string(abi.encodePacked('{"trait_type":"Renewal count","value":', renewalCount.toString(), '},'));
+    }
+
+    /**
+     * @dev Format amount with the asset's decimals (at most 6 fractional digits, truncated)
+     */
+    function _formatAmount(uint256 amount, uint8 decimals) internal pure returns (string memory) {
+        uint256 unit = 10 ** decimals;
+        uint256 wholePart = amount / unit;
+        if (decimals == 0) {
+            return wholePart.toString();
+        }
+
+        uint256 shown = decimals > 6 ? 6 : decimals;
+        uint256 decimalPart = (amount % unit) / 10 ** (decimals - shown);
+
         return string(abi.encodePacked(
             wholePart.toString(),
             ".",
-            _padZeros(decimalPart, 6)
+            _padZeros(decimalPart, shown)
         ));
     }
 
@@ -291,6 +364,25 @@ contract DepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
         return "Unknown";
     }
 
+    /**
+     * @dev Get interest mode text
+     */
+    function _getInterestModeText(uint8 interestMode) internal pure returns (string memory) {
+        if (interestMode == 0) return "Simple";
+        if (interestMode == 1) return "Daily Compound";
+        if (interestMode == 2) return "Per Second";
+        return "Unknown";
+    }
+
+    /**
+     * @dev Get day-count convention text
+     */
+    function _getDayCountText(uint8 dayCount) internal pure returns (string memory) {
+        if (dayCount == 0) return "Actual/365";
+        if (dayCount == 1) return "30/360";
+        return "Unknown";
+    }
+
     /**
      * @dev Get status color
      */
@@ -1,15 +1,21 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/Pausable.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/metatx/ERC2771ContextUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "./interfaces/ITokenVault.sol";
 import "./interfaces/IInterestVault.sol";
 import "./interfaces/IDepositNFT.sol";
 import "./libraries/InterestCalculator.sol";
+import "./libraries/DepositLogic.sol";
+import "./libraries/MigrationLogic.sol";
 
 /**
  * @title SavingsBank
@@ -18,19 +24,33 @@ import "./libraries/InterestCalculator.sol";
  * 
  * Key Features:
  * - Plan management (create, update, enable/disable)
- * - Deposit operations (open, withdraw, earlyWithdraw, autoRenew)
- * - Admin vault management (fund, withdraw)
+ * - Plan lifecycle: opening window, total capacity, per-wallet cap and max deposits per wallet
+ * - Amount-based APR tiers per plan, locked into the certificate at openDeposit
+ * - Loyalty bonus: extra APR per consecutive auto-renewal (capped per plan), tracked on the certificate
+ * - Multi-asset: whitelisted ERC20s, each with its own TokenVault/InterestVault pair
+ * - Deposit operations (open, increase, withdraw, earlyWithdraw, partialEarlyWithdraw, autoRenew, rollover)
+ * - One-transaction openDepositWithPermit for EIP-2612 tokens (no separate approve)
+ * - Gasless user actions via an ERC-2771 trusted forwarder (EIP-712 signed requests sent by a relayer)
+ * - Admin vault management (fund, withdraw), per asset
  * - Interest calculation using InterestCalculator library
+ *   (simple / daily compound / per-second, Actual/365 or 30/360, selected per plan)
  * - Auto-renew with LOCKED APR protection
  * - Grace period mechanism (2 days after maturity)
  * - Pause/unpause functionality
+ * - Role-based admin: plan manager, treasurer, pauser (guardian) and keeper roles
+ * - Rate changes and treasury withdrawals only through a timelock (TIMELOCK_ROLE)
+ * - Upgradeable behind a transparent proxy whose ProxyAdmin is owned by the timelock
+ * - Migration between deployments: export vaults (old bank) and import plans/deposits
+ *   during a one-time migration window (new bank)
  * 
  * Renewal Mechanisms:
  * 1. AUTO-RENEW (via autoRenew function):
  *    - Triggered within grace period (2 days after maturity)
- *    - Locks OLD APR rate (protects user from admin changes)
+ *    - Locks OLD APR rate (protects user from admin changes), plus the plan's loyalty bonus
+ *      for the renewal count (renewalBonusBps per renewal, up to maxRenewalBonusBps)
  *    - Compounds interest (newPrincipal = oldPrincipal + interest)
- *    - Can be called by user or automation (Chainlink/Gelato)
+ *    - Called by user (autoRenew) or automation via performAutoRenew (Chainlink/Gelato)
+ *    - New certificate always minted to the NFT owner
  * 
  * 2. MANUAL RENEW (withdraw + openDeposit):
  *    - User withdraws principal + interest
@@ -39,21 +59,85 @@ import "./libraries/InterestCalculator.sol";
  *    - Flexible amount (not tied to previous deposit)
  * 
  * Architecture:
- * - TokenVault: holds principal deposits (IMMUTABLE)
- * - InterestVault: holds interest liquidity + penalties (IMMUTABLE)
+ * - TokenVault: holds principal deposits of one asset (IMMUTABLE)
+ * - InterestVault: holds interest liquidity + penalties of one asset (IMMUTABLE)
  * - DepositNFT: represents ownership (IMMUTABLE)
- * - SavingsBank: all business logic (IMMUTABLE)
+ * - SavingsBank: all business logic (transparent proxy; deposit flows in DepositLogic, migration in MigrationLogic)
+ *
+ * Upgrade safety:
+ * - OZ parents use namespaced (ERC-7201) storage; SavingsBank's own state is sequential
+ * - New state variables are appended right before __gap, which shrinks by the same number of slots
+ * - SavingPlan only grows at its end (it lives in a mapping, so appending members is layout safe)
+ * - The trusted forwarder is an immutable of the implementation (set per implementation deploy)
+ * - DepositLogic and MigrationLogic are linked libraries: they hold no state and are only
+ *   reached through delegatecall from this contract, so linking them is upgrade safe
+ * @custom:oz-upgrades-unsafe-allow external-library-linking
  */
 contract SavingsBank is
-    Ownable,
-    Pausable,
-    ReentrancyGuard
+    Initializable,
+    AccessControlUpgradeable,
+    PausableUpgradeable,
+    ReentrancyGuardUpgradeable,
+    ERC2771ContextUpgradeable
 {
     using SafeERC20 for IERC20;
-    using InterestCalculator for uint256;
 
     // ==================== STRUCTS ====================
 
+    /**
+     * @dev How increaseDeposit moves the maturity of a certificate
+     * - Reweight: maturity becomes the principal-weighted average of the old maturity and
+     *   now + duration (old money keeps its accrued time, new money gets a full term)
+     * - Restart: interest accrued so far is compounded and a full new term starts now
+     */
+    enum TopUpPolicy {
+        Reweight,
+        Restart
+    }
+
+    /**
+     * @dev Vault pair and metadata of a supported asset
+     * @notice Principal and interest of different assets never share a vault, so every
+     *         vault balance and reservation is denominated in a single token
+     */
+    struct AssetConfig {
+        ITokenVault tokenVault;
+        IInterestVault interestVault;
+        uint8 decimals;
+        bool isWhitelisted;                 // false = no new plans/deposits/top-ups
+    }
+
+    /**
+     * @dev Lifecycle and limits of a plan (0 = no bound for every field)
+     * @notice Checked on openDeposit and increaseDeposit only: withdrawals and auto-renewals
+     *         of existing certificates are never blocked by them
+     */
+    struct PlanLimits {
+        uint256 startsAt;                   // no deposits before this timestamp
+        uint256 endsAt;                     // sunset: no deposits or top-ups from this timestamp on
+        uint256 capacity;                   // max active principal of the plan
+        uint256 walletCap;                  // max active principal per wallet
+        uint256 maxDepositsPerUser;         // max active certificates per wallet
+    }
+
+    /**
+     * @dev Active principal and certificates of a plan, total and per depositor (depositOwner)
+     */
+    struct PlanUsage {
+        uint256 principal;
+        mapping(address => uint256) walletPrincipal;
+        mapping(address => uint256) walletDeposits;
+    }
+
+    /**
+     * @dev Amount-based APR tier of a plan: deposits of at least minAmount earn aprBps
+     *      (amounts below the first tier earn the plan's aprBps)
+     */
+    struct AprTier {
+        uint256 minAmount;
+        uint256 aprBps;
+    }
+
     struct SavingPlan {
         string name;
         uint256 durationDays;
@@ -62,6 +146,15 @@ contract SavingsBank is
         uint256 aprBps;                    // basis points (500 = 5%)
         uint256 earlyWithdrawPenaltyBps;   // basis points
         bool isActive;
+        InterestCalculator.InterestMode interestMode;
+        InterestCalculator.DayCount dayCount;
+        uint256 earlyRateBps;              // APR paid on early withdrawals (0 = no interest)
+        TopUpPolicy topUpPolicy;           // maturity handling on increaseDeposit
+        address asset;                     // deposit token (fixed at creation)
+        PlanLimits limits;                 // opening window, capacity and per-wallet limits
+        uint256 renewalBonusBps;           // extra APR per consecutive auto-renewal
+        uint256 maxRenewalBonusBps;        // cap of the accumulated renewal bonus
+        bool soulbound;                    // certificates minted from now on are non-transferable (ERC-5192)
     }
 
     struct DepositCertificate {
@@ -71,20 +164,30 @@ contract SavingsBank is
         uint256 maturityTime;
         uint256 lockedAprBps;              // APR locked at deposit time
         bool isAutoRenewEnabled;
-        uint8 status;                       // 0=Active, 1=Withdrawn, 2=EarlyWithdrawn, 3=Renewed
+        uint8 status;                       // 0=Active, 1=Withdrawn, 2=EarlyWithdrawn, 3=Renewed, 4=Split, 5=Merged
+        InterestCalculator.InterestMode interestMode;   // locked from plan at deposit time
+        InterestCalculator.DayCount dayCount;           // locked from plan at deposit time
+        uint256 renewalCount;               // consecutive auto-renewals behind this certificate
+        uint256 renewalBonusBps;            // part of lockedAprBps earned by those renewals
     }
 
     // ==================== STATE VARIABLES ====================
 
-    /// @dev USDC token
+    /// @dev USDC token (default asset, used by createPlan/fundVault/withdrawVault)
     IERC20 public usdc;
 
-    /// @dev TokenVault for principal
+    /// @dev TokenVault for USDC principal
     ITokenVault public tokenVault;
 
-    /// @dev InterestVault for interest and penalties
+    /// @dev InterestVault for USDC interest and penalties
     IInterestVault public interestVault;
 
+    /// @dev Supported assets (token => vault pair)
+    mapping(address => AssetConfig) public assets;
+
+    /// @dev Supported asset addresses, in registration order
+    address[] internal assetList;
+
     /// @dev DepositNFT contract
     IDepositNFT public depositNFT;
 
@@ -94,7 +197,7 @@ contract SavingsBank is
     /// @dev Deposit certificates mapping (depositId => certificate)
     mapping(uint256 => DepositCertificate) public deposits;
 
-    /// @dev Original owner per deposit (so admin can see owner after NFT is burned)
+    /// @dev Holder per deposit, kept in sync by the DepositNFT transfer hook (last holder once the NFT is burned)
     mapping(uint256 => address) public depositOwner;
 
     /// @dev Next plan ID
@@ -103,17 +206,46 @@ contract SavingsBank is
     /// @dev Next deposit ID
     uint256 public nextDepositId;
 
+    /// @dev End of the import window (0 = never opened); openDeposit is blocked until then
+    uint256 public migrationEndsAt;
+
+    /// @dev Bank this deployment's vaults were exported to (set on the old deployment; blocks unpause)
+    address public migratedTo;
+
+    /// @dev Active principal / certificates per plan, counted against PlanLimits
+    mapping(uint256 => PlanUsage) internal planUsage;
+
+    /// @dev APR tiers per plan, ascending by minAmount (empty = plan.aprBps for every amount)
+    mapping(uint256 => AprTier[]) internal planAprTiers;
+
+    /// @dev Reserved storage for future versions (append state above, shrink the gap accordingly)
+    uint256[46] private __gap;
+
     // ==================== CONSTANTS ====================
 
     uint256 public constant BPS_DENOMINATOR = 10_000;
     uint256 public constant SECONDS_PER_YEAR = 365 days;
-    uint256 public constant AUTO_RENEW_GRACE_PERIOD = 2 days;  // Window for auto-renew after maturity
+    uint256 public constant AUTO_RENEW_GRACE_PERIOD = DepositLogic.AUTO_RENEW_GRACE_PERIOD;  // Window for auto-renew after maturity
+    uint256 public constant MAX_MIGRATION_WINDOW = 30 days;    // Longest import window
+    uint256 public constant MAX_APR_TIERS = DepositLogic.MAX_APR_TIERS;  // Tiers per plan
+    uint256 public constant MAX_SPLIT_PARTS = DepositLogic.MAX_SPLIT_PARTS;  // Certificates per split / merge
 
     // Status constants
-    uint8 public constant STATUS_ACTIVE = 0;
-    uint8 public constant STATUS_WITHDRAWN = 1;
-    uint8 public constant STATUS_EARLY_WITHDRAWN = 2;
-    uint8 public constant STATUS_RENEWED = 3;
+    uint8 public constant STATUS_ACTIVE = DepositLogic.STATUS_ACTIVE;
+    uint8 public constant STATUS_WITHDRAWN = DepositLogic.STATUS_WITHDRAWN;
+    uint8 public constant STATUS_EARLY_WITHDRAWN = DepositLogic.STATUS_EARLY_WITHDRAWN;
+    uint8 public constant STATUS_RENEWED = DepositLogic.STATUS_RENEWED;
+    uint8 public constant STATUS_SPLIT = DepositLogic.STATUS_SPLIT;
+    uint8 public constant STATUS_MERGED = DepositLogic.STATUS_MERGED;
+
+    // Roles (DEFAULT_ADMIN_ROLE grants/revokes them and registers assets)
+    bytes32 public constant PLAN_MANAGER_ROLE = keccak256("PLAN_MANAGER_ROLE"); // create/update/enable plans
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");       // fund/withdraw InterestVaults
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");             // guardian: pause/unpause
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");             // performAutoRenew
+    // Held by SavingsTimelock only: rate changes, vault withdrawals. Administered by itself, so
+    // DEFAULT_ADMIN_ROLE cannot grant it; only a timelocked call can hand it to another timelock
+    bytes32 public constant TIMELOCK_ROLE = keccak256("TIMELOCK_ROLE");
 
     // ==================== EVENTS ====================
 
@@ -134,55 +266,164 @@ contract SavingsBank is
         uint256 interest,
         bool isEarly
     );
+    event DepositIncreased(
+        uint256 indexed depositId,
+        address indexed owner,
+        uint256 amount,
+        uint256 newPrincipal,
+        uint256 newMaturityTime
+    );
+    event PartialWithdrawn(
+        uint256 indexed depositId,
+        address indexed owner,
+        uint256 amount,
+        uint256 interest,
+        uint256 penalty,
+        uint256 remainingPrincipal
+    );
     event AutoRenewed(
         uint256 indexed oldDepositId,
         uint256 indexed newDepositId,
         uint256 newPrincipal,
         uint256 lockedAprBps
     );
+    event RolledOver(
+        uint256 indexed oldDepositId,
+        uint256 indexed newDepositId,
+        uint256 indexed newPlanId,
+        uint256 newPrincipal,
+        uint256 interestPaid,
+        uint256 lockedAprBps
+    );
+    event DepositSplit(uint256 indexed depositId, uint256 indexed newDepositId, uint256 principal);
+    event DepositMerged(uint256 indexed depositId, uint256 indexed newDepositId, uint256 principal);
     event VaultFunded(uint256 amount);
     event VaultWithdrawn(uint256 amount);
+    event AssetAdded(address indexed asset, address tokenVault, address interestVault, uint8 decimals);
+    event AssetWhitelisted(address indexed asset, bool whitelisted);
+    event AssetVaultFunded(address indexed asset, uint256 amount);
+    event AssetVaultWithdrawn(address indexed asset, uint256 amount);
     event DepositNFTUpdated(address indexed newDepositNFT);
+    event DepositTransferred(uint256 indexed depositId, address indexed from, address indexed to);
+    event MigrationOpened(uint256 endsAt);
+    event MigrationClosed();
+    event VaultsExported(address indexed asset, address indexed newSavingsBank, uint256 principal, uint256 interest);
 
-    // ==================== CONSTRUCTOR ====================
+    // ==================== CONSTRUCTOR / INITIALIZER ====================
 
     /**
-     * @dev Initialize SavingsBank
+     * @dev Implementation constructor: fixes the trusted forwarder and locks the implementation
+     * @param _trustedForwarder ERC-2771 forwarder allowed to relay signed user requests
+     *        (immutable per implementation; address(0) disables meta-transactions)
+     * @custom:oz-upgrades-unsafe-allow constructor
+     */
+    constructor(address _trustedForwarder) ERC2771ContextUpgradeable(_trustedForwarder) {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize SavingsBank (called once through the proxy)
+     * @notice The caller receives DEFAULT_ADMIN_ROLE and every operational role so the
+     *         system can be configured; deploy/06 hands roles to their holders afterwards.
+     *         TIMELOCK_ROLE goes to `_timelock` only and is its own admin role
      * @param _usdc USDC token address
      * @param _tokenVault TokenVault address
      * @param _interestVault InterestVault address
-     * @param _depositNFT DepositNFT address
+     * @param _depositNFT DepositNFT address, or address(0) to wire it later with setDepositNFT
+     *        (DepositNFT takes the bank address in its constructor)
+     * @param _timelock SavingsTimelock, the only holder of TIMELOCK_ROLE
      */
-    constructor(
+    function initialize(
         address _usdc,
         address _tokenVault,
         address _interestVault,
-        address _depositNFT
-    ) Ownable(msg.sender) {
+        address _depositNFT,
+        address _timelock
+    ) external initializer {
+        __AccessControl_init();
+        __Pausable_init();
+        __ReentrancyGuard_init();
+
         require(_usdc != address(0), "SavingsBank: Invalid USDC");
         require(_tokenVault != address(0), "SavingsBank: Invalid TokenVault");
         require(_interestVault != address(0), "SavingsBank: Invalid InterestVault");
-        require(_depositNFT != address(0), "SavingsBank: Invalid DepositNFT");
+        require(_timelock != address(0), "SavingsBank: Invalid timelock");
 
         usdc = IERC20(_usdc);
         tokenVault = ITokenVault(_tokenVault);
         interestVault = IInterestVault(_interestVault);
         depositNFT = IDepositNFT(_depositNFT);
+        _addAsset(_usdc, _tokenVault, _interestVault);
 
         nextPlanId = 1;
         nextDepositId = 1;
+
+        bytes32[5] memory deployerRoles = [
+            DEFAULT_ADMIN_ROLE,
+            PLAN_MANAGER_ROLE,
+            TREASURER_ROLE,
+            PAUSER_ROLE,
+            KEEPER_ROLE
+        ];
+        for (uint256 i = 0; i < deployerRoles.length; i++) {
+            _grantRole(deployerRoles[i], msg.sender);
+        }
+        _setRoleAdmin(TIMELOCK_ROLE, TIMELOCK_ROLE);
+        _grantRole(TIMELOCK_ROLE, _timelock);
     }
 
     // ==================== ADMIN FUNCTIONS ====================
 
     /**
-     * @dev Create new saving plan
+     * @dev Register a new deposit asset with its own vault pair
+     * @notice Both vaults must hold `asset` and be owned by this contract before deposits open
+     * @param asset ERC20 token address
+     * @param _tokenVault TokenVault deployed for `asset`
+     * @param _interestVault InterestVault deployed for `asset`
+     */
+    function addAsset(address asset, address _tokenVault, address _interestVault) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _addAsset(asset, _tokenVault, _interestVault);
+    }
+
+    /**
+     * @dev Whitelist or delist an asset
+     * @notice Delisting blocks new plans, deposits and top-ups; existing deposits can
+     *         still withdraw and auto-renew
+     * @param asset Asset address
+     * @param whitelisted Whitelist status
+     */
+    function setAssetWhitelisted(address asset, bool whitelisted) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(address(assets[asset].tokenVault) != address(0), "SavingsBank: Asset not found");
+
+        assets[asset].isWhitelisted = whitelisted;
+
+        emit AssetWhitelisted(asset, whitelisted);
+    }
+
+    /**
+     * @dev Wire the certificate NFT once, when the bank was initialized without one
+     * @notice Lets DepositNFT be deployed after the bank (its constructor takes the bank address).
+     *         The NFT must be owned by the bank before the first deposit; deposits revert until it is set.
+     * @param _depositNFT DepositNFT address
+     */
+    function setDepositNFT(address _depositNFT) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(address(depositNFT) == address(0), "SavingsBank: DepositNFT already set");
+        require(_depositNFT != address(0), "SavingsBank: Invalid DepositNFT");
+
+        depositNFT = IDepositNFT(_depositNFT);
+
+        emit DepositNFTUpdated(_depositNFT);
+    }
+
+    /**
+     * @dev Create new USDC saving plan
      * @param name Plan name
      * @param durationDays Duration in days
      * @param minDeposit Minimum deposit amount
      * @param maxDeposit Maximum deposit amount
      * @param aprBps APR in basis points
      * @param earlyWithdrawPenaltyBps Early withdraw penalty in basis points
+     * @param limits Opening window, capacity and per-wallet limits (all zero = unlimited)
      */
     function createPlan(
         string memory name,
@@ -190,48 +431,174 @@ contract SavingsBank is
         uint256 minDeposit,
         uint256 maxDeposit,
         uint256 aprBps,
-        uint256 earlyWithdrawPenaltyBps
-    ) external onlyOwner returns (uint256) {
-        require(bytes(name).length > 0, "SavingsBank: Empty name");
-        require(durationDays > 0, "SavingsBank: Invalid duration");
-        require(minDeposit > 0, "SavingsBank: Invalid minDeposit");
-        require(maxDeposit >= minDeposit, "SavingsBank: Invalid maxDeposit");
-        require(aprBps > 0 && aprBps <= BPS_DENOMINATOR, "SavingsBank: Invalid APR");
-        require(earlyWithdrawPenaltyBps <= BPS_DENOMINATOR, "SavingsBank: Invalid penalty");
-
-        uint256 planId = nextPlanId++;
-
-        savingPlans[planId] = SavingPlan({
-            name: name,
-            durationDays: durationDays,
-            minDeposit: minDeposit,
-            maxDeposit: maxDeposit,
-            aprBps: aprBps,
-            earlyWithdrawPenaltyBps: earlyWithdrawPenaltyBps,
-            isActive: true
-        });
+        uint256 earlyWithdrawPenaltyBps,
+        PlanLimits calldata limits
+    ) external onlyRole(PLAN_MANAGER_ROLE) returns (uint256) {
+        return
+            _createPlan(address(usdc), name, durationDays, minDeposit, maxDeposit, aprBps, earlyWithdrawPenaltyBps, limits);
+    }
 
-        emit PlanCreated(planId, name);
-        return planId;
+    /**
+     * @dev Create new saving plan for a whitelisted asset
+     * @param asset Deposit token (min/max deposit are in its decimals)
+     * @param name Plan name
+     * @param durationDays Duration in days
+     * @param minDeposit Minimum deposit amount
+     * @param maxDeposit Maximum deposit amount
+     * @param aprBps APR in basis points
+     * @param earlyWithdrawPenaltyBps Early withdraw penalty in basis points
+     * @param limits Opening window, capacity and per-wallet limits (all zero = unlimited)
+     */
+    function createAssetPlan(
+        address asset,
+        string memory name,
+        uint256 durationDays,
+        uint256 minDeposit,
+        uint256 maxDeposit,
+        uint256 aprBps,
+        uint256 earlyWithdrawPenaltyBps,
+        PlanLimits calldata limits
+    ) external onlyRole(PLAN_MANAGER_ROLE) returns (uint256) {
+        return _createPlan(asset, name, durationDays, minDeposit, maxDeposit, aprBps, earlyWithdrawPenaltyBps, limits);
     }
 
     /**
      * @dev Update existing plan
+     * @notice Timelocked: scheduled on SavingsTimelock so depositors see the new rate, sunset
+     *         date or limits before they apply. Lowering a limit below current usage only blocks
+     *         new deposits; existing certificates are untouched.
      * @param planId Plan ID
      * @param aprBps New APR
      * @param earlyWithdrawPenaltyBps New penalty
+     * @param limits New opening window, capacity and per-wallet limits
      */
     function updatePlan(
         uint256 planId,
         uint256 aprBps,
-        uint256 earlyWithdrawPenaltyBps
-    ) external onlyOwner {
+        uint256 earlyWithdrawPenaltyBps,
+        PlanLimits calldata limits
+    ) external onlyRole(TIMELOCK_ROLE) {
         require(planId < nextPlanId, "SavingsBank: Plan not found");
         require(aprBps > 0 && aprBps <= BPS_DENOMINATOR, "SavingsBank: Invalid APR");
         require(earlyWithdrawPenaltyBps <= BPS_DENOMINATOR, "SavingsBank: Invalid penalty");
+        _requireValidLimits(limits);
 
         savingPlans[planId].aprBps = aprBps;
         savingPlans[planId].earlyWithdrawPenaltyBps = earlyWithdrawPenaltyBps;
+        savingPlans[planId].limits = limits;
+
+        emit PlanUpdated(planId);
+    }
+
+    /**
+     * @dev Set interest mode and day-count convention of a plan
+     * @notice Applies to deposits opened afterwards; existing certificates keep the
+     *         mode they were opened with (also across auto-renewals)
+     * @param planId Plan ID
+     * @param interestMode Simple, DailyCompound or PerSecond
+     * @param dayCount Actual365 or Thirty360 (PerSecond requires Actual365)
+     */
+    function setPlanInterestMode(
+        uint256 planId,
+        InterestCalculator.InterestMode interestMode,
+        InterestCalculator.DayCount dayCount
+    ) external onlyRole(PLAN_MANAGER_ROLE) {
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
+        require(
+            interestMode != InterestCalculator.InterestMode.PerSecond ||
+                dayCount == InterestCalculator.DayCount.Actual365,
+            "SavingsBank: Invalid day count"
+        );
+
+        savingPlans[planId].interestMode = interestMode;
+        savingPlans[planId].dayCount = dayCount;
+
+        emit PlanUpdated(planId);
+    }
+
+    /**
+     * @dev Set the reduced APR paid on early withdrawals of a plan
+     * @notice Early withdrawals receive interest accrued up to the withdrawal time at
+     *         this rate (plan's interest mode), minus the principal penalty. 0 disables it.
+     *         Timelocked like updatePlan.
+     * @param planId Plan ID
+     * @param earlyRateBps Early rate in basis points (<= plan APR)
+     */
+    function setPlanEarlyRate(uint256 planId, uint256 earlyRateBps) external onlyRole(TIMELOCK_ROLE) {
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
+        require(earlyRateBps <= savingPlans[planId].aprBps, "SavingsBank: Invalid early rate");
+
+        savingPlans[planId].earlyRateBps = earlyRateBps;
+
+        emit PlanUpdated(planId);
+    }
+
+    /**
+     * @dev Replace the amount-based APR tiers of a plan
+     * @notice openDeposit locks the rate of the highest tier whose minAmount is <= the amount
+     *         (plan APR below the first tier). Existing certificates keep their locked APR.
+     *         Timelocked like updatePlan.
+     * @param planId Plan ID
+     * @param tiers Up to MAX_APR_TIERS tiers, strictly ascending by minAmount (empty = no tiers)
+     */
+    function setPlanAprTiers(uint256 planId, AprTier[] calldata tiers) external onlyRole(TIMELOCK_ROLE) {
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
+
+        DepositLogic.setAprTiers(planAprTiers[planId], tiers);
+
+        emit PlanUpdated(planId);
+    }
+
+    /**
+     * @dev Set the loyalty bonus of a plan's auto-renewals
+     * @notice The n-th consecutive renewal locks the renewed certificate's base APR plus
+     *         min(n * renewalBonusBps, maxRenewalBonusBps). Withdrawing ends the chain.
+     *         Timelocked like updatePlan.
+     * @param planId Plan ID
+     * @param renewalBonusBps Extra APR per renewal in basis points (0 = no bonus)
+     * @param maxRenewalBonusBps Cap of the accumulated bonus in basis points
+     */
+    function setPlanRenewalBonus(
+        uint256 planId,
+        uint256 renewalBonusBps,
+        uint256 maxRenewalBonusBps
+    ) external onlyRole(TIMELOCK_ROLE) {
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
+        require(
+            renewalBonusBps <= maxRenewalBonusBps && maxRenewalBonusBps <= BPS_DENOMINATOR,
+            "SavingsBank: Invalid renewal bonus"
+        );
+
+        savingPlans[planId].renewalBonusBps = renewalBonusBps;
+        savingPlans[planId].maxRenewalBonusBps = maxRenewalBonusBps;
+
+        emit PlanUpdated(planId);
+    }
+
+    /**
+     * @dev Set how increaseDeposit treats the maturity of a plan's certificates
+     * @param planId Plan ID
+     * @param topUpPolicy Reweight or Restart
+     */
+    function setPlanTopUpPolicy(uint256 planId, TopUpPolicy topUpPolicy) external onlyRole(PLAN_MANAGER_ROLE) {
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
+
+        savingPlans[planId].topUpPolicy = topUpPolicy;
+
+        emit PlanUpdated(planId);
+    }
+
+    /**
+     * @dev Make the certificates of a plan non-transferable (soulbound, ERC-5192)
+     * @notice Applies to certificates minted from now on, including renewals, rollovers into the plan,
+     *         split parts and merges; NFTs already minted keep their lock status.
+     * @param planId Plan ID
+     * @param soulbound Lock new certificates of the plan to their holder
+     */
+    function setPlanSoulbound(uint256 planId, bool soulbound) external onlyRole(PLAN_MANAGER_ROLE) {
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
+
+        savingPlans[planId].soulbound = soulbound;
 
         emit PlanUpdated(planId);
     }
@@ -241,7 +608,7 @@ contract SavingsBank is
      * @param planId Plan ID
      * @param enabled Enable status
      */
-    function enablePlan(uint256 planId, bool enabled) external onlyOwner {
+    function enablePlan(uint256 planId, bool enabled) external onlyRole(PLAN_MANAGER_ROLE) {
         require(planId < nextPlanId, "SavingsBank: Plan not found");
 
         savingPlans[planId].isActive = enabled;
@@ -253,43 +620,184 @@ contract SavingsBank is
      * @dev Fund InterestVault with liquidity
      * @param amount Amount to fund
      */
-    function fundVault(uint256 amount) external onlyOwner nonReentrant {
+    function fundVault(uint256 amount) external onlyRole(TREASURER_ROLE) nonReentrant {
         require(amount > 0, "SavingsBank: Amount must be > 0");
 
         // Transfer from admin to InterestVault
-        interestVault.deposit(msg.sender, amount);
+        interestVault.deposit(_msgSender(), amount);
 
         emit VaultFunded(amount);
     }
 
     /**
-     * @dev Withdraw from InterestVault
+     * @dev Withdraw from InterestVault (timelocked)
+     * @param to Recipient (treasury wallet; the timelock itself never holds funds)
      * @param amount Amount to withdraw
      */
-    function withdrawVault(uint256 amount) external onlyOwner nonReentrant {
+    function withdrawVault(address to, uint256 amount) external onlyRole(TIMELOCK_ROLE) nonReentrant {
+        require(to != address(0), "SavingsBank: Invalid recipient");
         require(amount > 0, "SavingsBank: Amount must be > 0");
         require(amount <= interestVault.availableBalance(), "SavingsBank: Insufficient available funds");
 
-        // Transfer from InterestVault to admin
-        interestVault.withdraw(msg.sender, amount);
+        // Transfer from InterestVault to treasury
+        interestVault.withdraw(to, amount);
 
         emit VaultWithdrawn(amount);
     }
 
+    /**
+     * @dev Fund the InterestVault of an asset with liquidity
+     * @param asset Asset address
+     * @param amount Amount to fund (approve the asset's InterestVault first)
+     */
+    function fundAssetVault(address asset, uint256 amount) external onlyRole(TREASURER_ROLE) nonReentrant {
+        require(amount > 0, "SavingsBank: Amount must be > 0");
+        IInterestVault vault = assets[asset].interestVault;
+        require(address(vault) != address(0), "SavingsBank: Asset not found");
+
+        vault.deposit(_msgSender(), amount);
+
+        emit AssetVaultFunded(asset, amount);
+    }
+
+    /**
+     * @dev Withdraw unreserved liquidity from the InterestVault of an asset (timelocked)
+     * @param asset Asset address
+     * @param to Recipient (treasury wallet)
+     * @param amount Amount to withdraw
+     */
+    function withdrawAssetVault(
+        address asset,
+        address to,
+        uint256 amount
+    ) external onlyRole(TIMELOCK_ROLE) nonReentrant {
+        require(to != address(0), "SavingsBank: Invalid recipient");
+        require(amount > 0, "SavingsBank: Amount must be > 0");
+        IInterestVault vault = assets[asset].interestVault;
+        require(address(vault) != address(0), "SavingsBank: Asset not found");
+        require(amount <= vault.availableBalance(), "SavingsBank: Insufficient available funds");
+
+        vault.withdraw(to, amount);
+
+        emit AssetVaultWithdrawn(asset, amount);
+    }
+
     /**
      * @dev Pause contract
      */
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
     /**
      * @dev Unpause contract
      */
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        require(migratedTo == address(0), "SavingsBank: Migrated");
         _unpause();
     }
 
+    // ==================== MIGRATION ====================
+
+    /**
+     * @dev Open the one-time window in which plans and deposits of an old deployment are imported
+     * @notice Only on a bank that has no deposits yet; openDeposit is blocked while the window is open
+     * @param duration Window length in seconds (max MAX_MIGRATION_WINDOW)
+     */
+    function openMigration(uint256 duration) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(migrationEndsAt == 0, "SavingsBank: Migration already opened");
+        require(nextDepositId == 1, "SavingsBank: Deposits exist");
+        require(duration > 0 && duration <= MAX_MIGRATION_WINDOW, "SavingsBank: Invalid migration window");
+
+        migrationEndsAt = block.timestamp + duration;
+
+        emit MigrationOpened(migrationEndsAt);
+    }
+
+    /**
+     * @dev Close the import window early (it cannot be reopened)
+     */
+    function closeMigration() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _requireMigrationWindow();
+        migrationEndsAt = block.timestamp;
+
+        emit MigrationClosed();
+    }
+
+    /**
+     * @dev Recreate a plan of the old deployment under the same ID
+     * @notice Plans are imported in ID order, before the deposits that use them
+     * @param planId Plan ID on the old deployment (must equal nextPlanId)
+     * @param plan Plan as exported (asset must be registered here)
+     * @param aprTiers Amount-based APR tiers of the plan (getPlanAprTiers)
+     */
+    function importPlan(
+        uint256 planId,
+        SavingPlan calldata plan,
+        AprTier[] calldata aprTiers
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _requireMigrationWindow();
+        require(planId == nextPlanId, "SavingsBank: Plan out of order");
+        require(address(assets[plan.asset].tokenVault) != address(0), "SavingsBank: Asset not found");
+
+        nextPlanId++;
+        MigrationLogic.importPlan(savingPlans[planId], planAprTiers[planId], planId, plan, aprTiers);
+    }
+
+    /**
+     * @dev Recreate an active certificate of the old deployment under the same ID and mint its NFT
+     * @notice The principal must already sit in the asset's TokenVault (exportVaults on the old bank);
+     *         the full-term interest is reserved again in the asset's InterestVault
+     * @param depositId Deposit ID on the old deployment
+     * @param owner Current NFT owner on the old deployment
+     * @param cert Certificate as exported (status Active, plan already imported)
+     */
+    function importDeposit(
+        uint256 depositId,
+        address owner,
+        DepositCertificate calldata cert
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _requireMigrationWindow();
+        require(depositId > 0 && deposits[depositId].principal == 0, "SavingsBank: Deposit exists");
+        require(owner != address(0), "SavingsBank: Invalid owner");
+        require(cert.planId > 0 && cert.planId < nextPlanId, "SavingsBank: Plan not found");
+
+        depositOwner[depositId] = owner;
+        if (depositId >= nextDepositId) {
+            nextDepositId = depositId + 1;
+        }
+        SavingPlan storage plan = savingPlans[cert.planId];
+        MigrationLogic.importDeposit(
+            deposits[depositId],
+            plan,
+            assets[plan.asset],
+            planUsage[cert.planId],
+            depositNFT,
+            depositId,
+            owner,
+            cert
+        );
+    }
+
+    /**
+     * @dev Move an asset's principal and interest liquidity to the vaults of a new deployment (timelocked)
+     * @notice Old-deployment side of a migration: the bank must be paused and stays paused for good.
+     *         Reservations are released here and recreated by importDeposit on the new bank.
+     * @param asset Asset whose vaults are emptied
+     * @param newSavingsBank New deployment; tokens go to the vaults it registered for `asset`
+     */
+    function exportVaults(
+        address asset,
+        address newSavingsBank
+    ) external onlyRole(TIMELOCK_ROLE) whenPaused nonReentrant {
+        require(newSavingsBank != address(0) && newSavingsBank != address(this), "SavingsBank: Invalid bank");
+        require(migratedTo == address(0) || migratedTo == newSavingsBank, "SavingsBank: Migrated");
+        require(address(assets[asset].tokenVault) != address(0), "SavingsBank: Asset not found");
+
+        migratedTo = newSavingsBank;
+        MigrationLogic.exportVaults(savingPlans, planUsage, nextPlanId, assets[asset], asset, newSavingsBank);
+    }
+
     // ==================== USER FUNCTIONS ====================
 
     /**
@@ -304,45 +812,70 @@ contract SavingsBank is
         uint256 amount,
         bool enableAutoRenew
     ) external nonReentrant whenNotPaused returns (uint256) {
-        require(planId < nextPlanId, "SavingsBank: Plan not found");
-
-        SavingPlan memory plan = savingPlans[planId];
-        require(plan.isActive, "SavingsBank: Plan not active");
-        require(amount >= plan.minDeposit, "SavingsBank: Below minDeposit");
-        require(amount <= plan.maxDeposit, "SavingsBank: Above maxDeposit");
-
-        // Calculate maturity time
-        uint256 maturityTime = block.timestamp + (plan.durationDays * 1 days);
-
-        // Calculate estimated interest and reserve it
-        uint256 estimatedInterest = amount.calculateInterest(plan.aprBps, plan.durationDays);
-
-        // Reserve interest in vault
-        interestVault.reserve(estimatedInterest);
-
-        // Transfer principal to TokenVault
-        tokenVault.deposit(msg.sender, amount);
-
-        // Create deposit certificate
-        uint256 depositId = nextDepositId++;
-        deposits[depositId] = DepositCertificate({
-            planId: planId,
-            principal: amount,
-            startTime: block.timestamp,
-            maturityTime: maturityTime,
-            lockedAprBps: plan.aprBps,
-            isAutoRenewEnabled: enableAutoRenew,
-            status: STATUS_ACTIVE
-        });
+        return _openDeposit(planId, amount, enableAutoRenew);
+    }
 
-        depositOwner[depositId] = msg.sender;
+    /**
+     * @dev Open new deposit using an EIP-2612 permit instead of a prior approve
+     * @notice The permit must approve the plan asset's TokenVault (spender) for at least `amount`.
+     *         If the permit was already used (e.g. front-run), the call still succeeds when the
+     *         existing allowance covers `amount`.
+     * @param planId Plan ID
+     * @param amount Principal amount
+     * @param enableAutoRenew Enable auto-renew
+     * @param deadline Permit deadline
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     * @return depositId New deposit ID
+     */
+    function openDepositWithPermit(
+        uint256 planId,
+        uint256 amount,
+        bool enableAutoRenew,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
 
-        // Mint NFT to user
-        depositNFT.mint(msg.sender);
+        address asset = savingPlans[planId].asset;
+        address spender = address(assets[asset].tokenVault);
+        try IERC20Permit(asset).permit(_msgSender(), spender, amount, deadline, v, r, s) {} catch {
+            require(IERC20(asset).allowance(_msgSender(), spender) >= amount, "SavingsBank: Permit failed");
+        }
 
-        emit DepositOpened(depositId, msg.sender, planId, amount, maturityTime);
+        return _openDeposit(planId, amount, enableAutoRenew);
+    }
 
-        return depositId;
+    /**
+     * @dev Add funds to an active deposit (same NFT, same locked APR and interest mode)
+     * @notice Maturity follows the plan's TopUpPolicy:
+     *         - Reweight: maturity = (principal * maturity + amount * (now + duration)) / newPrincipal
+     *         - Restart: interest accrued so far is compounded, maturity = now + duration
+     *         The term length stays the plan duration, so the reservation is always the
+     *         full-term interest of the new principal.
+     * @param tokenId NFT token ID
+     * @param amount Amount to add (pulled by TokenVault, approve TokenVault first)
+     */
+    function increaseDeposit(uint256 tokenId, uint256 amount) external nonReentrant whenNotPaused {
+        _requireDepositOwner(tokenId);
+        _requireNoMigration();
+
+        DepositCertificate storage cert = deposits[tokenId];
+        SavingPlan storage plan = savingPlans[cert.planId];
+        DepositLogic.increaseDeposit(
+            cert,
+            plan,
+            assets[plan.asset],
+            planUsage[cert.planId],
+            depositNFT,
+            tokenId,
+            amount,
+            _msgSender(),
+            depositOwner[tokenId]
+        );
     }
 
     /**
@@ -355,35 +888,18 @@ contract SavingsBank is
      * @param tokenId NFT token ID (same as depositId)
      */
     function withdraw(uint256 tokenId) external nonReentrant whenNotPaused {
-        uint256 depositId = tokenId;
-        address owner = depositNFT.ownerOf(tokenId);
-        require(owner == msg.sender, "SavingsBank: Not owner");
-
-        DepositCertificate storage cert = deposits[depositId];
-        require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
-        require(block.timestamp >= cert.maturityTime, "SavingsBank: Not matured");
-
-        // Calculate interest using library
-        uint256 duration = cert.maturityTime - cert.startTime;
-        uint256 durationDays = duration / 1 days;
-        uint256 interest = cert.principal.calculateInterest(cert.lockedAprBps, durationDays);
-
-        // Release reserved interest
-        interestVault.release(interest);
-
-        // Update state
-        cert.status = STATUS_WITHDRAWN;
-
-        // Transfer principal from TokenVault
-        tokenVault.withdraw(msg.sender, cert.principal);
-
-        // Transfer interest from InterestVault
-        interestVault.withdraw(msg.sender, interest);
-
-        // Burn NFT
-        depositNFT.burn(tokenId);
-
-        emit Withdrawn(depositId, msg.sender, cert.principal, interest, false);
+        _requireDepositOwner(tokenId);
+
+        DepositCertificate storage cert = deposits[tokenId];
+        DepositLogic.withdraw(
+            cert,
+            assets[savingPlans[cert.planId].asset],
+            planUsage[cert.planId],
+            depositNFT,
+            tokenId,
+            _msgSender(),
+            depositOwner[tokenId]
+        );
     }
 
     /**
@@ -391,41 +907,46 @@ contract SavingsBank is
      * @param tokenId NFT token ID
      */
     function earlyWithdraw(uint256 tokenId) external nonReentrant whenNotPaused {
-        uint256 depositId = tokenId;
-        address owner = depositNFT.ownerOf(tokenId);
-        require(owner == msg.sender, "SavingsBank: Not owner");
-
-        DepositCertificate storage cert = deposits[depositId];
-        require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
-        require(block.timestamp < cert.maturityTime, "SavingsBank: Already matured");
-
-        SavingPlan memory plan = savingPlans[cert.planId];
-
-        // Calculate penalty using library
-        uint256 penalty = cert.principal.calculatePenalty(plan.earlyWithdrawPenaltyBps);
-        uint256 userReceives = cert.principal - penalty;
-
-        // Release reserved interest (no interest paid on early withdraw)
-        uint256 duration = cert.maturityTime - cert.startTime;
-        uint256 durationDays = duration / 1 days;
-        uint256 reservedInterest = cert.principal.calculateInterest(cert.lockedAprBps, durationDays);
-        interestVault.release(reservedInterest);
-
-        // Update status
-        cert.status = STATUS_EARLY_WITHDRAWN;
-
-        // Transfer principal minus penalty to user
-        tokenVault.withdraw(msg.sender, userReceives);
-
-        // Transfer penalty to InterestVault (boosts liquidity)
-        tokenVault.withdraw(address(this), penalty);
-        usdc.approve(address(interestVault), penalty);
-        interestVault.deposit(address(this), penalty);
-
-        // Burn NFT
-        depositNFT.burn(tokenId);
+        _requireDepositOwner(tokenId);
+
+        DepositCertificate storage cert = deposits[tokenId];
+        SavingPlan storage plan = savingPlans[cert.planId];
+        DepositLogic.earlyWithdraw(
+            cert,
+            plan,
+            assets[plan.asset],
+            planUsage[cert.planId],
+            depositNFT,
+            tokenId,
+            _msgSender(),
+            depositOwner[tokenId]
+        );
+    }
 
-        emit Withdrawn(depositId, msg.sender, cert.principal, 0, true);
+    /**
+     * @dev Withdraw part of the principal before maturity
+     * @notice The penalty (and early-rate interest) applies only to `amount`. The remaining principal keeps its
+     *         lockedAprBps, interest mode and maturityTime (same NFT); the InterestVault
+     *         reservation shrinks to the interest of the remaining principal.
+     * @param tokenId NFT token ID
+     * @param amount Principal to withdraw (use earlyWithdraw to close the whole deposit)
+     */
+    function partialEarlyWithdraw(uint256 tokenId, uint256 amount) external nonReentrant whenNotPaused {
+        _requireDepositOwner(tokenId);
+
+        DepositCertificate storage cert = deposits[tokenId];
+        SavingPlan storage plan = savingPlans[cert.planId];
+        DepositLogic.partialEarlyWithdraw(
+            cert,
+            plan,
+            assets[plan.asset],
+            planUsage[cert.planId],
+            depositNFT,
+            tokenId,
+            amount,
+            _msgSender(),
+            depositOwner[tokenId]
+        );
     }
 
     /**
@@ -434,7 +955,7 @@ contract SavingsBank is
      *         - Only works within grace period (2 days after maturity)
      *         - Locks the OLD APR rate (protection against admin changes)
      *         - Compounds interest (new principal = old principal + interest)
-     *         - Can be called by user manually or by automation (Chainlink/Gelato)
+     *         - Called by the NFT owner; automation uses performAutoRenew()
      * @param tokenId NFT token ID
      * @return newDepositId New deposit ID after renewal
      */
@@ -444,76 +965,157 @@ contract SavingsBank is
         whenNotPaused
         returns (uint256)
     {
-        uint256 depositId = tokenId;
-        address owner = depositNFT.ownerOf(tokenId);
-        require(owner == msg.sender, "SavingsBank: Not owner");
+        address owner = _requireDepositOwner(tokenId);
+        _requireNoMigration();
 
-        DepositCertificate storage oldCert = deposits[depositId];
-        require(oldCert.status == STATUS_ACTIVE, "SavingsBank: Not active");
-        require(oldCert.isAutoRenewEnabled, "SavingsBank: Auto-renew not enabled");
-        require(block.timestamp >= oldCert.maturityTime, "SavingsBank: Not matured");
-        require(
-            block.timestamp <= oldCert.maturityTime + AUTO_RENEW_GRACE_PERIOD,
-            "SavingsBank: Grace period expired"
-        );
-
-        // Calculate interest using library
-        uint256 duration = oldCert.maturityTime - oldCert.startTime;
-        uint256 durationDays = duration / 1 days;
-        uint256 interest = oldCert.principal.calculateInterest(oldCert.lockedAprBps, durationDays);
-        uint256 newPrincipal = oldCert.principal + interest;
-
-        // Get original plan to get duration (duration doesn't change on auto-renew)
-        SavingPlan memory originalPlan = savingPlans[oldCert.planId];
-        require(originalPlan.durationDays > 0, "SavingsBank: Invalid plan");
-
-        // Validate new principal against current plan limits
-        require(newPrincipal >= originalPlan.minDeposit, "SavingsBank: Below minDeposit");
-        require(newPrincipal <= originalPlan.maxDeposit, "SavingsBank: Above maxDeposit");
-
-        // AUTO-RENEW: Lock OLD APR and duration (regardless of admin updates)
-        uint256 lockedAprBps = oldCert.lockedAprBps;
-        uint256 lockedDurationDays = originalPlan.durationDays;
-
-        // Release old reserved interest
-        interestVault.release(interest);
+        return _autoRenew(tokenId, owner);
+    }
 
-        // Calculate new maturity time
-        uint256 newMaturityTime = block.timestamp + (lockedDurationDays * 1 days);
+    /**
+     * @dev Move a matured deposit into another plan (or the same one) at its current rate
+     * @notice Explicit alternative to autoRenew / withdraw + openDeposit, available any time after
+     *         maturity: the principal never leaves TokenVault. The new plan must be active, open,
+     *         in the same asset and within its limits; its current APR (tier of the new principal),
+     *         duration and interest mode are locked into a new certificate. The old interest is
+     *         compounded or, with `withdrawInterest`, paid to the owner.
+     * @param tokenId NFT token ID
+     * @param newPlanId Plan to move into
+     * @param withdrawInterest Pay the interest out instead of compounding it
+     * @return newDepositId New deposit ID
+     */
+    function rollover(uint256 tokenId, uint256 newPlanId, bool withdrawInterest)
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256)
+    {
+        _requireDepositOwner(tokenId);
+        _requireNoMigration();
+        require(newPlanId < nextPlanId, "SavingsBank: Plan not found");
 
-        // Reserve new interest using LOCKED APR
-        uint256 newEstimatedInterest = newPrincipal.calculateInterest(lockedAprBps, lockedDurationDays);
-        interestVault.reserve(newEstimatedInterest);
+        DepositCertificate storage oldCert = deposits[tokenId];
+        SavingPlan storage newPlan = savingPlans[newPlanId];
+        require(newPlan.asset == savingPlans[oldCert.planId].asset, "SavingsBank: Asset mismatch");
 
-        // Transfer interest from InterestVault to TokenVault (compound interest)
-        interestVault.withdraw(address(this), interest);
-        usdc.approve(address(tokenVault), interest);
-        tokenVault.deposit(address(this), interest);
+        uint256 newDepositId = nextDepositId++;
+        depositOwner[newDepositId] = _msgSender();
+        DepositLogic.rollover(
+            oldCert,
+            deposits[newDepositId],
+            newPlan,
+            assets[newPlan.asset],
+            planUsage[oldCert.planId],
+            planUsage[newPlanId],
+            planAprTiers[newPlanId],
+            depositNFT,
+            tokenId,
+            newDepositId,
+            newPlanId,
+            withdrawInterest,
+            _msgSender(),
+            depositOwner[tokenId]
+        );
 
-        // Update old certificate status
-        oldCert.status = STATUS_RENEWED;
+        return newDepositId;
+    }
 
-        // Burn old NFT
-        depositNFT.burn(tokenId);
+    /**
+     * @dev Split a certificate into several, each with its own NFT (e.g. to gift or sell part of it)
+     * @notice Before maturity only. The parts keep the plan, start and maturity, lockedAprBps, interest mode,
+     *         auto-renew flag and renewal chain; each must be >= the plan's minDeposit and together they must
+     *         add up to the principal. The original NFT is burned and the parts get consecutive IDs.
+     *         The parts count against the plan's maxDepositsPerUser (the original no longer does).
+     *         Every part rounds its interest down, so their full-term interest may be up to
+     *         `amounts.length - 1` units below the original; that dust is released from the reservation.
+     * @param tokenId NFT token ID
+     * @param amounts Principal of each new certificate (2 to MAX_SPLIT_PARTS parts)
+     * @return firstDepositId ID of the first part (the others follow in order)
+     */
+    function splitDeposit(uint256 tokenId, uint256[] calldata amounts)
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256 firstDepositId)
+    {
+        address owner = _requireDepositOwner(tokenId);
+        _requireNoMigration();
+
+        SavingPlan storage plan = savingPlans[deposits[tokenId].planId];
+        firstDepositId = nextDepositId;
+        nextDepositId += amounts.length;
+        DepositLogic.split(
+            deposits,
+            depositOwner,
+            plan,
+            assets[plan.asset],
+            planUsage[deposits[tokenId].planId],
+            depositNFT,
+            tokenId,
+            firstDepositId,
+            amounts,
+            owner
+        );
+    }
 
-        // Create new deposit with LOCKED APR
-        uint256 newDepositId = nextDepositId++;
-        deposits[newDepositId] = DepositCertificate({
-            planId: oldCert.planId,  // Keep same plan ID
-            principal: newPrincipal,
-            startTime: block.timestamp,
-            maturityTime: newMaturityTime,
-            lockedAprBps: lockedAprBps,  // LOCKED APR (protection for user)
-            isAutoRenewEnabled: oldCert.isAutoRenewEnabled,  // Preserve setting
-            status: STATUS_ACTIVE
-        });
+    /**
+     * @dev Merge certificates of the same plan and maturity into one new certificate and NFT
+     * @notice Before maturity only. The certificates must also share their locked APR (including any
+     *         loyalty bonus) and interest mode, and the merged principal must be <= the plan's maxDeposit.
+     *         The reservation becomes the full-term interest of the merged principal, exactly what a
+     *         single certificate of that principal would reserve. Merging only lowers the caller's
+     *         certificate count, so plan limits are not checked.
+     * @param tokenIds NFT token IDs, all held by the caller (2 to MAX_SPLIT_PARTS)
+     * @return newDepositId Merged deposit ID
+     */
+    function mergeDeposits(uint256[] calldata tokenIds)
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256 newDepositId)
+    {
+        require(tokenIds.length >= 2, "SavingsBank: Invalid merge");
+        _requireNoMigration();
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            _requireDepositOwner(tokenIds[i]);
+        }
 
-        // Mint new NFT
-        depositNFT.mint(msg.sender);
+        uint256 planId = deposits[tokenIds[0]].planId;
+        SavingPlan storage plan = savingPlans[planId];
+        newDepositId = nextDepositId++;
+        depositOwner[newDepositId] = _msgSender();
+        DepositLogic.merge(
+            deposits,
+            depositOwner,
+            plan,
+            assets[plan.asset],
+            planUsage[planId],
+            depositNFT,
+            tokenIds,
+            newDepositId,
+            _msgSender()
+        );
+    }
 
-        emit AutoRenewed(depositId, newDepositId, newPrincipal, lockedAprBps);
+    /**
+     * @dev Keeper entry point for auto-renew (Chainlink Automation / Gelato)
+     * @notice KEEPER_ROLE executes a renewal the owner opted into via isAutoRenewEnabled.
+     *         Same checks as autoRenew (matured, within grace period); the new
+     *         certificate is minted to the current NFT owner, never to the caller.
+     * @param performData abi.encode(depositId), as returned by checkAutoRenew
+     * @return newDepositId New deposit ID after renewal
+     */
+    function performAutoRenew(bytes calldata performData)
+        external
+        onlyRole(KEEPER_ROLE)
+        nonReentrant
+        whenNotPaused
+        returns (uint256)
+    {
+        _requireNoMigration();
+        uint256 tokenId = abi.decode(performData, (uint256));
+        address owner = depositNFT.ownerOf(tokenId);
 
-        return newDepositId;
+        return _autoRenew(tokenId, owner);
     }
 
     /**
@@ -523,8 +1125,7 @@ contract SavingsBank is
      */
     function setAutoRenew(uint256 tokenId, bool enabled) external {
         uint256 depositId = tokenId;
-        address owner = depositNFT.ownerOf(tokenId);
-        require(owner == msg.sender, "SavingsBank: Not owner");
+        _requireDepositOwner(tokenId);
 
         DepositCertificate storage cert = deposits[depositId];
         require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
@@ -532,6 +1133,20 @@ contract SavingsBank is
         cert.isAutoRenewEnabled = enabled;
     }
 
+    /**
+     * @dev DepositNFT transfer hook: the certificate's holder (depositOwner) and its plan usage follow the NFT
+     * @notice Called by DepositNFT on every transfer (not on mint or burn); soulbound NFTs never get here.
+     *         Not paused or reentrancy-guarded: it only moves bookkeeping and must not block transfers.
+     * @param tokenId NFT token ID
+     * @param from Previous holder
+     * @param to New holder
+     */
+    function onDepositTransfer(uint256 tokenId, address from, address to) external {
+        require(msg.sender == address(depositNFT), "SavingsBank: Only DepositNFT");
+
+        DepositLogic.transferCertificate(deposits, depositOwner, planUsage, tokenId, from, to);
+    }
+
     /**
      * @dev Check if deposit needs auto-renew (for Chainlink Automation / Gelato)
      * @param depositId Deposit ID to check
@@ -548,15 +1163,7 @@ contract SavingsBank is
             return (false, "");
         }
 
-        DepositCertificate memory cert = deposits[depositId];
-
-        // Check all conditions for auto-renew
-        upkeepNeeded = (
-            cert.status == STATUS_ACTIVE &&
-            cert.isAutoRenewEnabled &&
-            block.timestamp >= cert.maturityTime &&
-            block.timestamp <= cert.maturityTime + AUTO_RENEW_GRACE_PERIOD
-        );
+        upkeepNeeded = _canAutoRenew(deposits[depositId]);
 
         if (upkeepNeeded) {
             performData = abi.encode(depositId);
@@ -585,14 +1192,7 @@ contract SavingsBank is
                 continue;
             }
 
-            DepositCertificate memory cert = deposits[depositId];
-
-            needsRenewal[i] = (
-                cert.status == STATUS_ACTIVE &&
-                cert.isAutoRenewEnabled &&
-                block.timestamp >= cert.maturityTime &&
-                block.timestamp <= cert.maturityTime + AUTO_RENEW_GRACE_PERIOD
-            );
+            needsRenewal[i] = _canAutoRenew(deposits[depositId]);
         }
 
         return needsRenewal;
@@ -606,31 +1206,31 @@ contract SavingsBank is
      * @return interest Calculated interest
      */
     function calculateInterest(uint256 depositId) public view returns (uint256 interest) {
-        DepositCertificate memory cert = deposits[depositId];
+        DepositCertificate storage cert = deposits[depositId];
         require(cert.principal > 0, "SavingsBank: Deposit not found");
 
-        uint256 duration = cert.maturityTime - cert.startTime;
-        uint256 durationDays = duration / 1 days;
-        return cert.principal.calculateInterest(cert.lockedAprBps, durationDays);
+        return _interestAtMaturity(cert);
     }
 
     /**
-     * @dev Calculate early withdraw amount
+     * @dev Calculate early withdraw amount if the deposit were closed now
      * @param depositId Deposit ID
-     * @return principalMinusPenalty Amount user receives
+     * @return principalMinusPenalty Principal returned to the user
      * @return penalty Penalty amount
+     * @return accruedInterest Interest accrued so far at the plan's early rate
+     * @return netAmount Total user receives (principalMinusPenalty + accruedInterest)
      */
     function calculateEarlyWithdrawAmount(uint256 depositId)
         external
         view
-        returns (uint256 principalMinusPenalty, uint256 penalty)
+        returns (uint256 principalMinusPenalty, uint256 penalty, uint256 accruedInterest, uint256 netAmount)
     {
-        DepositCertificate memory cert = deposits[depositId];
+        DepositCertificate storage cert = deposits[depositId];
         require(cert.principal > 0, "SavingsBank: Deposit not found");
 
-        SavingPlan memory plan = savingPlans[cert.planId];
-        penalty = cert.principal.calculatePenalty(plan.earlyWithdrawPenaltyBps);
+        (penalty, accruedInterest, ) = DepositLogic.earlyWithdrawQuote(cert, savingPlans[cert.planId], cert.principal);
         principalMinusPenalty = cert.principal - penalty;
+        netAmount = principalMinusPenalty + accruedInterest;
     }
 
     /**
@@ -641,6 +1241,23 @@ contract SavingsBank is
         return interestVault.availableBalance();
     }
 
+    /**
+     * @dev Get all supported asset addresses (details via assets())
+     * @return Asset addresses in registration order
+     */
+    function getAssets() external view returns (address[] memory) {
+        return assetList;
+    }
+
+    /**
+     * @dev Get the asset a deposit is denominated in (for DepositNFT metadata)
+     * @param depositId Deposit ID
+     * @return asset Token address of the deposit's plan
+     */
+    function getDepositAsset(uint256 depositId) external view returns (address asset) {
+        return savingPlans[deposits[depositId].planId].asset;
+    }
+
     /**
      * @dev Get all deposit IDs for user (via NFT enumeration)
      * @param user User address
@@ -666,6 +1283,88 @@ contract SavingsBank is
         return savingPlans[planId].name;
     }
 
+    /**
+     * @dev Check whether a plan accepts deposits now (active and inside its opening window)
+     * @param planId Plan ID
+     * @return open True if openDeposit can use the plan (subject to capacity and wallet limits)
+     */
+    function isPlanOpen(uint256 planId) external view returns (bool open) {
+        return DepositLogic.isPlanOpen(savingPlans[planId]);
+    }
+
+    /**
+     * @dev Get the amount-based APR tiers of a plan
+     * @param planId Plan ID
+     * @return tiers Tiers ascending by minAmount (empty = plan APR for every amount)
+     */
+    function getPlanAprTiers(uint256 planId) external view returns (AprTier[] memory tiers) {
+        return planAprTiers[planId];
+    }
+
+    /**
+     * @dev Quote the APR a deposit of `amount` would lock in a plan
+     * @param planId Plan ID
+     * @param amount Deposit amount
+     * @return tier 0 = plan APR (below the first tier or no tiers), i = i-th tier
+     * @return aprBps APR locked into the certificate
+     */
+    function quoteApr(uint256 planId, uint256 amount) external view returns (uint256 tier, uint256 aprBps) {
+        return DepositLogic.quoteApr(savingPlans[planId], planAprTiers[planId], amount);
+    }
+
+    /**
+     * @dev Get the active principal and certificates counted against a plan's limits
+     * @param planId Plan ID
+     * @param wallet Depositor
+     * @return planPrincipal Active principal of the plan
+     * @return walletPrincipal Active principal of `wallet` in the plan
+     * @return walletDeposits Active certificates of `wallet` in the plan
+     */
+    function getPlanUsage(
+        uint256 planId,
+        address wallet
+    ) external view returns (uint256 planPrincipal, uint256 walletPrincipal, uint256 walletDeposits) {
+        PlanUsage storage usage = planUsage[planId];
+        return (usage.principal, usage.walletPrincipal[wallet], usage.walletDeposits[wallet]);
+    }
+
+    /**
+     * @dev Get the capacity left in a plan (type(uint256).max where no limit is set)
+     * @param planId Plan ID
+     * @param wallet Depositor
+     * @return planRemaining Principal the plan still accepts
+     * @return walletRemaining Principal `wallet` may still add
+     * @return depositsRemaining Certificates `wallet` may still open
+     */
+    function getRemainingCapacity(
+        uint256 planId,
+        address wallet
+    ) external view returns (uint256 planRemaining, uint256 walletRemaining, uint256 depositsRemaining) {
+        return DepositLogic.remainingCapacity(savingPlans[planId], planUsage[planId], wallet);
+    }
+
+    /**
+     * @dev Get interest mode locked on a deposit (for DepositNFT metadata)
+     * @param depositId Deposit ID
+     * @return interestMode 0=Simple, 1=DailyCompound, 2=PerSecond
+     * @return dayCount 0=Actual365, 1=Thirty360
+     */
+    function getDepositInterestMode(uint256 depositId) external view returns (uint8 interestMode, uint8 dayCount) {
+        DepositCertificate storage cert = deposits[depositId];
+        return (uint8(cert.interestMode), uint8(cert.dayCount));
+    }
+
+    /**
+     * @dev Get the renewal chain of a deposit (for DepositNFT metadata)
+     * @param depositId Deposit ID
+     * @return renewalCount Consecutive auto-renewals behind the certificate
+     * @return renewalBonusBps Loyalty bonus included in its lockedAprBps
+     */
+    function getDepositRenewal(uint256 depositId) external view returns (uint256 renewalCount, uint256 renewalBonusBps) {
+        DepositCertificate storage cert = deposits[depositId];
+        return (cert.renewalCount, cert.renewalBonusBps);
+    }
+
     /**
      * @dev Get deposit details (for DepositNFT metadata)
      * @param depositId Deposit ID
@@ -690,7 +1389,7 @@ contract SavingsBank is
             uint8 status
         )
     {
-        DepositCertificate memory cert = deposits[depositId];
+        DepositCertificate storage cert = deposits[depositId];
         return (
             cert.planId,
             cert.principal,
@@ -720,7 +1419,7 @@ contract SavingsBank is
             bool gracePeriodExpired
         )
     {
-        DepositCertificate memory cert = deposits[depositId];
+        DepositCertificate storage cert = deposits[depositId];
 
         isMatured = block.timestamp >= cert.maturityTime;
         gracePeriodExpired = block.timestamp > cert.maturityTime + AUTO_RENEW_GRACE_PERIOD;
@@ -728,15 +1427,201 @@ contract SavingsBank is
         // Can withdraw if active and matured
         canWithdraw = (cert.status == STATUS_ACTIVE && isMatured);
 
-        // Can auto-renew if active, auto-renew enabled, matured, and within grace period
-        canAutoRenew = (
+        canAutoRenew = _canAutoRenew(cert);
+
+        return (canWithdraw, canAutoRenew, isMatured, gracePeriodExpired);
+    }
+
+    // ================== INTERNAL FUNCTIONS ====================
+
+    /**
+     * @dev ERC-2771: the signer of a relayed request when called by the trusted forwarder
+     */
+    function _msgSender()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (address)
+    {
+        return ERC2771ContextUpgradeable._msgSender();
+    }
+
+    function _msgData()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (bytes calldata)
+    {
+        return ERC2771ContextUpgradeable._msgData();
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (uint256)
+    {
+        return ERC2771ContextUpgradeable._contextSuffixLength();
+    }
+
+    /**
+     * @dev Register `asset` with its vault pair (whitelisted)
+     */
+    function _addAsset(address asset, address _tokenVault, address _interestVault) internal {
+        require(asset != address(0), "SavingsBank: Invalid asset");
+        require(address(assets[asset].tokenVault) == address(0), "SavingsBank: Asset exists");
+        require(
+            address(ITokenVault(_tokenVault).usdc()) == asset &&
+                address(IInterestVault(_interestVault).usdc()) == asset,
+            "SavingsBank: Vault asset mismatch"
+        );
+
+        uint8 decimals = IERC20Metadata(asset).decimals();
+        assets[asset] = AssetConfig({
+            tokenVault: ITokenVault(_tokenVault),
+            interestVault: IInterestVault(_interestVault),
+            decimals: decimals,
+            isWhitelisted: true
+        });
+        assetList.push(asset);
+
+        emit AssetAdded(asset, _tokenVault, _interestVault, decimals);
+    }
+
+    /**
+     * @dev Open deposit for the caller (shared by openDeposit and openDepositWithPermit)
+     */
+    function _openDeposit(uint256 planId, uint256 amount, bool enableAutoRenew) internal returns (uint256) {
+        _requireNoMigration();
+        require(planId < nextPlanId, "SavingsBank: Plan not found");
+
+        SavingPlan storage plan = savingPlans[planId];
+        uint256 depositId = nextDepositId++;
+        depositOwner[depositId] = _msgSender();
+        DepositLogic.openDeposit(
+            deposits[depositId],
+            plan,
+            assets[plan.asset],
+            planUsage[planId],
+            planAprTiers[planId],
+            depositNFT,
+            planId,
+            depositId,
+            amount,
+            enableAutoRenew,
+            _msgSender()
+        );
+
+        return depositId;
+    }
+
+    /**
+     * @dev Create plan (shared by createPlan and createAssetPlan)
+     */
+    function _createPlan(
+        address asset,
+        string memory name,
+        uint256 durationDays,
+        uint256 minDeposit,
+        uint256 maxDeposit,
+        uint256 aprBps,
+        uint256 earlyWithdrawPenaltyBps,
+        PlanLimits calldata limits
+    ) internal returns (uint256 planId) {
+        planId = nextPlanId++;
+        DepositLogic.createPlan(
+            savingPlans[planId],
+            assets[asset],
+            planId,
+            asset,
+            name,
+            durationDays,
+            minDeposit,
+            maxDeposit,
+            aprBps,
+            earlyWithdrawPenaltyBps,
+            limits
+        );
+    }
+
+    /**
+     * @dev Renew deposit into a new certificate owned by `owner`
+     * @param tokenId NFT token ID (same as depositId)
+     * @param owner Current NFT owner (receives the new certificate)
+     * @return newDepositId New deposit ID
+     */
+    function _autoRenew(uint256 tokenId, address owner) internal returns (uint256) {
+        DepositCertificate storage oldCert = deposits[tokenId];
+        SavingPlan storage plan = savingPlans[oldCert.planId];
+
+        uint256 newDepositId = nextDepositId++;
+        depositOwner[newDepositId] = owner;
+        DepositLogic.renew(
+            oldCert,
+            deposits[newDepositId],
+            plan,
+            assets[plan.asset],
+            planUsage[oldCert.planId],
+            depositNFT,
+            tokenId,
+            newDepositId,
+            owner,
+            depositOwner[tokenId]
+        );
+
+        return newDepositId;
+    }
+
+    /**
+     * @dev Opening window must end after it starts (0 = no sunset)
+     */
+    function _requireValidLimits(PlanLimits calldata limits) internal pure {
+        require(limits.endsAt == 0 || limits.endsAt > limits.startsAt, "SavingsBank: Invalid plan window");
+    }
+
+    /**
+     * @dev Active, opted into auto-renew, matured and still within the grace period (no migration open)
+     */
+    function _canAutoRenew(DepositCertificate storage cert) internal view returns (bool) {
+        return
+            block.timestamp >= migrationEndsAt &&
             cert.status == STATUS_ACTIVE &&
             cert.isAutoRenewEnabled &&
-            isMatured &&
-            !gracePeriodExpired
-        );
+            block.timestamp >= cert.maturityTime &&
+            block.timestamp <= cert.maturityTime + AUTO_RENEW_GRACE_PERIOD;
+    }
 
-        return (canWithdraw, canAutoRenew, isMatured, gracePeriodExpired);
+    /**
+     * @dev Caller must hold the certificate NFT
+     * @return owner The caller
+     */
+    function _requireDepositOwner(uint256 tokenId) internal view returns (address owner) {
+        owner = depositNFT.ownerOf(tokenId);
+        require(owner == _msgSender(), "SavingsBank: Not owner");
+    }
+
+    /**
+     * @dev Imports are only accepted while the migration window is open
+     */
+    function _requireMigrationWindow() internal view {
+        require(block.timestamp < migrationEndsAt, "SavingsBank: Migration window closed");
+    }
+
+    /**
+     * @dev Deposits cannot be created or restructured while imports are still accepted
+     */
+    function _requireNoMigration() internal view {
+        require(block.timestamp >= migrationEndsAt, "SavingsBank: Migration in progress");
     }
-}
 
+    /**
+     * @dev Full-term interest of a certificate (locked APR and interest mode).
+     *      Same inputs as the reservation made when the certificate was created,
+     *      so releasing this amount always matches what was reserved.
+     * @param cert Deposit certificate
+     * @return interest Interest payable at maturity
+     */
+    function _interestAtMaturity(DepositCertificate storage cert) internal view returns (uint256) {
+        return DepositLogic.fullTermInterest(cert);
+    }
+}
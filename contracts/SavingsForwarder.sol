@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title SavingsForwarder
+ * @dev ERC-2771 trusted forwarder for SavingsBank meta-transactions
+ * @notice Users sign an EIP-712 ForwardRequest off-chain; a relayer pays the gas
+ *         and calls execute(). SavingsBank reads the signer via _msgSender().
+ *
+ * Key Features:
+ * - Per-signer nonces and a deadline on every request (replay protection)
+ * - verify() lets relayers check a request before spending gas
+ * - No owner, no upgrade path: the bank trusts this exact address forever
+ */
+contract SavingsForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("SavingsForwarder") {}
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * @title SavingsTimelock
+ * @dev Delay for sensitive SavingsBank admin operations
+ * @notice Holds SavingsBank.TIMELOCK_ROLE: updatePlan, setPlanEarlyRate, withdrawVault and
+ *         withdrawAssetVault only run here, `minDelay` seconds after being scheduled.
+ *
+ * Key Features:
+ * - schedule / cancel / execute with CallScheduled, Cancelled and CallExecuted events
+ * - Proposers (plan managers, treasurers) schedule and may cancel; executors run ready operations
+ *   (pass address(0) as executor to let anyone execute)
+ * - Self-administered: changing the delay (updateDelay) or roles is itself a timelocked operation
+ */
+contract SavingsTimelock is TimelockController {
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors
+    ) TimelockController(minDelay, proposers, executors, address(0)) {}
+}
@@ -4,6 +4,7 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
 import "./interfaces/ITokenVault.sol";
 
 /**
@@ -14,16 +15,42 @@ import "./interfaces/ITokenVault.sol";
  * Key Features:
  * - Holds principal deposits from users
  * - Only owner (SavingsBank) can deposit/withdraw
- * - No complex logic - just simple storage
+ * - Optional ERC-4626 strategy: a configurable share of the principal earns yield, the rest
+ *   stays idle as a withdrawal buffer; harvested yield goes to InterestVault
  */
 contract TokenVault is Ownable, ITokenVault {
     using SafeERC20 for IERC20;
 
     // ==================== STATE VARIABLES ====================
 
+    /// @dev Basis points denominator (100% = 10000)
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+
     /// @dev USDC token contract
     IERC20 public immutable usdc;
 
+    /// @dev Configures the strategy (SavingsTimelock after deployment: the strategy holds principal)
+    address public strategyManager;
+
+    /// @dev ERC-4626 vault of the same token the principal is deployed to (address(0) = none)
+    IERC4626 public strategy;
+
+    /// @dev Share of the vault's assets kept in the strategy; the rest is the withdrawal buffer
+    uint256 public deployedBps;
+
+    /// @dev Principal currently in the strategy: strategy assets above it are yield, below it a loss
+    uint256 public strategyDebt;
+
+    /// @dev Receives harvested yield
+    address public interestVault;
+
+    // ==================== MODIFIERS ====================
+
+    modifier onlyStrategyManager() {
+        require(msg.sender == strategyManager, "TokenVault: Not strategy manager");
+        _;
+    }
+
     // ==================== CONSTRUCTOR ====================
 
     /**
@@ -33,6 +60,7 @@ contract TokenVault is Ownable, ITokenVault {
     constructor(address _usdc) Ownable(msg.sender) {
         require(_usdc != address(0), "TokenVault: Invalid USDC address");
         usdc = IERC20(_usdc);
+        strategyManager = msg.sender;
     }
 
     // ==================== EXTERNAL FUNCTIONS ====================
@@ -61,19 +89,193 @@ contract TokenVault is Ownable, ITokenVault {
     function withdraw(address to, uint256 amount) external onlyOwner {
         require(to != address(0), "TokenVault: Invalid to address");
         require(amount > 0, "TokenVault: Amount must be greater than 0");
-        require(amount <= balance(), "TokenVault: Insufficient balance");
+        require(amount <= principalBalance(), "TokenVault: Insufficient balance");
 
+        // The buffer pays first; only the missing part is pulled from the strategy
+        uint256 idle = idleBalance();
+        if (amount > idle) {
+            _harvestYield();
+            _withdrawFromStrategy(amount - idle);
+        }
         usdc.safeTransfer(to, amount);
 
         emit Withdrawn(to, amount);
     }
 
+    // ==================== STRATEGY ====================
+
+    /**
+     * @dev Hand the strategy configuration over (e.g. to SavingsTimelock)
+     * @param newManager New strategy manager
+     */
+    function setStrategyManager(address newManager) external onlyStrategyManager {
+        require(newManager != address(0), "TokenVault: Invalid manager");
+        strategyManager = newManager;
+
+        emit StrategyManagerUpdated(newManager);
+    }
+
+    /**
+     * @dev Set the InterestVault harvested yield is sent to
+     * @param _interestVault InterestVault of the same token
+     */
+    function setInterestVault(address _interestVault) external onlyStrategyManager {
+        require(_interestVault != address(0), "TokenVault: Invalid interest vault");
+        interestVault = _interestVault;
+
+        emit InterestVaultUpdated(_interestVault);
+    }
+
+    /**
+     * @dev Switch to another ERC-4626 strategy (address(0) = keep everything idle)
+     * @notice The current strategy is harvested (when an InterestVault is set) and fully redeemed first;
+     *         a loss it still has is realized in the idle balance. Funds move into the new strategy on
+     *         the next rebalance().
+     * @param newStrategy ERC-4626 vault whose asset is this vault's token
+     */
+    function setStrategy(address newStrategy) external onlyStrategyManager {
+        require(
+            newStrategy == address(0) || IERC4626(newStrategy).asset() == address(usdc),
+            "TokenVault: Strategy asset mismatch"
+        );
+
+        if (address(strategy) != address(0)) {
+            if (interestVault != address(0)) {
+                _harvest();
+            }
+            uint256 shares = strategy.balanceOf(address(this));
+            if (shares > 0) {
+                emit StrategyWithdrawn(strategy.redeem(shares, address(this), address(this)));
+            }
+            strategyDebt = 0;
+        }
+        strategy = IERC4626(newStrategy);
+
+        emit StrategyUpdated(newStrategy);
+    }
+
+    /**
+     * @dev Set the share of the vault's assets deployed to the strategy
+     * @notice Applied on the next rebalance(); BPS_DENOMINATOR - deployedBps stays idle for withdrawals
+     * @param _deployedBps Deployed share in bps (<= 100%)
+     */
+    function setDeployedShare(uint256 _deployedBps) external onlyStrategyManager {
+        require(_deployedBps <= BPS_DENOMINATOR, "TokenVault: Invalid share");
+        deployedBps = _deployedBps;
+
+        emit DeployedShareUpdated(_deployedBps);
+    }
+
+    /**
+     * @dev Move funds between the buffer and the strategy so deployedBps of balance() is deployed
+     * @notice Anyone can call (keeper): it only moves the vault's own funds towards the configured target.
+     *         Pending yield is harvested first, so only principal is rebalanced.
+     */
+    function rebalance() external {
+        require(address(strategy) != address(0), "TokenVault: No strategy");
+        _harvestYield();
+
+        uint256 target = (balance() * deployedBps) / BPS_DENOMINATOR;
+        uint256 deployed = strategyAssets();
+        if (deployed < target) {
+            uint256 amount = target - deployed;
+            usdc.forceApprove(address(strategy), amount);
+            strategy.deposit(amount, address(this));
+            strategyDebt += amount;
+
+            emit StrategyDeposited(amount);
+        } else if (deployed > target) {
+            _withdrawFromStrategy(deployed - target);
+        }
+    }
+
+    /**
+     * @dev Send the strategy's yield (assets above strategyDebt) to InterestVault
+     * @notice Anyone can call (keeper). After a loss nothing is sent until later yield has made
+     *         the deployed principal whole again.
+     * @return yield Amount sent to InterestVault
+     */
+    function harvest() external returns (uint256 yield) {
+        require(address(strategy) != address(0), "TokenVault: No strategy");
+        require(interestVault != address(0), "TokenVault: Interest vault not set");
+
+        return _harvest();
+    }
+
+    // ==================== VIEW FUNCTIONS ====================
+
     /**
      * @dev Get current vault balance
-     * @return Current balance of USDC tokens in vault
+     * @return Idle tokens plus the strategy's current value of the vault's shares
      */
     function balance() public view returns (uint256) {
+        return idleBalance() + strategyAssets();
+    }
+
+    /**
+     * @dev Tokens that can pay principal: the buffer plus the strategy's assets up to strategyDebt
+     * @notice Below the principal owed after a strategy loss; SavingsBank covers the gap from InterestVault
+     */
+    function principalBalance() public view returns (uint256) {
+        uint256 deployed = strategyAssets();
+        return idleBalance() + (deployed < strategyDebt ? deployed : strategyDebt);
+    }
+
+    /**
+     * @dev Tokens held by the vault itself (the withdrawal buffer)
+     */
+    function idleBalance() public view returns (uint256) {
         return usdc.balanceOf(address(this));
     }
+
+    /**
+     * @dev Current value of the vault's strategy shares
+     */
+    function strategyAssets() public view returns (uint256) {
+        if (address(strategy) == address(0)) return 0;
+        return strategy.convertToAssets(strategy.balanceOf(address(this)));
+    }
+
+    // ==================== INTERNAL FUNCTIONS ====================
+
+    /**
+     * @dev Withdraw `amount` from the strategy into the buffer. Only its principal share reduces
+     *      strategyDebt: yield still in the strategy (no InterestVault to harvest to) stays harvestable.
+     */
+    function _withdrawFromStrategy(uint256 amount) internal {
+        uint256 deployed = strategyAssets();
+        uint256 principal = deployed > strategyDebt ? (amount * strategyDebt) / deployed : amount;
+        strategy.withdraw(amount, address(this), address(this));
+        strategyDebt = principal < strategyDebt ? strategyDebt - principal : 0;
+
+        emit StrategyWithdrawn(amount);
+    }
+
+    /**
+     * @dev Harvest pending yield before principal leaves the strategy, so it goes to InterestVault
+     *      instead of sitting idle in the buffer
+     */
+    function _harvestYield() internal {
+        if (interestVault != address(0) && strategyAssets() > strategyDebt) {
+            _harvest();
+        }
+    }
+
+    /**
+     * @dev Redeem the shares not needed to cover strategyDebt straight to InterestVault
+     */
+    function _harvest() internal returns (uint256 yield) {
+        uint256 shares = strategy.balanceOf(address(this));
+        uint256 keep = strategy.previewWithdraw(strategyDebt);
+        uint256 loss;
+        if (shares > keep) {
+            yield = strategy.redeem(shares - keep, interestVault, address(this));
+        } else {
+            uint256 assets = strategyAssets();
+            loss = strategyDebt > assets ? strategyDebt - assets : 0;
+        }
+
+        emit Harvested(yield, loss);
+    }
 }
 
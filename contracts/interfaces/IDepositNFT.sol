@@ -2,14 +2,16 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/extensions/IERC721Enumerable.sol";
+import "./IERC5192.sol";
 
 /**
  * @title IDepositNFT
  * @dev Interface for DepositNFT contract
  * @notice SavingsBank uses this interface to interact with DepositNFT
- * @dev Extends IERC721Enumerable to include all standard ERC721 functions
+ * @dev Extends IERC721Enumerable to include all standard ERC721 functions, and IERC5192 for
+ *      certificates of soulbound plans
  */
-interface IDepositNFT is IERC721Enumerable {
+interface IDepositNFT is IERC721Enumerable, IERC5192 {
     // Events
     event DepositNFTMinted(uint256 indexed tokenId, address indexed owner);
     event DepositNFTBurned(uint256 indexed tokenId);
@@ -18,9 +20,9 @@ interface IDepositNFT is IERC721Enumerable {
     /**
      * @dev Mint new deposit NFT
      * @param to Address to mint NFT to
-     * @return tokenId ID of minted NFT
+     * @param tokenId Token ID to mint (must equal the SavingsBank depositId)
      */
-    function mint(address to) external returns (uint256);
+    function mint(address to, uint256 tokenId) external;
 
     /**
      * @dev Burn deposit NFT
@@ -28,6 +30,12 @@ interface IDepositNFT is IERC721Enumerable {
      */
     function burn(uint256 tokenId) external;
 
+    /**
+     * @dev Make a deposit NFT non-transferable (soulbound) for the rest of its life
+     * @param tokenId ID of NFT to lock
+     */
+    function lock(uint256 tokenId) external;
+
     /**
      * @dev Refresh metadata (emit event for marketplaces)
      * @param tokenId ID of NFT to refresh
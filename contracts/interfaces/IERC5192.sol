@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IERC5192
+ * @dev Minimal soulbound NFTs (EIP-5192). Interface ID: 0xb45a3c0e
+ */
+interface IERC5192 {
+    /// @notice Emitted when the locking status is changed to locked
+    event Locked(uint256 tokenId);
+
+    /// @notice Emitted when the locking status is changed to unlocked
+    event Unlocked(uint256 tokenId);
+
+    /**
+     * @dev Locking status of a token (locked tokens cannot be transferred); reverts for unknown tokens
+     * @param tokenId Token ID
+     */
+    function locked(uint256 tokenId) external view returns (bool);
+}
@@ -4,7 +4,8 @@ pragma solidity ^0.8.20;
 /**
  * @title ISavingsBank
  * @dev Interface for SavingsBank contract
- * @notice DepositNFT uses this interface to read deposit data for metadata generation
+ * @notice DepositNFT uses this interface to read deposit data for metadata generation and to report transfers;
+ *         DepositLending also acts on certificates it holds in escrow
  */
 interface ISavingsBank {
     /**
@@ -38,11 +39,54 @@ interface ISavingsBank {
             uint8 status
         );
 
+    /**
+     * @dev Get interest mode locked on a deposit
+     * @param depositId ID of the deposit
+     * @return interestMode 0=Simple, 1=DailyCompound, 2=PerSecond
+     * @return dayCount 0=Actual365, 1=Thirty360
+     */
+    function getDepositInterestMode(uint256 depositId) external view returns (uint8 interestMode, uint8 dayCount);
+
+    /**
+     * @dev Get the renewal chain of a deposit
+     * @param depositId ID of the deposit
+     * @return renewalCount Consecutive auto-renewals behind the certificate
+     * @return renewalBonusBps Loyalty bonus included in its locked APR
+     */
+    function getDepositRenewal(uint256 depositId) external view returns (uint256 renewalCount, uint256 renewalBonusBps);
+
+    /**
+     * @dev Get the asset (ERC20) a deposit is denominated in
+     * @param depositId ID of the deposit
+     * @return asset Token address
+     */
+    function getDepositAsset(uint256 depositId) external view returns (address asset);
+
     /**
      * @dev Calculate interest for a deposit
      * @param depositId ID of the deposit
      * @return interest Calculated interest amount
      */
     function calculateInterest(uint256 depositId) external view returns (uint256 interest);
-}
 
+    /**
+     * @dev Withdraw a matured deposit (caller must hold the NFT; receives principal + interest)
+     * @param tokenId ID of the deposit NFT
+     */
+    function withdraw(uint256 tokenId) external;
+
+    /**
+     * @dev Turn auto-renew of a deposit on or off (caller must hold the NFT)
+     * @param tokenId ID of the deposit NFT
+     * @param enabled Auto-renew flag
+     */
+    function setAutoRenew(uint256 tokenId, bool enabled) external;
+
+    /**
+     * @dev DepositNFT transfer hook: the certificate's owner follows the NFT (only callable by DepositNFT)
+     * @param tokenId ID of the deposit NFT
+     * @param from Previous holder
+     * @param to New holder
+     */
+    function onDepositTransfer(uint256 tokenId, address from, address to) external;
+}
@@ -12,6 +12,13 @@ interface ITokenVault {
     // Events
     event Deposited(address indexed from, uint256 amount);
     event Withdrawn(address indexed to, uint256 amount);
+    event StrategyUpdated(address indexed strategy);
+    event StrategyManagerUpdated(address indexed strategyManager);
+    event InterestVaultUpdated(address indexed interestVault);
+    event DeployedShareUpdated(uint256 deployedBps);
+    event StrategyDeposited(uint256 amount);
+    event StrategyWithdrawn(uint256 amount);
+    event Harvested(uint256 yield, uint256 loss);
 
     /**
      * @dev Deposit tokens into vault
@@ -27,12 +34,43 @@ interface ITokenVault {
      */
     function withdraw(address to, uint256 amount) external;
 
+    /**
+     * @dev Move funds between the idle buffer and the strategy towards the deployed share
+     */
+    function rebalance() external;
+
+    /**
+     * @dev Send strategy yield (above the deployed principal) to InterestVault
+     * @return yield Amount harvested
+     */
+    function harvest() external returns (uint256 yield);
+
     /**
      * @dev Get current vault balance
-     * @return Current balance of tokens in vault
+     * @return Current balance of tokens in vault (idle + strategy)
      */
     function balance() external view returns (uint256);
 
+    /**
+     * @dev Tokens that can pay principal (idle + strategy assets up to strategyDebt)
+     */
+    function principalBalance() external view returns (uint256);
+
+    /**
+     * @dev Tokens held idle by the vault (withdrawal buffer)
+     */
+    function idleBalance() external view returns (uint256);
+
+    /**
+     * @dev Current value of the strategy position
+     */
+    function strategyAssets() external view returns (uint256);
+
+    /**
+     * @dev Principal deployed to the strategy (cost basis)
+     */
+    function strategyDebt() external view returns (uint256);
+
     /**
      * @dev Get USDC token
      * @return IERC20 token instance
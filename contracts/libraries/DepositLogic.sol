@@ -0,0 +1,917 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IDepositNFT.sol";
+import "../SavingsBank.sol";
+import "./InterestCalculator.sol";
+
+/**
+ * @title DepositLogic
+ * @notice Certificate flows of SavingsBank (open, top-up, withdrawals, renewal) and the plan
+ *         usage they count against PlanLimits
+ * @dev Linked library with external functions so the bank stays under the 24 KiB code size limit.
+ *      Functions run via DELEGATECALL in the SavingsBank proxy: storage, vault calls and events
+ *      all belong to the bank. The bank resolves storage pointers and checks ownership, roles,
+ *      pause and reentrancy before calling in.
+ */
+library DepositLogic {
+    using InterestCalculator for uint256;
+    using SafeERC20 for IERC20;
+
+    // Certificate statuses and renewal window (re-exported by SavingsBank)
+    uint8 internal constant STATUS_ACTIVE = 0;
+    uint8 internal constant STATUS_WITHDRAWN = 1;
+    uint8 internal constant STATUS_EARLY_WITHDRAWN = 2;
+    uint8 internal constant STATUS_RENEWED = 3;
+    uint8 internal constant STATUS_SPLIT = 4;
+    uint8 internal constant STATUS_MERGED = 5;
+    uint256 internal constant AUTO_RENEW_GRACE_PERIOD = 2 days;
+    uint256 internal constant MAX_APR_TIERS = 8;
+    uint256 internal constant MAX_SPLIT_PARTS = 10;
+
+    /**
+     * @dev Open a certificate for `sender` (see SavingsBank.openDeposit)
+     * @notice The bank allocates `depositId` and records its owner
+     */
+    function openDeposit(
+        SavingsBank.DepositCertificate storage cert,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        SavingsBank.AprTier[] storage aprTiers,
+        IDepositNFT depositNFT,
+        uint256 planId,
+        uint256 depositId,
+        uint256 amount,
+        bool enableAutoRenew,
+        address sender
+    ) external {
+        require(plan.isActive, "SavingsBank: Plan not active");
+        require(amount >= plan.minDeposit, "SavingsBank: Below minDeposit");
+        require(amount <= plan.maxDeposit, "SavingsBank: Above maxDeposit");
+        require(vaults.isWhitelisted, "SavingsBank: Asset not whitelisted");
+        _useCapacity(plan, usage, sender, amount, true);
+
+        uint256 maturityTime = block.timestamp + (plan.durationDays * 1 days);
+        (, uint256 aprBps) = _tierFor(plan, aprTiers, amount);
+
+        // Reserve the full-term interest at the tier rate (plan's interest mode) in the plan asset's vault
+        vaults.interestVault.reserve(
+            amount.calculateInterest(aprBps, block.timestamp, maturityTime, plan.interestMode, plan.dayCount)
+        );
+
+        // Transfer principal to TokenVault
+        vaults.tokenVault.deposit(sender, amount);
+
+        cert.planId = planId;
+        cert.principal = amount;
+        cert.startTime = block.timestamp;
+        cert.maturityTime = maturityTime;
+        cert.lockedAprBps = aprBps;
+        cert.isAutoRenewEnabled = enableAutoRenew;
+        cert.status = STATUS_ACTIVE;
+        cert.interestMode = plan.interestMode;
+        cert.dayCount = plan.dayCount;
+
+        // Mint NFT to user (tokenId == depositId)
+        mintCertificate(depositNFT, plan, sender, depositId);
+
+        emit SavingsBank.DepositOpened(depositId, sender, planId, amount, maturityTime);
+    }
+
+    /**
+     * @dev Add `amount` to an active certificate (see SavingsBank.increaseDeposit)
+     */
+    function increaseDeposit(
+        SavingsBank.DepositCertificate storage cert,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        uint256 amount,
+        address sender,
+        address wallet
+    ) external {
+        require(amount > 0, "SavingsBank: Amount must be > 0");
+        require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+        require(block.timestamp < cert.maturityTime, "SavingsBank: Already matured");
+        require(plan.isActive, "SavingsBank: Plan not active");
+        require(vaults.isWhitelisted, "SavingsBank: Asset not whitelisted");
+
+        uint256 duration = cert.maturityTime - cert.startTime;
+        uint256 reservedInterest = interestAtMaturity(cert, cert.principal);
+
+        // Restart: interest accrued so far is compounded into principal
+        uint256 accruedInterest;
+        if (plan.topUpPolicy == SavingsBank.TopUpPolicy.Restart) {
+            accruedInterest = cert.principal.calculateInterest(
+                cert.lockedAprBps,
+                cert.startTime,
+                block.timestamp,
+                cert.interestMode,
+                cert.dayCount
+            );
+            if (accruedInterest > reservedInterest) {
+                accruedInterest = reservedInterest;
+            }
+        }
+
+        uint256 newPrincipal = cert.principal + accruedInterest + amount;
+        require(newPrincipal <= plan.maxDeposit, "SavingsBank: Above maxDeposit");
+        _useCapacity(plan, usage, wallet, newPrincipal - cert.principal, false);
+
+        uint256 newMaturityTime = plan.topUpPolicy == SavingsBank.TopUpPolicy.Restart
+            ? block.timestamp + duration
+            : (cert.principal * cert.maturityTime + amount * (block.timestamp + duration)) / (cert.principal + amount);
+
+        // Release the old reservation (accrued interest moves to TokenVault)
+        vaults.interestVault.release(reservedInterest);
+        if (accruedInterest > 0) {
+            _compound(plan.asset, vaults, accruedInterest);
+        }
+
+        // Transfer new principal to TokenVault
+        vaults.tokenVault.deposit(sender, amount);
+
+        // Update certificate and reserve full-term interest of the new principal
+        cert.principal = newPrincipal;
+        cert.startTime = newMaturityTime - duration;
+        cert.maturityTime = newMaturityTime;
+        vaults.interestVault.reserve(interestAtMaturity(cert, newPrincipal));
+
+        // Principal changed: let marketplaces refresh the certificate
+        depositNFT.refreshMetadata(depositId);
+
+        emit SavingsBank.DepositIncreased(depositId, sender, amount, newPrincipal, newMaturityTime);
+    }
+
+    /**
+     * @dev Close an active certificate before maturity (see SavingsBank.earlyWithdraw)
+     */
+    function earlyWithdraw(
+        SavingsBank.DepositCertificate storage cert,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        address sender,
+        address wallet
+    ) external {
+        require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+        require(block.timestamp < cert.maturityTime, "SavingsBank: Already matured");
+
+        // Penalty on principal, interest accrued so far at the plan's early rate
+        (uint256 penalty, uint256 accruedInterest, uint256 reservedInterest) = earlyWithdrawQuote(
+            cert,
+            plan,
+            cert.principal
+        );
+
+        // Release reserved interest (accrued interest is paid out of it below)
+        vaults.interestVault.release(reservedInterest);
+
+        // Update status
+        cert.status = STATUS_EARLY_WITHDRAWN;
+        releaseUsage(usage, wallet, cert.principal, true);
+
+        // Principal minus penalty to the user, penalty to InterestVault, then accrued interest
+        _payEarly(plan.asset, vaults, sender, cert.principal, penalty, accruedInterest);
+
+        // Burn NFT
+        depositNFT.burn(depositId);
+
+        emit SavingsBank.Withdrawn(depositId, sender, cert.principal, accruedInterest, true);
+    }
+
+    /**
+     * @dev Withdraw part of the principal before maturity (see SavingsBank.partialEarlyWithdraw)
+     */
+    function partialEarlyWithdraw(
+        SavingsBank.DepositCertificate storage cert,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        uint256 amount,
+        address sender,
+        address wallet
+    ) external {
+        require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+        require(block.timestamp < cert.maturityTime, "SavingsBank: Already matured");
+        require(amount > 0, "SavingsBank: Amount must be > 0");
+        require(amount < cert.principal, "SavingsBank: Use earlyWithdraw");
+
+        uint256 remainingPrincipal = cert.principal - amount;
+        require(remainingPrincipal >= plan.minDeposit, "SavingsBank: Below minDeposit");
+
+        // Penalty and early-rate interest only on the withdrawn portion
+        (uint256 penalty, uint256 accruedInterest, uint256 releasedInterest) = earlyWithdrawQuote(cert, plan, amount);
+
+        // Shrink reservation to the interest of the remaining principal
+        cert.principal = remainingPrincipal;
+        releaseUsage(usage, wallet, amount, false);
+        if (releasedInterest > 0) {
+            vaults.interestVault.release(releasedInterest);
+        }
+
+        _payEarly(plan.asset, vaults, sender, amount, penalty, accruedInterest);
+
+        // Principal changed: let marketplaces refresh the certificate
+        depositNFT.refreshMetadata(depositId);
+
+        emit SavingsBank.PartialWithdrawn(depositId, sender, amount, accruedInterest, penalty, remainingPrincipal);
+    }
+
+    /**
+     * @dev Close a matured certificate: principal and full-term interest to `sender`
+     *      (see SavingsBank.withdraw)
+     */
+    function withdraw(
+        SavingsBank.DepositCertificate storage cert,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        address sender,
+        address wallet
+    ) external {
+        require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+        require(block.timestamp >= cert.maturityTime, "SavingsBank: Not matured");
+
+        uint256 interest = interestAtMaturity(cert, cert.principal);
+
+        // Release reserved interest
+        vaults.interestVault.release(interest);
+
+        // Update state
+        cert.status = STATUS_WITHDRAWN;
+        releaseUsage(usage, wallet, cert.principal, true);
+
+        // Principal from TokenVault, interest from InterestVault
+        _coverShortfall(vaults, cert.principal, interest);
+        vaults.tokenVault.withdraw(sender, cert.principal);
+        vaults.interestVault.withdraw(sender, interest);
+
+        // Burn NFT
+        depositNFT.burn(depositId);
+
+        emit SavingsBank.Withdrawn(depositId, sender, cert.principal, interest, false);
+    }
+
+    /**
+     * @dev Renew a matured certificate into `newCert` with the LOCKED APR, duration and
+     *      interest mode; interest is compounded into the new principal
+     * @notice The bank allocates `newDepositId` and records its owner. Plan limits are not
+     *         enforced: the renewed principal moves from `oldWallet` to `owner` in the plan usage.
+     */
+    function renew(
+        SavingsBank.DepositCertificate storage oldCert,
+        SavingsBank.DepositCertificate storage newCert,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        uint256 newDepositId,
+        address owner,
+        address oldWallet
+    ) external {
+        require(oldCert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+        require(oldCert.isAutoRenewEnabled, "SavingsBank: Auto-renew not enabled");
+        require(block.timestamp >= oldCert.maturityTime, "SavingsBank: Not matured");
+        require(
+            block.timestamp <= oldCert.maturityTime + AUTO_RENEW_GRACE_PERIOD,
+            "SavingsBank: Grace period expired"
+        );
+
+        uint256 interest = interestAtMaturity(oldCert, oldCert.principal);
+        uint256 newPrincipal = oldCert.principal + interest;
+
+        // Duration doesn't change on auto-renew
+        require(plan.durationDays > 0, "SavingsBank: Invalid plan");
+
+        // Validate new principal against current plan limits
+        require(newPrincipal >= plan.minDeposit, "SavingsBank: Below minDeposit");
+        require(newPrincipal <= plan.maxDeposit, "SavingsBank: Above maxDeposit");
+
+        // AUTO-RENEW: Lock OLD APR and duration (regardless of admin updates), with the
+        // loyalty bonus of this renewal replacing the previous one
+        uint256 renewalCount = oldCert.renewalCount + 1;
+        uint256 renewalBonusBps = renewalCount * plan.renewalBonusBps;
+        if (renewalBonusBps > plan.maxRenewalBonusBps) {
+            renewalBonusBps = plan.maxRenewalBonusBps;
+        }
+        uint256 lockedAprBps = oldCert.lockedAprBps - oldCert.renewalBonusBps + renewalBonusBps;
+        uint256 newMaturityTime = block.timestamp + (plan.durationDays * 1 days);
+
+        // Swap the old reservation for the new term's interest (LOCKED APR and interest mode)
+        vaults.interestVault.release(interest);
+        vaults.interestVault.reserve(
+            newPrincipal.calculateInterest(
+                lockedAprBps,
+                block.timestamp,
+                newMaturityTime,
+                oldCert.interestMode,
+                oldCert.dayCount
+            )
+        );
+
+        // Transfer interest from InterestVault to TokenVault (compound interest)
+        _compound(plan.asset, vaults, interest);
+
+        oldCert.status = STATUS_RENEWED;
+        depositNFT.burn(depositId);
+        releaseUsage(usage, oldWallet, oldCert.principal, true);
+        recordUsage(usage, owner, newPrincipal, true);
+
+        newCert.planId = oldCert.planId;
+        newCert.principal = newPrincipal;
+        newCert.startTime = block.timestamp;
+        newCert.maturityTime = newMaturityTime;
+        newCert.lockedAprBps = lockedAprBps; // LOCKED APR (protection for user) + loyalty bonus
+        newCert.isAutoRenewEnabled = oldCert.isAutoRenewEnabled; // Preserve setting
+        newCert.status = STATUS_ACTIVE;
+        newCert.interestMode = oldCert.interestMode; // LOCKED interest mode
+        newCert.dayCount = oldCert.dayCount;
+        newCert.renewalCount = renewalCount;
+        newCert.renewalBonusBps = renewalBonusBps;
+
+        // Mint new NFT to the certificate owner (not the keeper), tokenId == newDepositId
+        mintCertificate(depositNFT, plan, owner, newDepositId);
+
+        emit SavingsBank.AutoRenewed(depositId, newDepositId, newPrincipal, lockedAprBps);
+    }
+
+    /**
+     * @dev Move a matured certificate into `newPlan` at its current rate (tier of the new principal)
+     *      and interest mode; principal stays in TokenVault, interest is compounded or paid to `owner`
+     * @notice The bank allocates `newDepositId` and records its owner. Unlike renew, the new plan's
+     *         opening window and limits apply and the renewal chain starts over.
+     */
+    function rollover(
+        SavingsBank.DepositCertificate storage oldCert,
+        SavingsBank.DepositCertificate storage newCert,
+        SavingsBank.SavingPlan storage newPlan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage oldUsage,
+        SavingsBank.PlanUsage storage newUsage,
+        SavingsBank.AprTier[] storage aprTiers,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        uint256 newDepositId,
+        uint256 newPlanId,
+        bool withdrawInterest,
+        address owner,
+        address oldWallet
+    ) external {
+        require(oldCert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+        require(block.timestamp >= oldCert.maturityTime, "SavingsBank: Not matured");
+        require(newPlan.isActive, "SavingsBank: Plan not active");
+        require(vaults.isWhitelisted, "SavingsBank: Asset not whitelisted");
+
+        uint256 interest = interestAtMaturity(oldCert, oldCert.principal);
+        uint256 newPrincipal = withdrawInterest ? oldCert.principal : oldCert.principal + interest;
+        require(newPrincipal >= newPlan.minDeposit, "SavingsBank: Below minDeposit");
+        require(newPrincipal <= newPlan.maxDeposit, "SavingsBank: Above maxDeposit");
+
+        // Old plan gives the certificate back before the new plan's limits are checked (same plan allowed)
+        releaseUsage(oldUsage, oldWallet, oldCert.principal, true);
+        _useCapacity(newPlan, newUsage, owner, newPrincipal, true);
+
+        (, uint256 aprBps) = _tierFor(newPlan, aprTiers, newPrincipal);
+        uint256 newMaturityTime = block.timestamp + (newPlan.durationDays * 1 days);
+
+        // Settle the old interest, then reserve the new term's interest (CURRENT rate of the new plan).
+        // Either can round to 0 on a tiny principal, which the vault rejects.
+        if (interest > 0) {
+            vaults.interestVault.release(interest);
+            if (withdrawInterest) {
+                vaults.interestVault.withdraw(owner, interest);
+            } else {
+                _compound(newPlan.asset, vaults, interest);
+            }
+        }
+        uint256 newInterest = newPrincipal.calculateInterest(
+            aprBps,
+            block.timestamp,
+            newMaturityTime,
+            newPlan.interestMode,
+            newPlan.dayCount
+        );
+        if (newInterest > 0) {
+            vaults.interestVault.reserve(newInterest);
+        }
+
+        oldCert.status = STATUS_RENEWED;
+        depositNFT.burn(depositId);
+
+        newCert.planId = newPlanId;
+        newCert.principal = newPrincipal;
+        newCert.startTime = block.timestamp;
+        newCert.maturityTime = newMaturityTime;
+        newCert.lockedAprBps = aprBps;
+        newCert.isAutoRenewEnabled = oldCert.isAutoRenewEnabled;
+        newCert.status = STATUS_ACTIVE;
+        newCert.interestMode = newPlan.interestMode;
+        newCert.dayCount = newPlan.dayCount;
+
+        mintCertificate(depositNFT, newPlan, owner, newDepositId);
+
+        emit SavingsBank.RolledOver(
+            depositId,
+            newDepositId,
+            newPlanId,
+            newPrincipal,
+            withdrawInterest ? interest : 0,
+            aprBps
+        );
+    }
+
+    /**
+     * @dev Split an active certificate into new certificates of `amounts` (see SavingsBank.splitDeposit)
+     * @notice The bank allocates `firstDepositId` .. `firstDepositId + amounts.length - 1`. Each part keeps
+     *         the plan, start and maturity, locked APR, interest mode and renewal chain of the original.
+     *         Principal is unchanged, but every part counts against the plan's maxDepositsPerUser like a new
+     *         certificate (the original is released first).
+     */
+    function split(
+        mapping(uint256 => SavingsBank.DepositCertificate) storage deposits,
+        mapping(uint256 => address) storage depositOwner,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        uint256 firstDepositId,
+        uint256[] calldata amounts,
+        address owner
+    ) external {
+        SavingsBank.DepositCertificate storage cert = deposits[depositId];
+        require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+        require(block.timestamp < cert.maturityTime, "SavingsBank: Already matured");
+        require(amounts.length >= 2 && amounts.length <= MAX_SPLIT_PARTS, "SavingsBank: Invalid split");
+
+        cert.status = STATUS_SPLIT;
+        depositNFT.burn(depositId);
+        releaseUsage(usage, depositOwner[depositId], cert.principal, true);
+
+        uint256 total;
+        uint256 reserved;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            require(amounts[i] >= plan.minDeposit, "SavingsBank: Below minDeposit");
+            uint256 partId = firstDepositId + i;
+            SavingsBank.DepositCertificate storage part = deposits[partId];
+            _copyTerms(cert, part, amounts[i]);
+            total += amounts[i];
+            reserved += interestAtMaturity(part, amounts[i]);
+
+            depositOwner[partId] = owner;
+            _requireCertificateSlot(plan.limits, usage, owner);
+            recordUsage(usage, owner, amounts[i], true);
+            mintCertificate(depositNFT, plan, owner, partId);
+
+            emit SavingsBank.DepositSplit(depositId, partId, amounts[i]);
+        }
+        require(total == cert.principal, "SavingsBank: Parts must add up to principal");
+
+        // Each part rounds its interest down: release the dust so the reservation is exactly the parts' interest
+        _adjustReservation(vaults, interestAtMaturity(cert, cert.principal), reserved);
+    }
+
+    /**
+     * @dev Merge active certificates with the same plan, maturity and locked terms into `newDepositId`
+     *      (see SavingsBank.mergeDeposits)
+     * @notice The bank checks that the caller owns every certificate and allocates `newDepositId`.
+     *         The merged certificate keeps auto-renew only if all of them had it, and the shortest renewal chain.
+     *         Plan limits are not checked: merging keeps the principal and lowers the wallet's certificate count.
+     */
+    function merge(
+        mapping(uint256 => SavingsBank.DepositCertificate) storage deposits,
+        mapping(uint256 => address) storage depositOwner,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256[] calldata depositIds,
+        uint256 newDepositId,
+        address owner
+    ) external {
+        require(depositIds.length <= MAX_SPLIT_PARTS, "SavingsBank: Invalid merge");
+
+        SavingsBank.DepositCertificate storage first = deposits[depositIds[0]];
+        SavingsBank.DepositCertificate storage merged = deposits[newDepositId];
+        _copyTerms(first, merged, 0);
+
+        uint256 reserved;
+        for (uint256 i = 0; i < depositIds.length; i++) {
+            SavingsBank.DepositCertificate storage cert = deposits[depositIds[i]];
+            // A repeated ID is already merged and fails here
+            require(cert.status == STATUS_ACTIVE, "SavingsBank: Not active");
+            require(block.timestamp < cert.maturityTime, "SavingsBank: Already matured");
+            require(
+                cert.planId == merged.planId && cert.maturityTime == merged.maturityTime,
+                "SavingsBank: Plan or maturity mismatch"
+            );
+            require(
+                cert.startTime == merged.startTime &&
+                    cert.lockedAprBps == merged.lockedAprBps &&
+                    cert.interestMode == merged.interestMode &&
+                    cert.dayCount == merged.dayCount &&
+                    cert.renewalBonusBps == merged.renewalBonusBps,
+                "SavingsBank: Terms mismatch"
+            );
+
+            merged.principal += cert.principal;
+            merged.isAutoRenewEnabled = merged.isAutoRenewEnabled && cert.isAutoRenewEnabled;
+            if (cert.renewalCount < merged.renewalCount) {
+                merged.renewalCount = cert.renewalCount;
+            }
+            reserved += interestAtMaturity(cert, cert.principal);
+
+            cert.status = STATUS_MERGED;
+            depositNFT.burn(depositIds[i]);
+            releaseUsage(usage, depositOwner[depositIds[i]], cert.principal, true);
+
+            emit SavingsBank.DepositMerged(depositIds[i], newDepositId, cert.principal);
+        }
+        require(merged.principal <= plan.maxDeposit, "SavingsBank: Above maxDeposit");
+
+        // The merged principal rounds once instead of per certificate: reserve the (at most n - 1) extra units
+        _adjustReservation(vaults, reserved, interestAtMaturity(merged, merged.principal));
+
+        recordUsage(usage, owner, merged.principal, true);
+        mintCertificate(depositNFT, plan, owner, newDepositId);
+    }
+
+    /**
+     * @dev Record `to` as the certificate's holder and move an active certificate's plan usage from the
+     *      recorded holder to it (see SavingsBank.onDepositTransfer). Limits are not checked: they never
+     *      block a transfer.
+     */
+    function transferCertificate(
+        mapping(uint256 => SavingsBank.DepositCertificate) storage deposits,
+        mapping(uint256 => address) storage depositOwner,
+        mapping(uint256 => SavingsBank.PlanUsage) storage planUsage,
+        uint256 depositId,
+        address from,
+        address to
+    ) external {
+        SavingsBank.DepositCertificate storage cert = deposits[depositId];
+        if (cert.status == STATUS_ACTIVE) {
+            SavingsBank.PlanUsage storage usage = planUsage[cert.planId];
+            releaseUsage(usage, depositOwner[depositId], cert.principal, true);
+            recordUsage(usage, to, cert.principal, true);
+        }
+        depositOwner[depositId] = to;
+
+        emit SavingsBank.DepositTransferred(depositId, from, to);
+    }
+
+    /**
+     * @dev Penalty and early-rate interest for withdrawing `amount` of the principal now
+     * @return penalty Penalty on `amount`
+     * @return accruedInterest Interest accrued on `amount` at the plan's early rate (capped)
+     * @return reservedShare Part of the reservation that belongs to `amount`
+     */
+    function earlyWithdrawQuote(
+        SavingsBank.DepositCertificate storage cert,
+        SavingsBank.SavingPlan storage plan,
+        uint256 amount
+    ) public view returns (uint256 penalty, uint256 accruedInterest, uint256 reservedShare) {
+        penalty = amount.calculatePenalty(plan.earlyWithdrawPenaltyBps);
+        reservedShare = interestAtMaturity(cert, cert.principal) - interestAtMaturity(cert, cert.principal - amount);
+
+        uint256 accrualEnd = block.timestamp < cert.maturityTime ? block.timestamp : cert.maturityTime;
+        accruedInterest = amount.calculateInterest(
+            plan.earlyRateBps,
+            cert.startTime,
+            accrualEnd,
+            cert.interestMode,
+            cert.dayCount
+        );
+        if (accruedInterest > reservedShare) {
+            accruedInterest = reservedShare;
+        }
+    }
+
+    /**
+     * @dev Full-term interest of a certificate's current principal (see SavingsBank.calculateInterest)
+     */
+    function fullTermInterest(SavingsBank.DepositCertificate storage cert) external view returns (uint256) {
+        return interestAtMaturity(cert, cert.principal);
+    }
+
+    /**
+     * @dev Capacity left in a plan: total, for `wallet`, and certificates `wallet` may still open
+     *      (type(uint256).max when the limit is not set)
+     */
+    function remainingCapacity(
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.PlanUsage storage usage,
+        address wallet
+    ) external view returns (uint256 planRemaining, uint256 walletRemaining, uint256 depositsRemaining) {
+        SavingsBank.PlanLimits storage limits = plan.limits;
+        planRemaining = _remaining(limits.capacity, usage.principal);
+        walletRemaining = _remaining(limits.walletCap, usage.walletPrincipal[wallet]);
+        depositsRemaining = _remaining(limits.maxDepositsPerUser, usage.walletDeposits[wallet]);
+    }
+
+    /**
+     * @dev Plan accepts deposits now (active and inside its opening window)
+     */
+    function isPlanOpen(SavingsBank.SavingPlan storage plan) public view returns (bool) {
+        SavingsBank.PlanLimits storage limits = plan.limits;
+        return
+            plan.isActive &&
+            block.timestamp >= limits.startsAt &&
+            (limits.endsAt == 0 || block.timestamp < limits.endsAt);
+    }
+
+    /**
+     * @dev Validate and store a new plan (see SavingsBank.createPlan)
+     * @notice The bank allocates `planId`; new plans start active with Simple / Actual365 interest,
+     *         no early rate, Reweight top-ups and no renewal bonus
+     */
+    function createPlan(
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        uint256 planId,
+        address asset,
+        string memory name,
+        uint256 durationDays,
+        uint256 minDeposit,
+        uint256 maxDeposit,
+        uint256 aprBps,
+        uint256 earlyWithdrawPenaltyBps,
+        SavingsBank.PlanLimits calldata limits
+    ) external {
+        require(vaults.isWhitelisted, "SavingsBank: Asset not whitelisted");
+        require(bytes(name).length > 0, "SavingsBank: Empty name");
+        require(durationDays > 0, "SavingsBank: Invalid duration");
+        require(minDeposit > 0, "SavingsBank: Invalid minDeposit");
+        require(maxDeposit >= minDeposit, "SavingsBank: Invalid maxDeposit");
+        require(aprBps > 0 && aprBps <= InterestCalculator.BPS_DENOMINATOR, "SavingsBank: Invalid APR");
+        require(earlyWithdrawPenaltyBps <= InterestCalculator.BPS_DENOMINATOR, "SavingsBank: Invalid penalty");
+        require(limits.endsAt == 0 || limits.endsAt > limits.startsAt, "SavingsBank: Invalid plan window");
+
+        plan.name = name;
+        plan.durationDays = durationDays;
+        plan.minDeposit = minDeposit;
+        plan.maxDeposit = maxDeposit;
+        plan.aprBps = aprBps;
+        plan.earlyWithdrawPenaltyBps = earlyWithdrawPenaltyBps;
+        plan.isActive = true;
+        plan.asset = asset;
+        plan.limits = limits;
+
+        emit SavingsBank.PlanCreated(planId, name);
+    }
+
+    /**
+     * @dev Replace the APR tiers of a plan (see SavingsBank.setPlanAprTiers)
+     */
+    function setAprTiers(SavingsBank.AprTier[] storage target, SavingsBank.AprTier[] calldata tiers) external {
+        writeAprTiers(target, tiers);
+    }
+
+    /**
+     * @dev Tier and APR a deposit of `amount` would lock (see SavingsBank.quoteApr)
+     */
+    function quoteApr(
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AprTier[] storage aprTiers,
+        uint256 amount
+    ) external view returns (uint256 tier, uint256 aprBps) {
+        return _tierFor(plan, aprTiers, amount);
+    }
+
+    /**
+     * @dev Validate and store APR tiers: at most MAX_APR_TIERS, minAmount strictly ascending and
+     *      non-zero, APR in (0, 100%]
+     */
+    function writeAprTiers(SavingsBank.AprTier[] storage target, SavingsBank.AprTier[] calldata tiers) internal {
+        require(tiers.length <= MAX_APR_TIERS, "SavingsBank: Too many tiers");
+
+        while (target.length > 0) {
+            target.pop();
+        }
+        uint256 previousMin;
+        for (uint256 i = 0; i < tiers.length; i++) {
+            uint256 aprBps = tiers[i].aprBps;
+            require(tiers[i].minAmount > previousMin, "SavingsBank: Tiers not ascending");
+            require(aprBps > 0 && aprBps <= InterestCalculator.BPS_DENOMINATOR, "SavingsBank: Invalid APR");
+            previousMin = tiers[i].minAmount;
+            target.push(tiers[i]);
+        }
+    }
+
+    /**
+     * @dev Count `amount` of principal (and a certificate if `newCertificate`) for `wallet`, without limit checks
+     */
+    function recordUsage(
+        SavingsBank.PlanUsage storage usage,
+        address wallet,
+        uint256 amount,
+        bool newCertificate
+    ) internal {
+        usage.principal += amount;
+        usage.walletPrincipal[wallet] += amount;
+        if (newCertificate) {
+            usage.walletDeposits[wallet]++;
+        }
+    }
+
+    /**
+     * @dev Uncount `amount` of principal (and the certificate if `closed`) of `wallet`.
+     *      Saturating: certificates opened before usage tracking existed were never counted.
+     */
+    function releaseUsage(SavingsBank.PlanUsage storage usage, address wallet, uint256 amount, bool closed) internal {
+        usage.principal = _sub(usage.principal, amount);
+        usage.walletPrincipal[wallet] = _sub(usage.walletPrincipal[wallet], amount);
+        if (closed) {
+            usage.walletDeposits[wallet] = _sub(usage.walletDeposits[wallet], 1);
+        }
+    }
+
+    /**
+     * @dev Mint the certificate NFT (tokenId == depositId), locked if the plan is soulbound
+     */
+    function mintCertificate(IDepositNFT depositNFT, SavingsBank.SavingPlan storage plan, address to, uint256 id) internal {
+        depositNFT.mint(to, id);
+        if (plan.soulbound) {
+            depositNFT.lock(id);
+        }
+    }
+
+    /**
+     * @dev Full-term interest of `principal` under the certificate's locked terms
+     */
+    function interestAtMaturity(
+        SavingsBank.DepositCertificate storage cert,
+        uint256 principal
+    ) internal view returns (uint256) {
+        return
+            principal.calculateInterest(
+                cert.lockedAprBps,
+                cert.startTime,
+                cert.maturityTime,
+                cert.interestMode,
+                cert.dayCount
+            );
+    }
+
+    /**
+     * @dev Check the opening window and limits for `amount` of new principal from `wallet`, then count it
+     */
+    function _useCapacity(
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.PlanUsage storage usage,
+        address wallet,
+        uint256 amount,
+        bool newCertificate
+    ) private {
+        SavingsBank.PlanLimits storage limits = plan.limits;
+        require(block.timestamp >= limits.startsAt, "SavingsBank: Plan not started");
+        require(limits.endsAt == 0 || block.timestamp < limits.endsAt, "SavingsBank: Plan ended");
+        require(
+            limits.capacity == 0 || usage.principal + amount <= limits.capacity,
+            "SavingsBank: Plan capacity exceeded"
+        );
+        require(
+            limits.walletCap == 0 || usage.walletPrincipal[wallet] + amount <= limits.walletCap,
+            "SavingsBank: Wallet cap exceeded"
+        );
+        if (newCertificate) {
+            _requireCertificateSlot(limits, usage, wallet);
+        }
+
+        recordUsage(usage, wallet, amount, newCertificate);
+    }
+
+    /**
+     * @dev Check that `wallet` can hold one more active certificate of the plan (maxDepositsPerUser)
+     */
+    function _requireCertificateSlot(
+        SavingsBank.PlanLimits storage limits,
+        SavingsBank.PlanUsage storage usage,
+        address wallet
+    ) private view {
+        require(
+            limits.maxDepositsPerUser == 0 || usage.walletDeposits[wallet] < limits.maxDepositsPerUser,
+            "SavingsBank: Too many deposits"
+        );
+    }
+
+    /**
+     * @dev Highest tier whose minAmount is <= `amount` (tier 0 = plan APR)
+     */
+    function _tierFor(
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AprTier[] storage aprTiers,
+        uint256 amount
+    ) private view returns (uint256 tier, uint256 aprBps) {
+        aprBps = plan.aprBps;
+        for (uint256 i = 0; i < aprTiers.length && amount >= aprTiers[i].minAmount; i++) {
+            tier = i + 1;
+            aprBps = aprTiers[i].aprBps;
+        }
+    }
+
+    function _remaining(uint256 limit, uint256 used) private pure returns (uint256) {
+        if (limit == 0) return type(uint256).max;
+        return _sub(limit, used);
+    }
+
+    function _sub(uint256 a, uint256 b) private pure returns (uint256) {
+        return a > b ? a - b : 0;
+    }
+
+    /**
+     * @dev Copy the locked terms of `from` into a new active certificate of `principal`
+     */
+    function _copyTerms(
+        SavingsBank.DepositCertificate storage from,
+        SavingsBank.DepositCertificate storage to,
+        uint256 principal
+    ) private {
+        to.planId = from.planId;
+        to.principal = principal;
+        to.startTime = from.startTime;
+        to.maturityTime = from.maturityTime;
+        to.lockedAprBps = from.lockedAprBps;
+        to.isAutoRenewEnabled = from.isAutoRenewEnabled;
+        to.status = STATUS_ACTIVE;
+        to.interestMode = from.interestMode;
+        to.dayCount = from.dayCount;
+        to.renewalCount = from.renewalCount;
+        to.renewalBonusBps = from.renewalBonusBps;
+    }
+
+    /**
+     * @dev Move the InterestVault reservation from `reserved` to `required`
+     */
+    function _adjustReservation(SavingsBank.AssetConfig storage vaults, uint256 reserved, uint256 required) private {
+        if (required > reserved) {
+            vaults.interestVault.reserve(required - reserved);
+        } else if (reserved > required) {
+            vaults.interestVault.release(reserved - required);
+        }
+    }
+
+    /**
+     * @dev Move `amount` of interest from InterestVault into TokenVault (through the bank)
+     */
+    function _compound(address asset, SavingsBank.AssetConfig storage vaults, uint256 amount) private {
+        vaults.interestVault.withdraw(address(this), amount);
+        IERC20(asset).forceApprove(address(vaults.tokenVault), amount);
+        vaults.tokenVault.deposit(address(this), amount);
+    }
+
+    /**
+     * @dev Pay `amount - penalty` of principal and `accruedInterest` to `to`; the penalty
+     *      moves from TokenVault to InterestVault (boosts liquidity)
+     */
+    function _payEarly(
+        address asset,
+        SavingsBank.AssetConfig storage vaults,
+        address to,
+        uint256 amount,
+        uint256 penalty,
+        uint256 accruedInterest
+    ) private {
+        _coverShortfall(vaults, amount, accruedInterest);
+        vaults.tokenVault.withdraw(to, amount - penalty);
+
+        if (penalty > 0) {
+            vaults.tokenVault.withdraw(address(this), penalty);
+            IERC20(asset).forceApprove(address(vaults.interestVault), penalty);
+            vaults.interestVault.deposit(address(this), penalty);
+        }
+
+        if (accruedInterest > 0) {
+            vaults.interestVault.withdraw(to, accruedInterest);
+        }
+    }
+
+    /**
+     * @dev Top TokenVault up from InterestVault when a strategy loss leaves it short of the `principal`
+     *      about to be paid, so the loss is not left to the last withdrawers. Only unreserved liquidity
+     *      is used, minus `interestDue` (released interest paid in the same call).
+     */
+    function _coverShortfall(SavingsBank.AssetConfig storage vaults, uint256 principal, uint256 interestDue) private {
+        uint256 held = vaults.tokenVault.principalBalance();
+        if (held >= principal) return;
+
+        uint256 shortfall = principal - held;
+        require(
+            shortfall + interestDue <= vaults.interestVault.availableBalance(),
+            "SavingsBank: Principal shortfall"
+        );
+        vaults.interestVault.withdraw(address(vaults.tokenVault), shortfall);
+    }
+}
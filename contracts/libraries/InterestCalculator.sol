@@ -7,12 +7,40 @@ pragma solidity ^0.8.20;
  * @dev All calculations use basis points (BPS) where 10000 BPS = 100%
  */
 library InterestCalculator {
+    /**
+     * @dev How interest accrues over the term
+     * - Simple: principal * apr * days / daysPerYear (whole days)
+     * - DailyCompound: principal * ((1 + apr / daysPerYear) ^ days - 1)
+     * - PerSecond: principal * apr * seconds / (365 days), Actual/365 only
+     */
+    enum InterestMode {
+        Simple,
+        DailyCompound,
+        PerSecond
+    }
+
+    /**
+     * @dev Day-count convention used by the day-based modes
+     * - Actual365: actual elapsed days over a 365-day year
+     * - Thirty360: 30/360 ISDA (bond basis) over a 360-day year
+     */
+    enum DayCount {
+        Actual365,
+        Thirty360
+    }
+
     /// @dev Basis points denominator (10000 = 100%)
     uint256 constant BPS_DENOMINATOR = 10000;
     
     /// @dev Seconds per year (365 days)
     uint256 constant SECONDS_PER_YEAR = 365 days;
 
+    /// @dev Fixed-point scale for compounding (1e18 = 1.0)
+    uint256 constant WAD = 1e18;
+
+    /// @dev Julian day number of 1970-01-01 (used by _daysToDate)
+    int256 constant OFFSET19700101 = 2440588;
+
     /**
      * @dev Calculate simple interest
      * @param principal Principal amount
@@ -44,5 +72,103 @@ library InterestCalculator {
     ) internal pure returns (uint256 penalty) {
         return (principal * penaltyBps) / BPS_DENOMINATOR;
     }
-}
 
+    /**
+     * @dev Calculate interest between two timestamps using an interest mode and day-count convention
+     * @param principal Principal amount
+     * @param aprBps Annual percentage rate in basis points
+     * @param startTime Accrual start timestamp
+     * @param endTime Accrual end timestamp
+     * @param mode Interest mode
+     * @param dayCount Day-count convention (ignored by PerSecond, which is always Actual/365)
+     * @return interest Calculated interest amount (rounded down)
+     */
+    function calculateInterest(
+        uint256 principal,
+        uint256 aprBps,
+        uint256 startTime,
+        uint256 endTime,
+        InterestMode mode,
+        DayCount dayCount
+    ) internal pure returns (uint256 interest) {
+        if (endTime <= startTime) return 0;
+
+        if (mode == InterestMode.PerSecond) {
+            return (principal * aprBps * (endTime - startTime)) / (SECONDS_PER_YEAR * BPS_DENOMINATOR);
+        }
+
+        uint256 dayCountDays = countDays(startTime, endTime, dayCount);
+        uint256 daysPerYear = dayCount == DayCount.Thirty360 ? 360 : 365;
+
+        if (mode == InterestMode.DailyCompound) {
+            uint256 dailyRate = (aprBps * WAD) / (daysPerYear * BPS_DENOMINATOR);
+            uint256 growth = _rpow(WAD + dailyRate, dayCountDays);
+            return (principal * (growth - WAD)) / WAD;
+        }
+
+        return (principal * aprBps * dayCountDays) / (daysPerYear * BPS_DENOMINATOR);
+    }
+
+    /**
+     * @dev Number of days between two timestamps under a day-count convention
+     * @param startTime Start timestamp
+     * @param endTime End timestamp (>= startTime)
+     * @param dayCount Day-count convention
+     * @return dayCountDays Whole days (Actual365) or 30/360 days (Thirty360)
+     *
+     * 30/360 ISDA: D1 = min(d1, 30); D2 = 30 if d2 == 31 and D1 == 30;
+     * days = 360 * (y2 - y1) + 30 * (m2 - m1) + (D2 - D1)
+     */
+    function countDays(
+        uint256 startTime,
+        uint256 endTime,
+        DayCount dayCount
+    ) internal pure returns (uint256 dayCountDays) {
+        if (dayCount == DayCount.Actual365) {
+            return (endTime - startTime) / 1 days;
+        }
+
+        (uint256 y1, uint256 m1, uint256 d1) = _daysToDate(startTime / 1 days);
+        (uint256 y2, uint256 m2, uint256 d2) = _daysToDate(endTime / 1 days);
+
+        if (d1 == 31) d1 = 30;
+        if (d2 == 31 && d1 == 30) d2 = 30;
+
+        return (y2 * 360 + m2 * 30 + d2) - (y1 * 360 + m1 * 30 + d1);
+    }
+
+    /**
+     * @dev (base / WAD) ^ exponent in WAD fixed point, exponentiation by squaring, rounding down
+     */
+    function _rpow(uint256 base, uint256 exponent) private pure returns (uint256 result) {
+        result = WAD;
+        while (exponent > 0) {
+            if (exponent & 1 == 1) {
+                result = (result * base) / WAD;
+            }
+            base = (base * base) / WAD;
+            exponent >>= 1;
+        }
+    }
+
+    /**
+     * @dev Convert days since 1970-01-01 to a (year, month, day) UTC date
+     *      (Fliegel & Van Flandern, as used by BokkyPooBah's DateTime library)
+     */
+    function _daysToDate(uint256 numDays) private pure returns (uint256 year, uint256 month, uint256 day) {
+        int256 L = int256(numDays) + 68569 + OFFSET19700101;
+        int256 N = (4 * L) / 146097;
+        L = L - (146097 * N + 3) / 4;
+        int256 _year = (4000 * (L + 1)) / 1461001;
+        L = L - (1461 * _year) / 4 + 31;
+        int256 _month = (80 * L) / 2447;
+        int256 _day = L - (2447 * _month) / 80;
+        L = _month / 11;
+        _month = _month + 2 - 12 * L;
+        _year = 100 * (N - 49) + _year + L;
+
+        year = uint256(_year);
+        month = uint256(_month);
+        day = uint256(_day);
+    }
+}
@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../interfaces/IDepositNFT.sol";
+import "../interfaces/IInterestVault.sol";
+import "../interfaces/ITokenVault.sol";
+import "../SavingsBank.sol";
+import "./DepositLogic.sol";
+
+/**
+ * @title MigrationLogic
+ * @notice Moving plans, certificates and vault balances from one SavingsBank deployment to another
+ * @dev Linked library (DELEGATECALL from the bank), like DepositLogic. The bank checks roles, the
+ *      migration window, IDs and pause state, and keeps its counters; this library copies records,
+ *      moves vault balances and emits the bank's events.
+ */
+library MigrationLogic {
+    /**
+     * @dev Store an exported plan and its APR tiers (see SavingsBank.importPlan)
+     */
+    function importPlan(
+        SavingsBank.SavingPlan storage target,
+        SavingsBank.AprTier[] storage targetTiers,
+        uint256 planId,
+        SavingsBank.SavingPlan calldata plan,
+        SavingsBank.AprTier[] calldata aprTiers
+    ) external {
+        target.name = plan.name;
+        target.durationDays = plan.durationDays;
+        target.minDeposit = plan.minDeposit;
+        target.maxDeposit = plan.maxDeposit;
+        target.aprBps = plan.aprBps;
+        target.earlyWithdrawPenaltyBps = plan.earlyWithdrawPenaltyBps;
+        target.isActive = plan.isActive;
+        target.interestMode = plan.interestMode;
+        target.dayCount = plan.dayCount;
+        target.earlyRateBps = plan.earlyRateBps;
+        target.topUpPolicy = plan.topUpPolicy;
+        target.asset = plan.asset;
+        target.limits = plan.limits;
+        target.renewalBonusBps = plan.renewalBonusBps;
+        target.maxRenewalBonusBps = plan.maxRenewalBonusBps;
+        target.soulbound = plan.soulbound;
+        DepositLogic.writeAprTiers(targetTiers, aprTiers);
+
+        emit SavingsBank.PlanCreated(planId, plan.name);
+        if (!plan.isActive) {
+            emit SavingsBank.PlanEnabled(planId, false);
+        }
+    }
+
+    /**
+     * @dev Store an exported certificate, reserve its full-term interest, count it in the plan usage
+     *      and mint its NFT (see SavingsBank.importDeposit)
+     */
+    function importDeposit(
+        SavingsBank.DepositCertificate storage target,
+        SavingsBank.SavingPlan storage plan,
+        SavingsBank.AssetConfig storage vaults,
+        SavingsBank.PlanUsage storage usage,
+        IDepositNFT depositNFT,
+        uint256 depositId,
+        address owner,
+        SavingsBank.DepositCertificate calldata cert
+    ) external {
+        require(cert.status == DepositLogic.STATUS_ACTIVE, "SavingsBank: Not active");
+
+        target.planId = cert.planId;
+        target.principal = cert.principal;
+        target.startTime = cert.startTime;
+        target.maturityTime = cert.maturityTime;
+        target.lockedAprBps = cert.lockedAprBps;
+        target.isAutoRenewEnabled = cert.isAutoRenewEnabled;
+        target.status = cert.status;
+        target.interestMode = cert.interestMode;
+        target.dayCount = cert.dayCount;
+        target.renewalCount = cert.renewalCount;
+        target.renewalBonusBps = cert.renewalBonusBps;
+
+        vaults.interestVault.reserve(DepositLogic.interestAtMaturity(target, target.principal));
+        DepositLogic.recordUsage(usage, owner, cert.principal, true);
+        DepositLogic.mintCertificate(depositNFT, plan, owner, depositId);
+
+        emit SavingsBank.DepositOpened(depositId, owner, cert.planId, cert.principal, cert.maturityTime);
+    }
+
+    /**
+     * @dev Empty an asset's vault pair into the vaults a new deployment registered for it
+     *      (see SavingsBank.exportVaults). Principal lost in the strategy is made up from
+     *      InterestVault so the new TokenVault holds all the principal the certificates owe.
+     */
+    function exportVaults(
+        mapping(uint256 => SavingsBank.SavingPlan) storage plans,
+        mapping(uint256 => SavingsBank.PlanUsage) storage usage,
+        uint256 planCount,
+        SavingsBank.AssetConfig storage vaults,
+        address asset,
+        address newSavingsBank
+    ) external {
+        (ITokenVault newTokenVault, IInterestVault newInterestVault, , ) = SavingsBank(newSavingsBank).assets(asset);
+        require(address(newTokenVault) != address(0), "SavingsBank: Asset not found");
+
+        // Strategy yield is harvested into InterestVault by the withdrawal and leaves with the interest below
+        uint256 principal = vaults.tokenVault.principalBalance();
+        if (principal > 0) {
+            vaults.tokenVault.withdraw(address(newTokenVault), principal);
+        }
+
+        // Outstanding principal of the asset's certificates, as counted in plan usage
+        uint256 owed;
+        for (uint256 planId = 1; planId < planCount; planId++) {
+            if (plans[planId].asset == asset) {
+                owed += usage[planId].principal;
+            }
+        }
+        if (owed > principal) {
+            uint256 shortfall = owed - principal;
+            require(shortfall <= vaults.interestVault.availableBalance(), "SavingsBank: Principal shortfall");
+            vaults.interestVault.withdraw(address(newTokenVault), shortfall);
+            principal = owed;
+        }
+
+        // Reservations are recreated by importDeposit on the new bank
+        uint256 reserved = vaults.interestVault.totalReserved();
+        if (reserved > 0) {
+            vaults.interestVault.release(reserved);
+        }
+        uint256 interest = vaults.interestVault.balance();
+        if (interest > 0) {
+            vaults.interestVault.withdraw(address(newInterestVault), interest);
+        }
+
+        emit SavingsBank.VaultsExported(asset, newSavingsBank, principal, interest);
+    }
+}
@@ -8,21 +8,16 @@ import "../interfaces/IDepositNFT.sol";
 /**
  * @title MockDepositNFT
  * @dev Minimal ERC721Enumerable implementation of IDepositNFT used for testing SavingsBank.
- *      This contract does NOT implement on-chain SVG metadata; it only tracks ownership.
+ *      This contract does NOT implement on-chain SVG metadata or the transfer hook; it only tracks
+ *      ownership (lock is recorded but not enforced).
  */
 contract MockDepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
-    uint256 private _nextTokenId;
+    constructor() ERC721("Mock Deposit NFT", "mDSC") Ownable(msg.sender) {}
 
-    constructor() ERC721("Mock Deposit NFT", "mDSC") Ownable(msg.sender) {
-        _nextTokenId = 1;
-    }
-
-    function mint(address to) external override onlyOwner returns (uint256) {
+    function mint(address to, uint256 tokenId) external override onlyOwner {
         require(to != address(0), "MockDepositNFT: invalid receiver");
-        uint256 tokenId = _nextTokenId++;
         _safeMint(to, tokenId);
         emit DepositNFTMinted(tokenId, to);
-        return tokenId;
     }
 
     function burn(uint256 tokenId) external override onlyOwner {
@@ -30,6 +25,13 @@ contract MockDepositNFT is ERC721Enumerable, Ownable, IDepositNFT {
         emit DepositNFTBurned(tokenId);
     }
 
+    mapping(uint256 => bool) public override locked;
+
+    function lock(uint256 tokenId) external override onlyOwner {
+        locked[tokenId] = true;
+        emit Locked(tokenId);
+    }
+
     function refreshMetadata(uint256 tokenId) external override {
         // OpenZeppelin v5 removed `_exists`; use `_ownerOf` to check existence instead.
         require(_ownerOf(tokenId) != address(0), "MockDepositNFT: token does not exist");
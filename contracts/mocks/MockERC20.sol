@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @dev Mock ERC20 with configurable decimals (e.g. USDT 6, DAI 18) for multi-asset testing
+ * @notice Public mint function for easy testing - DO NOT use in production
+ */
+contract MockERC20 is ERC20 {
+    uint8 private immutable _decimals;
+
+    /**
+     * @dev Constructor sets token name, symbol and decimals
+     * @param name_ Token name
+     * @param symbol_ Token symbol
+     * @param decimals_ Token decimals
+     */
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    /**
+     * @dev Returns the configured decimals
+     */
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /**
+     * @dev Public mint function for testing
+     * @param to Address to mint tokens to
+     * @param amount Amount of tokens to mint (in token decimals)
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
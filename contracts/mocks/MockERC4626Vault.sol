@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockERC4626Vault
+ * @dev ERC-4626 yield source for TokenVault strategy tests. Yield is simulated by sending
+ *      (or minting) the asset to the vault; losses by simulateLoss.
+ * @notice Test-only contract - DO NOT use in production
+ */
+contract MockERC4626Vault is ERC4626 {
+    using SafeERC20 for IERC20;
+
+    /// @dev Where simulated losses are sent
+    address public constant LOSS_SINK = address(0xdEaD);
+
+    /**
+     * @dev Constructor sets the underlying asset
+     * @param asset_ Underlying token
+     */
+    constructor(IERC20 asset_) ERC20("Mock Yield Vault", "myVAULT") ERC4626(asset_) {}
+
+    /**
+     * @dev Lose `amount` of the underlying, lowering the value of every share
+     * @param amount Amount of the asset to remove
+     */
+    function simulateLoss(uint256 amount) external {
+        IERC20(asset()).safeTransfer(LOSS_SINK, amount);
+    }
+}
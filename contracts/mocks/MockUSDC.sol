@@ -2,17 +2,19 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /**
  * @title MockUSDC
  * @dev Mock USDC token for testing (6 decimals like real USDC)
+ *      Supports EIP-2612 permit (domain name "Mock USDC", version "1") like real USDC
  * @notice Public mint function for easy testing - DO NOT use in production
  */
-contract MockUSDC is ERC20 {
+contract MockUSDC is ERC20, ERC20Permit {
     /**
      * @dev Constructor sets token name and symbol
      */
-    constructor() ERC20("Mock USDC", "USDC") {}
+    constructor() ERC20("Mock USDC", "USDC") ERC20Permit("Mock USDC") {}
 
     /**
      * @dev Returns 6 decimals (same as real USDC)
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../SavingsBank.sol";
+
+/**
+ * @title SavingsBankV2
+ * @dev Upgrade target for testing: appends state and a reinitializer on top of SavingsBank
+ *      (the proxy is already initialized, so V2 has no initializer of its own)
+ * @notice Test-only implementation - DO NOT use in production
+ * @custom:oz-upgrades-unsafe-allow external-library-linking missing-initializer
+ * @custom:oz-upgrades-from SavingsBank
+ */
+contract SavingsBankV2 is SavingsBank {
+    /// @dev New V2 state (stored after SavingsBank's __gap)
+    uint256 public maxDepositsPerUser;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address _trustedForwarder) SavingsBank(_trustedForwarder) {}
+
+    /**
+     * @dev Second-version initializer, run once through ProxyAdmin.upgradeAndCall
+     * @param _maxDepositsPerUser Value for the new state variable
+     */
+    function initializeV2(uint256 _maxDepositsPerUser) external reinitializer(2) {
+        maxDepositsPerUser = _maxDepositsPerUser;
+    }
+
+    /**
+     * @dev Implementation version
+     */
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
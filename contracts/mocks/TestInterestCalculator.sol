@@ -28,6 +28,42 @@ contract TestInterestCalculator {
         return InterestCalculator.calculateInterest(principal, aprBps, durationDays);
     }
 
+    /**
+     * @dev Calculate interest between two timestamps with a mode and day-count convention
+     * @param principal Principal amount
+     * @param aprBps APR in basis points
+     * @param startTime Accrual start timestamp
+     * @param endTime Accrual end timestamp
+     * @param mode InterestCalculator.InterestMode
+     * @param dayCount InterestCalculator.DayCount
+     * @return interest Calculated interest
+     */
+    function calculateInterestWithMode(
+        uint256 principal,
+        uint256 aprBps,
+        uint256 startTime,
+        uint256 endTime,
+        InterestCalculator.InterestMode mode,
+        InterestCalculator.DayCount dayCount
+    ) external pure returns (uint256) {
+        return InterestCalculator.calculateInterest(principal, aprBps, startTime, endTime, mode, dayCount);
+    }
+
+    /**
+     * @dev Count days between two timestamps
+     * @param startTime Start timestamp
+     * @param endTime End timestamp
+     * @param dayCount InterestCalculator.DayCount
+     * @return dayCountDays Day count
+     */
+    function countDays(
+        uint256 startTime,
+        uint256 endTime,
+        InterestCalculator.DayCount dayCount
+    ) external pure returns (uint256) {
+        return InterestCalculator.countDays(startTime, endTime, dayCount);
+    }
+
     /**
      * @dev Calculate penalty
      * @param principal Principal amount
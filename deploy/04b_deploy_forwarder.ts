@@ -1,19 +1,23 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+/**
+ * ERC-2771 forwarder trusted by SavingsBank for gasless (relayed) user actions.
+ * Immutable in the bank: redeploying the forwarder requires redeploying SavingsBank.
+ */
 const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
   const { deployments, getNamedAccounts } = hre;
   const { deploy, log } = deployments;
   const { deployer } = await getNamedAccounts();
 
-  const result = await deploy("MockDepositNFT", {
+  const result = await deploy("SavingsForwarder", {
     from: deployer,
     args: [],
     log: true,
     waitConfirmations: 1,
   });
-  log("MockDepositNFT:", result.address);
+  log("SavingsForwarder:", result.address);
 };
 
 export default deploy;
-deploy.tags = ["MockDepositNFT", "all"];
+deploy.tags = ["Forwarder", "all"];
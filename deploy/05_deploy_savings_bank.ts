@@ -1,25 +1,62 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+/**
+ * SavingsBank behind a transparent proxy (@openzeppelin/hardhat-upgrades), linked to DepositLogic
+ * and MigrationLogic.
+ * The deployment saved as "SavingsBank" is the proxy; 06 hands its ProxyAdmin to SavingsTimelock.
+ * It is initialized without a DepositNFT, which needs the proxy address and is wired by 05c.
+ * SavingsTimelock (05b) receives TIMELOCK_ROLE here; the role is its own admin, so no one else can grant it.
+ * Later implementations go through scripts/upgrade/prepare_savings_bank_upgrade.ts.
+ */
 const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
-  const { deployments, getNamedAccounts } = hre;
-  const { deploy, log, get } = deployments;
+  const { deployments, ethers, getNamedAccounts, upgrades } = hre;
+  const { deploy, log, get, getOrNull, getExtendedArtifact, save } = deployments;
   const { deployer } = await getNamedAccounts();
 
+  const existing = await getOrNull("SavingsBank");
+  if (existing) {
+    log("SavingsBank proxy already deployed:", existing.address);
+    return;
+  }
+
   const usdc = await get("MockUSDC");
   const tokenVault = await get("TokenVault");
   const interestVault = await get("InterestVault");
-  const depositNFT = await get("MockDepositNFT");
+  const forwarder = await get("SavingsForwarder");
+  const timelock = await get("SavingsTimelock");
+
+  const depositLogic = await deploy("DepositLogic", { from: deployer, log: true, waitConfirmations: 1 });
+  const migrationLogic = await deploy("MigrationLogic", { from: deployer, log: true, waitConfirmations: 1 });
+  const libraries = { DepositLogic: depositLogic.address, MigrationLogic: migrationLogic.address };
 
-  const result = await deploy("SavingsBank", {
-    from: deployer,
-    args: [usdc.address, tokenVault.address, interestVault.address, depositNFT.address],
-    log: true,
-    waitConfirmations: 1,
+  const factory = await ethers.getContractFactory("SavingsBank", {
+    signer: await ethers.getSigner(deployer),
+    libraries,
   });
-  log("SavingsBank:", result.address);
+  const proxy = await upgrades.deployProxy(
+    factory,
+    [usdc.address, tokenVault.address, interestVault.address, ethers.ZeroAddress, timelock.address],
+    { kind: "transparent", constructorArgs: [forwarder.address], initialOwner: deployer }
+  );
+  await proxy.waitForDeployment();
+
+  const address = await proxy.getAddress();
+  const implementation = await upgrades.erc1967.getImplementationAddress(address);
+  const { abi } = await getExtendedArtifact("SavingsBank");
+  await save("SavingsBank", {
+    address,
+    abi,
+    implementation,
+    transactionHash: proxy.deploymentTransaction()?.hash,
+    libraries,
+  });
+
+  log("SavingsBank (proxy):", address);
+  log("  implementation:", implementation);
+  log("  ProxyAdmin:", await upgrades.erc1967.getAdminAddress(address));
 };
 
 export default deploy;
 deploy.tags = ["SavingsBank", "all"];
-deploy.dependencies = ["TokenVault", "InterestVault", "MockDepositNFT"];
+deploy.dependencies = ["TokenVault", "InterestVault", "Forwarder", "Timelock"];
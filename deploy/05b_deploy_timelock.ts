@@ -0,0 +1,25 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { loadRoleConfig, resolveAccounts } from "../config/roleConfig";
+
+/**
+ * SavingsTimelock: delay, proposers and executors from config/roles.json (`timelock`).
+ * Deployed before SavingsBank, whose initialize grants it TIMELOCK_ROLE.
+ */
+const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { deploy, log } = deployments;
+  const named = await getNamedAccounts();
+
+  const { timelock } = loadRoleConfig(network.name);
+  const result = await deploy("SavingsTimelock", {
+    from: named.deployer,
+    args: [timelock.minDelay, resolveAccounts(timelock.proposers, named), resolveAccounts(timelock.executors, named)],
+    log: true,
+    waitConfirmations: 1,
+  });
+  log(`SavingsTimelock: ${result.address} (delay ${timelock.minDelay}s)`);
+};
+
+export default deploy;
+deploy.tags = ["Timelock", "all"];
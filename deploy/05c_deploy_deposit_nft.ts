@@ -0,0 +1,34 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+/**
+ * DepositNFT (on-chain SVG/JSON metadata) reads certificates from SavingsBank, so it is deployed
+ * after the proxy and wired with the one-time setDepositNFT; 06 hands it to SavingsBank.
+ */
+const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployments, ethers, getNamedAccounts } = hre;
+  const { deploy, get, log } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  const savingsBank = await get("SavingsBank");
+  const result = await deploy("DepositNFT", {
+    from: deployer,
+    args: [savingsBank.address],
+    log: true,
+    waitConfirmations: 1,
+  });
+  log("DepositNFT:", result.address);
+
+  const SavingsBank = await ethers.getContractAt("SavingsBank", savingsBank.address, await ethers.getSigner(deployer));
+  const current = await SavingsBank.depositNFT();
+  if (current === ethers.ZeroAddress) {
+    await (await SavingsBank.setDepositNFT(result.address)).wait();
+    log("05c: SavingsBank.setDepositNFT ->", result.address);
+  } else if (current !== result.address) {
+    throw new Error(`SavingsBank already wired to DepositNFT ${current}`);
+  }
+};
+
+export default deploy;
+deploy.tags = ["DepositNFT", "all"];
+deploy.dependencies = ["SavingsBank"];
@@ -1,18 +1,20 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
+import { ROLE_KEYS, loadRoleConfig, resolveAccounts } from "../config/roleConfig";
 
 const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
-  const { deployments, ethers } = hre;
+  const { deployments, ethers, getNamedAccounts, network, upgrades } = hre;
   const { get, log } = deployments;
 
   const savingsBank = await get("SavingsBank");
   const tokenVault = await get("TokenVault");
   const interestVault = await get("InterestVault");
-  const depositNFT = await get("MockDepositNFT");
+  const depositNFT = await get("DepositNFT");
+  const timelock = await get("SavingsTimelock");
 
   const TokenVault = await ethers.getContractAt("TokenVault", tokenVault.address);
   const InterestVault = await ethers.getContractAt("InterestVault", interestVault.address);
-  const DepositNFT = await ethers.getContractAt("MockDepositNFT", depositNFT.address);
+  const DepositNFT = await ethers.getContractAt("DepositNFT", depositNFT.address);
 
   if ((await TokenVault.owner()) !== savingsBank.address) {
     await (await TokenVault.transferOwnership(savingsBank.address)).wait();
@@ -24,11 +26,33 @@ const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
   }
   if ((await DepositNFT.owner()) !== savingsBank.address) {
     await (await DepositNFT.transferOwnership(savingsBank.address)).wait();
-    log("06: MockDepositNFT ownership -> SavingsBank");
+    log("06: DepositNFT ownership -> SavingsBank");
+  }
+
+  // Roles on SavingsBank (config/roles.json); the deployer keeps its roles until 09
+  const SavingsBank = await ethers.getContractAt("SavingsBank", savingsBank.address);
+  const config = loadRoleConfig(network.name);
+  const named = await getNamedAccounts();
+  for (const [key, roleName] of Object.entries(ROLE_KEYS)) {
+    const role = await SavingsBank.getFunction(roleName)();
+    for (const account of resolveAccounts(config[key as keyof typeof ROLE_KEYS], named)) {
+      if (await SavingsBank.hasRole(role, account)) continue;
+      await (await SavingsBank.grantRole(role, account)).wait();
+      log(`06: ${roleName} -> ${account}`);
+    }
+  }
+
+  // Upgrades: the proxy's ProxyAdmin belongs to the timelock, so a new implementation waits minDelay too
+  const proxyAdmin = await ethers.getContractAt("Ownable", await upgrades.erc1967.getAdminAddress(savingsBank.address));
+  if ((await proxyAdmin.owner()) !== timelock.address) {
+    await upgrades.admin.transferProxyAdminOwnership(savingsBank.address, timelock.address, undefined, {
+      silent: true,
+    });
+    log(`06: SavingsBank ProxyAdmin ownership -> SavingsTimelock`);
   }
   log("06 Setup ownership: done");
 };
 
 export default deploy;
 deploy.tags = ["Setup", "all"];
-deploy.dependencies = ["SavingsBank"];
+deploy.dependencies = ["SavingsBank", "DepositNFT", "Timelock"];
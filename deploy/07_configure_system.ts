@@ -3,10 +3,39 @@ import { DeployFunction } from "hardhat-deploy/types";
 
 const FUND_AMOUNT = "100000"; // 100k USDC (6 decimals)
 
-const plans = [
+/**
+ * Optional plan limits (USDC amounts, unix timestamps; omitted or 0 = no limit):
+ * startsAt/endsAt bound the opening window, capacity caps the plan's active principal,
+ * walletCap the principal per wallet and maxDepositsPerUser its active certificates.
+ */
+interface PlanLimitsConfig {
+  startsAt?: number;
+  endsAt?: number;
+  capacity?: string;
+  walletCap?: string;
+  maxDepositsPerUser?: number;
+}
+
+const plans: {
+  name: string;
+  durationDays: number;
+  minDeposit: string;
+  maxDeposit: string;
+  aprBps: number;
+  penaltyBps: number;
+  limits?: PlanLimitsConfig;
+}[] = [
   { name: "7 Days", durationDays: 7, minDeposit: "100", maxDeposit: "10000", aprBps: 500, penaltyBps: 300 },
   { name: "30 Days", durationDays: 30, minDeposit: "500", maxDeposit: "50000", aprBps: 800, penaltyBps: 500 },
-  { name: "90 Days", durationDays: 90, minDeposit: "1000", maxDeposit: "100000000", aprBps: 1000, penaltyBps: 500 },
+  {
+    name: "90 Days",
+    durationDays: 90,
+    minDeposit: "1000",
+    maxDeposit: "100000000",
+    aprBps: 1000,
+    penaltyBps: 500,
+    limits: { capacity: "500000000", maxDepositsPerUser: 20 },
+  },
 ];
 
 const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
@@ -43,7 +72,14 @@ const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
           ethers.parseUnits(p.minDeposit, 6),
           ethers.parseUnits(p.maxDeposit, 6),
           p.aprBps,
-          p.penaltyBps
+          p.penaltyBps,
+          {
+            startsAt: p.limits?.startsAt ?? 0,
+            endsAt: p.limits?.endsAt ?? 0,
+            capacity: ethers.parseUnits(p.limits?.capacity ?? "0", 6),
+            walletCap: ethers.parseUnits(p.limits?.walletCap ?? "0", 6),
+            maxDepositsPerUser: p.limits?.maxDepositsPerUser ?? 0,
+          }
         )
       ).wait();
       log(`07: Plan created: ${p.name}`);
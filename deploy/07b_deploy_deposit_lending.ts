@@ -0,0 +1,45 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+const LTV_BPS = 7000; // borrow up to 70% of principal + accrued interest
+const BORROW_APR_BPS = 1000; // 10% APR on loans
+const FUND_AMOUNT = "50000"; // 50k USDC lending liquidity (6 decimals)
+
+/**
+ * DepositLending: USDC loans against escrowed DepositNFTs, settled from the withdrawal at maturity.
+ * The deployer stays owner (loan terms and liquidity); liquidity is funded with mock USDC.
+ */
+const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployments, ethers, getNamedAccounts } = hre;
+  const { deploy, get, log } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  const mockUSDC = await get("MockUSDC");
+  const savingsBank = await get("SavingsBank");
+  const depositNFT = await get("DepositNFT");
+
+  const result = await deploy("DepositLending", {
+    from: deployer,
+    args: [savingsBank.address, depositNFT.address, mockUSDC.address, LTV_BPS, BORROW_APR_BPS],
+    log: true,
+    waitConfirmations: 1,
+  });
+  log("DepositLending:", result.address);
+
+  const USDC = await ethers.getContractAt("MockUSDC", mockUSDC.address);
+  const lending = await ethers.getContractAt("DepositLending", result.address, await ethers.getSigner(deployer));
+  const fundAmountWei = ethers.parseUnits(FUND_AMOUNT, 6);
+
+  if ((await lending.availableLiquidity()) < fundAmountWei) {
+    await (await USDC.mint(deployer, fundAmountWei)).wait();
+    await (await USDC.approve(result.address, fundAmountWei)).wait();
+    await (await lending.fundLiquidity(fundAmountWei)).wait();
+    log(`07b: DepositLending funded ${FUND_AMOUNT} USDC`);
+  } else {
+    log("07b: DepositLending already funded");
+  }
+};
+
+export default deploy;
+deploy.tags = ["DepositLending", "all"];
+deploy.dependencies = ["Configure"];
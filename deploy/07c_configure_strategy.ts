@@ -0,0 +1,51 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+const DEPLOYED_BPS = 8000; // 80% of the principal earns yield, 20% stays idle for withdrawals
+
+/**
+ * TokenVault yield strategy: harvested yield goes to InterestVault. On a local chain the USDC
+ * TokenVault deploys into a MockERC4626Vault. Strategy configuration is then handed to
+ * SavingsTimelock, since the strategy holds principal.
+ */
+const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployments, ethers, getNamedAccounts, network } = hre;
+  const { deploy, get, log } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  const mockUSDC = await get("MockUSDC");
+  const tokenVault = await get("TokenVault");
+  const interestVault = await get("InterestVault");
+  const timelock = await get("SavingsTimelock");
+
+  const TokenVault = await ethers.getContractAt("TokenVault", tokenVault.address, await ethers.getSigner(deployer));
+  if ((await TokenVault.strategyManager()) !== deployer) {
+    log("07c: strategy managed by", await TokenVault.strategyManager());
+    return;
+  }
+
+  if ((await TokenVault.interestVault()) !== interestVault.address) {
+    await (await TokenVault.setInterestVault(interestVault.address)).wait();
+    log("07c: TokenVault yield -> InterestVault");
+  }
+
+  if (["hardhat", "localhost"].includes(network.name)) {
+    const strategy = await deploy("MockERC4626Vault", {
+      from: deployer,
+      args: [mockUSDC.address],
+      log: true,
+      waitConfirmations: 1,
+    });
+    await (await TokenVault.setStrategy(strategy.address)).wait();
+    await (await TokenVault.setDeployedShare(DEPLOYED_BPS)).wait();
+    await (await TokenVault.rebalance()).wait();
+    log(`07c: TokenVault strategy MockERC4626Vault, ${DEPLOYED_BPS / 100}% deployed`);
+  }
+
+  await (await TokenVault.setStrategyManager(timelock.address)).wait();
+  log(`07c: TokenVault strategyManager -> SavingsTimelock (${timelock.address})`);
+};
+
+export default deploy;
+deploy.tags = ["Strategy", "all"];
+deploy.dependencies = ["Configure"];
@@ -0,0 +1,122 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { NO_PLAN_LIMITS } from "../sdk";
+
+/**
+ * Extra deposit assets for local testing: one mock token + TokenVault/InterestVault pair each,
+ * registered on SavingsBank with a funded vault and a plan (amounts in the token's own decimals).
+ * Like the USDC vault in 07c, each TokenVault's strategy configuration goes to SavingsTimelock
+ * (no strategy is set here: a timelocked setStrategy adds one).
+ */
+const assets = [
+  {
+    name: "Mock USDT",
+    symbol: "USDT",
+    decimals: 6,
+    fund: "100000",
+    plan: {
+      name: "30 Days USDT",
+      durationDays: 30,
+      minDeposit: "100",
+      maxDeposit: "50000",
+      aprBps: 700,
+      penaltyBps: 500,
+    },
+  },
+  {
+    name: "Mock DAI",
+    symbol: "DAI",
+    decimals: 18,
+    fund: "100000",
+    plan: {
+      name: "90 Days DAI",
+      durationDays: 90,
+      minDeposit: "100",
+      maxDeposit: "100000",
+      aprBps: 900,
+      penaltyBps: 500,
+    },
+  },
+];
+
+const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployments, ethers, getNamedAccounts } = hre;
+  const { deploy, get, log } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  const savingsBank = await get("SavingsBank");
+  const timelock = await get("SavingsTimelock");
+  const SavingsBank = await ethers.getContractAt("SavingsBank", savingsBank.address);
+
+  for (const a of assets) {
+    const token = await deploy(`Mock${a.symbol}`, {
+      contract: "MockERC20",
+      from: deployer,
+      args: [a.name, a.symbol, a.decimals],
+      log: true,
+      waitConfirmations: 1,
+    });
+    const tokenVault = await deploy(`TokenVault_${a.symbol}`, {
+      contract: "TokenVault",
+      from: deployer,
+      args: [token.address],
+      log: true,
+      waitConfirmations: 1,
+    });
+    const interestVault = await deploy(`InterestVault_${a.symbol}`, {
+      contract: "InterestVault",
+      from: deployer,
+      args: [token.address],
+      log: true,
+      waitConfirmations: 1,
+    });
+
+    const TokenVault = await ethers.getContractAt("TokenVault", tokenVault.address, await ethers.getSigner(deployer));
+    if ((await TokenVault.strategyManager()) === deployer) {
+      await (await TokenVault.setInterestVault(interestVault.address)).wait();
+      await (await TokenVault.setStrategyManager(timelock.address)).wait();
+      log(`08: TokenVault_${a.symbol} strategyManager -> SavingsTimelock (${timelock.address})`);
+    }
+
+    const config = await SavingsBank.assets(token.address);
+    if (config.tokenVault !== ethers.ZeroAddress) {
+      log(`08: ${a.symbol} already registered, skip`);
+      continue;
+    }
+
+    const InterestVault = await ethers.getContractAt("InterestVault", interestVault.address);
+    await (await TokenVault.transferOwnership(savingsBank.address)).wait();
+    await (await InterestVault.transferOwnership(savingsBank.address)).wait();
+    await (await SavingsBank.addAsset(token.address, tokenVault.address, interestVault.address)).wait();
+    log(`08: ${a.symbol} registered (vaults owned by SavingsBank)`);
+
+    const Token = await ethers.getContractAt("MockERC20", token.address);
+    const fundAmount = ethers.parseUnits(a.fund, a.decimals);
+    await (await Token.mint(deployer, fundAmount)).wait();
+    await (await Token.approve(interestVault.address, fundAmount)).wait();
+    await (await SavingsBank.fundAssetVault(token.address, fundAmount)).wait();
+    log(`08: InterestVault_${a.symbol} funded ${a.fund} ${a.symbol}`);
+
+    const p = a.plan;
+    await (
+      await SavingsBank.createAssetPlan(
+        token.address,
+        p.name,
+        p.durationDays,
+        ethers.parseUnits(p.minDeposit, a.decimals),
+        ethers.parseUnits(p.maxDeposit, a.decimals),
+        p.aprBps,
+        p.penaltyBps,
+        NO_PLAN_LIMITS
+      )
+    ).wait();
+    log(`08: Plan created: ${p.name}`);
+  }
+  log("08 Extra assets: done");
+};
+
+export default deploy;
+deploy.tags = ["ExtraAssets", "all"];
+deploy.dependencies = ["Configure", "Timelock"];
+// Mock tokens only make sense on a local chain
+deploy.skip = async (hre: HardhatRuntimeEnvironment) => !["hardhat", "localhost"].includes(hre.network.name);
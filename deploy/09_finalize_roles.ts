@@ -0,0 +1,49 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { ROLE_KEYS, loadRoleConfig, resolveAccounts } from "../config/roleConfig";
+
+/**
+ * With `revokeDeployer` in config/roles.json, the deployer gives up every SavingsBank role
+ * it is not listed for, once plans and vaults are configured. DEFAULT_ADMIN_ROLE is dropped
+ * last and only when another configured admin already holds it.
+ */
+const deploy: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployments, ethers, getNamedAccounts, network } = hre;
+  const { get, log } = deployments;
+  const named = await getNamedAccounts();
+  const { deployer } = named;
+
+  const config = loadRoleConfig(network.name);
+  if (!config.revokeDeployer) {
+    log("09: revokeDeployer disabled, deployer keeps its roles");
+    return;
+  }
+
+  const savingsBank = await get("SavingsBank");
+  const SavingsBank = await ethers.getContractAt("SavingsBank", savingsBank.address);
+
+  const { admins: _admins, ...operational } = ROLE_KEYS;
+  for (const [key, roleName] of Object.entries(operational)) {
+    const holders = resolveAccounts(config[key as keyof typeof operational], named);
+    const role = await SavingsBank.getFunction(roleName)();
+    if (holders.includes(deployer) || !(await SavingsBank.hasRole(role, deployer))) continue;
+    await (await SavingsBank.renounceRole(role, deployer)).wait();
+    log(`09: deployer renounced ${roleName}`);
+  }
+
+  const admins = resolveAccounts(config.admins, named);
+  const adminRole = await SavingsBank.DEFAULT_ADMIN_ROLE();
+  const otherAdmin = admins.find((a) => a !== deployer);
+  if (admins.includes(deployer) || !otherAdmin) {
+    log("09: deployer keeps DEFAULT_ADMIN_ROLE");
+  } else if (await SavingsBank.hasRole(adminRole, otherAdmin)) {
+    await (await SavingsBank.renounceRole(adminRole, deployer)).wait();
+    log(`09: deployer renounced DEFAULT_ADMIN_ROLE (admin: ${otherAdmin})`);
+  }
+  log("09 Finalize roles: done");
+};
+
+export default deploy;
+deploy.tags = ["Roles", "all"];
+deploy.dependencies = ["Configure"];
+deploy.runAtTheEnd = true;
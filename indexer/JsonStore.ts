@@ -0,0 +1,43 @@
+import * as fs from "fs";
+import * as path from "path";
+import { IndexerState } from "./types";
+
+export const STORE_VERSION = 2;
+
+/**
+ * JsonStore
+ * @notice Persists IndexerState to a single JSON file (atomic write via rename).
+ *         Without a file path the state only lives in memory.
+ */
+export class JsonStore {
+  constructor(private readonly filePath?: string) {}
+
+  load(chainId: string, startBlock: number): IndexerState {
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      const state = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as IndexerState;
+      if (state.version === STORE_VERSION && state.chainId === chainId && state.startBlock === startBlock) {
+        return state;
+      }
+    }
+    return this.empty(chainId, startBlock);
+  }
+
+  save(state: IndexerState): void {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state));
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  empty(chainId: string, startBlock: number): IndexerState {
+    return {
+      version: STORE_VERSION,
+      chainId,
+      startBlock,
+      lastBlock: startBlock - 1,
+      checkpoints: [],
+      events: [],
+    };
+  }
+}
@@ -0,0 +1,255 @@
+import type { Interface, Log, Provider } from "ethers";
+import { IDepositNFT__factory, IInterestVault__factory, SavingsBank, SavingsBank__factory } from "../typechain";
+import { JsonStore } from "./JsonStore";
+import { ProtocolView } from "./ProtocolView";
+import { BlockCheckpoint, IndexedEvent, IndexerState } from "./types";
+
+export interface IndexerAddresses {
+  /** InterestVaults of every registered asset are read from SavingsBank (getAssets / assets) */
+  savingsBank: string;
+  /** Optional: NFT Transfer events (SavingsBank's DepositTransferred already keeps owners current) */
+  depositNFT?: string;
+}
+
+export interface IndexerOptions {
+  /** First block to index (deployment block) */
+  startBlock?: number;
+  /** Blocks behind head left unindexed (default 0) */
+  confirmations?: number;
+  /** Max block range per eth_getLogs call (default 2000) */
+  blockRange?: number;
+  /** Number of recent block hashes kept to detect reorgs (default 64) */
+  reorgDepth?: number;
+  /** JSON file to persist the index to (in-memory when omitted) */
+  storePath?: string;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  /** Block the index was rolled back to because of a reorg */
+  reorgedTo?: number;
+}
+
+const SAVINGS_BANK_EVENTS = [
+  "PlanCreated",
+  "PlanUpdated",
+  "PlanEnabled",
+  "DepositOpened",
+  "DepositIncreased",
+  "Withdrawn",
+  "PartialWithdrawn",
+  "AutoRenewed",
+  "RolledOver",
+  "DepositSplit",
+  "DepositMerged",
+  "DepositTransferred",
+  "VaultFunded",
+  "VaultWithdrawn",
+  "AssetVaultFunded",
+  "AssetVaultWithdrawn",
+];
+/** Legacy vault events of the primary (first registered) asset, which carry no asset argument */
+const PRIMARY_VAULT_EVENTS = ["VaultFunded", "VaultWithdrawn"];
+const INTEREST_VAULT_EVENTS = ["Reserved", "Released"];
+const DEPOSIT_NFT_EVENTS = ["Transfer"];
+
+/**
+ * ProtocolIndexer
+ * @notice Ingests SavingsBank, InterestVault and DepositNFT events into a JSON store
+ *         and serves history queries through a ProtocolView. The InterestVault of every
+ *         asset registered on SavingsBank is indexed; vault events are tagged with their asset.
+ *
+ * Reorg safety: hashes of the last `reorgDepth` indexed blocks are stored. Each sync
+ * first walks them back until one matches the chain, drops everything indexed after
+ * that block and rebuilds the view before fetching new logs.
+ */
+export class ProtocolIndexer {
+  private readonly options: Required<Omit<IndexerOptions, "storePath">>;
+  private readonly store: JsonStore;
+  private readonly bank: SavingsBank;
+  private readonly sources: { address: string; iface: Interface; events: string[]; asset?: string }[];
+  private primaryAsset?: string;
+  private state?: IndexerState;
+  private currentView = new ProtocolView();
+
+  constructor(private readonly provider: Provider, addresses: IndexerAddresses, options: IndexerOptions = {}) {
+    this.options = {
+      startBlock: options.startBlock ?? 0,
+      confirmations: options.confirmations ?? 0,
+      blockRange: options.blockRange ?? 2000,
+      reorgDepth: options.reorgDepth ?? 64,
+    };
+    this.store = new JsonStore(options.storePath);
+    this.bank = SavingsBank__factory.connect(addresses.savingsBank, provider);
+
+    this.sources = [
+      { address: addresses.savingsBank, iface: SavingsBank__factory.createInterface(), events: SAVINGS_BANK_EVENTS },
+    ];
+    if (addresses.depositNFT) {
+      this.sources.push({
+        address: addresses.depositNFT,
+        iface: IDepositNFT__factory.createInterface(),
+        events: DEPOSIT_NFT_EVENTS,
+      });
+    }
+  }
+
+  get view(): ProtocolView {
+    return this.currentView;
+  }
+
+  get lastBlock(): number {
+    return this.state?.lastBlock ?? this.options.startBlock - 1;
+  }
+
+  /**
+   * Index everything up to head - confirmations
+   */
+  async sync(): Promise<SyncResult> {
+    const state = await this.loadState();
+    const reorgedTo = await this.handleReorg(state);
+
+    const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+    await this.loadAssetVaults();
+    const fromBlock = state.lastBlock + 1;
+    let newEvents = 0;
+
+    for (let start = fromBlock; start <= head; start += this.options.blockRange) {
+      const end = Math.min(start + this.options.blockRange - 1, head);
+      const events = await this.fetchEvents(start, end);
+
+      events.forEach((e) => this.currentView.apply(e));
+      state.events.push(...events);
+      state.lastBlock = end;
+      newEvents += events.length;
+
+      await this.recordCheckpoints(state, events, end);
+      this.store.save(state);
+    }
+
+    return { fromBlock, toBlock: state.lastBlock, newEvents, reorgedTo };
+  }
+
+  // ==================== INTERNAL ====================
+
+  private async loadState(): Promise<IndexerState> {
+    if (!this.state) {
+      const { chainId } = await this.provider.getNetwork();
+      this.state = this.store.load(chainId.toString(), this.options.startBlock);
+      this.currentView = ProtocolView.fromEvents(this.state.events);
+    }
+    return this.state;
+  }
+
+  /**
+   * Add the InterestVault of every asset registered so far (assets are never removed)
+   */
+  private async loadAssetVaults(): Promise<void> {
+    const assets = await this.bank.getAssets();
+    this.primaryAsset ??= assets[0];
+
+    for (const asset of assets) {
+      if (this.sources.some((s) => s.asset === asset)) continue;
+      const { interestVault } = await this.bank.assets(asset);
+      this.sources.push({
+        address: interestVault,
+        iface: IInterestVault__factory.createInterface(),
+        events: INTEREST_VAULT_EVENTS,
+        asset,
+      });
+    }
+  }
+
+  /**
+   * Roll back to the newest checkpoint still on the canonical chain
+   */
+  private async handleReorg(state: IndexerState): Promise<number | undefined> {
+    if (state.checkpoints.length === 0) return undefined;
+
+    let ancestor: BlockCheckpoint | undefined;
+    for (let i = state.checkpoints.length - 1; i >= 0; i--) {
+      const cp = state.checkpoints[i];
+      const block = await this.provider.getBlock(cp.blockNumber);
+      if (block?.hash === cp.blockHash) {
+        ancestor = cp;
+        break;
+      }
+    }
+
+    const newest = state.checkpoints[state.checkpoints.length - 1];
+    if (ancestor === newest) return undefined;
+
+    // No checkpoint survived: the reorg is deeper than reorgDepth, reindex from scratch
+    const rollbackTo = ancestor ? ancestor.blockNumber : state.startBlock - 1;
+    state.events = state.events.filter((e) => e.blockNumber <= rollbackTo);
+    state.checkpoints = state.checkpoints.filter((cp) => cp.blockNumber <= rollbackTo);
+    state.lastBlock = rollbackTo;
+    this.currentView = ProtocolView.fromEvents(state.events);
+    this.store.save(state);
+
+    return rollbackTo;
+  }
+
+  /**
+   * Keep hashes of the range end block and of every block that produced events
+   */
+  private async recordCheckpoints(state: IndexerState, events: IndexedEvent[], blockNumber: number): Promise<void> {
+    const hashes = new Map(state.checkpoints.map((cp) => [cp.blockNumber, cp.blockHash]));
+    events.forEach((e) => hashes.set(e.blockNumber, e.blockHash));
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (block?.hash) hashes.set(blockNumber, block.hash);
+
+    state.checkpoints = [...hashes]
+      .map(([n, hash]) => ({ blockNumber: n, blockHash: hash }))
+      .sort((a, b) => a.blockNumber - b.blockNumber)
+      .slice(-this.options.reorgDepth);
+  }
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: this.sources.map((s) => s.address),
+      fromBlock,
+      toBlock,
+    });
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const event = this.decode(log);
+      if (event) events.push(event);
+    }
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private decode(log: Log): IndexedEvent | undefined {
+    const source = this.sources.find((s) => s.address.toLowerCase() === log.address.toLowerCase());
+    if (!source) return undefined;
+
+    let parsed;
+    try {
+      parsed = source.iface.parseLog(log);
+    } catch {
+      return undefined;
+    }
+    if (!parsed || !source.events.includes(parsed.name)) return undefined;
+
+    const args: Record<string, string | boolean> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed!.args[i];
+      args[input.name] = typeof value === "boolean" ? value : value.toString();
+    });
+
+    return {
+      name: parsed.name,
+      address: log.address,
+      asset: source.asset ?? (PRIMARY_VAULT_EVENTS.includes(parsed.name) ? this.primaryAsset : undefined),
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      args,
+    };
+  }
+}
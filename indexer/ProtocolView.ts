@@ -0,0 +1,314 @@
+import { ZeroAddress } from "ethers";
+import { DepositRecord, DepositState, IndexedEvent, PlanRecord, PlanVolume, VaultFlows } from "./types";
+
+const emptyFlows = (): VaultFlows => ({ funded: 0n, withdrawn: 0n, reserved: 0n, released: 0n, outstandingReserve: 0n });
+
+/**
+ * ProtocolView
+ * @notice In-memory projection of indexed events. Events must be applied in chain
+ *         order; after a reorg the indexer rebuilds the view from the stored events.
+ */
+export class ProtocolView {
+  readonly plans = new Map<bigint, PlanRecord>();
+  readonly deposits = new Map<bigint, DepositRecord>();
+  /** Vault flows per asset (lowercase address) */
+  private readonly flows = new Map<string, VaultFlows>();
+
+  static fromEvents(events: IndexedEvent[]): ProtocolView {
+    const view = new ProtocolView();
+    events.forEach((e) => view.apply(e));
+    return view;
+  }
+
+  apply(event: IndexedEvent): void {
+    const a = event.args;
+    switch (event.name) {
+      case "PlanCreated":
+        this.plans.set(BigInt(a.planId as string), {
+          planId: BigInt(a.planId as string),
+          name: a.name as string,
+          isActive: true,
+          createdAtBlock: event.blockNumber,
+          updateCount: 0,
+        });
+        break;
+      case "PlanUpdated": {
+        const plan = this.plans.get(BigInt(a.planId as string));
+        if (plan) plan.updateCount++;
+        break;
+      }
+      case "PlanEnabled": {
+        const plan = this.plans.get(BigInt(a.planId as string));
+        if (plan) plan.isActive = a.enabled as boolean;
+        break;
+      }
+      case "DepositOpened": {
+        const depositId = BigInt(a.depositId as string);
+        this.deposits.set(depositId, {
+          ...this.deposits.get(depositId),
+          depositId,
+          planId: BigInt(a.planId as string),
+          originalOwner: a.owner as string,
+          owner: a.owner as string,
+          principal: BigInt(a.principal as string),
+          partiallyWithdrawn: 0n,
+          toppedUp: 0n,
+          maturityAt: BigInt(a.maturityAt as string),
+          status: "Active",
+          interestPaid: 0n,
+          openedAtBlock: event.blockNumber,
+        });
+        break;
+      }
+      case "Withdrawn": {
+        const deposit = this.deposits.get(BigInt(a.depositId as string));
+        if (deposit) {
+          deposit.status = a.isEarly ? "EarlyWithdrawn" : "Withdrawn";
+          deposit.interestPaid += BigInt(a.interest as string);
+          deposit.closedAtBlock = event.blockNumber;
+        }
+        break;
+      }
+      case "DepositIncreased": {
+        const deposit = this.deposits.get(BigInt(a.depositId as string));
+        if (deposit) {
+          deposit.toppedUp += BigInt(a.amount as string);
+          deposit.principal = BigInt(a.newPrincipal as string);
+          deposit.maturityAt = BigInt(a.newMaturityTime as string);
+        }
+        break;
+      }
+      case "PartialWithdrawn": {
+        const deposit = this.deposits.get(BigInt(a.depositId as string));
+        if (deposit) {
+          deposit.partiallyWithdrawn += BigInt(a.amount as string);
+          deposit.interestPaid += BigInt(a.interest as string);
+          deposit.principal = BigInt(a.remainingPrincipal as string);
+        }
+        break;
+      }
+      case "AutoRenewed": {
+        const old = this.deposits.get(BigInt(a.oldDepositId as string));
+        const newPrincipal = BigInt(a.newPrincipal as string);
+        this.renew(event, old?.planId ?? 0n, newPrincipal, old ? newPrincipal - old.principal : 0n);
+        break;
+      }
+      case "RolledOver": {
+        const old = this.deposits.get(BigInt(a.oldDepositId as string));
+        const newPrincipal = BigInt(a.newPrincipal as string);
+        // Interest is either paid out or compounded into the new principal
+        const interest = BigInt(a.interestPaid as string) + (old ? newPrincipal - old.principal : 0n);
+        this.renew(event, BigInt(a.newPlanId as string), newPrincipal, interest);
+        break;
+      }
+      case "DepositSplit":
+      case "DepositMerged":
+        this.restructure(event);
+        break;
+      case "DepositTransferred": {
+        // SavingsBank's copy of a DepositNFT transfer (owners stay current without indexing the NFT)
+        const deposit = this.deposits.get(BigInt(a.depositId as string));
+        if (deposit) deposit.owner = a.to as string;
+        break;
+      }
+      case "Transfer": {
+        // DepositNFT: tokenId == depositId. Burns keep the last holder.
+        if (a.to === ZeroAddress) break;
+        const depositId = BigInt(a.tokenId as string);
+        const deposit = this.deposits.get(depositId);
+        if (deposit) {
+          deposit.owner = a.to as string;
+        } else {
+          // Mint is emitted before DepositOpened / AutoRenewed / RolledOver; keep a placeholder for the owner
+          this.deposits.set(depositId, {
+            depositId,
+            planId: 0n,
+            originalOwner: a.to as string,
+            owner: a.to as string,
+            principal: 0n,
+            partiallyWithdrawn: 0n,
+            toppedUp: 0n,
+            status: "Active",
+            interestPaid: 0n,
+            openedAtBlock: event.blockNumber,
+          });
+        }
+        break;
+      }
+      case "VaultFunded":
+      case "AssetVaultFunded":
+        this.flowsOf(event).funded += BigInt(a.amount as string);
+        break;
+      case "VaultWithdrawn":
+      case "AssetVaultWithdrawn":
+        this.flowsOf(event).withdrawn += BigInt(a.amount as string);
+        break;
+      case "Reserved": {
+        const flows = this.flowsOf(event);
+        flows.reserved += BigInt(a.amount as string);
+        flows.outstandingReserve += BigInt(a.amount as string);
+        break;
+      }
+      case "Released": {
+        const flows = this.flowsOf(event);
+        flows.released += BigInt(a.amount as string);
+        flows.outstandingReserve -= BigInt(a.amount as string);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Flows of the asset a vault event belongs to
+   */
+  private flowsOf(event: IndexedEvent): VaultFlows {
+    const asset = (event.asset ?? (event.args.asset as string) ?? ZeroAddress).toLowerCase();
+    let flows = this.flows.get(asset);
+    if (!flows) {
+      flows = emptyFlows();
+      this.flows.set(asset, flows);
+    }
+    return flows;
+  }
+
+  /**
+   * Close the old certificate of an AutoRenewed / RolledOver event and record the new one
+   */
+  private renew(event: IndexedEvent, planId: bigint, newPrincipal: bigint, interest: bigint): void {
+    const a = event.args;
+    const oldId = BigInt(a.oldDepositId as string);
+    const newId = BigInt(a.newDepositId as string);
+    const old = this.deposits.get(oldId);
+    if (old) {
+      old.status = "Renewed";
+      old.renewedInto = newId;
+      old.interestPaid = interest;
+      old.closedAtBlock = event.blockNumber;
+    }
+    // The NFT Transfer (mint) for the new certificate precedes this event
+    const minted = this.deposits.get(newId);
+    this.deposits.set(newId, {
+      depositId: newId,
+      planId,
+      originalOwner: minted?.owner ?? old?.owner ?? ZeroAddress,
+      owner: minted?.owner ?? old?.owner ?? ZeroAddress,
+      principal: newPrincipal,
+      partiallyWithdrawn: 0n,
+      toppedUp: 0n,
+      lockedAprBps: BigInt(a.lockedAprBps as string),
+      status: "Active",
+      interestPaid: 0n,
+      renewedFrom: oldId,
+      openedAtBlock: event.blockNumber,
+    });
+  }
+
+  /**
+   * Close the old certificate of a DepositSplit / DepositMerged event and add its share to the new one
+   * (one event per split part or merged certificate)
+   */
+  private restructure(event: IndexedEvent): void {
+    const a = event.args;
+    const oldId = BigInt(a.depositId as string);
+    const newId = BigInt(a.newDepositId as string);
+    const old = this.deposits.get(oldId);
+    if (old) {
+      old.status = event.name === "DepositSplit" ? "Split" : "Merged";
+      old.restructuredInto = [...(old.restructuredInto ?? []), newId];
+      old.closedAtBlock = event.blockNumber;
+    }
+    // A split part is minted before its event (placeholder); a merged certificate after all of them
+    const current = this.deposits.get(newId);
+    this.deposits.set(newId, {
+      depositId: newId,
+      planId: old?.planId ?? 0n,
+      originalOwner: current?.owner ?? old?.owner ?? ZeroAddress,
+      owner: current?.owner ?? old?.owner ?? ZeroAddress,
+      principal: (current?.principal ?? 0n) + BigInt(a.principal as string),
+      partiallyWithdrawn: 0n,
+      toppedUp: 0n,
+      maturityAt: old?.maturityAt,
+      lockedAprBps: old?.lockedAprBps,
+      status: "Active",
+      interestPaid: 0n,
+      restructuredFrom: [...(current?.restructuredFrom ?? []), oldId],
+      openedAtBlock: current?.openedAtBlock ?? event.blockNumber,
+    });
+  }
+
+  // ==================== QUERIES ====================
+
+  getPlans(): PlanRecord[] {
+    return [...this.plans.values()];
+  }
+
+  getDeposit(depositId: bigint): DepositRecord | undefined {
+    return this.deposits.get(depositId);
+  }
+
+  /**
+   * Deposits currently held by `owner` (or ever opened by them with `includeOriginal`)
+   */
+  getDepositsByOwner(owner: string, options: { status?: DepositState; includeOriginal?: boolean } = {}): DepositRecord[] {
+    const who = owner.toLowerCase();
+    return [...this.deposits.values()].filter(
+      (d) =>
+        (d.owner.toLowerCase() === who || (options.includeOriginal && d.originalOwner.toLowerCase() === who)) &&
+        (!options.status || d.status === options.status)
+    );
+  }
+
+  /**
+   * Full auto-renew / rollover chain containing `depositId`, oldest certificate first
+   */
+  getRenewalChain(depositId: bigint): DepositRecord[] {
+    let head = this.deposits.get(depositId);
+    if (!head) return [];
+    while (head.renewedFrom !== undefined && this.deposits.has(head.renewedFrom)) {
+      head = this.deposits.get(head.renewedFrom)!;
+    }
+
+    const chain: DepositRecord[] = [head];
+    while (head.renewedInto !== undefined && this.deposits.has(head.renewedInto)) {
+      head = this.deposits.get(head.renewedInto)!;
+      chain.push(head);
+    }
+    return chain;
+  }
+
+  getPlanVolume(planId: bigint): PlanVolume {
+    const volume: PlanVolume = {
+      planId,
+      name: this.plans.get(planId)?.name ?? "",
+      depositCount: 0,
+      renewalCount: 0,
+      openedPrincipal: 0n,
+      renewedPrincipal: 0n,
+      activePrincipal: 0n,
+      interestPaid: 0n,
+    };
+
+    for (const d of this.deposits.values()) {
+      if (d.planId !== planId) continue;
+      if (d.restructuredFrom !== undefined) {
+        // Split / merged certificate: its principal was counted on the certificates it came from
+      } else if (d.renewedFrom === undefined) {
+        volume.depositCount++;
+        volume.openedPrincipal += d.principal + d.partiallyWithdrawn;
+      } else {
+        volume.renewalCount++;
+        volume.renewedPrincipal += d.principal + d.partiallyWithdrawn;
+      }
+      if (d.status === "Active") volume.activePrincipal += d.principal;
+      volume.interestPaid += d.interestPaid;
+    }
+    return volume;
+  }
+
+  /**
+   * Funding, admin withdrawals and interest reservations of one asset's InterestVault
+   */
+  getVaultFlows(asset: string): VaultFlows {
+    return { ...(this.flows.get(asset.toLowerCase()) ?? emptyFlows()) };
+  }
+}
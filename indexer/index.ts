@@ -0,0 +1,5 @@
+export { ProtocolIndexer } from "./ProtocolIndexer";
+export type { IndexerAddresses, IndexerOptions, SyncResult } from "./ProtocolIndexer";
+export { ProtocolView } from "./ProtocolView";
+export { JsonStore } from "./JsonStore";
+export * from "./types";
@@ -0,0 +1,93 @@
+/**
+ * Raw event as stored by the indexer (bigint args kept as decimal strings so the
+ * store can be written as JSON)
+ */
+export interface IndexedEvent {
+  name: string;
+  address: string;
+  /** Asset of an InterestVault event or of VaultFunded / VaultWithdrawn (AssetVault* events carry it in args) */
+  asset?: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  args: Record<string, string | boolean>;
+}
+
+export interface BlockCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexerState {
+  version: number;
+  chainId: string;
+  startBlock: number;
+  /** Last fully indexed block */
+  lastBlock: number;
+  /** Hashes of the most recent indexed blocks, newest last (used to detect reorgs) */
+  checkpoints: BlockCheckpoint[];
+  events: IndexedEvent[];
+}
+
+export type DepositState = "Active" | "Withdrawn" | "EarlyWithdrawn" | "Renewed" | "Split" | "Merged";
+
+export interface PlanRecord {
+  planId: bigint;
+  name: string;
+  isActive: boolean;
+  createdAtBlock: number;
+  updateCount: number;
+}
+
+export interface DepositRecord {
+  depositId: bigint;
+  planId: bigint;
+  /** Address the certificate was opened / renewed for */
+  originalOwner: string;
+  /** Current NFT holder (last Transfer), or the last holder once burned */
+  owner: string;
+  /** Current principal (reduced by partial early withdrawals) */
+  principal: bigint;
+  /** Principal taken out with partialEarlyWithdraw */
+  partiallyWithdrawn: bigint;
+  /** Amount added with increaseDeposit */
+  toppedUp: bigint;
+  maturityAt?: bigint;
+  lockedAprBps?: bigint;
+  status: DepositState;
+  interestPaid: bigint;
+  renewedFrom?: bigint;
+  renewedInto?: bigint;
+  /** Certificates this one was split or merged from */
+  restructuredFrom?: bigint[];
+  /** Certificates this one was split or merged into */
+  restructuredInto?: bigint[];
+  openedAtBlock: number;
+  closedAtBlock?: number;
+}
+
+export interface PlanVolume {
+  planId: bigint;
+  name: string;
+  /** Deposits opened with openDeposit */
+  depositCount: number;
+  /** Certificates created by auto-renew or rolled over into the plan */
+  renewalCount: number;
+  /** Principal paid into deposits opened with openDeposit (including top-ups) */
+  openedPrincipal: bigint;
+  /** Principal rolled into renewed certificates (old principal + compounded interest) */
+  renewedPrincipal: bigint;
+  /** Principal of certificates still active */
+  activePrincipal: bigint;
+  interestPaid: bigint;
+}
+
+export interface VaultFlows {
+  funded: bigint;
+  withdrawn: bigint;
+  reserved: bigint;
+  released: bigint;
+  /** reserved - released, should equal the asset's InterestVault.totalReserved() */
+  outstandingReserve: bigint;
+}
@@ -0,0 +1,321 @@
+import { AbiCoder } from "ethers";
+import type { ContractTransactionResponse, Signer } from "ethers";
+import { DepositStatus, SavingsClient, findEvent } from "../sdk";
+
+export interface KeeperLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+export interface KeeperOptions {
+  /** Deposit IDs per checkAutoRenewBatch call (default 100) */
+  batchSize?: number;
+  /** First deposit ID to scan (default 1) */
+  fromDepositId?: bigint;
+  /** Delay between runs in start() (default 60s) */
+  pollIntervalMs?: number;
+  /** Extra attempts after a failed renewal (default 3) */
+  maxRetries?: number;
+  /** Base retry delay, multiplied by the attempt number (default 5s) */
+  retryDelayMs?: number;
+  /** How long to wait for a receipt before checking whether the transaction is still pending (default 120s) */
+  receiptTimeoutMs?: number;
+  /** Renewals whose gas estimate is above this are not sent (default 1,000,000) */
+  maxGasLimit?: bigint;
+  /** Max fee per gas the keeper will pay; renewals are deferred while the network price is above it */
+  maxFeePerGas?: bigint;
+  logger?: KeeperLogger;
+}
+
+export interface RenewalRecord {
+  depositId: bigint;
+  newDepositId: bigint;
+  txHash: string;
+}
+
+export interface KeeperRunResult {
+  scanned: number;
+  eligible: bigint[];
+  renewed: RenewalRecord[];
+  /** Eligible but left for the next run (gas price above cap) */
+  deferred: bigint[];
+  failed: { depositId: bigint; error: string }[];
+  /** Eligible but not sent: an earlier renewal reverted with a deposit-specific reason */
+  skipped: bigint[];
+}
+
+const DEFAULTS = {
+  batchSize: 100,
+  fromDepositId: 1n,
+  pollIntervalMs: 60_000,
+  maxRetries: 3,
+  retryDelayMs: 5_000,
+  receiptTimeoutMs: 120_000,
+  maxGasLimit: 1_000_000n,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** ethers errors carry a one-line shortMessage next to the full message */
+const errorMessage = (e: unknown): string =>
+  e instanceof Error ? (e as Error & { shortMessage?: string }).shortMessage ?? e.message : String(e);
+
+type RevertError = Error & { reason?: string | null; data?: unknown; error?: { data?: unknown } };
+
+/** A renewal the bank rejects for this deposit (e.g. "SavingsBank: Above maxDeposit"); retrying cannot help */
+class PermanentFailure extends Error {}
+
+/**
+ * AutoRenewKeeper
+ * @notice Off-chain keeper for SavingsBank.performAutoRenew.
+ *         Each run scans [fromDepositId, nextDepositId) with checkAutoRenewBatch and
+ *         renews every deposit inside the grace window, one transaction at a time with
+ *         locally managed nonces. A deposit is never submitted twice: in-flight IDs are
+ *         tracked and eligibility is re-checked on-chain before every retry.
+ *         A transaction whose receipt could not be fetched is waited on again (across runs if
+ *         needed) and its nonce only reused once the node no longer knows it. Deposits whose
+ *         renewal reverts with a SavingsBank reason are skipped while they stay eligible.
+ */
+export class AutoRenewKeeper {
+  private readonly options: Required<Omit<KeeperOptions, "maxFeePerGas">> & { maxFeePerGas?: bigint };
+  private readonly signer: Signer;
+  private readonly inFlight = new Set<bigint>();
+  /** Sent renewals whose receipt has not been seen yet */
+  private readonly pending = new Map<bigint, ContractTransactionResponse>();
+  /** Deposit ID -> revert reason of renewals that cannot succeed */
+  private readonly permanentFailures = new Map<bigint, string>();
+  private nonce?: number;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly client: SavingsClient, options: KeeperOptions = {}) {
+    const signer = client.runner as Signer;
+    if (typeof signer.getAddress !== "function") throw new Error("AutoRenewKeeper: client must be connected to a signer");
+    this.signer = signer;
+    this.options = { ...DEFAULTS, logger: console, ...options };
+  }
+
+  /**
+   * Deposit IDs currently eligible for auto-renew
+   */
+  async scan(): Promise<{ scanned: number; eligible: bigint[] }> {
+    const bank = this.client.savingsBank;
+    const nextDepositId = await bank.nextDepositId();
+    const eligible: bigint[] = [];
+    let scanned = 0;
+
+    for (let start = this.options.fromDepositId; start < nextDepositId; start += BigInt(this.options.batchSize)) {
+      const ids: bigint[] = [];
+      for (let id = start; id < nextDepositId && ids.length < this.options.batchSize; id++) ids.push(id);
+
+      const needsRenewal = await bank.checkAutoRenewBatch(ids);
+      ids.forEach((id, i) => needsRenewal[i] && eligible.push(id));
+      scanned += ids.length;
+    }
+
+    return { scanned, eligible };
+  }
+
+  /**
+   * Single scan + renew pass
+   */
+  async runOnce(): Promise<KeeperRunResult> {
+    const { scanned, eligible } = await this.scan();
+    const result: KeeperRunResult = { scanned, eligible, renewed: [], deferred: [], failed: [], skipped: [] };
+
+    // Deposits that left the grace window (or were renewed) are forgotten; a still pending
+    // transaction keeps its nonce, which the node counts when the nonce is resynced
+    for (const tracked of [this.permanentFailures, this.pending]) {
+      for (const depositId of tracked.keys()) {
+        if (!eligible.includes(depositId)) tracked.delete(depositId);
+      }
+    }
+    if (eligible.length === 0) return result;
+
+    if (await this.gasPriceAboveCap()) {
+      this.options.logger.warn(`keeper: gas price above cap, deferring ${eligible.length} renewal(s)`);
+      result.deferred.push(...eligible);
+      return result;
+    }
+
+    for (const depositId of eligible) {
+      if (this.inFlight.has(depositId)) continue;
+      if (this.permanentFailures.has(depositId)) {
+        result.skipped.push(depositId);
+        continue;
+      }
+      this.inFlight.add(depositId);
+      try {
+        const record = await this.renew(depositId);
+        if (record) {
+          result.renewed.push(record);
+          this.options.logger.info(`keeper: renewed #${depositId} -> #${record.newDepositId} (${record.txHash})`);
+        }
+      } catch (e) {
+        const error = errorMessage(e);
+        result.failed.push({ depositId, error });
+        if (e instanceof PermanentFailure) {
+          this.permanentFailures.set(depositId, error);
+          this.options.logger.error(`keeper: #${depositId} cannot be renewed, skipping it: ${error}`);
+        } else {
+          this.options.logger.error(`keeper: failed to renew #${depositId}: ${error}`);
+        }
+      } finally {
+        this.inFlight.delete(depositId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run forever (until stop()) with pollIntervalMs between runs
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const loop = async () => {
+      try {
+        await this.runOnce();
+      } catch (e) {
+        this.options.logger.error(`keeper: run failed: ${errorMessage(e)}`);
+      }
+      if (this.running) this.timer = setTimeout(loop, this.options.pollIntervalMs);
+    };
+    void loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+  }
+
+  // ==================== INTERNAL ====================
+
+  /**
+   * Renew one deposit, retrying transient failures.
+   * Returns undefined when the deposit stopped being eligible (e.g. renewed by someone else).
+   * Throws PermanentFailure when the bank rejects the renewal for this deposit.
+   */
+  private async renew(depositId: bigint): Promise<RenewalRecord | undefined> {
+    const bank = this.client.savingsBank;
+    const performData = AbiCoder.defaultAbiCoder().encode(["uint256"], [depositId]);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        let tx = this.pending.get(depositId);
+        if (!tx) {
+          const gasLimit = await this.estimateGas(performData);
+          tx = await bank.performAutoRenew(performData, {
+            nonce: await this.nextNonce(),
+            gasLimit,
+            ...(await this.feeOverrides()),
+          });
+          this.pending.set(depositId, tx);
+        }
+        const receipt = await tx.wait(1, this.options.receiptTimeoutMs);
+        this.pending.delete(depositId);
+        if (!receipt) throw new Error("transaction dropped");
+
+        const event = findEvent(receipt, bank.interface, "AutoRenewed");
+        return { depositId, newDepositId: event?.args.newDepositId ?? 0n, txHash: receipt.hash };
+      } catch (e) {
+        if (e instanceof PermanentFailure) throw e;
+
+        const tx = this.pending.get(depositId);
+        if (tx) {
+          // Sent but no receipt: wait on it again rather than sending its nonce twice
+          if (await this.isPending(tx)) {
+            if (attempt >= this.options.maxRetries) throw e;
+            await sleep(this.options.retryDelayMs * (attempt + 1));
+            continue;
+          }
+          this.pending.delete(depositId);
+        }
+        // Nonce may be stale (nothing of ours is pending now) - resync from the node
+        this.nonce = undefined;
+
+        const [stillEligible] = await bank.checkAutoRenew(depositId);
+        if (!stillEligible) {
+          const { status } = await this.client.getDeposit(depositId);
+          if (status === DepositStatus.Renewed) {
+            this.options.logger.warn(`keeper: #${depositId} already renewed, skipping`);
+          }
+          return undefined;
+        }
+        if (attempt >= this.options.maxRetries) throw e;
+
+        await sleep(this.options.retryDelayMs * (attempt + 1));
+      }
+    }
+  }
+
+  /**
+   * Gas estimate for performAutoRenew; a revert with a SavingsBank reason string is permanent
+   * (pause and role errors are custom errors and stay retryable)
+   */
+  private async estimateGas(performData: string): Promise<bigint> {
+    let gasLimit: bigint;
+    try {
+      gasLimit = await this.client.savingsBank.performAutoRenew.estimateGas(performData);
+    } catch (e) {
+      const reason = this.revertReason(e);
+      if (reason?.startsWith("SavingsBank:")) throw new PermanentFailure(reason);
+      throw e;
+    }
+    if (gasLimit > this.options.maxGasLimit) {
+      throw new Error(`gas estimate ${gasLimit} above cap ${this.options.maxGasLimit}`);
+    }
+    return gasLimit;
+  }
+
+  /**
+   * require() reason string of a revert (undefined for custom errors and non-revert failures)
+   */
+  private revertReason(e: unknown): string | undefined {
+    if (!(e instanceof Error)) return undefined;
+    const err = e as RevertError;
+    if (err.reason) return err.reason;
+    const data = err.data ?? err.error?.data;
+    if (typeof data === "string" && data.length >= 10) {
+      const parsed = this.client.savingsBank.interface.parseError(data);
+      if (parsed?.name === "Error") return String(parsed.args[0]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a sent transaction is still waiting to be mined (false once mined or dropped by the node)
+   */
+  private async isPending(tx: ContractTransactionResponse): Promise<boolean> {
+    const known = await this.signer.provider!.getTransaction(tx.hash);
+    return known !== null && known.blockNumber === null;
+  }
+
+  private async nextNonce(): Promise<number> {
+    if (this.nonce === undefined) {
+      this.nonce = await this.signer.getNonce("pending");
+    }
+    return this.nonce++;
+  }
+
+  private async gasPriceAboveCap(): Promise<boolean> {
+    if (this.options.maxFeePerGas === undefined) return false;
+    const { gasPrice } = await this.signer.provider!.getFeeData();
+    return gasPrice !== null && gasPrice > this.options.maxFeePerGas;
+  }
+
+  private async feeOverrides(): Promise<{ maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint }> {
+    const cap = this.options.maxFeePerGas;
+    if (cap === undefined) return {};
+
+    const { maxPriorityFeePerGas } = await this.signer.provider!.getFeeData();
+    if (maxPriorityFeePerGas === null) return {};
+    return {
+      maxFeePerGas: cap,
+      maxPriorityFeePerGas: maxPriorityFeePerGas < cap ? maxPriorityFeePerGas : cap,
+    };
+  }
+}
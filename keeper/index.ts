@@ -0,0 +1,2 @@
+export { AutoRenewKeeper } from "./AutoRenewKeeper";
+export type { KeeperLogger, KeeperOptions, KeeperRunResult, RenewalRecord } from "./AutoRenewKeeper";
@@ -0,0 +1,513 @@
+import type { ContractRunner, ContractTransactionResponse, Signer } from "ethers";
+import {
+  IDepositNFT__factory,
+  IInterestVault__factory,
+  ITokenVault__factory,
+  SavingsBank,
+  SavingsBank__factory,
+} from "../typechain";
+import {
+  DayCount,
+  DepositStatus,
+  InterestMode,
+  SavingPlan,
+  TimelockCall,
+  TopUpPolicy,
+  encodeTimelockCall,
+} from "../sdk";
+
+export interface MigratorLogger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+export interface MigratorOptions {
+  /** Length of the import window opened on the target (default 1 day) */
+  windowSeconds?: number;
+  /** Close the window once everything is imported (default true) */
+  closeWindow?: boolean;
+  /** Only report the steps, send nothing */
+  dryRun?: boolean;
+  logger?: MigratorLogger;
+}
+
+/** Active certificate of the source deployment, with the current NFT holder */
+export interface MigratedDeposit {
+  depositId: bigint;
+  owner: string;
+  planId: bigint;
+  principal: bigint;
+  startTime: bigint;
+  maturityTime: bigint;
+  lockedAprBps: bigint;
+  isAutoRenewEnabled: boolean;
+  status: DepositStatus;
+  interestMode: InterestMode;
+  dayCount: DayCount;
+  renewalCount: bigint;
+  renewalBonusBps: bigint;
+}
+
+/** Vault pair of one asset on the source deployment */
+export interface MigratedVault {
+  asset: string;
+  tokenVault: string;
+  interestVault: string;
+  tokenVaultBalance: bigint;
+  interestVaultBalance: bigint;
+  totalReserved: bigint;
+  /** Sum of active principals in this asset (should equal tokenVaultBalance) */
+  activePrincipal: bigint;
+}
+
+export interface MigrationSnapshot {
+  savingsBank: string;
+  chainId: bigint;
+  blockNumber: number;
+  /** Source was paused when exported (nothing can change before exportVaults) */
+  paused: boolean;
+  plans: SavingPlan[];
+  deposits: MigratedDeposit[];
+  vaults: MigratedVault[];
+}
+
+export type MigrationStepKind = "openMigration" | "importPlan" | "importDeposit" | "closeMigration";
+
+export interface MigrationStep {
+  kind: MigrationStepKind;
+  /** Plan or deposit ID */
+  id?: bigint;
+  description: string;
+}
+
+export interface MigrationPlan {
+  steps: MigrationStep[];
+  /** Plans / deposits already present on the target (resumed run) */
+  skipped: string[];
+  /** Blocking issues; run() refuses to start while any is reported */
+  problems: string[];
+}
+
+export interface MigrationRunResult extends MigrationPlan {
+  txHashes: string[];
+}
+
+export interface ReconciliationCheck {
+  name: string;
+  expected: string;
+  actual: string;
+  ok: boolean;
+}
+
+export interface ReconciliationReport {
+  ok: boolean;
+  checks: ReconciliationCheck[];
+}
+
+const DEFAULTS = {
+  windowSeconds: 24 * 3600,
+  closeWindow: true,
+};
+
+const BIGINT_FIELDS = new Set([
+  "chainId",
+  "planId",
+  "durationDays",
+  "minDeposit",
+  "maxDeposit",
+  "aprBps",
+  "earlyWithdrawPenaltyBps",
+  "earlyRateBps",
+  "depositId",
+  "principal",
+  "startTime",
+  "maturityTime",
+  "lockedAprBps",
+  "tokenVaultBalance",
+  "interestVaultBalance",
+  "totalReserved",
+  "activePrincipal",
+  "startsAt",
+  "endsAt",
+  "capacity",
+  "walletCap",
+  "maxDepositsPerUser",
+  "minAmount",
+  "renewalBonusBps",
+  "maxRenewalBonusBps",
+  "renewalCount",
+]);
+
+/** Snapshot as JSON (bigints as decimal strings) */
+export function snapshotToJson(snapshot: MigrationSnapshot): string {
+  return JSON.stringify(snapshot, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
+
+export function snapshotFromJson(json: string): MigrationSnapshot {
+  return JSON.parse(json, (k, v) => (BIGINT_FIELDS.has(k) && typeof v === "string" ? BigInt(v) : v));
+}
+
+/**
+ * SavingsMigrator
+ * @notice Moves a SavingsBank deployment to a new one:
+ *         1. exportSnapshot() reads plans, active certificates and vault balances of the (paused) source
+ *         2. exportVaultCalls() are the timelocked source.exportVaults(asset, target) calls that move the funds
+ *         3. run() opens the target's migration window and imports plans, then deposits (same IDs),
+ *            then closes the window; plan() / dryRun report the same steps without sending
+ *         4. reconcile() compares the target (and the emptied source vaults) with the snapshot
+ *         Runs are resumable: plans and deposits already on the target are skipped.
+ */
+export class SavingsMigrator {
+  readonly source: SavingsBank;
+  readonly target: SavingsBank;
+  private readonly options: Required<Omit<MigratorOptions, "logger">>;
+  private readonly logger?: MigratorLogger;
+
+  constructor(private readonly runner: ContractRunner, source: string, target: string, options: MigratorOptions = {}) {
+    this.source = SavingsBank__factory.connect(source, runner);
+    this.target = SavingsBank__factory.connect(target, runner);
+    this.options = {
+      windowSeconds: options.windowSeconds ?? DEFAULTS.windowSeconds,
+      closeWindow: options.closeWindow ?? DEFAULTS.closeWindow,
+      dryRun: options.dryRun ?? false,
+    };
+    this.logger = options.logger;
+  }
+
+  // ==================== EXPORT ====================
+
+  async exportSnapshot(): Promise<MigrationSnapshot> {
+    const provider = this.runner.provider!;
+    const blockNumber = await provider.getBlockNumber();
+    const depositNFT = IDepositNFT__factory.connect(await this.source.depositNFT(), this.runner);
+
+    const plans: SavingPlan[] = [];
+    const nextPlanId = await this.source.nextPlanId();
+    for (let id = 1n; id < nextPlanId; id++) {
+      const p = await this.source.savingPlans(id);
+      plans.push({
+        planId: id,
+        name: p.name,
+        durationDays: p.durationDays,
+        minDeposit: p.minDeposit,
+        maxDeposit: p.maxDeposit,
+        aprBps: p.aprBps,
+        earlyWithdrawPenaltyBps: p.earlyWithdrawPenaltyBps,
+        isActive: p.isActive,
+        interestMode: Number(p.interestMode) as InterestMode,
+        dayCount: Number(p.dayCount) as DayCount,
+        earlyRateBps: p.earlyRateBps,
+        topUpPolicy: Number(p.topUpPolicy) as TopUpPolicy,
+        asset: p.asset,
+        limits: {
+          startsAt: p.limits.startsAt,
+          endsAt: p.limits.endsAt,
+          capacity: p.limits.capacity,
+          walletCap: p.limits.walletCap,
+          maxDepositsPerUser: p.limits.maxDepositsPerUser,
+        },
+        aprTiers: (await this.source.getPlanAprTiers(id)).map((t) => ({ minAmount: t.minAmount, aprBps: t.aprBps })),
+        renewalBonusBps: p.renewalBonusBps,
+        maxRenewalBonusBps: p.maxRenewalBonusBps,
+        soulbound: p.soulbound,
+      });
+    }
+
+    const deposits: MigratedDeposit[] = [];
+    const nextDepositId = await this.source.nextDepositId();
+    for (let id = 1n; id < nextDepositId; id++) {
+      const d = await this.source.deposits(id);
+      if (Number(d.status) !== DepositStatus.Active || d.principal === 0n) continue;
+      deposits.push({
+        depositId: id,
+        owner: await depositNFT.ownerOf(id),
+        planId: d.planId,
+        principal: d.principal,
+        startTime: d.startTime,
+        maturityTime: d.maturityTime,
+        lockedAprBps: d.lockedAprBps,
+        isAutoRenewEnabled: d.isAutoRenewEnabled,
+        status: DepositStatus.Active,
+        interestMode: Number(d.interestMode) as InterestMode,
+        dayCount: Number(d.dayCount) as DayCount,
+        renewalCount: d.renewalCount,
+        renewalBonusBps: d.renewalBonusBps,
+      });
+    }
+
+    const vaults: MigratedVault[] = [];
+    for (const asset of await this.source.getAssets()) {
+      const config = await this.source.assets(asset);
+      const interestVault = IInterestVault__factory.connect(config.interestVault, this.runner);
+      const planAssets = new Map(plans.map((p) => [p.planId, p.asset.toLowerCase()]));
+      vaults.push({
+        asset,
+        tokenVault: config.tokenVault,
+        interestVault: config.interestVault,
+        tokenVaultBalance: await ITokenVault__factory.connect(config.tokenVault, this.runner).balance(),
+        interestVaultBalance: await interestVault.balance(),
+        totalReserved: await interestVault.totalReserved(),
+        activePrincipal: deposits
+          .filter((d) => planAssets.get(d.planId) === asset.toLowerCase())
+          .reduce((sum, d) => sum + d.principal, 0n),
+      });
+    }
+
+    return {
+      savingsBank: await this.source.getAddress(),
+      chainId: (await provider.getNetwork()).chainId,
+      blockNumber,
+      paused: await this.source.paused(),
+      plans,
+      deposits,
+      vaults,
+    };
+  }
+
+  /**
+   * Timelock calls moving each asset's vault balances from the source to the target's vaults
+   * (source.exportVaults, TIMELOCK_ROLE, source paused)
+   */
+  async exportVaultCalls(snapshot: MigrationSnapshot): Promise<TimelockCall[]> {
+    const target = await this.target.getAddress();
+    return snapshot.vaults.map((v) => encodeTimelockCall(snapshot.savingsBank, "exportVaults", [v.asset, target]));
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Steps run() would send, plus anything that would make it fail
+   */
+  async plan(snapshot: MigrationSnapshot): Promise<MigrationPlan> {
+    const steps: MigrationStep[] = [];
+    const skipped: string[] = [];
+    const problems: string[] = [];
+    const now = BigInt((await this.runner.provider!.getBlock("latest"))!.timestamp);
+
+    if (!snapshot.paused) problems.push("source was not paused when the snapshot was taken");
+
+    const endsAt = await this.target.migrationEndsAt();
+    if (endsAt === 0n) {
+      if ((await this.target.nextDepositId()) !== 1n) problems.push("target already has deposits");
+      steps.push({ kind: "openMigration", description: `open a ${this.options.windowSeconds}s import window` });
+    } else if (endsAt <= now) {
+      problems.push(`target migration window closed at ${endsAt}`);
+    }
+
+    for (const v of snapshot.vaults) {
+      const config = await this.target.assets(v.asset);
+      if (config.tokenVault === "0x0000000000000000000000000000000000000000") {
+        problems.push(`asset ${v.asset} is not registered on the target`);
+        continue;
+      }
+      const tokenVaultBalance = await ITokenVault__factory.connect(config.tokenVault, this.runner).balance();
+      if (tokenVaultBalance < v.activePrincipal) {
+        problems.push(
+          `target TokenVault of ${v.asset} holds ${tokenVaultBalance} < ${v.activePrincipal} principal (run exportVaults first)`
+        );
+      }
+    }
+
+    const nextPlanId = await this.target.nextPlanId();
+    for (const plan of snapshot.plans) {
+      if (plan.planId < nextPlanId) {
+        const existing = await this.target.savingPlans(plan.planId);
+        if (existing.name !== plan.name || existing.asset.toLowerCase() !== plan.asset.toLowerCase()) {
+          problems.push(`target plan #${plan.planId} (${existing.name}) differs from the source (${plan.name})`);
+        } else {
+          skipped.push(`plan #${plan.planId}`);
+        }
+        continue;
+      }
+      steps.push({ kind: "importPlan", id: plan.planId, description: `plan #${plan.planId} ${plan.name}` });
+    }
+
+    for (const d of snapshot.deposits) {
+      if ((await this.target.deposits(d.depositId)).principal > 0n) {
+        skipped.push(`deposit #${d.depositId}`);
+        continue;
+      }
+      steps.push({
+        kind: "importDeposit",
+        id: d.depositId,
+        description: `deposit #${d.depositId} plan #${d.planId} principal ${d.principal} → ${d.owner}`,
+      });
+    }
+
+    if (this.options.closeWindow) steps.push({ kind: "closeMigration", description: "close the import window" });
+    return { steps, skipped, problems };
+  }
+
+  /**
+   * Import the snapshot into the target (signer needs DEFAULT_ADMIN_ROLE on it).
+   * With dryRun, returns the plan without sending anything.
+   */
+  async run(snapshot: MigrationSnapshot): Promise<MigrationRunResult> {
+    const plan = await this.plan(snapshot);
+    if (this.options.dryRun) return { ...plan, txHashes: [] };
+    if (plan.problems.length > 0) {
+      throw new Error(`SavingsMigrator: cannot migrate:\n  ${plan.problems.join("\n  ")}`);
+    }
+
+    const target = this.target.connect(this.runner as Signer);
+    const plans = new Map(snapshot.plans.map((p) => [p.planId, p]));
+    const deposits = new Map(snapshot.deposits.map((d) => [d.depositId, d]));
+    const txHashes: string[] = [];
+
+    for (const step of plan.steps) {
+      let tx: ContractTransactionResponse;
+      switch (step.kind) {
+        case "openMigration":
+          tx = await target.openMigration(this.options.windowSeconds);
+          break;
+        case "importPlan": {
+          const { planId, aprTiers, ...fields } = plans.get(step.id!)!;
+          tx = await target.importPlan(planId, fields, aprTiers);
+          break;
+        }
+        case "importDeposit": {
+          const { depositId, owner, ...cert } = deposits.get(step.id!)!;
+          tx = await target.importDeposit(depositId, owner, cert);
+          break;
+        }
+        case "closeMigration":
+          tx = await target.closeMigration();
+          break;
+      }
+      await tx.wait();
+      txHashes.push(tx.hash);
+      this.logger?.info(`${step.kind}: ${step.description} (${tx.hash})`);
+    }
+    return { ...plan, txHashes };
+  }
+
+  // ==================== RECONCILIATION ====================
+
+  /**
+   * Compare the target with the snapshot: plans, certificates and NFT holders field by field,
+   * vault balances and reservations per asset, and the source vaults left empty
+   */
+  async reconcile(snapshot: MigrationSnapshot): Promise<ReconciliationReport> {
+    const checks: ReconciliationCheck[] = [];
+    const check = (name: string, expected: unknown, actual: unknown, ok = expected === actual) =>
+      checks.push({ name, expected: String(expected), actual: String(actual), ok });
+
+    for (const plan of snapshot.plans) {
+      const p = await this.target.savingPlans(plan.planId);
+      check(
+        `plan #${plan.planId}`,
+        planKey([
+          plan.name,
+          plan.durationDays,
+          plan.minDeposit,
+          plan.maxDeposit,
+          plan.aprBps,
+          plan.earlyWithdrawPenaltyBps,
+          plan.isActive,
+          plan.interestMode,
+          plan.dayCount,
+          plan.earlyRateBps,
+          plan.topUpPolicy,
+          plan.asset,
+          plan.limits.startsAt,
+          plan.limits.endsAt,
+          plan.limits.capacity,
+          plan.limits.walletCap,
+          plan.limits.maxDepositsPerUser,
+          ...plan.aprTiers.map((t) => `${t.minAmount}@${t.aprBps}`),
+          plan.renewalBonusBps,
+          plan.maxRenewalBonusBps,
+          plan.soulbound,
+        ]),
+        planKey([
+          p.name,
+          p.durationDays,
+          p.minDeposit,
+          p.maxDeposit,
+          p.aprBps,
+          p.earlyWithdrawPenaltyBps,
+          p.isActive,
+          p.interestMode,
+          p.dayCount,
+          p.earlyRateBps,
+          p.topUpPolicy,
+          p.asset,
+          p.limits.startsAt,
+          p.limits.endsAt,
+          p.limits.capacity,
+          p.limits.walletCap,
+          p.limits.maxDepositsPerUser,
+          ...(await this.target.getPlanAprTiers(plan.planId)).map((t) => `${t.minAmount}@${t.aprBps}`),
+          p.renewalBonusBps,
+          p.maxRenewalBonusBps,
+          p.soulbound,
+        ])
+      );
+    }
+
+    const depositNFT = IDepositNFT__factory.connect(await this.target.depositNFT(), this.runner);
+    for (const d of snapshot.deposits) {
+      const c = await this.target.deposits(d.depositId);
+      const owner = c.principal > 0n ? await depositNFT.ownerOf(d.depositId) : "-";
+      check(
+        `deposit #${d.depositId}`,
+        planKey([
+          d.owner,
+          d.planId,
+          d.principal,
+          d.startTime,
+          d.maturityTime,
+          d.lockedAprBps,
+          d.isAutoRenewEnabled,
+          d.status,
+          d.interestMode,
+          d.dayCount,
+          d.renewalCount,
+          d.renewalBonusBps,
+        ]),
+        planKey([
+          owner,
+          c.planId,
+          c.principal,
+          c.startTime,
+          c.maturityTime,
+          c.lockedAprBps,
+          c.isAutoRenewEnabled,
+          c.status,
+          c.interestMode,
+          c.dayCount,
+          c.renewalCount,
+          c.renewalBonusBps,
+        ])
+      );
+    }
+
+    for (const v of snapshot.vaults) {
+      check(`${v.asset} source principal = active certificates`, v.activePrincipal, v.tokenVaultBalance);
+
+      const config = await this.target.assets(v.asset);
+      const tokenVault = ITokenVault__factory.connect(config.tokenVault, this.runner);
+      const interestVault = IInterestVault__factory.connect(config.interestVault, this.runner);
+      check(`${v.asset} TokenVault balance`, v.tokenVaultBalance, await tokenVault.balance());
+      check(`${v.asset} InterestVault reserved`, v.totalReserved, await interestVault.totalReserved());
+      const interest = await interestVault.balance();
+      checks.push({
+        name: `${v.asset} InterestVault balance`,
+        expected: `>= ${v.interestVaultBalance}`,
+        actual: interest.toString(),
+        ok: interest >= v.interestVaultBalance,
+      });
+
+      const leftover =
+        (await ITokenVault__factory.connect(v.tokenVault, this.runner).balance()) +
+        (await IInterestVault__factory.connect(v.interestVault, this.runner).balance());
+      check(`${v.asset} source vaults emptied`, 0n, leftover);
+    }
+
+    return { ok: checks.every((c) => c.ok), checks };
+  }
+}
+
+function planKey(values: unknown[]): string {
+  return values.map((v) => (typeof v === "string" ? v.toLowerCase() : String(v))).join("|");
+}
@@ -0,0 +1,14 @@
+export { SavingsMigrator, snapshotFromJson, snapshotToJson } from "./SavingsMigrator";
+export type {
+  MigratedDeposit,
+  MigratedVault,
+  MigrationPlan,
+  MigrationRunResult,
+  MigrationSnapshot,
+  MigrationStep,
+  MigrationStepKind,
+  MigratorLogger,
+  MigratorOptions,
+  ReconciliationCheck,
+  ReconciliationReport,
+} from "./SavingsMigrator";
@@ -0,0 +1,210 @@
+import { concat } from "ethers";
+import type { ContractTransactionReceipt, Interface, Signer } from "ethers";
+import { SavingsBank__factory, SavingsForwarder, SavingsForwarder__factory } from "../typechain";
+import { ForwardRequestData, GASLESS_ACTIONS, GaslessAction } from "../sdk";
+
+export interface RelayerLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+export interface RelayerOptions {
+  /** SavingsBank functions the relayer pays for (default: all GASLESS_ACTIONS) */
+  allowedActions?: readonly GaslessAction[];
+  /** Requests asking for more gas than this are refused (default 1,000,000) */
+  maxGas?: bigint;
+  /** Requests expiring within this many seconds are refused (default 30) */
+  minDeadlineSeconds?: number;
+  logger?: RelayerLogger;
+}
+
+export type RelayErrorCode =
+  | "INVALID_TARGET"
+  | "INVALID_VALUE"
+  | "ACTION_NOT_ALLOWED"
+  | "EXPIRED"
+  | "GAS_TOO_HIGH"
+  | "GAS_TOO_LOW"
+  | "INVALID_SIGNATURE"
+  | "SIMULATION_FAILED"
+  | "EXECUTION_FAILED";
+
+export class RelayError extends Error {
+  constructor(readonly code: RelayErrorCode, message: string) {
+    super(message);
+    this.name = "RelayError";
+  }
+}
+
+export interface RelayedEvent {
+  name: string;
+  args: Record<string, string | boolean>;
+}
+
+export interface RelayResult {
+  action: GaslessAction;
+  from: string;
+  txHash: string;
+  gasUsed: bigint;
+  /** SavingsBank events emitted by the relayed call */
+  events: RelayedEvent[];
+}
+
+/** Fields ethers and the node attach to a failed call */
+type RevertError = Error & { reason?: string; shortMessage?: string; data?: unknown; error?: { data?: unknown } };
+
+const DEFAULTS = {
+  maxGas: 1_000_000n,
+  minDeadlineSeconds: 30,
+};
+
+/**
+ * MetaTxRelayer
+ * @notice Relays EIP-712 signed SavingsBank intents through the ERC-2771 SavingsForwarder.
+ *         Every request is validated (target, allowlisted action, deadline, gas, signature
+ *         and nonce via forwarder.verify) and simulated as the forwarder would call the bank,
+ *         so SavingsBank revert reasons are reported without spending gas. Submissions are
+ *         serialized to keep the relayer's own nonces in order.
+ */
+export class MetaTxRelayer {
+  readonly forwarder: SavingsForwarder;
+  private readonly bank: Interface = SavingsBank__factory.createInterface();
+  private readonly options: Required<RelayerOptions>;
+  private readonly actions = new Map<string, GaslessAction>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly signer: Signer,
+    forwarder: string,
+    readonly savingsBank: string,
+    options: RelayerOptions = {}
+  ) {
+    if (!signer.provider) throw new Error("MetaTxRelayer: signer must be connected to a provider");
+    this.forwarder = SavingsForwarder__factory.connect(forwarder, signer);
+    this.options = { ...DEFAULTS, allowedActions: GASLESS_ACTIONS, logger: console, ...options };
+    for (const action of this.options.allowedActions) {
+      this.actions.set(this.bank.getFunction(action)!.selector, action);
+    }
+  }
+
+  /**
+   * Static checks + forwarder.verify. Returns the SavingsBank action the request calls.
+   */
+  async validate(request: ForwardRequestData): Promise<GaslessAction> {
+    if (request.to.toLowerCase() !== this.savingsBank.toLowerCase()) {
+      throw new RelayError("INVALID_TARGET", `target ${request.to} is not SavingsBank`);
+    }
+    if (request.value !== 0n) {
+      throw new RelayError("INVALID_VALUE", "requests must not carry ETH");
+    }
+
+    const action = this.actions.get(request.data.slice(0, 10).toLowerCase());
+    if (!action) {
+      throw new RelayError("ACTION_NOT_ALLOWED", `selector ${request.data.slice(0, 10)} is not relayed`);
+    }
+
+    const block = await this.signer.provider!.getBlock("latest");
+    if (request.deadline < BigInt(block!.timestamp + this.options.minDeadlineSeconds)) {
+      throw new RelayError("EXPIRED", `request expires at ${request.deadline}`);
+    }
+    if (request.gas > this.options.maxGas) {
+      throw new RelayError("GAS_TOO_HIGH", `gas ${request.gas} above cap ${this.options.maxGas}`);
+    }
+
+    // Checks signature, nonce, deadline and that SavingsBank trusts this forwarder
+    if (!(await this.forwarder.verify(request))) {
+      throw new RelayError("INVALID_SIGNATURE", `invalid signature or nonce for ${request.from}`);
+    }
+    return action;
+  }
+
+  /**
+   * Run the bank call exactly as the forwarder would (sender appended to calldata).
+   * Returns the gas estimate for forwarder.execute.
+   */
+  async simulate(request: ForwardRequestData): Promise<bigint> {
+    const provider = this.signer.provider!;
+    const forwarded = {
+      from: await this.forwarder.getAddress(),
+      to: request.to,
+      data: concat([request.data, request.from]),
+    };
+
+    let innerGas: bigint;
+    try {
+      innerGas = await provider.estimateGas(forwarded);
+    } catch (e) {
+      throw new RelayError("SIMULATION_FAILED", this.revertReason(e));
+    }
+    if (innerGas > request.gas) {
+      throw new RelayError("GAS_TOO_LOW", `call needs ~${innerGas} gas, request allows ${request.gas}`);
+    }
+
+    try {
+      return await this.forwarder.execute.estimateGas(request);
+    } catch (e) {
+      throw new RelayError("SIMULATION_FAILED", this.revertReason(e));
+    }
+  }
+
+  /**
+   * Validate, simulate and submit; resolves once the transaction is mined
+   */
+  relay(request: ForwardRequestData): Promise<RelayResult> {
+    const run = this.queue.then(() => this.submit(request));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // ==================== INTERNAL ====================
+
+  private async submit(request: ForwardRequestData): Promise<RelayResult> {
+    const action = await this.validate(request);
+    const gasLimit = await this.simulate(request);
+
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      const tx = await this.forwarder.execute(request, { gasLimit });
+      receipt = await tx.wait();
+    } catch (e) {
+      const reason = this.revertReason(e);
+      this.options.logger.error(`relayer: ${action} from ${request.from} failed: ${reason}`);
+      throw new RelayError("EXECUTION_FAILED", reason);
+    }
+    if (!receipt) throw new RelayError("EXECUTION_FAILED", "transaction dropped");
+
+    const events = this.decodeEvents(receipt);
+    this.options.logger.info(`relayer: ${action} from ${request.from} (${receipt.hash})`);
+    return { action, from: request.from, txHash: receipt.hash, gasUsed: receipt.gasUsed, events };
+  }
+
+  private decodeEvents(receipt: ContractTransactionReceipt): RelayedEvent[] {
+    const events: RelayedEvent[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.savingsBank.toLowerCase()) continue;
+      const parsed = this.bank.parseLog(log);
+      if (!parsed) continue;
+
+      const args: Record<string, string | boolean> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        const value = parsed.args[i];
+        args[input.name] = typeof value === "boolean" ? value : value.toString();
+      });
+      events.push({ name: parsed.name, args });
+    }
+    return events;
+  }
+
+  private revertReason(e: unknown): string {
+    if (!(e instanceof Error)) return String(e);
+    const err = e as RevertError;
+    if (err.reason) return err.reason;
+    const data = err.data ?? err.error?.data;
+    if (typeof data === "string" && data.length >= 10) {
+      const parsed = this.bank.parseError(data) ?? this.forwarder.interface.parseError(data);
+      if (parsed) return parsed.args.length === 1 ? String(parsed.args[0]) : parsed.name;
+    }
+    return err.shortMessage ?? err.message;
+  }
+}
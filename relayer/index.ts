@@ -0,0 +1,2 @@
+export { MetaTxRelayer, RelayError } from "./MetaTxRelayer";
+export type { RelayErrorCode, RelayResult, RelayedEvent, RelayerLogger, RelayerOptions } from "./MetaTxRelayer";
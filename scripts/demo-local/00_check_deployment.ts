@@ -19,7 +19,7 @@ async function main() {
         console.log("   MockUSDC:", addresses.MockUSDC);
         console.log("   TokenVault:", addresses.TokenVault);
         console.log("   InterestVault:", addresses.InterestVault);
-        console.log("   DepositNFT:", addresses.MockDepositNFT);
+        console.log("   DepositNFT:", addresses.DepositNFT);
         console.log("   SavingsBank:", addresses.SavingsBank);
         console.log("");
 
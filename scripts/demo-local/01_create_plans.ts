@@ -1,4 +1,4 @@
-import { loadContracts, formatBps, formatUSDC, parseUSDC } from "./helpers";
+import { loadContracts, formatBps, formatUSDC, parseUSDC, NO_PLAN_LIMITS } from "./helpers";
 
 /**
  * Demo Script 01: Create Plans
@@ -66,7 +66,8 @@ async function main() {
                 parseUSDC(p.minDeposit),
                 parseUSDC(p.maxDeposit),
                 p.aprBps,
-                p.penaltyBps
+                p.penaltyBps,
+                NO_PLAN_LIMITS
             )
         ).wait();
 
@@ -1,4 +1,4 @@
-import { loadContracts, formatUSDC, formatBps, parseUSDC } from "./helpers";
+import { loadContracts, loadClient, formatUSDC, formatBps, parseUSDC } from "./helpers";
 
 /**
  * Demo Script 05: Open Deposit
@@ -8,15 +8,15 @@ import { loadContracts, formatUSDC, formatBps, parseUSDC } from "./helpers";
  * 
  * This script:
  * 1. Mints USDC if needed
- * 2. Approves SavingsBank to spend USDC
- * 3. Opens a new deposit
- * 4. Shows deposit details
+ * 2. Signs an EIP-2612 permit and opens a new deposit in one transaction (via SDK client)
+ * 3. Shows deposit details
  */
 
 async function main() {
     console.log("\n🏦 ===== DEMO: OPEN DEPOSIT =====\n");
 
-    const { usdc, tokenVault, savingsBank, deployer } = await loadContracts();
+    const { usdc, deployer } = await loadContracts();
+    const client = await loadClient();
 
     // Configuration
     const planId = 1; // Change this to test different plans
@@ -39,40 +39,20 @@ async function main() {
     }
 
     // Get plan details
-    const plan = await savingsBank.savingPlans(planId);
+    const plan = await client.getPlan(planId);
     console.log("\n📊 Plan Details:");
     console.log("   Name:", plan.name);
     console.log("   Duration:", plan.durationDays.toString(), "days");
     console.log("   APR:", formatBps(plan.aprBps));
     console.log("   Early withdraw penalty:", formatBps(plan.earlyWithdrawPenaltyBps));
 
-    // Approve and open deposit
-    console.log("\n🔓 Approving USDC...");
-    await (await usdc.connect(deployer).approve(await tokenVault.getAddress(), amount)).wait();
-
-    console.log("📝 Opening deposit...");
-    const tx = await savingsBank.connect(deployer).openDeposit(planId, amount, enableAutoRenew);
-    const receipt = await tx.wait();
-
-    // Extract deposit ID from event
-    let depositId = 1n;
-    const log = receipt?.logs.find((l: any) => {
-        try {
-            const p = savingsBank.interface.parseLog(l);
-            return p?.name === "DepositOpened";
-        } catch {
-            return false;
-        }
-    });
-    if (log) {
-        const p = savingsBank.interface.parseLog(log);
-        depositId = p?.args[0] ?? 1n;
-    }
+    // Permit + open deposit (no separate approve transaction)
+    console.log("\n📝 Signing permit and opening deposit...");
+    const { depositId } = await client.openDepositWithPermit({ planId, amount, enableAutoRenew });
 
     // Show deposit details
-    const [, principal, , maturityTime, lockedAprBps, isAutoRenewEnabled, status] =
-        await savingsBank.getDepositDetails(depositId);
-    const expectedInterest = await savingsBank.calculateInterest(depositId);
+    const { principal, maturityTime, lockedAprBps, isAutoRenewEnabled, expectedInterest } =
+        await client.getDeposit(depositId);
 
     console.log("\n✅ ===== DEPOSIT OPENED SUCCESSFULLY =====");
     console.log("");
@@ -10,7 +10,7 @@ import { loadContracts, formatUSDC, parseUSDC } from "./helpers";
  * This script:
  * 1. Opens a NEW deposit
  * 2. Immediately withdraws (before maturity)
- * 3. Shows penalty calculation
+ * 3. Shows the quote (penalty, accrued interest at the plan's early rate, net)
  * 4. Compares with normal withdraw
  */
 
@@ -48,8 +48,7 @@ async function main() {
     const [, principal, , maturityTime] = await savingsBank.getDepositDetails(depositId);
     const plan = await savingsBank.savingPlans(planId);
 
-    const penalty = (principal * BigInt(plan.earlyWithdrawPenaltyBps.toString())) / 10_000n;
-    const userReceives = principal - penalty;
+    const [, penalty, accruedInterest, userReceives] = await savingsBank.calculateEarlyWithdrawAmount(depositId);
     const interest = await savingsBank.calculateInterest(depositId);
 
     console.log("📊 Comparison:");
@@ -62,10 +61,10 @@ async function main() {
     console.log("   If you early withdraw NOW:");
     console.log("      Principal:", formatUSDC(principal), "USDC");
     console.log("      Penalty (" + Number(plan.earlyWithdrawPenaltyBps) / 100 + "%):", formatUSDC(penalty), "USDC ❌");
+    console.log("      Accrued interest (early rate " + Number(plan.earlyRateBps) / 100 + "%):", formatUSDC(accruedInterest), "USDC");
     console.log("      You receive:", formatUSDC(userReceives), "USDC ⚠️");
-    console.log("      No interest");
     console.log("");
-    console.log("💸 Loss:", formatUSDC(penalty + interest), "USDC");
+    console.log("💸 Loss:", formatUSDC(penalty + interest - accruedInterest), "USDC");
     console.log("");
 
     // Early withdraw
@@ -83,13 +82,14 @@ async function main() {
     console.log("📊 Breakdown:");
     console.log("   Original principal:", formatUSDC(principal), "USDC");
     console.log("   Penalty deducted:", formatUSDC(penalty), "USDC");
+    console.log("   Accrued interest:", formatUSDC(accruedInterest), "USDC");
     console.log("   Net received:", formatUSDC(received), "USDC");
     console.log("");
     console.log("⚠️ Penalty goes to InterestVault (boosts liquidity)");
     console.log("🎉 Deposit closed, NFT burned");
     console.log("");
     console.log("💡 Key takeaway:");
-    console.log("   Early withdraw costs you " + formatUSDC(penalty + interest), "USDC");
+    console.log("   Early withdraw costs you " + formatUSDC(penalty + interest - accruedInterest), "USDC");
     console.log("   Always better to wait until maturity!");
     console.log("");
 }
@@ -0,0 +1,74 @@
+import { loadContracts, loadClient, formatUSDC, formatBps, parseUSDC } from "./helpers";
+
+/**
+ * Demo Script 09: Partial Early Withdraw
+ *
+ * Purpose: Withdraw part of a deposit before maturity
+ * Network: localhost (hardhat node)
+ *
+ * This script:
+ * 1. Opens a NEW deposit (via SDK client)
+ * 2. Withdraws part of the principal (penalty only on that part)
+ * 3. Shows the remaining deposit and the InterestVault reservation before/after
+ */
+
+async function main() {
+    console.log("\n✂️ ===== DEMO: PARTIAL EARLY WITHDRAW =====\n");
+
+    const { usdc, interestVault, deployer } = await loadContracts();
+    const client = await loadClient();
+
+    // Configuration
+    const planId = 2; // Using plan 2 for demo
+    const amount = parseUSDC("1000"); // 1000 USDC
+    const withdrawAmount = parseUSDC("400"); // take out 400 USDC
+
+    // Mint if needed
+    const userBalance = await usdc.balanceOf(deployer.address);
+    if (userBalance < amount) {
+        await (await usdc.mint(deployer.address, amount)).wait();
+    }
+
+    const plan = await client.getPlan(planId);
+    const { depositId } = await client.openDeposit({ planId, amount });
+    const before = await client.getDeposit(depositId);
+    const reservedBefore = await interestVault.totalReserved();
+
+    console.log("✅ Deposit opened (ID:", depositId.toString() + ")");
+    console.log("   Principal:", formatUSDC(before.principal), "USDC");
+    console.log("   Expected interest:", formatUSDC(before.expectedInterest), "USDC");
+    console.log("   Penalty rate:", formatBps(plan.earlyWithdrawPenaltyBps));
+    console.log("");
+
+    console.log("✂️ Withdrawing", formatUSDC(withdrawAmount), "USDC before maturity...");
+    const result = await client.partialEarlyWithdraw(depositId, withdrawAmount);
+    const after = await client.getDeposit(depositId);
+    const reservedAfter = await interestVault.totalReserved();
+
+    console.log("\n✅ ===== PARTIAL EARLY WITHDRAW COMPLETED =====");
+    console.log("");
+    console.log("💰 Withdrawn:");
+    console.log("   Amount:", formatUSDC(result.amount), "USDC");
+    console.log("   Penalty:", formatUSDC(result.penalty), "USDC ❌");
+    console.log("   Accrued interest:", formatUSDC(result.interest), "USDC");
+    console.log("   Received:", formatUSDC(result.received), "USDC");
+    console.log("");
+    console.log("🎯 Remaining deposit (same NFT):");
+    console.log("   Principal:", formatUSDC(after.principal), "USDC");
+    console.log("   Locked APR:", formatBps(after.lockedAprBps), "(unchanged)");
+    console.log("   Maturity:", new Date(Number(after.maturityTime) * 1000).toLocaleString(), "(unchanged)");
+    console.log("   Expected interest:", formatUSDC(after.expectedInterest), "USDC");
+    console.log("");
+    console.log("🏦 InterestVault reservation:");
+    console.log("   Before:", formatUSDC(reservedBefore), "USDC");
+    console.log("   After:", formatUSDC(reservedAfter), "USDC");
+    console.log("   Released:", formatUSDC(reservedBefore - reservedAfter), "USDC");
+    console.log("");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((e) => {
+        console.error("\n❌ Error:", e.message);
+        process.exit(1);
+    });
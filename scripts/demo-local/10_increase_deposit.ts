@@ -0,0 +1,75 @@
+import { loadContracts, loadClient, fastForward, formatUSDC, parseUSDC } from "./helpers";
+import { TopUpPolicy } from "../../sdk";
+
+/**
+ * Demo Script 10: Increase Deposit (top-up)
+ *
+ * Purpose: Add funds to an active deposit instead of opening a second one
+ * Network: localhost (hardhat node)
+ *
+ * This script:
+ * 1. Opens a NEW deposit (via SDK client)
+ * 2. Fast-forwards part of the term
+ * 3. Tops it up and shows how the plan's TopUpPolicy moved the maturity
+ */
+
+async function main() {
+    console.log("\n➕ ===== DEMO: INCREASE DEPOSIT =====\n");
+
+    const { usdc, interestVault, deployer } = await loadContracts();
+    const client = await loadClient();
+
+    // Configuration
+    const planId = 2; // Using plan 2 for demo
+    const amount = parseUSDC("1000"); // 1000 USDC
+    const topUp = parseUSDC("500"); // add 500 USDC
+    const daysBeforeTopUp = 10;
+
+    // Mint if needed
+    const userBalance = await usdc.balanceOf(deployer.address);
+    if (userBalance < amount + topUp) {
+        await (await usdc.mint(deployer.address, amount + topUp)).wait();
+    }
+
+    const plan = await client.getPlan(planId);
+    const { depositId } = await client.openDeposit({ planId, amount });
+    const before = await client.getDeposit(depositId);
+
+    console.log("✅ Deposit opened (ID:", depositId.toString() + ")");
+    console.log("   Principal:", formatUSDC(before.principal), "USDC");
+    console.log("   Maturity:", new Date(Number(before.maturityTime) * 1000).toLocaleString());
+    console.log("   Top-up policy:", TopUpPolicy[plan.topUpPolicy]);
+    console.log("");
+
+    await fastForward(daysBeforeTopUp);
+
+    const reservedBefore = await interestVault.totalReserved();
+    const result = await client.increaseDeposit(depositId, topUp);
+    const after = await client.getDeposit(depositId);
+    const reservedAfter = await interestVault.totalReserved();
+
+    console.log("\n✅ ===== DEPOSIT INCREASED =====");
+    console.log("");
+    console.log("🎯 Deposit (same NFT):");
+    console.log("   Added:", formatUSDC(result.amount), "USDC");
+    console.log("   Principal:", formatUSDC(before.principal), "→", formatUSDC(after.principal), "USDC");
+    console.log(
+        "   Maturity:",
+        new Date(Number(before.maturityTime) * 1000).toLocaleString(),
+        "→",
+        new Date(Number(after.maturityTime) * 1000).toLocaleString()
+    );
+    console.log("   Expected interest:", formatUSDC(after.expectedInterest), "USDC");
+    console.log("");
+    console.log("🏦 InterestVault reservation:");
+    console.log("   Before:", formatUSDC(reservedBefore), "USDC");
+    console.log("   After:", formatUSDC(reservedAfter), "USDC");
+    console.log("");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((e) => {
+        console.error("\n❌ Error:", e.message);
+        process.exit(1);
+    });
@@ -1,18 +1,7 @@
 import { ethers, deployments } from "hardhat";
+import { SavingsClient } from "../../sdk";
 
-const DECIMALS = 6;
-
-export function formatUSDC(amount: bigint | number): string {
-    return ethers.formatUnits(BigInt(amount), DECIMALS);
-}
-
-export function parseUSDC(amount: string): bigint {
-    return ethers.parseUnits(amount, DECIMALS);
-}
-
-export function formatBps(bps: bigint): string {
-    return (Number(bps) / 100).toFixed(2) + "%";
-}
+export { formatUSDC, parseUSDC, formatBps, NO_PLAN_LIMITS } from "../../sdk";
 
 export async function fastForward(days: number): Promise<void> {
     const seconds = days * 24 * 60 * 60;
@@ -39,13 +28,13 @@ export async function loadContracts(): Promise<{
     const MockUSDC = await deployments.get("MockUSDC");
     const TokenVault = await deployments.get("TokenVault");
     const InterestVault = await deployments.get("InterestVault");
-    const MockDepositNFT = await deployments.get("MockDepositNFT");
+    const DepositNFT = await deployments.get("DepositNFT");
     const SavingsBank = await deployments.get("SavingsBank");
 
     const usdc = await ethers.getContractAt("MockUSDC", MockUSDC.address);
     const tokenVault = await ethers.getContractAt("TokenVault", TokenVault.address);
     const interestVault = await ethers.getContractAt("InterestVault", InterestVault.address);
-    const depositNFT = await ethers.getContractAt("MockDepositNFT", MockDepositNFT.address);
+    const depositNFT = await ethers.getContractAt("DepositNFT", DepositNFT.address);
     const savingsBank = await ethers.getContractAt("SavingsBank", SavingsBank.address);
 
     return {
@@ -59,10 +48,27 @@ export async function loadContracts(): Promise<{
             MockUSDC: MockUSDC.address,
             TokenVault: TokenVault.address,
             InterestVault: InterestVault.address,
-            MockDepositNFT: MockDepositNFT.address,
+            DepositNFT: DepositNFT.address,
             SavingsBank: SavingsBank.address,
         },
     };
 }
 
+/**
+ * SDK client for the deployed contracts, connected to the first signer
+ */
+export async function loadClient(): Promise<SavingsClient> {
+    const { deployer, addresses } = await loadContracts();
+    return new SavingsClient(
+        {
+            usdc: addresses.MockUSDC,
+            tokenVault: addresses.TokenVault,
+            interestVault: addresses.InterestVault,
+            depositNFT: addresses.DepositNFT,
+            savingsBank: addresses.SavingsBank,
+        },
+        deployer
+    );
+}
+
 export const STATUS = ["ACTIVE", "WITHDRAWN", "EARLY_WITHDRAWN", "RENEWED"];
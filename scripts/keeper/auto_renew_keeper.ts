@@ -0,0 +1,62 @@
+import { ethers } from "hardhat";
+import { AutoRenewKeeper } from "../../keeper";
+import { loadClient } from "../test-deployment/helpers";
+
+/**
+ * Auto-renew keeper daemon
+ *
+ * Scans deposits every KEEPER_POLL_SECONDS and calls performAutoRenew for those inside
+ * the 2-day grace window. Runs until Ctrl+C. Set KEEPER_ONCE=1 for a single pass.
+ *
+ * Usage: npx hardhat run scripts/keeper/auto_renew_keeper.ts --network localhost
+ *
+ * Env:
+ *   KEEPER_POLL_SECONDS   Delay between scans (default 60)
+ *   KEEPER_BATCH_SIZE     IDs per checkAutoRenewBatch call (default 100)
+ *   KEEPER_MAX_FEE_GWEI   Max fee per gas; renewals are deferred above it (default: no cap)
+ *   KEEPER_MAX_GAS        Max gas per renewal tx (default 1000000)
+ *   KEEPER_ONCE           Run a single pass and exit
+ */
+async function main() {
+  const client = await loadClient();
+  const [keeperSigner] = await ethers.getSigners();
+
+  const keeper = new AutoRenewKeeper(client, {
+    pollIntervalMs: Number(process.env.KEEPER_POLL_SECONDS ?? "60") * 1000,
+    batchSize: Number(process.env.KEEPER_BATCH_SIZE ?? "100"),
+    maxFeePerGas: process.env.KEEPER_MAX_FEE_GWEI ? ethers.parseUnits(process.env.KEEPER_MAX_FEE_GWEI, "gwei") : undefined,
+    maxGasLimit: BigInt(process.env.KEEPER_MAX_GAS ?? "1000000"),
+  });
+
+  console.log("\n🤖 Auto-renew keeper");
+  console.log("  Keeper:", keeperSigner.address);
+  console.log("  SavingsBank:", client.addresses.savingsBank);
+  if (!(await client.getRoles(keeperSigner.address)).keeper) {
+    console.log("  ⚠️  Keeper account has no KEEPER_ROLE; performAutoRenew will revert until it is granted");
+  }
+
+  if (process.env.KEEPER_ONCE) {
+    const result = await keeper.runOnce();
+    console.log(
+      `  Scanned ${result.scanned}, eligible ${result.eligible.length}, renewed ${result.renewed.length}, ` +
+        `deferred ${result.deferred.length}, failed ${result.failed.length}, skipped ${result.skipped.length}\n`
+    );
+    return;
+  }
+
+  keeper.start();
+  await new Promise<void>((resolve) =>
+    process.once("SIGINT", () => {
+      keeper.stop();
+      resolve();
+    })
+  );
+  console.log("\n👋 Keeper stopped\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
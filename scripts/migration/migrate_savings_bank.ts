@@ -0,0 +1,131 @@
+import fs from "fs";
+import path from "path";
+import { ethers, deployments, network } from "hardhat";
+import { SavingsMigrator, snapshotFromJson, snapshotToJson } from "../../migration";
+import { hashTimelockCall } from "../../sdk";
+
+/**
+ * Migrate a SavingsBank deployment to a new one
+ *
+ * 1. export  Snapshot of the paused source (plans, active deposits, vault balances) written to
+ *            MIGRATION_SNAPSHOT, plus the exportVaults timelock calls moving the funds to the target
+ * 2. import  Open the target's migration window, import plans and deposits, close the window
+ *            (DRY_RUN=1 only lists the steps and blocking problems)
+ * 3. report  Reconcile the target against the snapshot; exits 1 on any mismatch
+ *
+ * Usage: MIGRATION_STEP=export MIGRATION_TO=0x… npx hardhat run scripts/migration/migrate_savings_bank.ts --network localhost
+ *
+ * Env:
+ *   MIGRATION_STEP       export | import | report
+ *   MIGRATION_FROM       Source SavingsBank (default: the "SavingsBank" deployment)
+ *   MIGRATION_TO         Target SavingsBank (fresh deployment with the same assets registered, no plans)
+ *   MIGRATION_SNAPSHOT   Snapshot file (default .migration/<network>.json)
+ *   MIGRATION_WINDOW     Import window in seconds (default 86400)
+ *   MIGRATION_SCHEDULE   export: schedule the exportVaults calls with the first signer (PROPOSER_ROLE)
+ *   DRY_RUN              import: report the steps without sending
+ */
+async function main() {
+  const step = process.env.MIGRATION_STEP;
+  const from = process.env.MIGRATION_FROM ?? (await deployments.get("SavingsBank")).address;
+  const to = process.env.MIGRATION_TO;
+  if (!to) throw new Error("MIGRATION_TO is required");
+  const snapshotPath = process.env.MIGRATION_SNAPSHOT ?? `.migration/${network.name}.json`;
+
+  const [signer] = await ethers.getSigners();
+  const migrator = new SavingsMigrator(signer, from, to, {
+    windowSeconds: Number(process.env.MIGRATION_WINDOW ?? "86400"),
+    dryRun: Boolean(process.env.DRY_RUN),
+    logger: { info: (m) => console.log("  ✅", m), warn: (m) => console.log("  ⚠️ ", m) },
+  });
+
+  console.log("\n🚚 SavingsBank migration");
+  console.log("  From:", from);
+  console.log("  To:", to);
+
+  switch (step) {
+    case "export":
+      return exportStep(migrator, snapshotPath);
+    case "import":
+      return importStep(migrator, snapshotPath);
+    case "report":
+      return reportStep(migrator, snapshotPath);
+    default:
+      throw new Error(`MIGRATION_STEP must be export, import or report (got ${step})`);
+  }
+}
+
+async function exportStep(migrator: SavingsMigrator, snapshotPath: string) {
+  const snapshot = await migrator.exportSnapshot();
+  if (!snapshot.paused) {
+    console.log("  ⚠️  Source is not paused: deposits can still change and exportVaults will revert");
+  }
+  fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+  fs.writeFileSync(snapshotPath, snapshotToJson(snapshot));
+  console.log(
+    `\n  Snapshot at block ${snapshot.blockNumber}: ${snapshot.plans.length} plans, ` +
+      `${snapshot.deposits.length} active deposits → ${snapshotPath}`
+  );
+  for (const v of snapshot.vaults) {
+    console.log(
+      `    ${v.asset}: TokenVault ${v.tokenVaultBalance} (active principal ${v.activePrincipal}), ` +
+        `InterestVault ${v.interestVaultBalance} (reserved ${v.totalReserved})`
+    );
+  }
+
+  const timelock = await ethers.getContractAt("SavingsTimelock", (await deployments.get("SavingsTimelock")).address);
+  const minDelay = await timelock.getMinDelay();
+  console.log("\n  Timelock calls (exportVaults):");
+  for (const call of await migrator.exportVaultCalls(snapshot)) {
+    console.log("    target:", call.target);
+    console.log("    data:", call.data);
+    console.log("    operation id:", await hashTimelockCall(await timelock.getAddress(), call, ethers.provider));
+    if (process.env.MIGRATION_SCHEDULE) {
+      const tx = await timelock.schedule(call.target, call.value, call.data, call.predecessor, call.salt, minDelay);
+      await tx.wait();
+      console.log(`    scheduled (tx ${tx.hash}); executable in ${minDelay}s`);
+    }
+  }
+  if (!process.env.MIGRATION_SCHEDULE) {
+    console.log(`\n  Schedule them with delay >= ${minDelay}s, or rerun with MIGRATION_SCHEDULE=1`);
+  }
+  console.log("  Execute them, then run MIGRATION_STEP=import\n");
+}
+
+async function importStep(migrator: SavingsMigrator, snapshotPath: string) {
+  const snapshot = snapshotFromJson(fs.readFileSync(snapshotPath, "utf8"));
+  const result = await migrator.run(snapshot);
+
+  if (result.skipped.length > 0) console.log(`\n  Already imported: ${result.skipped.join(", ")}`);
+  if (result.problems.length > 0) {
+    console.log("\n  ❌ Blocking problems:");
+    for (const p of result.problems) console.log("    -", p);
+  }
+  if (result.txHashes.length === 0) {
+    console.log(`\n  Dry run (${result.steps.length} steps):`);
+    for (const s of result.steps) console.log(`    ${s.kind}: ${s.description}`);
+    console.log();
+    return;
+  }
+  console.log(`\n  ${result.txHashes.length} transactions sent; run MIGRATION_STEP=report to reconcile\n`);
+}
+
+async function reportStep(migrator: SavingsMigrator, snapshotPath: string) {
+  const snapshot = snapshotFromJson(fs.readFileSync(snapshotPath, "utf8"));
+  const report = await migrator.reconcile(snapshot);
+
+  console.log("\n  Reconciliation:");
+  for (const c of report.checks) {
+    console.log(`    ${c.ok ? "✅" : "❌"} ${c.name}`);
+    if (!c.ok) console.log(`       expected ${c.expected}\n       actual   ${c.actual}`);
+  }
+  const failed = report.checks.filter((c) => !c.ok).length;
+  console.log(`\n  ${report.checks.length - failed}/${report.checks.length} checks passed\n`);
+  if (!report.ok) process.exitCode = 1;
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,99 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { ethers, deployments } from "hardhat";
+import { MetaTxRelayer, RelayError } from "../../relayer";
+import { ForwardRequestJson, fromForwardRequestJson } from "../../sdk";
+
+/**
+ * Meta-transaction relayer (HTTP)
+ *
+ * Accepts EIP-712 signed SavingsBank intents (see sdk signSavingsIntent) and submits them
+ * through SavingsForwarder, paying the gas. Runs until Ctrl+C.
+ *
+ * Usage: npx hardhat run scripts/relayer/meta_tx_relayer.ts --network localhost
+ *
+ * Endpoints:
+ *   GET  /health    Relayer, forwarder and SavingsBank addresses + relayer ETH balance
+ *   POST /simulate  Validate + simulate a request ({ ...ForwardRequestJson }) without sending
+ *   POST /relay     Validate, simulate and submit; returns tx hash and SavingsBank events
+ *
+ * Env:
+ *   RELAYER_PORT          HTTP port (default 8546)
+ *   RELAYER_MAX_GAS       Max gas a request may ask for (default 1000000)
+ *   RELAYER_SIGNER_INDEX  Hardhat signer paying for gas (default 0)
+ */
+async function main() {
+  const signers = await ethers.getSigners();
+  const relayerSigner = signers[Number(process.env.RELAYER_SIGNER_INDEX ?? "0")];
+  const forwarder = await deployments.get("SavingsForwarder");
+  const savingsBank = await deployments.get("SavingsBank");
+
+  const relayer = new MetaTxRelayer(relayerSigner, forwarder.address, savingsBank.address, {
+    maxGas: BigInt(process.env.RELAYER_MAX_GAS ?? "1000000"),
+  });
+  const port = Number(process.env.RELAYER_PORT ?? "8546");
+
+  const server = createServer(async (req, res) => {
+    try {
+      if (req.method === "GET" && req.url === "/health") {
+        const balance = await ethers.provider.getBalance(relayerSigner.address);
+        return send(res, 200, {
+          relayer: relayerSigner.address,
+          forwarder: forwarder.address,
+          savingsBank: savingsBank.address,
+          balance: ethers.formatEther(balance),
+        });
+      }
+      if (req.method === "POST" && (req.url === "/relay" || req.url === "/simulate")) {
+        const request = fromForwardRequestJson((await readJson(req)) as ForwardRequestJson);
+        if (req.url === "/simulate") {
+          const action = await relayer.validate(request);
+          const gasLimit = await relayer.simulate(request);
+          return send(res, 200, { action, gasLimit: gasLimit.toString() });
+        }
+        const result = await relayer.relay(request);
+        return send(res, 200, { ...result, gasUsed: result.gasUsed.toString() });
+      }
+      send(res, 404, { error: "not found" });
+    } catch (e) {
+      if (e instanceof RelayError) return send(res, 422, { code: e.code, error: e.message });
+      send(res, 400, { error: e instanceof Error ? e.message : String(e) });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.log("\n📨 Meta-tx relayer");
+  console.log("  Relayer:", relayerSigner.address);
+  console.log("  Forwarder:", forwarder.address);
+  console.log("  SavingsBank:", savingsBank.address);
+  console.log(`  Listening on http://localhost:${port}\n`);
+
+  await new Promise<void>((resolve) => process.once("SIGINT", () => server.close(() => resolve())));
+  console.log("\n👋 Relayer stopped\n");
+}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new Error("invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
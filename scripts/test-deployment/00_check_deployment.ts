@@ -13,7 +13,7 @@ async function main() {
     hasCode(addresses.MockUSDC),
     hasCode(addresses.TokenVault),
     hasCode(addresses.InterestVault),
-    hasCode(addresses.MockDepositNFT),
+    hasCode(addresses.DepositNFT),
     hasCode(addresses.SavingsBank),
   ]);
 
@@ -21,7 +21,7 @@ async function main() {
   console.log("│ Contract        │ Address                                    │");
   console.log("├─────────────────┼────────────────────────────────────────────┤");
   for (const [name, addr] of Object.entries(addresses)) {
-    const ok = name === "MockUSDC" ? checks[0] : name === "TokenVault" ? checks[1] : name === "InterestVault" ? checks[2] : name === "MockDepositNFT" ? checks[3] : checks[4];
+    const ok = name === "MockUSDC" ? checks[0] : name === "TokenVault" ? checks[1] : name === "InterestVault" ? checks[2] : name === "DepositNFT" ? checks[3] : checks[4];
     console.log(`│ ${name.padEnd(15)} │ ${addr} │ ${ok ? "✅" : "❌"}`);
   }
   console.log("└─────────────────┴────────────────────────────────────────────┘");
@@ -35,7 +35,7 @@ async function main() {
     sbUsdc === addresses.MockUSDC &&
     sbTokenVault === addresses.TokenVault &&
     sbInterestVault === addresses.InterestVault &&
-    sbDepositNFT === addresses.MockDepositNFT;
+    sbDepositNFT === addresses.DepositNFT;
 
   if (connectionsOk) console.log("\n✅ SavingsBank connections correct");
   else console.log("\n⚠️ SavingsBank connection mismatch");
@@ -9,7 +9,7 @@ async function main() {
   const tvOwner = await tokenVault.owner();
   const ivOwner = await interestVault.owner();
   const nftOwner = await depositNFT.owner();
-  const sbOwner = await savingsBank.owner();
+  const isAdmin = await savingsBank.hasRole(await savingsBank.DEFAULT_ADMIN_ROLE(), deployer.address);
 
   if (tvOwner === sbAddr) console.log("✅ TokenVault owned by SavingsBank");
   else console.log("❌ TokenVault owner:", tvOwner);
@@ -17,11 +17,11 @@ async function main() {
   if (ivOwner === sbAddr) console.log("✅ InterestVault owned by SavingsBank");
   else console.log("❌ InterestVault owner:", ivOwner);
 
-  if (nftOwner === sbAddr) console.log("✅ MockDepositNFT owned by SavingsBank");
-  else console.log("❌ MockDepositNFT owner:", nftOwner);
+  if (nftOwner === sbAddr) console.log("✅ DepositNFT owned by SavingsBank");
+  else console.log("❌ DepositNFT owner:", nftOwner);
 
-  if (sbOwner === deployer.address) console.log("✅ SavingsBank owned by Deployer");
-  else console.log("❌ SavingsBank owner:", sbOwner);
+  if (isAdmin) console.log("✅ Deployer has DEFAULT_ADMIN_ROLE on SavingsBank");
+  else console.log("⚠️  Deployer is not SavingsBank admin (roles handed over via config/roles.json)");
 
   const nextPlanId = await savingsBank.nextPlanId();
   const nextDepositId = await savingsBank.nextDepositId();
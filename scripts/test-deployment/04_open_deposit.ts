@@ -1,4 +1,6 @@
+import { ethers } from "hardhat";
 import { loadContracts, formatUSDC, formatBps, parseUSDC } from "./helpers";
+import { signPermit } from "../../sdk";
 
 async function main() {
   console.log("\n🏦 Open Deposit\n");
@@ -20,8 +22,19 @@ async function main() {
   console.log("Amount:", formatUSDC(amount), "USDC");
   console.log("Auto-renew:", enableAutoRenew);
 
-  await (await usdc.connect(deployer).approve(await tokenVault.getAddress(), amount)).wait();
-  const tx = await savingsBank.connect(deployer).openDeposit(planId, amount, enableAutoRenew);
+  // EIP-2612 permit instead of approve: one transaction
+  const latest = await ethers.provider.getBlock("latest");
+  const deadline = BigInt(latest!.timestamp) + 3600n;
+  const { v, r, s } = await signPermit(
+    deployer,
+    await usdc.getAddress(),
+    await tokenVault.getAddress(),
+    amount,
+    deadline
+  );
+  const tx = await savingsBank
+    .connect(deployer)
+    .openDepositWithPermit(planId, amount, enableAutoRenew, deadline, v, r, s);
   const receipt = await tx.wait();
 
   let depositId = 1n;
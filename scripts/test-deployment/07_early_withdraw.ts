@@ -22,10 +22,9 @@ async function main() {
     await fastForward(15);
   }
 
-  const [, principal, , maturityTime] = await savingsBank.getDepositDetails(tokenId);
+  const [, principal] = await savingsBank.getDepositDetails(tokenId);
   const plan = await savingsBank.savingPlans(planId);
-  const penalty = (principal * BigInt(plan.earlyWithdrawPenaltyBps.toString())) / 10_000n;
-  const userReceives = principal - penalty;
+  const [, penalty, accruedInterest, netAmount] = await savingsBank.calculateEarlyWithdrawAmount(tokenId);
 
   const userBefore = await usdc.balanceOf(deployer.address);
   await (await savingsBank.connect(deployer).earlyWithdraw(tokenId)).wait();
@@ -35,7 +34,11 @@ async function main() {
   console.log("Early withdraw:");
   console.log("  Principal:", formatUSDC(principal), "USDC");
   console.log("  Penalty (" + Number(plan.earlyWithdrawPenaltyBps) / 100 + "%):", formatUSDC(penalty), "USDC");
+  console.log("  Accrued interest (early rate " + Number(plan.earlyRateBps) / 100 + "%):", formatUSDC(accruedInterest), "USDC");
   console.log("  User received:", formatUSDC(received), "USDC");
+  if (received !== netAmount) {
+    throw new Error(`Received ${formatUSDC(received)} but quote was ${formatUSDC(netAmount)}`);
+  }
   console.log("✅ Early withdraw done\n");
 }
 
@@ -30,9 +30,10 @@ async function main() {
     process.exit(1);
   }
 
-  const owner = await savingsBank.owner();
-  if (owner === deployer.address) {
-    await (await savingsBank.connect(deployer).updatePlan(planId, 1200, plan.earlyWithdrawPenaltyBps)).wait();
+  if (await savingsBank.hasRole(await savingsBank.TIMELOCK_ROLE(), deployer.address)) {
+    const { startsAt, endsAt, capacity, walletCap, maxDepositsPerUser } = plan.limits;
+    const limits = { startsAt, endsAt, capacity, walletCap, maxDepositsPerUser };
+    await (await savingsBank.connect(deployer).updatePlan(planId, 1200, plan.earlyWithdrawPenaltyBps, limits)).wait();
   }
 
   const userBefore = await usdc.balanceOf(deployer.address);
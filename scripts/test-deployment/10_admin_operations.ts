@@ -5,13 +5,11 @@ async function main() {
 
   const { interestVault, savingsBank, deployer } = await loadContracts();
 
-  const owner = (await savingsBank.owner()).toLowerCase();
-  const deployerAddr = deployer.address.toLowerCase();
-  const isOwner = owner === deployerAddr;
+  const isPauser = await savingsBank.hasRole(await savingsBank.PAUSER_ROLE(), deployer.address);
 
-  if (!isOwner) {
-    console.log("⚠️  Deployer is not owner. Owner:", await savingsBank.owner());
-    console.log("   Skipping pause/unpause (only owner can call).");
+  if (!isPauser) {
+    console.log("⚠️  Deployer does not have PAUSER_ROLE.");
+    console.log("   Skipping pause/unpause (only PAUSER_ROLE can call).");
   } else {
     try {
       console.log("Pause...");
@@ -27,7 +25,7 @@ async function main() {
       console.log("✅ Unpaused");
     } catch (e: any) {
       const msg = e?.reason ?? e?.shortMessage ?? e?.message ?? String(e);
-      console.log("⚠️  Pause/unpause failed (maybe not owner or already paused):", msg.slice(0, 80));
+      console.log("⚠️  Pause/unpause failed (maybe missing PAUSER_ROLE or already paused):", msg.slice(0, 80));
     }
   }
 
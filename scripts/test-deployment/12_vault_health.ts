@@ -1,30 +1,24 @@
-import { loadContracts, formatUSDC } from "./helpers";
+import { loadClient, formatUSDC, formatBps } from "./helpers";
 
 async function main() {
   console.log("\n🏥 Vault Health\n");
 
-  const { tokenVault, interestVault, savingsBank } = await loadContracts();
-
-  const ivBalance = await interestVault.balance();
-  const ivReserved = await interestVault.totalReserved();
-  const ivAvailable = await interestVault.availableBalance();
-  const tvBalance = await tokenVault.balance();
-
-  const ratio = ivReserved > 0n ? Number((ivBalance * 100n) / ivReserved) : 0;
-  const utilization = ivBalance > 0n ? Number((ivReserved * 100n) / ivBalance) : 0;
+  const client = await loadClient();
+  const health = await client.getVaultHealth();
 
   console.log("InterestVault:");
-  console.log("  Balance:", formatUSDC(ivBalance), "USDC");
-  console.log("  Reserved:", formatUSDC(ivReserved), "USDC");
-  console.log("  Available:", formatUSDC(ivAvailable), "USDC");
-  console.log("  Reserve ratio:", ratio + "%");
-  console.log("  Utilization:", utilization + "%");
+  console.log("  Balance:", formatUSDC(health.interestVaultBalance), "USDC");
+  console.log("  Reserved:", formatUSDC(health.totalReserved), "USDC");
+  console.log("  Available:", formatUSDC(health.availableBalance), "USDC");
+  console.log("  Reserve ratio:", formatBps(health.reserveRatioBps));
+  console.log("  Utilization:", formatBps(health.utilizationBps));
 
   console.log("\nTokenVault:");
-  console.log("  Balance (principal):", formatUSDC(tvBalance), "USDC");
+  console.log("  Balance (principal):", formatUSDC(health.tokenVaultBalance), "USDC");
+  console.log("  Idle buffer:", formatUSDC(health.tokenVaultIdle), "USDC");
+  console.log("  Strategy:", formatUSDC(health.strategyAssets), "USDC (deployed", formatUSDC(health.strategyDebt) + ")");
 
-  const nextDepositId = await savingsBank.nextDepositId();
-  console.log("\nActive deposits (next ID - 1):", (nextDepositId - 1n).toString());
+  console.log("\nActive deposits (next ID - 1):", health.totalDeposits.toString());
   console.log("\n✅ Vault health report done\n");
 }
 
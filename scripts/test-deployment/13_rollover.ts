@@ -0,0 +1,62 @@
+import { ethers } from "hardhat";
+import { loadContracts, formatUSDC, formatBps, fastForward, isLocalNetwork, parseUSDC } from "./helpers";
+
+async function main() {
+  console.log("\n🔀 Rollover Test (matured deposit → another plan, CURRENT APR)\n");
+
+  const { usdc, tokenVault, savingsBank, deployer } = await loadContracts();
+  const fromPlanId = 1;
+  const toPlanId = 2;
+  const amount = parseUSDC("1000");
+
+  let balance = await usdc.balanceOf(deployer.address);
+  if (balance < amount) {
+    await (await usdc.mint(deployer.address, amount)).wait();
+  }
+  await (await usdc.connect(deployer).approve(await tokenVault.getAddress(), amount)).wait();
+  await (await savingsBank.connect(deployer).openDeposit(fromPlanId, amount, false)).wait();
+
+  const tokenId = (await savingsBank.nextDepositId()) - 1n;
+  const [, principal, , maturityTime] = await savingsBank.getDepositDetails(tokenId);
+  const fromPlan = await savingsBank.savingPlans(fromPlanId);
+
+  if (isLocalNetwork()) {
+    await fastForward(Number(fromPlan.durationDays));
+  }
+
+  const block = await ethers.provider.getBlock("latest");
+  if (!block || block.timestamp < Number(maturityTime)) {
+    console.log("Deposit not matured yet. On Sepolia you must wait until maturity (e.g. 7 days).");
+    console.log("To test this flow now, run on localhost: npx hardhat run scripts/test-deployment/13_rollover.ts");
+    process.exit(1);
+  }
+
+  const interest = await savingsBank.calculateInterest(tokenId);
+  const tokenVaultBefore = await usdc.balanceOf(await tokenVault.getAddress());
+  await (await savingsBank.connect(deployer).rollover(tokenId, toPlanId, false)).wait();
+  const tokenVaultAfter = await usdc.balanceOf(await tokenVault.getAddress());
+
+  const newDepositId = (await savingsBank.nextDepositId()) - 1n;
+  const [newPlanId, newPrincipal, , newMaturity, newAprBps] = await savingsBank.getDepositDetails(newDepositId);
+  const toPlan = await savingsBank.savingPlans(toPlanId);
+
+  console.log("Old deposit #" + tokenId.toString() + " (" + fromPlan.name + ") -> RENEWED");
+  console.log("  Principal:", formatUSDC(principal), "USDC + interest", formatUSDC(interest), "USDC");
+  console.log("New deposit #" + newDepositId.toString() + " (plan " + newPlanId.toString() + ", " + toPlan.name + "):");
+  console.log("  Principal:", formatUSDC(newPrincipal), "USDC (compounded)");
+  console.log("  APR:", formatBps(newAprBps), "(CURRENT rate of the new plan)");
+  console.log("  Maturity:", new Date(Number(newMaturity) * 1000).toISOString());
+  console.log(
+    "  TokenVault change:",
+    formatUSDC(tokenVaultAfter - tokenVaultBefore),
+    "USDC (interest only, principal stayed)"
+  );
+  console.log("✅ Rollover without funds leaving the protocol\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,65 @@
+import { ethers } from "hardhat";
+import { loadClient, loadContracts, formatUSDC, formatBps, fastForward, isLocalNetwork, parseUSDC } from "./helpers";
+
+async function main() {
+  console.log("\n🏦 Lending Test (borrow against a certificate → repay / settle at maturity)\n");
+
+  const { usdc, savingsBank, depositLending, deployer } = await loadContracts();
+  if (!depositLending) {
+    console.log("DepositLending is not deployed on this network (deploy/07b_deploy_deposit_lending.ts).");
+    process.exit(1);
+  }
+  const client = await loadClient();
+  const planId = 1;
+  const amount = parseUSDC("1000");
+
+  const balance = await usdc.balanceOf(deployer.address);
+  if (balance < amount * 3n) {
+    await (await usdc.mint(deployer.address, amount * 3n)).wait();
+  }
+
+  // 1. Borrow up to the LTV, repay everything: the NFT comes back
+  const first = await client.openDeposit({ planId, amount, enableAutoRenew: true });
+  const loanLimit = await depositLending.availableToBorrow(first.depositId);
+  const borrowed = await client.borrow(first.depositId, loanLimit);
+  console.log("Deposit #" + first.depositId.toString() + ": borrowed", formatUSDC(borrowed.amount), "USDC");
+  const loan = (await client.getLoan(first.depositId))!;
+  console.log("  Collateral value:", formatUSDC(loan.collateralValue), "USDC, borrow APR", formatBps(loan.aprBps));
+  console.log("  Auto-renew while escrowed:", (await savingsBank.deposits(first.depositId)).isAutoRenewEnabled);
+
+  const repaid = await client.repay(first.depositId, loan.debt + parseUSDC("1"));
+  console.log("  Repaid", formatUSDC(repaid.paid), "USDC, debt left", formatUSDC(repaid.debt));
+  console.log("  NFT owner:", await client.depositNFT.ownerOf(first.depositId), "(deployer)");
+  console.log("  Auto-renew restored:", (await savingsBank.deposits(first.depositId)).isAutoRenewEnabled);
+
+  // 2. Borrow half, let the certificate mature and settle from the withdrawal
+  const second = await client.openDeposit({ planId, amount, enableAutoRenew: false });
+  await client.borrow(second.depositId, amount / 2n);
+  const [, , , maturityTime] = await savingsBank.getDepositDetails(second.depositId);
+  const plan = await savingsBank.savingPlans(planId);
+
+  if (isLocalNetwork()) {
+    await fastForward(Number(plan.durationDays));
+  }
+
+  const block = await ethers.provider.getBlock("latest");
+  if (!block || block.timestamp < Number(maturityTime)) {
+    console.log("Deposit #" + second.depositId.toString() + " escrowed with a loan; settle it after maturity.");
+    console.log("To test settlement now, run on localhost: npx hardhat run scripts/test-deployment/14_lending.ts");
+    process.exit(0);
+  }
+
+  const settlement = await client.settleLoan(second.depositId);
+  console.log("Deposit #" + second.depositId.toString() + " settled at maturity:");
+  console.log("  Proceeds:", formatUSDC(settlement.proceeds), "USDC (principal + interest)");
+  console.log("  Loan repaid:", formatUSDC(settlement.repaid), "USDC");
+  console.log("  Surplus to borrower:", formatUSDC(settlement.surplus), "USDC");
+  console.log("✅ Loans repaid by the borrower and from the matured certificate\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
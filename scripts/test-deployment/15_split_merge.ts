@@ -0,0 +1,62 @@
+import { loadClient, loadContracts, formatUSDC, parseUSDC } from "./helpers";
+
+async function main() {
+  console.log("\n✂️  Split & Merge Test (one certificate → three NFTs → merged back)\n");
+
+  const { usdc, interestVault, savingsBank, deployer } = await loadContracts();
+  const client = await loadClient();
+  const planId = 1;
+  const amount = parseUSDC("1000");
+
+  const balance = await usdc.balanceOf(deployer.address);
+  if (balance < amount) {
+    await (await usdc.mint(deployer.address, amount)).wait();
+  }
+
+  const { depositId } = await client.openDeposit({ planId, amount, enableAutoRenew: false });
+  const reservedBefore = await interestVault.totalReserved();
+  const interestBefore = await savingsBank.calculateInterest(depositId);
+  console.log(
+    "Deposit #" + depositId.toString() + ":",
+    formatUSDC(amount),
+    "USDC, interest",
+    formatUSDC(interestBefore)
+  );
+
+  // 1. Split into three parts (same APR and maturity, one NFT each)
+  const split = await client.splitDeposit(depositId, [
+    parseUSDC("333.333333"),
+    parseUSDC("333.333333"),
+    parseUSDC("333.333334"),
+  ]);
+  for (const [i, id] of split.newDepositIds.entries()) {
+    console.log(
+      "  Part #" + id.toString() + ":",
+      formatUSDC(split.amounts[i]),
+      "USDC, interest",
+      formatUSDC(await savingsBank.calculateInterest(id))
+    );
+  }
+  console.log("  Rounding dust released:", formatUSDC(reservedBefore - (await interestVault.totalReserved())), "USDC");
+
+  // 2. Merge them back: reservation and interest are the original ones again
+  const merged = await client.mergeDeposits(split.newDepositIds);
+  const interestAfter = await savingsBank.calculateInterest(merged.newDepositId);
+  console.log(
+    "Merged into #" + merged.newDepositId.toString() + ":",
+    formatUSDC(merged.principal),
+    "USDC, interest",
+    formatUSDC(interestAfter)
+  );
+  console.log("  Reservation restored:", (await interestVault.totalReserved()) === reservedBefore);
+  console.log(
+    interestAfter === interestBefore ? "✅ Split and merge preserved the certificate\n" : "❌ Interest changed\n"
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,51 @@
+import { ethers } from "hardhat";
+import { loadClient, loadContracts, formatUSDC, formatBps, parseUSDC } from "./helpers";
+
+async function main() {
+  console.log("\n🌱 Strategy Test (idle principal → ERC-4626 strategy → harvest into InterestVault)\n");
+
+  const { usdc, tokenVault, interestVault, deployer } = await loadContracts();
+  const strategyAddress = await tokenVault.strategy();
+  if (strategyAddress === ethers.ZeroAddress) {
+    console.log("TokenVault has no strategy on this network (deploy/07c_configure_strategy.ts sets one on localhost).");
+    process.exit(1);
+  }
+  const client = await loadClient();
+  const amount = parseUSDC("5000");
+
+  const balance = await usdc.balanceOf(deployer.address);
+  if (balance < amount) {
+    await (await usdc.mint(deployer.address, amount)).wait();
+  }
+
+  // 1. New principal lands in the idle buffer; rebalance deploys the configured share
+  await client.openDeposit({ planId: 2, amount, enableAutoRenew: false });
+  await (await tokenVault.rebalance()).wait();
+  let health = await client.getVaultHealth();
+  console.log("TokenVault (deployed share " + formatBps(await tokenVault.deployedBps()) + "):");
+  console.log("  Idle buffer:", formatUSDC(health.tokenVaultIdle), "USDC");
+  console.log("  Strategy:", formatUSDC(health.strategyAssets), "USDC");
+
+  // 2. Simulate yield on the local mock vault (anyone can send it the asset), then harvest
+  const yieldAmount = parseUSDC("100");
+  await (await usdc.mint(strategyAddress, yieldAmount)).wait();
+  const before = await interestVault.balance();
+  await (await tokenVault.harvest()).wait();
+  const harvested = (await interestVault.balance()) - before;
+  health = await client.getVaultHealth();
+  console.log("Harvested", formatUSDC(harvested), "USDC into InterestVault");
+  console.log(
+    "  Strategy:",
+    formatUSDC(health.strategyAssets),
+    "USDC (deployed",
+    formatUSDC(health.strategyDebt) + ")"
+  );
+  console.log(harvested > 0n ? "✅ Strategy yield funds interest\n" : "❌ Nothing harvested\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
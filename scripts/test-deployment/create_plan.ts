@@ -1,12 +1,14 @@
 import { ethers } from "hardhat";
+import { DayCount, InterestMode } from "../../sdk";
 import { loadContracts } from "./helpers";
 
 /**
  * Admin script: tạo plan mới.
- * Chỉ owner của SavingsBank mới gọi được.
+ * Chỉ ví có PLAN_MANAGER_ROLE trên SavingsBank mới gọi được.
  *
  * Cách dùng:
- * 1. Sửa các hằng số bên dưới (name, durationDays, minDeposit, maxDeposit, aprBps, penaltyBps)
+ * 1. Sửa các hằng số bên dưới (name, durationDays, minDeposit, maxDeposit, aprBps, penaltyBps,
+ *    interestMode, dayCount, giới hạn plan)
  * 2. Chạy: npx hardhat run scripts/test-deployment/create_plan.ts --network sepolia
  */
 
@@ -16,15 +18,21 @@ const MIN_DEPOSIT_USDC = "500";
 const MAX_DEPOSIT_USDC: string = "100000"; // đổi "0" = no limit
 const APR_BPS = 900; // 9% = 900 bps
 const PENALTY_BPS = 500; // 5% = 500 bps
+const INTEREST_MODE = InterestMode.Simple; // Simple | DailyCompound | PerSecond
+const DAY_COUNT = DayCount.Actual365; // Actual365 | Thirty360 (PerSecond chỉ dùng Actual365)
+// Giới hạn plan, "0" / 0 = không giới hạn
+const OPEN_DAYS = 0; // số ngày plan nhận deposit kể từ lúc tạo
+const CAPACITY_USDC: string = "0"; // tổng principal đang active của plan
+const WALLET_CAP_USDC: string = "0"; // principal tối đa mỗi ví
+const MAX_DEPOSITS_PER_USER = 0; // số certificate active tối đa mỗi ví
 
 async function main() {
   console.log("\n📋 Create Plan (Admin)\n");
 
   const { savingsBank, deployer } = await loadContracts();
 
-  const owner = await savingsBank.owner();
-  if (owner !== deployer.address) {
-    console.log("❌ Chỉ owner mới tạo được plan. Owner:", owner);
+  if (!(await savingsBank.hasRole(await savingsBank.PLAN_MANAGER_ROLE(), deployer.address))) {
+    console.log("❌ Chỉ PLAN_MANAGER_ROLE mới tạo được plan. Deployer:", deployer.address);
     process.exit(1);
   }
 
@@ -40,13 +48,31 @@ async function main() {
   console.log("  Max:", noLimit ? "No limit" : maxDepositStr, "USDC");
   console.log("  APR:", APR_BPS / 100 + "%");
   console.log("  Penalty:", PENALTY_BPS / 100 + "%");
+  console.log("  Interest:", InterestMode[INTEREST_MODE], "/", DayCount[DAY_COUNT]);
+
+  const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+  const limits = {
+    startsAt: 0,
+    endsAt: OPEN_DAYS > 0 ? now + OPEN_DAYS * 24 * 3600 : 0,
+    capacity: ethers.parseUnits(CAPACITY_USDC, 6),
+    walletCap: ethers.parseUnits(WALLET_CAP_USDC, 6),
+    maxDepositsPerUser: MAX_DEPOSITS_PER_USER,
+  };
+  console.log("  Open until:", limits.endsAt ? new Date(limits.endsAt * 1000).toISOString() : "No limit");
+  console.log("  Capacity:", CAPACITY_USDC === "0" ? "No limit" : CAPACITY_USDC, "USDC");
+  console.log("  Wallet cap:", WALLET_CAP_USDC === "0" ? "No limit" : WALLET_CAP_USDC, "USDC");
+  console.log("  Max deposits/wallet:", MAX_DEPOSITS_PER_USER || "No limit");
 
   const tx = await savingsBank
     .connect(deployer)
-    .createPlan(PLAN_NAME, DURATION_DAYS, minDeposit, maxDeposit, APR_BPS, PENALTY_BPS);
+    .createPlan(PLAN_NAME, DURATION_DAYS, minDeposit, maxDeposit, APR_BPS, PENALTY_BPS, limits);
   const receipt = await tx.wait();
 
   const planId = await savingsBank.nextPlanId().then((id: bigint) => id - 1n);
+
+  if (INTEREST_MODE !== InterestMode.Simple || DAY_COUNT !== DayCount.Actual365) {
+    await (await savingsBank.connect(deployer).setPlanInterestMode(planId, INTEREST_MODE, DAY_COUNT)).wait();
+  }
   console.log("\n✅ Plan created! Plan ID:", planId.toString());
   console.log("");
 }
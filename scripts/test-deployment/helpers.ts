@@ -1,18 +1,7 @@
 import { ethers, deployments } from "hardhat";
+import { SavingsClient } from "../../sdk";
 
-const DECIMALS = 6;
-
-export function formatUSDC(amount: bigint | number): string {
-  return ethers.formatUnits(BigInt(amount), DECIMALS);
-}
-
-export function parseUSDC(amount: string): bigint {
-  return ethers.parseUnits(amount, DECIMALS);
-}
-
-export function formatBps(bps: bigint): string {
-  return (Number(bps) / 100).toFixed(2) + "%";
-}
+export { formatUSDC, parseUSDC, formatBps } from "../../sdk";
 
 export async function fastForward(days: number): Promise<void> {
   const seconds = days * 24 * 60 * 60;
@@ -32,6 +21,8 @@ export async function loadContracts(): Promise<{
   interestVault: any;
   depositNFT: any;
   savingsBank: any;
+  /** undefined when DepositLending is not deployed */
+  depositLending: any;
   deployer: any;
   addresses: Record<string, string>;
 }> {
@@ -39,14 +30,19 @@ export async function loadContracts(): Promise<{
   const MockUSDC = await deployments.get("MockUSDC");
   const TokenVault = await deployments.get("TokenVault");
   const InterestVault = await deployments.get("InterestVault");
-  const MockDepositNFT = await deployments.get("MockDepositNFT");
+  const DepositNFT = await deployments.get("DepositNFT");
   const SavingsBank = await deployments.get("SavingsBank");
+  const SavingsForwarder = await deployments.get("SavingsForwarder");
+  const DepositLending = await deployments.getOrNull("DepositLending");
 
   const usdc = await ethers.getContractAt("MockUSDC", MockUSDC.address);
   const tokenVault = await ethers.getContractAt("TokenVault", TokenVault.address);
   const interestVault = await ethers.getContractAt("InterestVault", InterestVault.address);
-  const depositNFT = await ethers.getContractAt("MockDepositNFT", MockDepositNFT.address);
+  const depositNFT = await ethers.getContractAt("DepositNFT", DepositNFT.address);
   const savingsBank = await ethers.getContractAt("SavingsBank", SavingsBank.address);
+  const depositLending = DepositLending
+    ? await ethers.getContractAt("DepositLending", DepositLending.address)
+    : undefined;
 
   return {
     usdc,
@@ -54,15 +50,37 @@ export async function loadContracts(): Promise<{
     interestVault,
     depositNFT,
     savingsBank,
+    depositLending,
     deployer,
     addresses: {
       MockUSDC: MockUSDC.address,
       TokenVault: TokenVault.address,
       InterestVault: InterestVault.address,
-      MockDepositNFT: MockDepositNFT.address,
+      DepositNFT: DepositNFT.address,
       SavingsBank: SavingsBank.address,
+      SavingsForwarder: SavingsForwarder.address,
+      ...(DepositLending ? { DepositLending: DepositLending.address } : {}),
     },
   };
 }
 
+/**
+ * SDK client for the deployed contracts, connected to the first signer
+ */
+export async function loadClient(): Promise<SavingsClient> {
+  const { deployer, addresses } = await loadContracts();
+  return new SavingsClient(
+    {
+      usdc: addresses.MockUSDC,
+      tokenVault: addresses.TokenVault,
+      interestVault: addresses.InterestVault,
+      depositNFT: addresses.DepositNFT,
+      savingsBank: addresses.SavingsBank,
+      forwarder: addresses.SavingsForwarder,
+      depositLending: addresses.DepositLending,
+    },
+    deployer
+  );
+}
+
 export const STATUS = ["ACTIVE", "WITHDRAWN", "EARLY_WITHDRAWN", "RENEWED"];
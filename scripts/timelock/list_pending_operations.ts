@@ -0,0 +1,110 @@
+import { ethers, deployments, upgrades } from "hardhat";
+import { formatBps, formatUSDC, listPendingOperations, PendingOperation } from "../../sdk";
+import { SavingsBank } from "../../typechain";
+
+/**
+ * Pending SavingsTimelock operations
+ *
+ * Lists scheduled plan rate changes, treasury withdrawals and SavingsBank upgrades that have not
+ * been executed or cancelled yet, with their ETA, so depositors see changes before they apply.
+ *
+ * Usage: npx hardhat run scripts/timelock/list_pending_operations.ts --network localhost
+ */
+async function main() {
+  const timelock = await deployments.get("SavingsTimelock");
+  const bankDeployment = await deployments.get("SavingsBank");
+  const savingsBank = (await ethers.getContractAt("SavingsBank", bankDeployment.address)) as unknown as SavingsBank;
+
+  const minDelay = await (await ethers.getContractAt("SavingsTimelock", timelock.address)).getMinDelay();
+  console.log("\n⏳ SavingsTimelock pending operations");
+  console.log("  Timelock:", timelock.address);
+  console.log("  Min delay:", formatDuration(minDelay));
+
+  const pending = await listPendingOperations(timelock.address, ethers.provider, {
+    savingsBank: bankDeployment.address,
+    proxyAdmin: await upgrades.erc1967.getAdminAddress(bankDeployment.address),
+    fromBlock: timelock.receipt?.blockNumber ?? 0,
+  });
+  if (pending.length === 0) {
+    console.log("\n  No pending operations\n");
+    return;
+  }
+
+  const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+  for (const op of pending) {
+    console.log(`\n  ${op.id}`);
+    console.log("    Call:", await describe(savingsBank, op));
+    console.log("    ETA:", new Date(Number(op.eta) * 1000).toISOString());
+    console.log("    Status:", op.ready ? "READY to execute" : `in ${formatDuration(op.eta - now)}`);
+  }
+  console.log();
+}
+
+async function describe(savingsBank: SavingsBank, op: PendingOperation): Promise<string> {
+  switch (op.action) {
+    case "updatePlan": {
+      const [planId, aprBps, penaltyBps, limits] = op.args as [bigint, bigint, bigint, bigint[]];
+      const plan = await savingsBank.savingPlans(planId);
+      const before = plan.limits.join("/");
+      return (
+        `updatePlan #${planId} ${plan.name}: APR ${formatBps(plan.aprBps)} → ${formatBps(aprBps)}, ` +
+        `penalty ${formatBps(plan.earlyWithdrawPenaltyBps)} → ${formatBps(penaltyBps)}` +
+        (before === limits.join("/") ? "" : `, limits ${before} → ${limits.join("/")}`)
+      );
+    }
+    case "setPlanEarlyRate": {
+      const [planId, earlyRateBps] = op.args as bigint[];
+      const plan = await savingsBank.savingPlans(planId);
+      return `setPlanEarlyRate #${planId} ${plan.name}: ${formatBps(plan.earlyRateBps)} → ${formatBps(earlyRateBps)}`;
+    }
+    case "setPlanAprTiers": {
+      const [planId, tiers] = op.args as [bigint, [bigint, bigint][]];
+      const plan = await savingsBank.savingPlans(planId);
+      const { decimals } = await savingsBank.assets(plan.asset);
+      const described = tiers.map(([min, aprBps]) => `≥ ${ethers.formatUnits(min, decimals)}: ${formatBps(aprBps)}`);
+      return `setPlanAprTiers #${planId} ${plan.name}: base ${formatBps(plan.aprBps)}, tiers [${described.join(", ")}]`;
+    }
+    case "setPlanRenewalBonus": {
+      const [planId, bonusBps, maxBonusBps] = op.args as bigint[];
+      const plan = await savingsBank.savingPlans(planId);
+      return (
+        `setPlanRenewalBonus #${planId} ${plan.name}: ` +
+        `${formatBps(plan.renewalBonusBps)} → ${formatBps(bonusBps)} per renewal, ` +
+        `max ${formatBps(plan.maxRenewalBonusBps)} → ${formatBps(maxBonusBps)}`
+      );
+    }
+    case "withdrawVault": {
+      const [to, amount] = op.args as [string, bigint];
+      return `withdrawVault ${formatUSDC(amount)} USDC to ${to}`;
+    }
+    case "withdrawAssetVault": {
+      const [asset, to, amount] = op.args as [string, string, bigint];
+      return `withdrawAssetVault ${amount} (raw units) of ${asset} to ${to}`;
+    }
+    case "exportVaults": {
+      const [asset, newSavingsBank] = op.args as [string, string];
+      return `exportVaults of ${asset} to the vaults of SavingsBank ${newSavingsBank} (migration)`;
+    }
+    case "upgradeAndCall": {
+      const [, implementation] = op.args as [string, string];
+      return `upgrade SavingsBank implementation → ${implementation}`;
+    }
+    default:
+      return `${op.call.target} ${op.call.data.slice(0, 10)}…`;
+  }
+}
+
+function formatDuration(seconds: bigint): string {
+  const s = Number(seconds);
+  const d = Math.floor(s / 86400);
+  const h = Math.floor((s % 86400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  return [d && `${d}d`, h && `${h}h`, `${m}m`].filter(Boolean).join(" ");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,72 @@
+import { ethers, deployments, getNamedAccounts, upgrades } from "hardhat";
+import { encodeUpgradeCall, hashTimelockCall } from "../../sdk";
+
+/**
+ * Prepare a SavingsBank upgrade
+ *
+ * Validates the new implementation's storage layout against the live proxy, deploys it (linked to
+ * DepositLogic and MigrationLogic) and builds the ProxyAdmin.upgradeAndCall call for SavingsTimelock.
+ * The ProxyAdmin is owned by the timelock, so the upgrade only happens after schedule → minDelay → execute.
+ *
+ * Usage: npx hardhat run scripts/upgrade/prepare_savings_bank_upgrade.ts --network localhost
+ *
+ * Env:
+ *   UPGRADE_CONTRACT   Implementation contract name (default SavingsBank)
+ *   UPGRADE_SALT       Timelock salt, to schedule the same upgrade again (default 0x0)
+ *   UPGRADE_SCHEDULE   Schedule the call with the first signer (needs PROPOSER_ROLE)
+ */
+async function main() {
+  const contractName = process.env.UPGRADE_CONTRACT ?? "SavingsBank";
+  const salt = process.env.UPGRADE_SALT ? ethers.id(process.env.UPGRADE_SALT) : ethers.ZeroHash;
+  const { deployer } = await getNamedAccounts();
+
+  const savingsBank = await deployments.get("SavingsBank");
+  const forwarder = await deployments.get("SavingsForwarder");
+  const timelock = await ethers.getContractAt("SavingsTimelock", (await deployments.get("SavingsTimelock")).address);
+
+  // Libraries with unchanged bytecode reuse the existing deployments
+  const depositLogic = await deployments.deploy("DepositLogic", { from: deployer, log: true });
+  const migrationLogic = await deployments.deploy("MigrationLogic", { from: deployer, log: true });
+  const factory = await ethers.getContractFactory(contractName, {
+    libraries: { DepositLogic: depositLogic.address, MigrationLogic: migrationLogic.address },
+  });
+
+  console.log("\n🔧 SavingsBank upgrade");
+  console.log("  Proxy:", savingsBank.address);
+  console.log("  Current implementation:", await upgrades.erc1967.getImplementationAddress(savingsBank.address));
+
+  const implementation = (await upgrades.prepareUpgrade(savingsBank.address, factory, {
+    kind: "transparent",
+    constructorArgs: [forwarder.address],
+  })) as string;
+  console.log(`  New implementation (${contractName}):`, implementation);
+
+  const proxyAdmin = await upgrades.erc1967.getAdminAddress(savingsBank.address);
+  const call = encodeUpgradeCall(proxyAdmin, savingsBank.address, implementation, "0x", salt);
+  const minDelay = await timelock.getMinDelay();
+  console.log("\n  Timelock call (ProxyAdmin.upgradeAndCall):");
+  console.log("    target:", call.target);
+  console.log("    data:", call.data);
+  console.log("    salt:", call.salt);
+  console.log("    operation id:", await hashTimelockCall(await timelock.getAddress(), call, ethers.provider));
+
+  if (!process.env.UPGRADE_SCHEDULE) {
+    console.log(`\n  Schedule it with delay >= ${minDelay}s, or rerun with UPGRADE_SCHEDULE=1\n`);
+    return;
+  }
+
+  const [proposer] = await ethers.getSigners();
+  const tx = await timelock
+    .connect(proposer)
+    .schedule(call.target, call.value, call.data, call.predecessor, call.salt, minDelay);
+  await tx.wait();
+  console.log(`\n  ✅ Scheduled (tx ${tx.hash}); executable in ${minDelay}s`);
+  console.log("  Track it with scripts/timelock/list_pending_operations.ts\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,665 @@
+import { AbiCoder, ZeroAddress, getAddress } from "ethers";
+import type {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Interface,
+  LogDescription,
+  Signer,
+} from "ethers";
+import {
+  DepositLending,
+  DepositLending__factory,
+  IDepositNFT,
+  IDepositNFT__factory,
+  IERC20,
+  IERC20__factory,
+  IERC20Metadata__factory,
+  IInterestVault,
+  IInterestVault__factory,
+  ITokenVault,
+  ITokenVault__factory,
+  SavingsBank,
+  SavingsBank__factory,
+} from "../typechain";
+import { DayCount, InterestMode, calculateInterest } from "./interest";
+import { signPermit } from "./permit";
+import {
+  AccountRoles,
+  AprQuote,
+  AssetInfo,
+  AutoRenewResult,
+  BorrowResult,
+  Deposit,
+  DepositEligibility,
+  DepositStatus,
+  EarlyWithdrawQuote,
+  IncreaseDepositResult,
+  Loan,
+  LoanSettlement,
+  MergeResult,
+  OpenDepositParams,
+  OpenDepositResult,
+  OpenDepositWithPermitParams,
+  PartialWithdrawResult,
+  PlanCapacity,
+  RepayResult,
+  RolloverResult,
+  SavingPlan,
+  SavingsAddresses,
+  SplitResult,
+  TopUpPolicy,
+  VaultHealth,
+  WithdrawResult,
+} from "./types";
+
+const BPS = 10_000n;
+
+/**
+ * Find and decode the first log in a receipt emitted as `eventName` by `iface`
+ */
+export function findEvent(
+  receipt: ContractTransactionReceipt,
+  iface: Interface,
+  eventName: string
+): LogDescription | undefined {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = iface.parseLog(log);
+      if (parsed?.name === eventName) return parsed;
+    } catch {
+      // log from another contract
+    }
+  }
+  return undefined;
+}
+
+/**
+ * SavingsClient
+ * @notice Typed wrapper around SavingsBank, the two vaults and the deposit NFT.
+ *         Reads return decoded domain objects; writes wait for the receipt and
+ *         return the values decoded from the emitted event.
+ */
+export class SavingsClient {
+  readonly savingsBank: SavingsBank;
+  readonly usdc: IERC20;
+  readonly tokenVault: ITokenVault;
+  readonly interestVault: IInterestVault;
+  readonly depositNFT: IDepositNFT;
+  readonly depositLending?: DepositLending;
+
+  constructor(readonly addresses: SavingsAddresses, readonly runner: ContractRunner) {
+    this.savingsBank = SavingsBank__factory.connect(addresses.savingsBank, runner);
+    this.usdc = IERC20__factory.connect(addresses.usdc, runner);
+    this.tokenVault = ITokenVault__factory.connect(addresses.tokenVault, runner);
+    this.interestVault = IInterestVault__factory.connect(addresses.interestVault, runner);
+    this.depositNFT = IDepositNFT__factory.connect(addresses.depositNFT, runner);
+    if (addresses.depositLending) {
+      this.depositLending = DepositLending__factory.connect(addresses.depositLending, runner);
+    }
+  }
+
+  /**
+   * Same addresses, different signer/provider
+   */
+  connect(runner: ContractRunner): SavingsClient {
+    return new SavingsClient(this.addresses, runner);
+  }
+
+  // ==================== PLANS ====================
+
+  async getPlan(planId: bigint | number): Promise<SavingPlan> {
+    const p = await this.savingsBank.savingPlans(planId);
+    if (p.durationDays === 0n) throw new Error(`SavingsClient: plan ${planId} not found`);
+    return {
+      planId: BigInt(planId),
+      name: p.name,
+      durationDays: p.durationDays,
+      minDeposit: p.minDeposit,
+      maxDeposit: p.maxDeposit,
+      aprBps: p.aprBps,
+      earlyWithdrawPenaltyBps: p.earlyWithdrawPenaltyBps,
+      isActive: p.isActive,
+      interestMode: Number(p.interestMode) as InterestMode,
+      dayCount: Number(p.dayCount) as DayCount,
+      earlyRateBps: p.earlyRateBps,
+      topUpPolicy: Number(p.topUpPolicy) as TopUpPolicy,
+      asset: p.asset,
+      limits: {
+        startsAt: p.limits.startsAt,
+        endsAt: p.limits.endsAt,
+        capacity: p.limits.capacity,
+        walletCap: p.limits.walletCap,
+        maxDepositsPerUser: p.limits.maxDepositsPerUser,
+      },
+      aprTiers: (await this.savingsBank.getPlanAprTiers(planId)).map((t) => ({
+        minAmount: t.minAmount,
+        aprBps: t.aprBps,
+      })),
+      renewalBonusBps: p.renewalBonusBps,
+      maxRenewalBonusBps: p.maxRenewalBonusBps,
+      soulbound: p.soulbound,
+    };
+  }
+
+  /**
+   * Tier, APR and full-term interest a deposit of `amount` would lock in a plan if opened now
+   */
+  async quoteApr(planId: bigint | number, amount: bigint): Promise<AprQuote> {
+    const plan = await this.getPlan(planId);
+    const [tier, aprBps] = await this.savingsBank.quoteApr(planId, amount);
+    const startTime = await this.latestTimestamp();
+    const expectedInterest = calculateInterest({
+      principal: amount,
+      aprBps,
+      startTime,
+      endTime: startTime + plan.durationDays * 86_400n,
+      mode: plan.interestMode,
+      dayCount: plan.dayCount,
+    });
+    return { tier, aprBps, expectedInterest };
+  }
+
+  /**
+   * Opening window, usage and what `wallet` can still deposit in a plan
+   */
+  async getPlanCapacity(planId: bigint | number, wallet: string): Promise<PlanCapacity> {
+    const plan = await this.getPlan(planId);
+    const isOpen = await this.savingsBank.isPlanOpen(planId);
+    const [planPrincipal, walletPrincipal, walletDeposits] = await this.savingsBank.getPlanUsage(planId, wallet);
+    const [planRemaining, walletRemaining, depositsRemaining] = await this.savingsBank.getRemainingCapacity(
+      planId,
+      wallet
+    );
+
+    let maxAmount = plan.maxDeposit;
+    if (planRemaining < maxAmount) maxAmount = planRemaining;
+    if (walletRemaining < maxAmount) maxAmount = walletRemaining;
+    if (!isOpen || depositsRemaining === 0n || maxAmount < plan.minDeposit) maxAmount = 0n;
+
+    return {
+      isOpen,
+      planPrincipal,
+      walletPrincipal,
+      walletDeposits,
+      planRemaining,
+      walletRemaining,
+      depositsRemaining,
+      maxAmount,
+    };
+  }
+
+  async listPlans(options: { activeOnly?: boolean } = {}): Promise<SavingPlan[]> {
+    const nextPlanId = await this.savingsBank.nextPlanId();
+    const plans: SavingPlan[] = [];
+    for (let id = 1n; id < nextPlanId; id++) {
+      const plan = await this.getPlan(id);
+      if (!options.activeOnly || plan.isActive) plans.push(plan);
+    }
+    return plans;
+  }
+
+  // ==================== ASSETS ====================
+
+  async getAsset(asset: string): Promise<AssetInfo> {
+    const a = await this.savingsBank.assets(asset);
+    if (a.tokenVault === ZeroAddress) throw new Error(`SavingsClient: asset ${asset} not supported`);
+    return {
+      asset,
+      symbol: await IERC20Metadata__factory.connect(asset, this.runner).symbol(),
+      decimals: Number(a.decimals),
+      tokenVault: a.tokenVault,
+      interestVault: a.interestVault,
+      isWhitelisted: a.isWhitelisted,
+    };
+  }
+
+  async listAssets(options: { whitelistedOnly?: boolean } = {}): Promise<AssetInfo[]> {
+    const assets = await Promise.all((await this.savingsBank.getAssets()).map((a) => this.getAsset(a)));
+    return assets.filter((a) => !options.whitelistedOnly || a.isWhitelisted);
+  }
+
+  // ==================== DEPOSITS ====================
+
+  async getDeposit(depositId: bigint | number): Promise<Deposit> {
+    const id = BigInt(depositId);
+    const [planId, principal, startTime, maturityTime, lockedAprBps, isAutoRenewEnabled, status] =
+      await this.savingsBank.getDepositDetails(id);
+    if (principal === 0n) throw new Error(`SavingsClient: deposit ${id} not found`);
+
+    const owner = await this.savingsBank.depositOwner(id);
+    const [interestMode, dayCount] = await this.savingsBank.getDepositInterestMode(id);
+    const expectedInterest = await this.savingsBank.calculateInterest(id);
+    const [renewalCount, renewalBonusBps] = await this.savingsBank.getDepositRenewal(id);
+
+    return {
+      depositId: id,
+      planId,
+      owner,
+      principal,
+      startTime,
+      maturityTime,
+      lockedAprBps,
+      isAutoRenewEnabled,
+      status: Number(status) as DepositStatus,
+      interestMode: Number(interestMode) as InterestMode,
+      dayCount: Number(dayCount) as DayCount,
+      expectedInterest,
+      renewalCount,
+      renewalBonusBps,
+    };
+  }
+
+  /**
+   * Active deposits currently held by `owner` (NFT enumeration)
+   */
+  async getUserDeposits(owner: string): Promise<Deposit[]> {
+    const ids = await this.savingsBank.getUserDeposits(owner);
+    return Promise.all(ids.map((id) => this.getDeposit(id)));
+  }
+
+  async getDepositEligibility(depositId: bigint | number): Promise<DepositEligibility> {
+    const [canWithdraw, canAutoRenew, isMatured, gracePeriodExpired] = await this.savingsBank.getDepositStatus(
+      depositId
+    );
+    return { canWithdraw, canAutoRenew, isMatured, gracePeriodExpired };
+  }
+
+  async quoteEarlyWithdraw(depositId: bigint | number): Promise<EarlyWithdrawQuote> {
+    const [principalMinusPenalty, penalty, accruedInterest, netAmount] =
+      await this.savingsBank.calculateEarlyWithdrawAmount(depositId);
+    return { principalMinusPenalty, penalty, accruedInterest, netAmount };
+  }
+
+  // ==================== VAULTS ====================
+
+  /**
+   * Vault figures of one asset (default: USDC). totalDeposits counts deposits of all assets.
+   */
+  async getVaultHealth(asset: string = this.addresses.usdc): Promise<VaultHealth> {
+    let { interestVault, tokenVault } = this;
+    if (asset.toLowerCase() !== this.addresses.usdc.toLowerCase()) {
+      const info = await this.getAsset(asset);
+      interestVault = IInterestVault__factory.connect(info.interestVault, this.runner);
+      tokenVault = ITokenVault__factory.connect(info.tokenVault, this.runner);
+    }
+
+    const [
+      interestVaultBalance,
+      totalReserved,
+      availableBalance,
+      tokenVaultBalance,
+      tokenVaultIdle,
+      strategyAssets,
+      strategyDebt,
+      nextDepositId,
+    ] = await Promise.all([
+      interestVault.balance(),
+      interestVault.totalReserved(),
+      interestVault.availableBalance(),
+      tokenVault.balance(),
+      tokenVault.idleBalance(),
+      tokenVault.strategyAssets(),
+      tokenVault.strategyDebt(),
+      this.savingsBank.nextDepositId(),
+    ]);
+
+    return {
+      asset,
+      interestVaultBalance,
+      totalReserved,
+      availableBalance,
+      tokenVaultBalance,
+      tokenVaultIdle,
+      strategyAssets,
+      strategyDebt,
+      reserveRatioBps: totalReserved > 0n ? (interestVaultBalance * BPS) / totalReserved : 0n,
+      utilizationBps: interestVaultBalance > 0n ? (totalReserved * BPS) / interestVaultBalance : 0n,
+      totalDeposits: nextDepositId - 1n,
+    };
+  }
+
+  // ==================== ROLES ====================
+
+  async getRoles(account: string): Promise<AccountRoles> {
+    const bank = this.savingsBank;
+    const roles = await Promise.all([
+      bank.DEFAULT_ADMIN_ROLE(),
+      bank.PLAN_MANAGER_ROLE(),
+      bank.TREASURER_ROLE(),
+      bank.PAUSER_ROLE(),
+      bank.KEEPER_ROLE(),
+      bank.TIMELOCK_ROLE(),
+    ]);
+    const [admin, planManager, treasurer, pauser, keeper, timelock] = await Promise.all(
+      roles.map((role) => bank.hasRole(role, account))
+    );
+    return { admin, planManager, treasurer, pauser, keeper, timelock };
+  }
+
+  // ==================== USER ACTIONS ====================
+
+  async openDeposit(params: OpenDepositParams): Promise<OpenDepositResult> {
+    const { planId, amount, enableAutoRenew = false, approve = true } = params;
+
+    if (approve) await this.ensureAllowance((await this.getPlan(planId)).asset, amount);
+
+    const receipt = await this.wait(this.savingsBank.openDeposit(planId, amount, enableAutoRenew));
+    return this.decodeDepositOpened(receipt);
+  }
+
+  /**
+   * Sign an EIP-2612 permit for the plan asset's TokenVault and open the deposit in one transaction
+   */
+  async openDepositWithPermit(params: OpenDepositWithPermitParams): Promise<OpenDepositResult> {
+    const { planId, amount, enableAutoRenew = false } = params;
+    await this.signerAddress(); // throws without a signer
+    const signer = this.runner as Signer;
+
+    const { asset } = await this.getPlan(planId);
+    const { tokenVault } = await this.savingsBank.assets(asset);
+    const deadline = params.deadline ?? (await this.latestTimestamp()) + 3600n;
+    const { v, r, s } = await signPermit(signer, asset, tokenVault, amount, deadline, {
+      version: params.permitVersion,
+    });
+
+    const receipt = await this.wait(
+      this.savingsBank.openDepositWithPermit(planId, amount, enableAutoRenew, deadline, v, r, s)
+    );
+    return this.decodeDepositOpened(receipt);
+  }
+
+  /**
+   * Add `amount` to an active deposit (approves the asset's TokenVault first unless `approve` is false)
+   */
+  async increaseDeposit(
+    depositId: bigint | number,
+    amount: bigint,
+    options: { approve?: boolean } = {}
+  ): Promise<IncreaseDepositResult> {
+    if (options.approve ?? true) await this.ensureAllowance(await this.savingsBank.getDepositAsset(depositId), amount);
+
+    const receipt = await this.wait(this.savingsBank.increaseDeposit(depositId, amount));
+    const event = this.requireEvent(receipt, "DepositIncreased");
+    return {
+      depositId: event.args.depositId,
+      owner: event.args.owner,
+      amount: event.args.amount,
+      newPrincipal: event.args.newPrincipal,
+      newMaturityTime: event.args.newMaturityTime,
+      receipt,
+    };
+  }
+
+  async withdraw(depositId: bigint | number): Promise<WithdrawResult> {
+    const receipt = await this.wait(this.savingsBank.withdraw(depositId));
+    return this.decodeWithdrawn(receipt);
+  }
+
+  async earlyWithdraw(depositId: bigint | number): Promise<WithdrawResult> {
+    const receipt = await this.wait(this.savingsBank.earlyWithdraw(depositId));
+    return this.decodeWithdrawn(receipt);
+  }
+
+  /**
+   * Withdraw `amount` of principal before maturity; the rest of the deposit stays open
+   */
+  async partialEarlyWithdraw(depositId: bigint | number, amount: bigint): Promise<PartialWithdrawResult> {
+    const receipt = await this.wait(this.savingsBank.partialEarlyWithdraw(depositId, amount));
+    const event = this.requireEvent(receipt, "PartialWithdrawn");
+    return {
+      depositId: event.args.depositId,
+      owner: event.args.owner,
+      amount: event.args.amount,
+      interest: event.args.interest,
+      penalty: event.args.penalty,
+      received: (event.args.amount as bigint) + (event.args.interest as bigint) - (event.args.penalty as bigint),
+      remainingPrincipal: event.args.remainingPrincipal,
+      receipt,
+    };
+  }
+
+  async autoRenew(depositId: bigint | number): Promise<AutoRenewResult> {
+    const receipt = await this.wait(this.savingsBank.autoRenew(depositId));
+    return this.decodeAutoRenewed(receipt);
+  }
+
+  /**
+   * Keeper path: renew a deposit the owner opted into (caller needs KEEPER_ROLE, not the NFT)
+   */
+  async performAutoRenew(depositId: bigint | number): Promise<AutoRenewResult> {
+    const performData = AbiCoder.defaultAbiCoder().encode(["uint256"], [depositId]);
+    const receipt = await this.wait(this.savingsBank.performAutoRenew(performData));
+    return this.decodeAutoRenewed(receipt);
+  }
+
+  /**
+   * Move a matured deposit into `newPlanId` at its current rate; interest is compounded unless `withdrawInterest`
+   */
+  async rollover(
+    depositId: bigint | number,
+    newPlanId: bigint | number,
+    withdrawInterest = false
+  ): Promise<RolloverResult> {
+    const receipt = await this.wait(this.savingsBank.rollover(depositId, newPlanId, withdrawInterest));
+    const event = this.requireEvent(receipt, "RolledOver");
+    return {
+      oldDepositId: event.args.oldDepositId,
+      newDepositId: event.args.newDepositId,
+      newPlanId: event.args.newPlanId,
+      newPrincipal: event.args.newPrincipal,
+      interestPaid: event.args.interestPaid,
+      lockedAprBps: event.args.lockedAprBps,
+      receipt,
+    };
+  }
+
+  /**
+   * Split a deposit before maturity into certificates of `amounts` (same terms, one NFT each)
+   */
+  async splitDeposit(depositId: bigint | number, amounts: bigint[]): Promise<SplitResult> {
+    const receipt = await this.wait(this.savingsBank.splitDeposit(depositId, amounts));
+    const parts = this.requireEvents(receipt, "DepositSplit");
+    return {
+      depositId: BigInt(depositId),
+      newDepositIds: parts.map((e) => e.args.newDepositId as bigint),
+      amounts: parts.map((e) => e.args.principal as bigint),
+      receipt,
+    };
+  }
+
+  /**
+   * Merge deposits of the same plan, maturity and locked terms into one new certificate
+   */
+  async mergeDeposits(depositIds: (bigint | number)[]): Promise<MergeResult> {
+    const receipt = await this.wait(this.savingsBank.mergeDeposits(depositIds));
+    const merged = this.requireEvents(receipt, "DepositMerged");
+    return {
+      depositIds: merged.map((e) => e.args.depositId as bigint),
+      newDepositId: merged[0].args.newDepositId,
+      principal: merged.reduce((sum, e) => sum + (e.args.principal as bigint), 0n),
+      receipt,
+    };
+  }
+
+  async setAutoRenew(depositId: bigint | number, enabled: boolean): Promise<ContractTransactionReceipt> {
+    return this.wait(this.savingsBank.setAutoRenew(depositId, enabled));
+  }
+
+  // ==================== LENDING ====================
+
+  /**
+   * Loan against a certificate, or undefined when it is not escrowed in DepositLending
+   */
+  async getLoan(depositId: bigint | number): Promise<Loan | undefined> {
+    const lending = this.requireLending();
+    const loan = await lending.loans(depositId);
+    if (loan.borrower === ZeroAddress) return undefined;
+
+    const [debt, collateralValue, availableToBorrow] = await Promise.all([
+      lending.debtOf(depositId),
+      lending.collateralValue(depositId),
+      lending.availableToBorrow(depositId),
+    ]);
+    return {
+      depositId: BigInt(depositId),
+      borrower: loan.borrower,
+      debt,
+      aprBps: loan.aprBps,
+      collateralValue,
+      availableToBorrow,
+      autoRenew: loan.autoRenew,
+    };
+  }
+
+  /**
+   * Borrow against a certificate; the first draw approves and escrows the NFT
+   */
+  async borrow(depositId: bigint | number, amount: bigint): Promise<BorrowResult> {
+    const lending = this.requireLending();
+    // Configured addresses may not be checksummed; the node returns checksummed ones
+    const lendingAddress = getAddress(this.addresses.depositLending!);
+    const escrowed = getAddress(await this.depositNFT.ownerOf(depositId)) === lendingAddress;
+    if (!escrowed && getAddress(await this.depositNFT.getApproved(depositId)) !== lendingAddress) {
+      await this.wait(this.depositNFT.approve(lendingAddress, depositId));
+    }
+
+    const receipt = await this.wait(lending.borrow(depositId, amount));
+    const event = this.requireEvent(receipt, "Borrowed", lending.interface);
+    return { depositId: event.args.tokenId, amount: event.args.amount, debt: event.args.debt, receipt };
+  }
+
+  /**
+   * Repay (part of) a loan; clearing the debt returns the NFT to the borrower
+   */
+  async repay(depositId: bigint | number, amount: bigint): Promise<RepayResult> {
+    const lending = this.requireLending();
+    const lendingAddress = this.addresses.depositLending!;
+    const allowance = await this.usdc.allowance(await this.signerAddress(), lendingAddress);
+    if (allowance < amount) {
+      await this.wait(this.usdc.approve(lendingAddress, amount));
+    }
+
+    const receipt = await this.wait(lending.repay(depositId, amount));
+    const event = this.requireEvent(receipt, "Repaid", lending.interface);
+    return { depositId: event.args.tokenId, paid: event.args.amount, debt: event.args.debt, receipt };
+  }
+
+  /**
+   * Settle a loan at maturity from the certificate's withdrawal (anyone may call)
+   */
+  async settleLoan(depositId: bigint | number): Promise<LoanSettlement> {
+    const lending = this.requireLending();
+    const receipt = await this.wait(lending.settle(depositId));
+    const event = this.requireEvent(receipt, "LoanSettled", lending.interface);
+    return {
+      depositId: event.args.tokenId,
+      borrower: event.args.borrower,
+      proceeds: event.args.proceeds,
+      repaid: event.args.repaid,
+      surplus: event.args.surplus,
+      shortfall: event.args.shortfall,
+      receipt,
+    };
+  }
+
+  // ==================== INTERNAL ====================
+
+  private requireLending(): DepositLending {
+    if (!this.depositLending) throw new Error("SavingsClient: depositLending address not configured");
+    return this.depositLending;
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.runner as ContractRunner & { getAddress?: () => Promise<string> };
+    if (!runner.getAddress) throw new Error("SavingsClient: a signer is required for this action");
+    return runner.getAddress();
+  }
+
+  /**
+   * Approve the TokenVault of `asset` for `amount` when the current allowance is too low
+   */
+  private async ensureAllowance(asset: string, amount: bigint): Promise<void> {
+    const owner = await this.signerAddress();
+    const token = IERC20__factory.connect(asset, this.runner);
+    const { tokenVault } = await this.savingsBank.assets(asset);
+    const allowance = await token.allowance(owner, tokenVault);
+    if (allowance < amount) {
+      await this.wait(token.approve(tokenVault, amount));
+    }
+  }
+
+  private async latestTimestamp(): Promise<bigint> {
+    const block = await this.runner.provider!.getBlock("latest");
+    if (!block) throw new Error("SavingsClient: latest block unavailable");
+    return BigInt(block.timestamp);
+  }
+
+  private async wait(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const receipt = await (await tx).wait();
+    if (!receipt) throw new Error("SavingsClient: transaction was dropped");
+    return receipt;
+  }
+
+  private requireEvent(
+    receipt: ContractTransactionReceipt,
+    eventName: string,
+    iface: Interface = this.savingsBank.interface
+  ): LogDescription {
+    const event = findEvent(receipt, iface, eventName);
+    if (!event) throw new Error(`SavingsClient: ${eventName} event not found in ${receipt.hash}`);
+    return event;
+  }
+
+  /**
+   * All `eventName` logs of the bank in a receipt, in log order
+   */
+  private requireEvents(receipt: ContractTransactionReceipt, eventName: string): LogDescription[] {
+    const events: LogDescription[] = [];
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.savingsBank.interface.parseLog(log);
+        if (parsed?.name === eventName) events.push(parsed);
+      } catch {
+        // log from another contract
+      }
+    }
+    if (events.length === 0) throw new Error(`SavingsClient: ${eventName} event not found in ${receipt.hash}`);
+    return events;
+  }
+
+  private decodeDepositOpened(receipt: ContractTransactionReceipt): OpenDepositResult {
+    const event = this.requireEvent(receipt, "DepositOpened");
+    return {
+      depositId: event.args.depositId,
+      owner: event.args.owner,
+      planId: event.args.planId,
+      principal: event.args.principal,
+      maturityTime: event.args.maturityAt,
+      receipt,
+    };
+  }
+
+  private decodeWithdrawn(receipt: ContractTransactionReceipt): WithdrawResult {
+    const event = this.requireEvent(receipt, "Withdrawn");
+    return {
+      depositId: event.args.depositId,
+      owner: event.args.owner,
+      principal: event.args.principal,
+      interest: event.args.interest,
+      isEarly: event.args.isEarly,
+      receipt,
+    };
+  }
+
+  private decodeAutoRenewed(receipt: ContractTransactionReceipt): AutoRenewResult {
+    const event = this.requireEvent(receipt, "AutoRenewed");
+    return {
+      oldDepositId: event.args.oldDepositId,
+      newDepositId: event.args.newDepositId,
+      newPrincipal: event.args.newPrincipal,
+      lockedAprBps: event.args.lockedAprBps,
+      receipt,
+    };
+  }
+}
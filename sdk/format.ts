@@ -0,0 +1,15 @@
+import { formatUnits, parseUnits } from "ethers";
+
+export const USDC_DECIMALS = 6;
+
+export function formatUSDC(amount: bigint | number): string {
+  return formatUnits(BigInt(amount), USDC_DECIMALS);
+}
+
+export function parseUSDC(amount: string): bigint {
+  return parseUnits(amount, USDC_DECIMALS);
+}
+
+export function formatBps(bps: bigint | number): string {
+  return (Number(bps) / 100).toFixed(2) + "%";
+}
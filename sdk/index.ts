@@ -0,0 +1,24 @@
+export { SavingsClient, findEvent } from "./SavingsClient";
+export { InterestMode, DayCount, calculateInterest, countDays } from "./interest";
+export type { InterestParams } from "./interest";
+export { PERMIT_TYPES, buildPermitTypedData, signPermit } from "./permit";
+export type { PermitParams, PermitSignature, PermitTypedData } from "./permit";
+export {
+  FORWARD_REQUEST_TYPES,
+  GASLESS_ACTIONS,
+  fromForwardRequestJson,
+  signForwardRequest,
+  signSavingsIntent,
+  toForwardRequestJson,
+} from "./metaTx";
+export type { ForwardRequestData, ForwardRequestJson, GaslessAction, SignIntentOptions } from "./metaTx";
+export {
+  TIMELOCKED_ACTIONS,
+  encodeTimelockCall,
+  encodeUpgradeCall,
+  hashTimelockCall,
+  listPendingOperations,
+} from "./timelock";
+export type { PendingOperation, TimelockCall, TimelockedAction } from "./timelock";
+export { USDC_DECIMALS, formatUSDC, parseUSDC, formatBps } from "./format";
+export * from "./types";
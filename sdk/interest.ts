@@ -0,0 +1,87 @@
+/**
+ * TypeScript reference implementation of InterestCalculator.
+ * Mirrors the on-chain integer math (same rounding) so results can be compared
+ * exactly; dates for 30/360 come from JS Date instead of the on-chain algorithm.
+ */
+
+/** Mirrors InterestCalculator.InterestMode */
+export enum InterestMode {
+  Simple = 0,
+  DailyCompound = 1,
+  PerSecond = 2,
+}
+
+/** Mirrors InterestCalculator.DayCount */
+export enum DayCount {
+  Actual365 = 0,
+  Thirty360 = 1,
+}
+
+export interface InterestParams {
+  principal: bigint;
+  aprBps: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  mode?: InterestMode;
+  dayCount?: DayCount;
+}
+
+const BPS = 10_000n;
+const DAY = 86_400n;
+const SECONDS_PER_YEAR = 365n * DAY;
+const WAD = 10n ** 18n;
+
+/**
+ * Days between two timestamps under a day-count convention (30/360 ISDA for Thirty360)
+ */
+export function countDays(startTime: bigint, endTime: bigint, dayCount: DayCount = DayCount.Actual365): bigint {
+  if (dayCount === DayCount.Actual365) return (endTime - startTime) / DAY;
+
+  const start = new Date(Number(startTime) * 1000);
+  const end = new Date(Number(endTime) * 1000);
+  let d1 = start.getUTCDate();
+  let d2 = end.getUTCDate();
+  if (d1 === 31) d1 = 30;
+  if (d2 === 31 && d1 === 30) d2 = 30;
+
+  const days =
+    360 * (end.getUTCFullYear() - start.getUTCFullYear()) + 30 * (end.getUTCMonth() - start.getUTCMonth()) + (d2 - d1);
+  return BigInt(days);
+}
+
+/**
+ * (base / WAD) ^ exponent in WAD fixed point, rounding down at every step like the contract
+ */
+function rpow(base: bigint, exponent: bigint): bigint {
+  let result = WAD;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) / WAD;
+    base = (base * base) / WAD;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Interest accrued between startTime and endTime (same result as InterestCalculator.calculateInterest)
+ */
+export function calculateInterest(params: InterestParams): bigint {
+  const { principal, aprBps, startTime, endTime } = params;
+  const mode = params.mode ?? InterestMode.Simple;
+  const dayCount = params.dayCount ?? DayCount.Actual365;
+  if (endTime <= startTime) return 0n;
+
+  if (mode === InterestMode.PerSecond) {
+    return (principal * aprBps * (endTime - startTime)) / (SECONDS_PER_YEAR * BPS);
+  }
+
+  const days = countDays(startTime, endTime, dayCount);
+  const daysPerYear = dayCount === DayCount.Thirty360 ? 360n : 365n;
+
+  if (mode === InterestMode.DailyCompound) {
+    const dailyRate = (aprBps * WAD) / (daysPerYear * BPS);
+    return (principal * (rpow(WAD + dailyRate, days) - WAD)) / WAD;
+  }
+
+  return (principal * aprBps * days) / (daysPerYear * BPS);
+}
@@ -0,0 +1,143 @@
+import type { Interface, Signer, TypedDataDomain, TypedDataField } from "ethers";
+import { SavingsBank__factory, SavingsForwarder__factory } from "../typechain";
+
+/**
+ * ERC-2771 meta-transaction helpers: the user signs an EIP-712 ForwardRequest for a
+ * SavingsBank call and a relayer submits it through SavingsForwarder.execute(),
+ * paying the gas. SavingsBank sees the signer as _msgSender().
+ */
+
+export const FORWARD_REQUEST_TYPES: Record<string, TypedDataField[]> = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+/**
+ * SavingsBank functions a user may run gaslessly. openDeposit still needs an
+ * existing allowance; wallets without ETH use openDepositWithPermit instead.
+ */
+export const GASLESS_ACTIONS = [
+  "openDeposit",
+  "openDepositWithPermit",
+  "withdraw",
+  "earlyWithdraw",
+  "setAutoRenew",
+  "autoRenew",
+  "rollover",
+] as const;
+
+export type GaslessAction = (typeof GASLESS_ACTIONS)[number];
+
+/**
+ * Mirrors ERC2771Forwarder.ForwardRequestData (the nonce is read on-chain at execution)
+ */
+export interface ForwardRequestData {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  deadline: bigint;
+  data: string;
+  signature: string;
+}
+
+/** ForwardRequestData with bigints as decimal strings, for JSON transport */
+export type ForwardRequestJson = Omit<ForwardRequestData, "value" | "gas" | "deadline"> & {
+  value: string;
+  gas: string;
+  deadline: string;
+};
+
+export interface SignIntentOptions {
+  /** Gas forwarded to SavingsBank (default 800,000) */
+  gas?: bigint;
+  /** Unix timestamp after which the request is void (default: latest block + 1 hour) */
+  deadline?: bigint;
+}
+
+const DEFAULT_INTENT_GAS = 800_000n;
+const DEFAULT_INTENT_TTL = 3600n;
+
+/**
+ * Sign a ForwardRequest for `to` + `data` with the forwarder's EIP-712 domain and the signer's next nonce
+ */
+export async function signForwardRequest(
+  signer: Signer,
+  forwarder: string,
+  request: { to: string; data: string; gas: bigint; deadline: bigint; value?: bigint }
+): Promise<ForwardRequestData> {
+  const from = await signer.getAddress();
+  const contract = SavingsForwarder__factory.connect(forwarder, signer);
+  const { name, version, chainId } = await contract.eip712Domain();
+  const nonce = await contract.nonces(from);
+
+  const domain: TypedDataDomain = { name, version, chainId, verifyingContract: forwarder };
+  const value = request.value ?? 0n;
+  const signature = await signer.signTypedData(domain, FORWARD_REQUEST_TYPES, {
+    from,
+    to: request.to,
+    value,
+    gas: request.gas,
+    nonce,
+    deadline: request.deadline,
+    data: request.data,
+  });
+
+  return { from, to: request.to, value, gas: request.gas, deadline: request.deadline, data: request.data, signature };
+}
+
+/**
+ * Sign a gasless SavingsBank call, e.g.
+ * `signSavingsIntent(user, forwarder, bank, "withdraw", [depositId])`
+ */
+export async function signSavingsIntent(
+  signer: Signer,
+  forwarder: string,
+  savingsBank: string,
+  action: GaslessAction,
+  args: unknown[],
+  options: SignIntentOptions = {}
+): Promise<ForwardRequestData> {
+  const data = (SavingsBank__factory.createInterface() as Interface).encodeFunctionData(action, args);
+
+  let deadline = options.deadline;
+  if (deadline === undefined) {
+    const block = await signer.provider!.getBlock("latest");
+    deadline = BigInt(block!.timestamp) + DEFAULT_INTENT_TTL;
+  }
+
+  return signForwardRequest(signer, forwarder, {
+    to: savingsBank,
+    data,
+    gas: options.gas ?? DEFAULT_INTENT_GAS,
+    deadline,
+  });
+}
+
+export function toForwardRequestJson(request: ForwardRequestData): ForwardRequestJson {
+  return {
+    ...request,
+    value: request.value.toString(),
+    gas: request.gas.toString(),
+    deadline: request.deadline.toString(),
+  };
+}
+
+export function fromForwardRequestJson(json: ForwardRequestJson): ForwardRequestData {
+  return {
+    from: json.from,
+    to: json.to,
+    value: BigInt(json.value),
+    gas: BigInt(json.gas),
+    deadline: BigInt(json.deadline),
+    data: json.data,
+    signature: json.signature,
+  };
+}
@@ -0,0 +1,92 @@
+import { Signature } from "ethers";
+import type { Signer, TypedDataDomain, TypedDataField } from "ethers";
+import { ERC20Permit__factory } from "../typechain";
+
+/**
+ * EIP-2612 permit helpers: build the typed data for `permit(owner, spender, value, deadline, v, r, s)`
+ * and sign it, so a deposit needs no separate approve transaction.
+ */
+
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PermitParams {
+  /** EIP-712 domain of the token */
+  name: string;
+  version: string;
+  chainId: bigint;
+  token: string;
+  /** Permit message */
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface PermitTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: Record<string, string | bigint>;
+}
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+export function buildPermitTypedData(params: PermitParams): PermitTypedData {
+  return {
+    domain: { name: params.name, version: params.version, chainId: params.chainId, verifyingContract: params.token },
+    types: PERMIT_TYPES,
+    message: {
+      owner: params.owner,
+      spender: params.spender,
+      value: params.value,
+      nonce: params.nonce,
+      deadline: params.deadline,
+    },
+  };
+}
+
+/**
+ * Sign a permit letting `spender` pull `value` of `token` from the signer.
+ * The domain is read from the token (ERC-5267 eip712Domain); tokens without it
+ * fall back to name() and `options.version` (default "1", real USDC uses "2").
+ */
+export async function signPermit(
+  signer: Signer,
+  token: string,
+  spender: string,
+  value: bigint,
+  deadline: bigint,
+  options: { version?: string } = {}
+): Promise<PermitSignature> {
+  const owner = await signer.getAddress();
+  const erc20 = ERC20Permit__factory.connect(token, signer);
+
+  let name: string;
+  let version: string;
+  let chainId: bigint;
+  try {
+    ({ name, version, chainId } = await erc20.eip712Domain());
+  } catch {
+    name = await erc20.name();
+    version = options.version ?? "1";
+    chainId = (await signer.provider!.getNetwork()).chainId;
+  }
+
+  const nonce = await erc20.nonces(owner);
+  const typed = buildPermitTypedData({ name, version, chainId, token, owner, spender, value, nonce, deadline });
+  const signature = Signature.from(await signer.signTypedData(typed.domain, typed.types, typed.message));
+  return { deadline, v: signature.v, r: signature.r, s: signature.s };
+}
@@ -0,0 +1,160 @@
+import { Interface, ZeroHash } from "ethers";
+import type { ContractRunner } from "ethers";
+import { SavingsBank__factory, SavingsTimelock, SavingsTimelock__factory } from "../typechain";
+
+/**
+ * SavingsTimelock helpers: the timelock holds SavingsBank.TIMELOCK_ROLE and owns the proxy's ProxyAdmin,
+ * so plan rate changes, treasury withdrawals and implementation upgrades go through
+ * schedule → (minDelay) → execute, or are cancelled in between.
+ */
+
+/** SavingsBank functions restricted to TIMELOCK_ROLE */
+export const TIMELOCKED_ACTIONS = [
+  "updatePlan",
+  "setPlanEarlyRate",
+  "setPlanAprTiers",
+  "setPlanRenewalBonus",
+  "withdrawVault",
+  "withdrawAssetVault",
+  "exportVaults",
+] as const;
+
+export type TimelockedAction = (typeof TIMELOCKED_ACTIONS)[number];
+
+/** Arguments of TimelockController.schedule/execute (schedule also takes the delay) */
+export interface TimelockCall {
+  target: string;
+  value: bigint;
+  data: string;
+  predecessor: string;
+  salt: string;
+}
+
+export interface PendingOperation {
+  id: string;
+  /** Decoded SavingsBank or ProxyAdmin call, undefined when the operation targets another contract */
+  action?: string;
+  args: unknown[];
+  call: TimelockCall;
+  /** Unix timestamp from which the operation can be executed */
+  eta: bigint;
+  ready: boolean;
+  scheduledAtBlock: number;
+}
+
+const bankInterface = () => SavingsBank__factory.createInterface() as Interface;
+
+/** ProxyAdmin (OpenZeppelin 5) entry point used for SavingsBank upgrades */
+const PROXY_ADMIN_INTERFACE = new Interface([
+  "function upgradeAndCall(address proxy, address implementation, bytes data) payable",
+]);
+
+/**
+ * Build the timelock call for a SavingsBank action, e.g.
+ * `encodeTimelockCall(bank, "updatePlan", [planId, 600, 500, NO_PLAN_LIMITS])`.
+ * Use a distinct salt to schedule the same call twice.
+ */
+export function encodeTimelockCall(
+  savingsBank: string,
+  action: TimelockedAction,
+  args: unknown[],
+  salt: string = ZeroHash
+): TimelockCall {
+  return {
+    target: savingsBank,
+    value: 0n,
+    data: bankInterface().encodeFunctionData(action, args),
+    predecessor: ZeroHash,
+    salt,
+  };
+}
+
+/**
+ * Build the timelock call that points the SavingsBank proxy at a new implementation
+ * (ProxyAdmin.upgradeAndCall, optionally running `data` on the proxy afterwards)
+ */
+export function encodeUpgradeCall(
+  proxyAdmin: string,
+  savingsBank: string,
+  implementation: string,
+  data = "0x",
+  salt: string = ZeroHash
+): TimelockCall {
+  return {
+    target: proxyAdmin,
+    value: 0n,
+    data: PROXY_ADMIN_INTERFACE.encodeFunctionData("upgradeAndCall", [savingsBank, implementation, data]),
+    predecessor: ZeroHash,
+    salt,
+  };
+}
+
+/**
+ * Operation id as computed by TimelockController.hashOperation
+ */
+export function hashTimelockCall(timelock: string, call: TimelockCall, runner: ContractRunner): Promise<string> {
+  return SavingsTimelock__factory.connect(timelock, runner).hashOperation(
+    call.target,
+    call.value,
+    call.data,
+    call.predecessor,
+    call.salt
+  );
+}
+
+/**
+ * Scheduled operations that are neither executed nor cancelled, oldest first.
+ * Calls to `savingsBank` and upgrades through `proxyAdmin` are decoded into action + args.
+ */
+export async function listPendingOperations(
+  timelock: string,
+  runner: ContractRunner,
+  options: { savingsBank?: string; proxyAdmin?: string; fromBlock?: number } = {}
+): Promise<PendingOperation[]> {
+  const contract = SavingsTimelock__factory.connect(timelock, runner);
+  const logs = await contract.queryFilter(contract.filters.CallScheduled(), options.fromBlock ?? 0);
+  const bank = bankInterface();
+
+  const pending: PendingOperation[] = [];
+  const seen = new Set<string>();
+  for (const log of logs) {
+    const { id, target, value, data, predecessor } = log.args;
+    if (seen.has(id) || !(await contract.isOperationPending(id))) continue;
+    seen.add(id);
+
+    const salt = await saltOf(contract, id, log.blockNumber);
+    let action: string | undefined;
+    let args: unknown[] = [];
+    const abi = sameAddress(target, options.savingsBank)
+      ? bank
+      : sameAddress(target, options.proxyAdmin)
+      ? PROXY_ADMIN_INTERFACE
+      : undefined;
+    const parsed = abi?.parseTransaction({ data });
+    if (parsed) {
+      action = parsed.name;
+      args = [...parsed.args];
+    }
+
+    pending.push({
+      id,
+      action,
+      args,
+      call: { target, value, data, predecessor, salt },
+      eta: await contract.getTimestamp(id),
+      ready: await contract.isOperationReady(id),
+      scheduledAtBlock: log.blockNumber,
+    });
+  }
+  return pending;
+}
+
+function sameAddress(a: string, b?: string): boolean {
+  return b !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+/** The salt is only emitted (CallSalt) when non-zero */
+async function saltOf(contract: SavingsTimelock, id: string, blockNumber: number): Promise<string> {
+  const salts = await contract.queryFilter(contract.filters.CallSalt(id), blockNumber, blockNumber);
+  return salts.length > 0 ? salts[0].args.salt : ZeroHash;
+}
@@ -0,0 +1,359 @@
+import type { ContractTransactionReceipt } from "ethers";
+import { DayCount, InterestMode } from "./interest";
+
+/**
+ * Deployed addresses the SDK needs to talk to the protocol.
+ * `depositNFT` may point to either DepositNFT or MockDepositNFT.
+ */
+export interface SavingsAddresses {
+  usdc: string;
+  tokenVault: string;
+  interestVault: string;
+  depositNFT: string;
+  savingsBank: string;
+  /** ERC-2771 forwarder trusted by SavingsBank (gasless actions) */
+  forwarder?: string;
+  /** DepositLending (loans against escrowed certificates) */
+  depositLending?: string;
+}
+
+/**
+ * Deposit status (mirrors SavingsBank STATUS_* constants)
+ */
+export enum DepositStatus {
+  Active = 0,
+  Withdrawn = 1,
+  EarlyWithdrawn = 2,
+  Renewed = 3,
+  /** Replaced by the certificates of splitDeposit */
+  Split = 4,
+  /** Replaced by the certificate of mergeDeposits */
+  Merged = 5,
+}
+
+/**
+ * Maturity handling on increaseDeposit (mirrors SavingsBank.TopUpPolicy)
+ */
+export enum TopUpPolicy {
+  /** Maturity moves to the principal-weighted average of the old maturity and now + duration */
+  Reweight = 0,
+  /** Accrued interest is compounded and a full new term starts */
+  Restart = 1,
+}
+
+/**
+ * Opening window and limits of a plan, 0 = no bound (mirrors SavingsBank.PlanLimits)
+ */
+export interface PlanLimits {
+  /** No deposits before this timestamp */
+  startsAt: bigint;
+  /** Sunset: no deposits or top-ups from this timestamp on */
+  endsAt: bigint;
+  /** Max active principal of the plan */
+  capacity: bigint;
+  /** Max active principal per wallet */
+  walletCap: bigint;
+  /** Max active certificates per wallet */
+  maxDepositsPerUser: bigint;
+}
+
+/** Limits of a plan that is always open and unlimited */
+export const NO_PLAN_LIMITS: PlanLimits = {
+  startsAt: 0n,
+  endsAt: 0n,
+  capacity: 0n,
+  walletCap: 0n,
+  maxDepositsPerUser: 0n,
+};
+
+/**
+ * Amount-based APR tier: deposits of at least minAmount lock aprBps (mirrors SavingsBank.AprTier)
+ */
+export interface AprTier {
+  minAmount: bigint;
+  aprBps: bigint;
+}
+
+export interface SavingPlan {
+  planId: bigint;
+  name: string;
+  durationDays: bigint;
+  minDeposit: bigint;
+  maxDeposit: bigint;
+  aprBps: bigint;
+  earlyWithdrawPenaltyBps: bigint;
+  isActive: boolean;
+  interestMode: InterestMode;
+  dayCount: DayCount;
+  /** APR paid on early withdrawals, pro-rated to the withdrawal time (0 = no interest) */
+  earlyRateBps: bigint;
+  topUpPolicy: TopUpPolicy;
+  /** Deposit token of the plan (min/max deposit are in its decimals) */
+  asset: string;
+  limits: PlanLimits;
+  /** Ascending by minAmount; amounts below the first tier (or no tiers) get aprBps */
+  aprTiers: AprTier[];
+  /** Loyalty bonus added to the locked APR per consecutive renewal (0 = none) */
+  renewalBonusBps: bigint;
+  /** Cap on the accumulated loyalty bonus */
+  maxRenewalBonusBps: bigint;
+  /** New certificates of the plan are non-transferable (ERC-5192 locked NFTs) */
+  soulbound: boolean;
+}
+
+/**
+ * Rate a deposit amount would lock in a plan (SavingsBank.quoteApr)
+ */
+export interface AprQuote {
+  /** 0 = plan APR, i = i-th entry of plan.aprTiers */
+  tier: bigint;
+  aprBps: bigint;
+  /** Full-term interest at that rate with the plan's interest mode */
+  expectedInterest: bigint;
+}
+
+/**
+ * Usage and remaining capacity of a plan for one wallet (remaining = MaxUint256 when unlimited)
+ */
+export interface PlanCapacity {
+  /** Plan is active and inside its opening window */
+  isOpen: boolean;
+  planPrincipal: bigint;
+  walletPrincipal: bigint;
+  walletDeposits: bigint;
+  planRemaining: bigint;
+  walletRemaining: bigint;
+  depositsRemaining: bigint;
+  /** Largest amount the wallet can open right now (0 when the plan is closed or no certificate is left) */
+  maxAmount: bigint;
+}
+
+/**
+ * Supported deposit asset and its vault pair (SavingsBank.assets)
+ */
+export interface AssetInfo {
+  asset: string;
+  symbol: string;
+  decimals: number;
+  tokenVault: string;
+  interestVault: string;
+  /** false = delisted: no new plans, deposits or top-ups */
+  isWhitelisted: boolean;
+}
+
+export interface Deposit {
+  depositId: bigint;
+  planId: bigint;
+  owner: string;
+  principal: bigint;
+  startTime: bigint;
+  maturityTime: bigint;
+  lockedAprBps: bigint;
+  isAutoRenewEnabled: boolean;
+  status: DepositStatus;
+  /** Interest mode and day count locked from the plan when the deposit was opened */
+  interestMode: InterestMode;
+  dayCount: DayCount;
+  /** Interest payable at maturity (locked APR and interest mode, full term) */
+  expectedInterest: bigint;
+  /** Consecutive renewals since the deposit was opened (0 = original term) */
+  renewalCount: bigint;
+  /** Loyalty bonus included in lockedAprBps */
+  renewalBonusBps: bigint;
+}
+
+export interface DepositEligibility {
+  canWithdraw: boolean;
+  canAutoRenew: boolean;
+  isMatured: boolean;
+  gracePeriodExpired: boolean;
+}
+
+export interface EarlyWithdrawQuote {
+  principalMinusPenalty: bigint;
+  penalty: bigint;
+  /** Interest accrued so far at the plan's early rate */
+  accruedInterest: bigint;
+  /** principalMinusPenalty + accruedInterest */
+  netAmount: bigint;
+}
+
+export interface VaultHealth {
+  /** Asset the vault figures are denominated in */
+  asset: string;
+  interestVaultBalance: bigint;
+  totalReserved: bigint;
+  availableBalance: bigint;
+  /** Principal held by TokenVault: idle buffer + strategy position */
+  tokenVaultBalance: bigint;
+  /** Idle part of the TokenVault balance (pays withdrawals first) */
+  tokenVaultIdle: bigint;
+  /** Current value of the TokenVault's ERC-4626 strategy position (0 without a strategy) */
+  strategyAssets: bigint;
+  /** Principal deployed to the strategy; strategyAssets above it is unharvested yield, below it a loss */
+  strategyDebt: bigint;
+  /** InterestVault balance / reserved, in bps (0 when nothing is reserved) */
+  reserveRatioBps: bigint;
+  /** Reserved / InterestVault balance, in bps (0 when the vault is empty) */
+  utilizationBps: bigint;
+  totalDeposits: bigint;
+}
+
+/**
+ * SavingsBank roles held by an account
+ */
+export interface AccountRoles {
+  /** DEFAULT_ADMIN_ROLE: grants/revokes roles, registers assets */
+  admin: boolean;
+  planManager: boolean;
+  treasurer: boolean;
+  /** Guardian: pause / unpause */
+  pauser: boolean;
+  /** performAutoRenew */
+  keeper: boolean;
+  /** Rate changes and vault withdrawals; held by SavingsTimelock */
+  timelock: boolean;
+}
+
+export interface OpenDepositParams {
+  planId: bigint | number;
+  amount: bigint;
+  enableAutoRenew?: boolean;
+  /** Approve the plan asset's TokenVault for `amount` first when the current allowance is too low (default true) */
+  approve?: boolean;
+}
+
+export interface OpenDepositWithPermitParams {
+  planId: bigint | number;
+  amount: bigint;
+  enableAutoRenew?: boolean;
+  /** Permit deadline (unix seconds, default latest block + 1 hour) */
+  deadline?: bigint;
+  /** EIP-712 version for tokens without eip712Domain() (default "1") */
+  permitVersion?: string;
+}
+
+export interface OpenDepositResult {
+  depositId: bigint;
+  owner: string;
+  planId: bigint;
+  principal: bigint;
+  maturityTime: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface WithdrawResult {
+  depositId: bigint;
+  owner: string;
+  principal: bigint;
+  interest: bigint;
+  isEarly: boolean;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface IncreaseDepositResult {
+  depositId: bigint;
+  owner: string;
+  amount: bigint;
+  newPrincipal: bigint;
+  newMaturityTime: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface PartialWithdrawResult {
+  depositId: bigint;
+  owner: string;
+  /** Principal taken out of the deposit (before penalty) */
+  amount: bigint;
+  /** Interest accrued on `amount` at the plan's early rate */
+  interest: bigint;
+  penalty: bigint;
+  /** amount + interest - penalty, sent to the owner */
+  received: bigint;
+  remainingPrincipal: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface AutoRenewResult {
+  oldDepositId: bigint;
+  newDepositId: bigint;
+  newPrincipal: bigint;
+  lockedAprBps: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface RolloverResult {
+  oldDepositId: bigint;
+  newDepositId: bigint;
+  newPlanId: bigint;
+  newPrincipal: bigint;
+  /** Interest sent to the owner (0 when it was compounded into newPrincipal) */
+  interestPaid: bigint;
+  /** Current APR of the new plan (tier of newPrincipal) */
+  lockedAprBps: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface SplitResult {
+  depositId: bigint;
+  /** New certificates, in the order of the amounts */
+  newDepositIds: bigint[];
+  amounts: bigint[];
+  receipt: ContractTransactionReceipt;
+}
+
+export interface MergeResult {
+  depositIds: bigint[];
+  newDepositId: bigint;
+  /** Principal of the merged certificate */
+  principal: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+/**
+ * Loan against an escrowed certificate (DepositLending)
+ */
+export interface Loan {
+  depositId: bigint;
+  borrower: string;
+  /** Debt including loan interest up to now */
+  debt: bigint;
+  /** Borrow APR locked when the loan was opened */
+  aprBps: bigint;
+  /** Certificate value now: principal + interest accrued so far */
+  collateralValue: bigint;
+  /** Amount that can still be drawn at the current LTV */
+  availableToBorrow: bigint;
+  /** Auto-renew flag restored when the NFT is returned */
+  autoRenew: boolean;
+}
+
+export interface BorrowResult {
+  depositId: bigint;
+  amount: bigint;
+  /** Debt after the draw */
+  debt: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface RepayResult {
+  depositId: bigint;
+  /** Amount pulled from the payer (capped at the debt) */
+  paid: bigint;
+  /** Debt left; 0 = loan closed and NFT returned */
+  debt: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface LoanSettlement {
+  depositId: bigint;
+  borrower: string;
+  /** Principal + interest withdrawn from SavingsBank */
+  proceeds: bigint;
+  repaid: bigint;
+  /** Sent to the borrower */
+  surplus: bigint;
+  /** Debt written off when the proceeds did not cover it */
+  shortfall: bigint;
+  receipt: ContractTransactionReceipt;
+}
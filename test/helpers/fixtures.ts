@@ -0,0 +1,187 @@
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  DepositNFT,
+  InterestVault,
+  MockUSDC,
+  SavingsBank,
+  SavingsForwarder,
+  SavingsTimelock,
+  TokenVault,
+} from "../../typechain";
+import { NO_PLAN_LIMITS, SavingsAddresses, TimelockCall, TimelockedAction, encodeTimelockCall } from "../../sdk";
+
+export interface SavingsSystem {
+  usdc: MockUSDC;
+  tokenVault: TokenVault;
+  interestVault: InterestVault;
+  depositNFT: DepositNFT;
+  savingsBank: SavingsBank;
+  forwarder: SavingsForwarder;
+  /** Holder of SavingsBank.TIMELOCK_ROLE (admin proposes) */
+  timelock: SavingsTimelock;
+  admin: SignerWithAddress;
+  users: SignerWithAddress[];
+  addresses: SavingsAddresses;
+}
+
+/**
+ * SavingsBank (or an upgrade of it) factory linked to fresh DepositLogic and MigrationLogic libraries
+ */
+export async function getSavingsBankFactory(name = "SavingsBank") {
+  const depositLogic = await (await ethers.getContractFactory("DepositLogic")).deploy();
+  const migrationLogic = await (await ethers.getContractFactory("MigrationLogic")).deploy();
+  return ethers.getContractFactory(name, {
+    libraries: {
+      DepositLogic: await depositLogic.getAddress(),
+      MigrationLogic: await migrationLogic.getAddress(),
+    },
+  });
+}
+
+export interface SystemOptions {
+  /** SavingsTimelock minDelay (default 0: scheduled calls run in the next block) */
+  timelockDelay?: number;
+  /** SavingsTimelock executor (default: admin, which is always the proposer) */
+  timelockExecutor?: string;
+}
+
+/**
+ * Deploy SavingsTimelock with one proposer and one executor
+ */
+export async function deploySavingsTimelock(
+  delay: number,
+  proposer: string,
+  executor: string
+): Promise<SavingsTimelock> {
+  const factory = await ethers.getContractFactory("SavingsTimelock");
+  return (await factory.deploy(delay, [proposer], [executor])) as SavingsTimelock;
+}
+
+/**
+ * Deploy SavingsBank behind a transparent proxy (initialized by the caller, who becomes admin;
+ * `timelock` receives TIMELOCK_ROLE)
+ */
+export async function deploySavingsBank(
+  usdc: string,
+  tokenVault: string,
+  interestVault: string,
+  depositNFT: string,
+  forwarder: string,
+  timelock: string
+): Promise<SavingsBank> {
+  const proxy = await upgrades.deployProxy(
+    await getSavingsBankFactory(),
+    [usdc, tokenVault, interestVault, depositNFT, timelock],
+    { kind: "transparent", constructorArgs: [forwarder] }
+  );
+  await proxy.waitForDeployment();
+  return proxy as unknown as SavingsBank;
+}
+
+/**
+ * Deploy DepositNFT for a bank initialized without one: the bank takes ownership and wires it with setDepositNFT
+ */
+export async function deployDepositNFT(savingsBank: SavingsBank): Promise<DepositNFT> {
+  const bankAddr = await savingsBank.getAddress();
+  const depositNFT = (await (await ethers.getContractFactory("DepositNFT")).deploy(bankAddr)) as DepositNFT;
+  await depositNFT.transferOwnership(bankAddr);
+  await savingsBank.setDepositNFT(await depositNFT.getAddress());
+  return depositNFT;
+}
+
+/**
+ * Schedule `call` on `timelock` with the minimum delay, wait it out and execute it.
+ * `timelock` must be connected to a signer that is both proposer and executor.
+ * Reverts of the target call bubble up from execute.
+ */
+export async function executeTimelockCall(timelock: SavingsTimelock, call: TimelockCall) {
+  const delay = await timelock.getMinDelay();
+  await timelock.schedule(call.target, call.value, call.data, call.predecessor, call.salt, delay);
+  if (delay > 0n) await time.increase(delay);
+  return timelock.execute(call.target, call.value, call.data, call.predecessor, call.salt);
+}
+
+let timelockSalt = 0;
+
+/**
+ * Run a TIMELOCK_ROLE action of `savingsBank` through `timelock` (see executeTimelockCall);
+ * every call gets its own salt so the same action can run twice
+ */
+export async function executeTimelocked(
+  timelock: SavingsTimelock,
+  savingsBank: SavingsBank,
+  action: TimelockedAction,
+  args: unknown[]
+) {
+  const salt = ethers.id(`${++timelockSalt}`);
+  return executeTimelockCall(timelock, encodeTimelockCall(await savingsBank.getAddress(), action, args, salt));
+}
+
+/**
+ * Deploy MockUSDC + vaults + SavingsForwarder + SavingsTimelock + SavingsBank + DepositNFT, hand vault/NFT
+ * ownership to the bank, fund InterestVault with 100k USDC and create the 7/30 day plans.
+ * The first four user signers get 100k USDC and approve TokenVault.
+ */
+export async function deploySavingsSystem(options: SystemOptions = {}): Promise<SavingsSystem> {
+  const [admin, ...users] = await ethers.getSigners();
+
+  const usdc = (await (await ethers.getContractFactory("MockUSDC")).deploy()) as MockUSDC;
+  const usdcAddr = await usdc.getAddress();
+  const tokenVault = (await (await ethers.getContractFactory("TokenVault")).deploy(usdcAddr)) as TokenVault;
+  const interestVault = (await (await ethers.getContractFactory("InterestVault")).deploy(usdcAddr)) as InterestVault;
+  const forwarder = (await (await ethers.getContractFactory("SavingsForwarder")).deploy()) as SavingsForwarder;
+  const timelock = await deploySavingsTimelock(
+    options.timelockDelay ?? 0,
+    admin.address,
+    options.timelockExecutor ?? admin.address
+  );
+
+  const savingsBank = await deploySavingsBank(
+    usdcAddr,
+    await tokenVault.getAddress(),
+    await interestVault.getAddress(),
+    ethers.ZeroAddress,
+    await forwarder.getAddress(),
+    await timelock.getAddress()
+  );
+  const bankAddr = await savingsBank.getAddress();
+  const depositNFT = await deployDepositNFT(savingsBank);
+
+  await tokenVault.transferOwnership(bankAddr);
+  await interestVault.transferOwnership(bankAddr);
+
+  const fundAmount = ethers.parseUnits("100000", 6);
+  await usdc.mint(admin.address, fundAmount);
+  await usdc.approve(await interestVault.getAddress(), fundAmount);
+  await savingsBank.fundVault(fundAmount);
+
+  await savingsBank.createPlan("7 Days", 7, ethers.parseUnits("100", 6), ethers.parseUnits("10000", 6), 500, 500, NO_PLAN_LIMITS);
+  await savingsBank.createPlan("30 Days", 30, ethers.parseUnits("500", 6), ethers.parseUnits("50000", 6), 800, 500, NO_PLAN_LIMITS);
+
+  for (const user of users.slice(0, 4)) {
+    await usdc.mint(user.address, ethers.parseUnits("100000", 6));
+    await usdc.connect(user).approve(await tokenVault.getAddress(), ethers.MaxUint256);
+  }
+
+  return {
+    usdc,
+    tokenVault,
+    interestVault,
+    depositNFT,
+    savingsBank,
+    forwarder,
+    timelock,
+    admin,
+    users,
+    addresses: {
+      usdc: usdcAddr,
+      tokenVault: await tokenVault.getAddress(),
+      interestVault: await interestVault.getAddress(),
+      depositNFT: await depositNFT.getAddress(),
+      savingsBank: bankAddr,
+      forwarder: await forwarder.getAddress(),
+    },
+  };
+}
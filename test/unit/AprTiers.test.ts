@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { InterestVault, SavingsBank, SavingsTimelock } from "../../typechain";
+import { SavingsClient, TimelockedAction, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+/**
+ * Amount-based APR tiers: openDeposit locks the rate of the highest tier reached by the amount
+ * (plan APR below the first tier) and reserves the full-term interest at that rate.
+ */
+describe("APR tiers", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let interestVault: InterestVault;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let client: SavingsClient;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
+  // Plan 2 (30 days, 8% APR): 9% from 1,000 USDC, 10% from 10,000 USDC
+  const TIERS = [
+    { minAmount: parseUSDC("1000"), aprBps: 900n },
+    { minAmount: parseUSDC("10000"), aprBps: 1000n },
+  ];
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, interestVault, admin } = system);
+    [user1] = system.users;
+    client = new SavingsClient(system.addresses, admin);
+  });
+
+  it("only accepts ordered tiers through TIMELOCK_ROLE", async function () {
+    await expect(savingsBank.connect(user1).setPlanAprTiers(2, TIERS)).to.be.revertedWithCustomError(
+      savingsBank,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(timelocked("setPlanAprTiers", [9, TIERS])).to.be.revertedWith("SavingsBank: Plan not found");
+    await expect(timelocked("setPlanAprTiers", [2, [TIERS[1], TIERS[0]]])).to.be.revertedWith(
+      "SavingsBank: Tiers not ascending"
+    );
+    await expect(timelocked("setPlanAprTiers", [2, [{ minAmount: 0, aprBps: 900 }]])).to.be.revertedWith(
+      "SavingsBank: Tiers not ascending"
+    );
+    await expect(timelocked("setPlanAprTiers", [2, [{ minAmount: 1, aprBps: 0 }]])).to.be.revertedWith(
+      "SavingsBank: Invalid APR"
+    );
+    const tooMany = Array.from({ length: 9 }, (_, i) => ({ minAmount: i + 1, aprBps: 900 }));
+    await expect(timelocked("setPlanAprTiers", [2, tooMany])).to.be.revertedWith("SavingsBank: Too many tiers");
+
+    await expect(timelocked("setPlanAprTiers", [2, TIERS])).to.emit(savingsBank, "PlanUpdated").withArgs(2);
+    expect(await savingsBank.getPlanAprTiers(2)).to.deep.equal(TIERS.map((t) => [t.minAmount, t.aprBps]));
+  });
+
+  it("locks the tier rate and reserves interest at it", async function () {
+    await timelocked("setPlanAprTiers", [2, TIERS]);
+
+    expect(await savingsBank.quoteApr(2, parseUSDC("999"))).to.deep.equal([0n, 800n]);
+    expect(await savingsBank.quoteApr(2, parseUSDC("1000"))).to.deep.equal([1n, 900n]);
+    expect(await savingsBank.quoteApr(2, parseUSDC("20000"))).to.deep.equal([2n, 1000n]);
+
+    for (const [id, amount, apr] of [
+      [1n, parseUSDC("500"), 800n],
+      [2n, parseUSDC("1000"), 900n],
+      [3n, parseUSDC("20000"), 1000n],
+    ]) {
+      const reservedBefore = await interestVault.totalReserved();
+      await savingsBank.connect(user1).openDeposit(2, amount, false);
+      expect((await savingsBank.deposits(id)).lockedAprBps).to.equal(apr);
+      expect((await interestVault.totalReserved()) - reservedBefore).to.equal(await savingsBank.calculateInterest(id));
+    }
+
+    // Later tier changes leave open certificates alone
+    await timelocked("setPlanAprTiers", [2, []]);
+    expect(await savingsBank.quoteApr(2, parseUSDC("20000"))).to.deep.equal([0n, 800n]);
+    expect((await savingsBank.deposits(3)).lockedAprBps).to.equal(1000);
+  });
+
+  it("quotes the rate and expected interest through SavingsClient", async function () {
+    await timelocked("setPlanAprTiers", [2, TIERS]);
+
+    expect((await client.getPlan(2)).aprTiers).to.deep.equal(TIERS);
+    const quote = await client.quoteApr(2, parseUSDC("5000"));
+    expect(quote.tier).to.equal(1);
+    expect(quote.aprBps).to.equal(900);
+
+    const { depositId } = await client.connect(user1).openDeposit({ planId: 2, amount: parseUSDC("5000") });
+    expect(await savingsBank.calculateInterest(depositId)).to.equal(quote.expectedInterest);
+  });
+});
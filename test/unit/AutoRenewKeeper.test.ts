@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { SavingsBank } from "../../typechain";
+import { SavingsAddresses, SavingsClient, parseUSDC } from "../../sdk";
+import { AutoRenewKeeper, KeeperLogger } from "../../keeper";
+import { deploySavingsSystem } from "../helpers/fixtures";
+
+const DAY = 24 * 60 * 60;
+const silent: KeeperLogger = { info: () => {}, warn: () => {}, error: () => {} };
+
+/**
+ * AutoRenewKeeper tests (localhost).
+ * Deposits are opened on plan 1 (7 days) and plan 2 (30 days); time is moved with evm_increaseTime.
+ */
+describe("AutoRenewKeeper", function () {
+  let savingsBank: SavingsBank;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let keeperSigner: SignerWithAddress;
+  let addresses: SavingsAddresses;
+  let keeper: AutoRenewKeeper;
+
+  async function renewedIds(): Promise<bigint[]> {
+    const events = await savingsBank.queryFilter(savingsBank.filters.AutoRenewed());
+    return events.map((e) => e.args.oldDepositId);
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    savingsBank = system.savingsBank;
+    addresses = system.addresses;
+    [user1, user2, keeperSigner] = system.users;
+    await savingsBank.grantRole(await savingsBank.KEEPER_ROLE(), keeperSigner.address);
+
+    keeper = new AutoRenewKeeper(new SavingsClient(addresses, keeperSigner), {
+      batchSize: 2,
+      retryDelayMs: 1,
+      logger: silent,
+    });
+
+    // #1 plan 1, auto-renew       -> eligible after 7 days
+    // #2 plan 1, no auto-renew    -> never eligible
+    // #3 plan 2, auto-renew       -> not matured after 7 days
+    // #4 plan 1, auto-renew       -> eligible after 7 days (other user)
+    // #5 plan 1, auto-renew       -> withdrawn by owner before keeper runs
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("1000"), true);
+    await savingsBank.connect(user2).openDeposit(1, parseUSDC("2000"), true);
+    await savingsBank.connect(user2).openDeposit(1, parseUSDC("3000"), true);
+  });
+
+  it("renews every eligible deposit exactly once and skips the rest", async function () {
+    await time.increase(7 * DAY);
+    await savingsBank.connect(user2).withdraw(5);
+
+    const first = await keeper.runOnce();
+    expect(first.scanned).to.equal(5);
+    expect(first.eligible).to.deep.equal([1n, 4n]);
+    expect(first.renewed.map((r) => r.depositId)).to.deep.equal([1n, 4n]);
+    expect(first.failed).to.be.empty;
+
+    // Renewed certificates go to the depositors, not the keeper
+    const [newFor1, newFor4] = first.renewed.map((r) => r.newDepositId);
+    expect(await savingsBank.depositOwner(newFor1)).to.equal(user1.address);
+    expect(await savingsBank.depositOwner(newFor4)).to.equal(user2.address);
+
+    // Second pass in the same window finds nothing new
+    const second = await keeper.runOnce();
+    expect(second.eligible).to.be.empty;
+    expect(second.renewed).to.be.empty;
+
+    expect(await renewedIds()).to.deep.equal([1n, 4n]);
+  });
+
+  it("picks up deposits as they mature across runs", async function () {
+    await time.increase(7 * DAY);
+    await keeper.runOnce();
+
+    // Plan 2 deposit matures at day 30; renewed deposits from day 7 mature at day 14, 21, 28
+    await time.increase(23 * DAY);
+    const result = await keeper.runOnce();
+
+    expect(result.renewed.map((r) => r.depositId)).to.include(3n);
+    const ids = await renewedIds();
+    expect(new Set(ids.map(String)).size).to.equal(ids.length);
+    expect(ids).to.not.include(2n);
+  });
+
+  it("skips deposits whose grace period has expired", async function () {
+    await time.increase(7 * DAY + 2 * DAY + 1);
+
+    const result = await keeper.runOnce();
+    expect(result.eligible).to.be.empty;
+    expect(await renewedIds()).to.be.empty;
+  });
+
+  it("defers renewals while gas price is above the cap", async function () {
+    const capped = new AutoRenewKeeper(new SavingsClient(addresses, keeperSigner), {
+      maxFeePerGas: 1n,
+      logger: silent,
+    });
+    await time.increase(7 * DAY);
+
+    const result = await capped.runOnce();
+    expect(result.deferred).to.deep.equal([1n, 4n, 5n]);
+    expect(result.renewed).to.be.empty;
+    expect(await renewedIds()).to.be.empty;
+  });
+
+  it("does not send renewals whose gas estimate exceeds the cap", async function () {
+    const capped = new AutoRenewKeeper(new SavingsClient(addresses, keeperSigner), {
+      maxGasLimit: 21_000n,
+      maxRetries: 1,
+      retryDelayMs: 1,
+      logger: silent,
+    });
+    await time.increase(7 * DAY);
+
+    const result = await capped.runOnce();
+    expect(result.failed.map((f) => f.depositId)).to.deep.equal([1n, 4n, 5n]);
+    expect(result.failed[0].error).to.contain("above cap");
+    expect(await renewedIds()).to.be.empty;
+  });
+
+  it("retries failed renewals and reports them without renewing", async function () {
+    await time.increase(7 * DAY);
+    const [admin] = await ethers.getSigners();
+    await savingsBank.connect(admin).pause();
+
+    const result = await keeper.runOnce();
+    expect(result.failed.map((f) => f.depositId)).to.deep.equal([1n, 4n, 5n]);
+
+    // Nonce tracking recovers: after unpause the next run renews normally
+    await savingsBank.connect(admin).unpause();
+    const retry = await keeper.runOnce();
+    expect(retry.renewed.map((r) => r.depositId)).to.deep.equal([1n, 4n, 5n]);
+  });
+
+  it("skips deposits whose renewal the bank rejects until they leave the grace window", async function () {
+    // #6: plan 1 at maxDeposit, so principal + interest is above it and renewal always reverts
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("10000"), true);
+    await time.increase(7 * DAY);
+
+    const first = await keeper.runOnce();
+    expect(first.renewed.map((r) => r.depositId)).to.deep.equal([1n, 4n, 5n]);
+    expect(first.failed).to.deep.equal([{ depositId: 6n, error: "SavingsBank: Above maxDeposit" }]);
+    const sent = await keeperSigner.getNonce();
+
+    const second = await keeper.runOnce();
+    expect(second.eligible).to.deep.equal([6n]);
+    expect(second.skipped).to.deep.equal([6n]);
+    expect(second.failed).to.be.empty;
+    expect(await keeperSigner.getNonce()).to.equal(sent);
+
+    await time.increase(2 * DAY);
+    expect((await keeper.runOnce()).eligible).to.be.empty;
+  });
+
+  it("waits for a sent renewal instead of resending its nonce", async function () {
+    const slow = new AutoRenewKeeper(new SavingsClient(addresses, keeperSigner), {
+      maxRetries: 1,
+      retryDelayMs: 1,
+      receiptTimeoutMs: 50,
+      logger: silent,
+    });
+    await time.increase(7 * DAY);
+    const nonce = await keeperSigner.getNonce();
+
+    // Nothing is mined: every renewal is sent once and its receipt times out
+    await ethers.provider.send("evm_setAutomine", [false]);
+    let first;
+    try {
+      first = await slow.runOnce();
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+    expect(first.failed.map((f) => f.depositId)).to.deep.equal([1n, 4n, 5n]);
+    await ethers.provider.send("evm_mine", []);
+    expect(await keeperSigner.getNonce()).to.equal(nonce + 3);
+
+    // The next run picks up the mined transactions without sending new ones
+    const second = await slow.runOnce();
+    expect(second.eligible).to.be.empty;
+    expect(await keeperSigner.getNonce()).to.equal(nonce + 3);
+    expect(await renewedIds()).to.deep.equal([1n, 4n, 5n]);
+  });
+});
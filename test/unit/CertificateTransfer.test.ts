@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositNFT, SavingsBank, SavingsTimelock } from "../../typechain";
+import { NO_PLAN_LIMITS, SavingsAddresses, SavingsClient, TimelockedAction, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+const ERC5192_INTERFACE_ID = "0xb45a3c0e";
+
+/**
+ * DepositNFT transfer hook (depositOwner and plan usage follow the NFT) and
+ * soulbound plans whose certificates are locked to their holder (ERC-5192).
+ */
+describe("Certificate transfers", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let depositNFT: DepositNFT;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let addresses: SavingsAddresses;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, depositNFT, admin, addresses } = system);
+    [user1, user2, keeper] = system.users;
+
+    // Deposit #1: 1,000 USDC in plan 1 (7 days, 5%), auto-renew on
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+  });
+
+  describe("Transfer hook", function () {
+    it("moves the certificate's owner and plan usage to the new holder", async function () {
+      await expect(depositNFT.connect(user1).transferFrom(user1.address, user2.address, 1))
+        .to.emit(savingsBank, "DepositTransferred")
+        .withArgs(1, user1.address, user2.address);
+
+      expect(await savingsBank.depositOwner(1)).to.equal(user2.address);
+      expect(await savingsBank.getPlanUsage(1, user1.address)).to.deep.equal([parseUSDC("1000"), 0n, 0n]);
+      expect(await savingsBank.getPlanUsage(1, user2.address)).to.deep.equal([
+        parseUSDC("1000"),
+        parseUSDC("1000"),
+        1n,
+      ]);
+      expect(await savingsBank.getUserDeposits(user2.address)).to.deep.equal([1n]);
+      expect(await savingsBank.getUserDeposits(user1.address)).to.deep.equal([]);
+
+      // Closing the certificate releases the new holder's usage
+      await time.increase(7 * DAY);
+      await savingsBank.connect(user2).withdraw(1);
+      expect(await savingsBank.getPlanUsage(1, user2.address)).to.deep.equal([0n, 0n, 0n]);
+    });
+
+    it("does not apply the receiver's plan limits to a transfer", async function () {
+      await timelocked("updatePlan", [1, 500, 100, { ...NO_PLAN_LIMITS, walletCap: parseUSDC("500") }]);
+
+      await depositNFT.connect(user1).transferFrom(user1.address, user2.address, 1);
+      expect((await savingsBank.getPlanUsage(1, user2.address))[1]).to.equal(parseUSDC("1000"));
+    });
+
+    it("only accepts calls from DepositNFT", async function () {
+      await expect(savingsBank.connect(user1).onDepositTransfer(1, user1.address, user2.address)).to.be.revertedWith(
+        "SavingsBank: Only DepositNFT"
+      );
+    });
+
+    it("renews to the current holder", async function () {
+      await depositNFT.connect(user1).transferFrom(user1.address, user2.address, 1);
+      await savingsBank.grantRole(await savingsBank.KEEPER_ROLE(), keeper.address);
+      await time.increase(7 * DAY);
+
+      await savingsBank.connect(keeper).performAutoRenew(ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]));
+
+      expect(await depositNFT.ownerOf(2)).to.equal(user2.address);
+      expect(await savingsBank.depositOwner(2)).to.equal(user2.address);
+      expect((await savingsBank.getPlanUsage(1, user2.address))[2]).to.equal(1n);
+      expect((await savingsBank.getPlanUsage(1, user1.address))[2]).to.equal(0n);
+    });
+  });
+
+  describe("Soulbound plans", function () {
+    beforeEach(async function () {
+      await savingsBank.setPlanSoulbound(1, true);
+    });
+
+    it("locks new certificates of the plan (ERC-5192)", async function () {
+      expect(await depositNFT.supportsInterface(ERC5192_INTERFACE_ID)).to.equal(true);
+      expect((await savingsBank.savingPlans(1)).soulbound).to.equal(true);
+
+      // Certificates minted before the flag was set stay transferable
+      expect(await depositNFT.locked(1)).to.equal(false);
+
+      await expect(savingsBank.connect(user1).openDeposit(1, parseUSDC("500"), false))
+        .to.emit(depositNFT, "Locked")
+        .withArgs(2);
+      expect(await depositNFT.locked(2)).to.equal(true);
+      await expect(depositNFT.connect(user1).transferFrom(user1.address, user2.address, 2)).to.be.revertedWith(
+        "DepositNFT: Soulbound"
+      );
+      await expect(
+        depositNFT.connect(user1)["safeTransferFrom(address,address,uint256)"](user1.address, user2.address, 2)
+      ).to.be.revertedWith("DepositNFT: Soulbound");
+
+      // The holder can still close it
+      await savingsBank.connect(user1).earlyWithdraw(2);
+      await expect(depositNFT.locked(2)).to.be.revertedWithCustomError(depositNFT, "ERC721NonexistentToken");
+    });
+
+    it("keeps the lock through renewals, splits and merges", async function () {
+      await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+      await savingsBank.connect(user1).splitDeposit(2, [parseUSDC("400"), parseUSDC("600")]);
+      expect(await depositNFT.locked(3)).to.equal(true);
+      expect(await depositNFT.locked(4)).to.equal(true);
+
+      await savingsBank.connect(user1).mergeDeposits([3, 4]);
+      expect(await depositNFT.locked(5)).to.equal(true);
+
+      await time.increase(7 * DAY);
+      await savingsBank.connect(user1).autoRenew(5);
+      expect(await depositNFT.locked(6)).to.equal(true);
+
+      // Renewing an unlocked certificate into a soulbound plan locks it too
+      await savingsBank.connect(user1).autoRenew(1);
+      expect(await depositNFT.locked(7)).to.equal(true);
+    });
+
+    it("cannot be escrowed as loan collateral", async function () {
+      const lending = await (
+        await ethers.getContractFactory("DepositLending")
+      ).deploy(savingsBank, depositNFT, addresses.usdc, 7000, 1000);
+      await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+      await depositNFT.connect(user1).approve(lending, 2);
+
+      await expect(lending.connect(user1).borrow(2, parseUSDC("100"))).to.be.revertedWith("DepositNFT: Soulbound");
+    });
+
+    it("is set by PLAN_MANAGER_ROLE on existing plans only", async function () {
+      await expect(savingsBank.connect(user1).setPlanSoulbound(1, false)).to.be.revertedWithCustomError(
+        savingsBank,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(savingsBank.setPlanSoulbound(99, true)).to.be.revertedWith("SavingsBank: Plan not found");
+
+      await expect(savingsBank.setPlanSoulbound(1, false)).to.emit(savingsBank, "PlanUpdated").withArgs(1);
+      await savingsBank.connect(user1).openDeposit(1, parseUSDC("500"), false);
+      expect(await depositNFT.locked(2)).to.equal(false);
+    });
+
+    it("is reported by SavingsClient", async function () {
+      const client = new SavingsClient(addresses, user1);
+      expect((await client.getPlan(1)).soulbound).to.equal(true);
+      expect((await client.getPlan(2)).soulbound).to.equal(false);
+    });
+  });
+});
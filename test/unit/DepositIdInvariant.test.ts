@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositNFT, SavingsBank } from "../../typechain";
+import { parseUSDC } from "../../sdk";
+import { deploySavingsSystem } from "../helpers/fixtures";
+
+const DAY = 24 * 60 * 60;
+const STATUS_ACTIVE = 0n;
+
+/**
+ * tokenId == depositId invariant (localhost).
+ * Runs a deterministic pseudo-random sequence of opens, renewals, withdrawals and
+ * transfers, checking after every step that each active deposit is backed by the NFT
+ * with the same ID and that no NFT exists for a closed deposit.
+ */
+describe("DepositNFT tokenId == depositId invariant", function () {
+  let savingsBank: SavingsBank;
+  let depositNFT: DepositNFT;
+  let users: SignerWithAddress[];
+  let keeper: SignerWithAddress;
+
+  // Small LCG so failures are reproducible
+  let seed = 42;
+  const rand = (n: number) => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed % n;
+  };
+
+  async function checkInvariant() {
+    const nextDepositId = await savingsBank.nextDepositId();
+    let active = 0n;
+
+    for (let id = 1n; id < nextDepositId; id++) {
+      const [, principal, , , , , status] = await savingsBank.getDepositDetails(id);
+      expect(principal, `deposit #${id} missing`).to.be.gt(0n);
+
+      if (status === STATUS_ACTIVE) {
+        active++;
+        // NFT with the same ID exists and is held by the recorded owner
+        expect(await depositNFT.ownerOf(id)).to.equal(await savingsBank.depositOwner(id));
+      } else {
+        await expect(depositNFT.ownerOf(id)).to.be.revertedWithCustomError(depositNFT, "ERC721NonexistentToken");
+      }
+    }
+
+    expect(await depositNFT.totalSupply()).to.equal(active);
+    for (let i = 0n; i < active; i++) {
+      const tokenId = await depositNFT.tokenByIndex(i);
+      const [, , , , , , status] = await savingsBank.getDepositDetails(tokenId);
+      expect(status).to.equal(STATUS_ACTIVE);
+    }
+  }
+
+  async function activeDeposits(): Promise<bigint[]> {
+    const total = await depositNFT.totalSupply();
+    const ids: bigint[] = [];
+    for (let i = 0n; i < total; i++) ids.push(await depositNFT.tokenByIndex(i));
+    return ids;
+  }
+
+  async function holderOf(id: bigint): Promise<SignerWithAddress> {
+    const owner = await depositNFT.ownerOf(id);
+    return users.find((u) => u.address === owner)!;
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, depositNFT } = system);
+    users = system.users.slice(0, 3);
+    keeper = system.users[3];
+    await savingsBank.grantRole(await savingsBank.KEEPER_ROLE(), keeper.address);
+    seed = 42;
+  });
+
+  it("mints with the deposit ID on open and renew", async function () {
+    await expect(savingsBank.connect(users[0]).openDeposit(1, parseUSDC("1000"), true))
+      .to.emit(depositNFT, "DepositNFTMinted")
+      .withArgs(1, users[0].address);
+
+    await time.increase(7 * DAY);
+    await expect(savingsBank.connect(users[0]).autoRenew(1))
+      .to.emit(depositNFT, "DepositNFTMinted")
+      .withArgs(2, users[0].address);
+
+    await checkInvariant();
+  });
+
+  it("rejects minting an ID that already exists", async function () {
+    const [admin] = await ethers.getSigners();
+    const nft = await (await ethers.getContractFactory("DepositNFT")).deploy(await savingsBank.getAddress());
+    await nft.mint(admin.address, 7);
+
+    await expect(nft.mint(admin.address, 7)).to.be.revertedWithCustomError(nft, "ERC721InvalidSender");
+  });
+
+  it("holds across a random sequence of opens, renewals, withdrawals and transfers", async function () {
+    const counts = { renewals: 0, withdrawals: 0, transfers: 0 };
+
+    for (let step = 0; step < 60; step++) {
+      const ids = await activeDeposits();
+      const action = ids.length === 0 ? 0 : rand(6);
+
+      if (action === 0) {
+        const user = users[rand(users.length)];
+        const planId = 1 + rand(2);
+        await savingsBank.connect(user).openDeposit(planId, parseUSDC(String(500 + rand(5) * 100)), rand(2) === 0);
+      } else if (action === 1) {
+        await time.increase((1 + rand(10)) * DAY);
+      } else if (action === 2 || action === 3) {
+        // Renew (owner or keeper) any deposit currently inside its grace window
+        const renewable = [];
+        for (const id of ids) if ((await savingsBank.getDepositStatus(id)).canAutoRenew) renewable.push(id);
+        if (renewable.length === 0) {
+          await time.increase(DAY);
+        } else {
+          const id = renewable[rand(renewable.length)];
+          if (action === 2) {
+            await savingsBank.connect(await holderOf(id)).autoRenew(id);
+          } else {
+            await savingsBank
+              .connect(keeper)
+              .performAutoRenew(ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [id]));
+          }
+          counts.renewals++;
+        }
+      } else {
+        const id = ids[rand(ids.length)];
+        const holder = await holderOf(id);
+        const [canWithdraw, , isMatured] = await savingsBank.getDepositStatus(id);
+
+        if (action === 4) {
+          const to = users[rand(users.length)];
+          if (to.address !== holder.address) {
+            await depositNFT.connect(holder).transferFrom(holder.address, to.address, id);
+            counts.transfers++;
+          }
+        } else if (canWithdraw) {
+          await savingsBank.connect(holder).withdraw(id);
+          counts.withdrawals++;
+        } else if (!isMatured) {
+          await savingsBank.connect(holder).earlyWithdraw(id);
+          counts.withdrawals++;
+        }
+      }
+
+      await checkInvariant();
+    }
+
+    expect(counts.renewals).to.be.gt(0);
+    expect(counts.withdrawals).to.be.gt(0);
+    expect(counts.transfers).to.be.gt(0);
+  });
+});
@@ -0,0 +1,298 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositLending, DepositNFT, MockUSDC, SavingsBank } from "../../typechain";
+import { NO_PLAN_LIMITS, SavingsAddresses, SavingsClient, parseUSDC } from "../../sdk";
+import { deploySavingsSystem } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+const YEAR = 365n * BigInt(DAY);
+const PRINCIPAL = parseUSDC("1000");
+
+/** Simple per-second interest, as DepositLending accrues it */
+function loanInterest(debt: bigint, aprBps: bigint, seconds: bigint): bigint {
+  return (debt * aprBps * seconds) / (YEAR * 10_000n);
+}
+
+/**
+ * DepositLending: borrow against an escrowed certificate up to an LTV of principal + accrued
+ * interest, repay to get the NFT back, or settle from the withdrawal at maturity.
+ */
+describe("DepositLending", function () {
+  let savingsBank: SavingsBank;
+  let depositNFT: DepositNFT;
+  let usdc: MockUSDC;
+  let lending: DepositLending;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let addresses: SavingsAddresses;
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, depositNFT, usdc, admin, addresses } = system);
+    [user1, user2, keeper] = system.users;
+
+    // 70% LTV, 10% borrow APR, 50k liquidity
+    lending = (await (
+      await ethers.getContractFactory("DepositLending")
+    ).deploy(savingsBank, depositNFT, usdc, 7000, 1000)) as DepositLending;
+    await usdc.mint(admin.address, parseUSDC("50000"));
+    await usdc.approve(lending, parseUSDC("50000"));
+    await lending.fundLiquidity(parseUSDC("50000"));
+
+    // Deposit #1: 1,000 USDC in plan 2 (30 days, 8%), auto-renew on, NFT approved for escrow
+    await savingsBank.connect(user1).openDeposit(2, PRINCIPAL, true);
+    await depositNFT.connect(user1).approve(lending, 1);
+    await usdc.connect(user1).approve(lending, ethers.MaxUint256);
+  });
+
+  describe("Borrowing", function () {
+    it("values the certificate at principal plus accrued interest and lends up to the LTV", async function () {
+      await time.increase(15 * DAY);
+      const accrued = (PRINCIPAL * 800n * 15n) / (365n * 10_000n);
+      expect(await lending.collateralValue(1)).to.equal(PRINCIPAL + accrued);
+      const limit = await lending.maxDebt(1);
+      expect(limit).to.equal(((PRINCIPAL + accrued) * 7000n) / 10_000n);
+
+      await expect(lending.connect(user1).borrow(1, limit + 1n)).to.be.revertedWith("DepositLending: Exceeds LTV");
+
+      const before = await usdc.balanceOf(user1.address);
+      await expect(lending.connect(user1).borrow(1, limit))
+        .to.emit(lending, "Borrowed")
+        .withArgs(1, user1.address, limit, limit);
+      expect(await usdc.balanceOf(user1.address)).to.equal(before + limit);
+      expect(await lending.availableToBorrow(1)).to.equal(0);
+    });
+
+    it("escrows the NFT, switches auto-renew off and keeps drawing on the same loan", async function () {
+      await lending.connect(user1).borrow(1, parseUSDC("300"));
+
+      expect(await depositNFT.ownerOf(1)).to.equal(await lending.getAddress());
+      expect((await savingsBank.deposits(1)).isAutoRenewEnabled).to.equal(false);
+      const loan = await lending.loans(1);
+      expect(loan.borrower).to.equal(user1.address);
+      expect(loan.aprBps).to.equal(1000);
+      expect(loan.autoRenew).to.equal(true);
+
+      // A second draw capitalizes the interest so far; later rate changes don't touch the loan
+      await lending.setLoanTerms(7000, 2000);
+      await time.increase(10 * DAY);
+      const drawAt = BigInt(await time.latest()) + 1n;
+      await time.setNextBlockTimestamp(drawAt);
+      await lending.connect(user1).borrow(1, parseUSDC("100"));
+
+      const debt = parseUSDC("300") + loanInterest(parseUSDC("300"), 1000n, drawAt - loan.lastAccrual);
+      const updated = await lending.loans(1);
+      expect(updated.debt).to.equal(debt + parseUSDC("100"));
+      expect(updated.aprBps).to.equal(1000);
+
+      await expect(lending.connect(user2).borrow(1, 1)).to.be.revertedWith("DepositLending: Not borrower");
+    });
+
+    it("keeps automation away from an escrowed certificate", async function () {
+      await lending.connect(user1).borrow(1, parseUSDC("500"));
+      await time.increase(30 * DAY);
+
+      const [upkeepNeeded] = await savingsBank.checkAutoRenew(1);
+      expect(upkeepNeeded).to.equal(false);
+      await savingsBank.grantRole(await savingsBank.KEEPER_ROLE(), keeper.address);
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]);
+      await expect(savingsBank.connect(keeper).performAutoRenew(performData)).to.be.revertedWith(
+        "SavingsBank: Auto-renew not enabled"
+      );
+    });
+
+    it("only lends against an active, unmatured certificate of the caller in the loan asset", async function () {
+      await expect(lending.connect(user1).borrow(1, 0)).to.be.revertedWith(
+        "DepositLending: Amount must be greater than 0"
+      );
+      await expect(lending.connect(user2).borrow(1, 1)).to.be.revertedWith("DepositLending: Not owner");
+
+      const dai = await (await ethers.getContractFactory("MockERC20")).deploy("Mock DAI", "DAI", 18);
+      const daiTokenVault = await (await ethers.getContractFactory("TokenVault")).deploy(dai);
+      const daiInterestVault = await (await ethers.getContractFactory("InterestVault")).deploy(dai);
+      await daiTokenVault.transferOwnership(savingsBank);
+      await daiInterestVault.transferOwnership(savingsBank);
+      await savingsBank.addAsset(dai, daiTokenVault, daiInterestVault);
+      await savingsBank.createAssetPlan(dai, "DAI", 30, 1, ethers.MaxUint256, 500, 500, NO_PLAN_LIMITS);
+      await dai.mint(admin.address, ethers.parseEther("1"));
+      await dai.approve(daiInterestVault, ethers.parseEther("1"));
+      await savingsBank.fundAssetVault(dai, ethers.parseEther("1"));
+      await dai.mint(user2.address, ethers.parseEther("10"));
+      await dai.connect(user2).approve(daiTokenVault, ethers.MaxUint256);
+      await savingsBank.connect(user2).openDeposit(3, ethers.parseEther("10"), false);
+      await depositNFT.connect(user2).approve(lending, 2);
+      await expect(lending.connect(user2).borrow(2, 1)).to.be.revertedWith("DepositLending: Asset mismatch");
+
+      await lending.withdrawLiquidity(admin.address, parseUSDC("49900"));
+      await expect(lending.connect(user1).borrow(1, parseUSDC("200"))).to.be.revertedWith(
+        "DepositLending: Insufficient liquidity"
+      );
+
+      await time.increase(30 * DAY);
+      await expect(lending.connect(user1).borrow(1, 1)).to.be.revertedWith("DepositLending: Deposit matured");
+      await savingsBank.connect(user1).withdraw(1);
+      await expect(lending.connect(user1).borrow(1, 1)).to.be.revertedWith("DepositLending: Deposit not active");
+    });
+  });
+
+  describe("Repayment", function () {
+    beforeEach(async function () {
+      await lending.connect(user1).borrow(1, parseUSDC("500"));
+    });
+
+    it("accrues interest and returns the NFT with auto-renew restored once the debt is cleared", async function () {
+      const { lastAccrual } = await lending.loans(1);
+      await time.increase(20 * DAY);
+      const repayAt = BigInt(await time.latest()) + 1n;
+      await time.setNextBlockTimestamp(repayAt);
+      const interest = loanInterest(parseUSDC("500"), 1000n, repayAt - lastAccrual);
+
+      await expect(lending.connect(user1).repay(1, parseUSDC("200")))
+        .to.emit(lending, "Repaid")
+        .withArgs(1, user1.address, parseUSDC("200"), parseUSDC("300") + interest);
+      expect(await depositNFT.ownerOf(1)).to.equal(await lending.getAddress());
+
+      // Overpaying is capped at the debt; a third party may repay for the borrower
+      await usdc.connect(user2).approve(lending, ethers.MaxUint256);
+      const poolBefore = await lending.availableLiquidity();
+      const debt = await lending.debtOf(1);
+      const payerBefore = await usdc.balanceOf(user2.address);
+      await expect(lending.connect(user2).repay(1, parseUSDC("1000")))
+        .to.emit(lending, "LoanClosed")
+        .withArgs(1, user1.address);
+
+      const paid = payerBefore - (await usdc.balanceOf(user2.address));
+      expect(paid).to.be.gte(debt);
+      expect(await lending.availableLiquidity()).to.equal(poolBefore + paid);
+      expect(await depositNFT.ownerOf(1)).to.equal(user1.address);
+      expect((await savingsBank.deposits(1)).isAutoRenewEnabled).to.equal(true);
+      expect((await lending.loans(1)).borrower).to.equal(ethers.ZeroAddress);
+      await expect(lending.repay(1, 1)).to.be.revertedWith("DepositLending: No loan");
+    });
+
+    it("lets the borrower repay after maturity and withdraw the certificate themselves", async function () {
+      await time.increase(31 * DAY);
+      await lending.connect(user1).repay(1, parseUSDC("1000"));
+      await savingsBank.connect(user1).withdraw(1);
+      expect((await savingsBank.deposits(1)).status).to.equal(1); // WITHDRAWN
+    });
+  });
+
+  describe("Settlement", function () {
+    it("repays the loan from the withdrawal at maturity and pays the surplus to the borrower", async function () {
+      await lending.connect(user1).borrow(1, parseUSDC("600"));
+      expect(await lending.isSettleable(1)).to.equal(false);
+      await expect(lending.connect(keeper).settle(1)).to.be.revertedWith("SavingsBank: Not matured");
+
+      await time.increase(30 * DAY);
+      expect(await lending.isSettleable(1)).to.equal(true);
+      const proceeds = PRINCIPAL + (await savingsBank.calculateInterest(1));
+      const { lastAccrual } = await lending.loans(1);
+      const settleAt = BigInt(await time.latest()) + 1n;
+      await time.setNextBlockTimestamp(settleAt);
+      const debt = parseUSDC("600") + loanInterest(parseUSDC("600"), 1000n, settleAt - lastAccrual);
+      const [userBefore, poolBefore] = [await usdc.balanceOf(user1.address), await lending.availableLiquidity()];
+
+      await expect(lending.connect(keeper).settle(1))
+        .to.emit(lending, "LoanSettled")
+        .withArgs(1, user1.address, proceeds, debt, proceeds - debt, 0)
+        .and.to.emit(savingsBank, "Withdrawn");
+
+      expect(await usdc.balanceOf(user1.address)).to.equal(userBefore + proceeds - debt);
+      expect(await lending.availableLiquidity()).to.equal(poolBefore + debt);
+      await expect(depositNFT.ownerOf(1)).to.be.revertedWithCustomError(depositNFT, "ERC721NonexistentToken");
+      expect(await lending.isSettleable(1)).to.equal(false);
+      await expect(lending.settle(1)).to.be.revertedWith("DepositLending: No loan");
+    });
+
+    it("writes off a debt above the proceeds", async function () {
+      await lending.setLoanTerms(9900, 10_000);
+      await time.increase(29 * DAY);
+      await lending.connect(user1).borrow(1, await lending.maxDebt(1));
+
+      // Debt keeps accruing until someone settles
+      await time.increase(60 * DAY);
+      const proceeds = PRINCIPAL + (await savingsBank.calculateInterest(1));
+      const userBefore = await usdc.balanceOf(user1.address);
+      await expect(lending.settle(1)).to.emit(lending, "LoanSettled");
+
+      const event = (await lending.queryFilter(lending.filters.LoanSettled(1)))[0];
+      expect(event.args.proceeds).to.equal(proceeds);
+      expect(event.args.repaid).to.equal(proceeds);
+      expect(event.args.surplus).to.equal(0);
+      expect(event.args.shortfall).to.be.gt(0);
+      expect(await usdc.balanceOf(user1.address)).to.equal(userBefore);
+    });
+  });
+
+  describe("SavingsClient", function () {
+    it("borrows, reads and repays a loan through the SDK", async function () {
+      const sdk = new SavingsClient({ ...addresses, depositLending: await lending.getAddress() }, user2);
+      expect(await sdk.getLoan(1)).to.equal(undefined);
+      try {
+        await new SavingsClient(addresses, user2).getLoan(1);
+        expect.fail("expected getLoan to throw without a depositLending address");
+      } catch (e) {
+        expect((e as Error).message).to.equal("SavingsClient: depositLending address not configured");
+      }
+
+      // The client approves the NFT and USDC itself
+      await savingsBank.connect(user2).openDeposit(2, PRINCIPAL, false);
+      const borrowed = await sdk.borrow(2, parseUSDC("400"));
+      expect(borrowed.depositId).to.equal(2);
+      expect(borrowed.debt).to.equal(parseUSDC("400"));
+
+      const loan = (await sdk.getLoan(2))!;
+      expect(loan.borrower).to.equal(user2.address);
+      expect(loan.aprBps).to.equal(1000);
+      expect(loan.autoRenew).to.equal(false);
+      expect(loan.availableToBorrow).to.equal((loan.collateralValue * 7000n) / 10_000n - loan.debt);
+
+      const repaid = await sdk.repay(2, parseUSDC("500"));
+      expect(repaid.debt).to.equal(0);
+      expect(repaid.paid).to.be.gt(parseUSDC("400"));
+      expect(await depositNFT.ownerOf(2)).to.equal(user2.address);
+      expect(await sdk.getLoan(2)).to.equal(undefined);
+    });
+
+    it("draws again on an escrowed certificate with a lowercase lending address", async function () {
+      const lendingAddress = (await lending.getAddress()).toLowerCase();
+      const sdk = new SavingsClient({ ...addresses, depositLending: lendingAddress }, user2);
+      await savingsBank.connect(user2).openDeposit(2, PRINCIPAL, false);
+
+      await sdk.borrow(2, parseUSDC("100"));
+      const second = await sdk.borrow(2, parseUSDC("100"));
+      expect(second.amount).to.equal(parseUSDC("100"));
+      expect(second.debt).to.be.gte(parseUSDC("200"));
+    });
+  });
+
+  describe("Administration", function () {
+    it("only lets the owner set terms and move liquidity", async function () {
+      await expect(lending.connect(user1).setLoanTerms(5000, 500)).to.be.revertedWithCustomError(
+        lending,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(lending.setLoanTerms(10_000, 500)).to.be.revertedWith("DepositLending: Invalid LTV");
+      await expect(lending.setLoanTerms(5000, 10_001)).to.be.revertedWith("DepositLending: Invalid APR");
+      await expect(lending.setLoanTerms(0, 500)).to.emit(lending, "LoanTermsUpdated").withArgs(0, 500);
+      await expect(lending.connect(user1).borrow(1, 1)).to.be.revertedWith("DepositLending: Exceeds LTV");
+
+      await expect(lending.connect(user1).withdrawLiquidity(user1.address, 1)).to.be.revertedWithCustomError(
+        lending,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(lending.withdrawLiquidity(admin.address, parseUSDC("50001"))).to.be.revertedWith(
+        "DepositLending: Insufficient liquidity"
+      );
+      await expect(lending.withdrawLiquidity(admin.address, parseUSDC("50000")))
+        .to.emit(lending, "LiquidityWithdrawn")
+        .withArgs(admin.address, parseUSDC("50000"));
+      expect(await lending.availableLiquidity()).to.equal(0);
+    });
+  });
+});
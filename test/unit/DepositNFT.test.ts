@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositNFT, SavingsBank } from "../../typechain";
+import { parseUSDC } from "../../sdk";
+import { deploySavingsBank, deploySavingsSystem } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+
+/** Decode a `data:application/json;base64,` token URI */
+function decodeURI(uri: string) {
+  const [prefix, payload] = uri.split(",");
+  expect(prefix).to.equal("data:application/json;base64");
+  return JSON.parse(Buffer.from(payload, "base64").toString());
+}
+
+/**
+ * DepositNFT: deployed after the SavingsBank proxy it reads from, wired once with setDepositNFT,
+ * and serving on-chain SVG/JSON metadata for each certificate.
+ */
+describe("DepositNFT", function () {
+  let savingsBank: SavingsBank;
+  let depositNFT: DepositNFT;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, depositNFT, admin } = system);
+    [user1, user2] = system.users;
+  });
+
+  describe("Wiring", function () {
+    let bank: SavingsBank;
+    let nft: DepositNFT;
+
+    beforeEach(async function () {
+      const { addresses, timelock } = await deploySavingsSystem();
+      bank = await deploySavingsBank(
+        addresses.usdc,
+        addresses.tokenVault,
+        addresses.interestVault,
+        ethers.ZeroAddress,
+        ethers.ZeroAddress,
+        await timelock.getAddress()
+      );
+      nft = (await (await ethers.getContractFactory("DepositNFT")).deploy(await bank.getAddress())) as DepositNFT;
+    });
+
+    it("sets the DepositNFT once through DEFAULT_ADMIN_ROLE", async function () {
+      expect(await bank.depositNFT()).to.equal(ethers.ZeroAddress);
+      await expect(bank.connect(user1).setDepositNFT(nft)).to.be.revertedWithCustomError(
+        bank,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(bank.setDepositNFT(ethers.ZeroAddress)).to.be.revertedWith("SavingsBank: Invalid DepositNFT");
+
+      await expect(bank.setDepositNFT(nft))
+        .to.emit(bank, "DepositNFTUpdated")
+        .withArgs(await nft.getAddress());
+      expect(await bank.depositNFT()).to.equal(await nft.getAddress());
+      await expect(bank.setDepositNFT(nft)).to.be.revertedWith("SavingsBank: DepositNFT already set");
+    });
+
+    it("cannot be replaced on a bank initialized with a DepositNFT", async function () {
+      await expect(savingsBank.setDepositNFT(nft)).to.be.revertedWith("SavingsBank: DepositNFT already set");
+    });
+
+    it("rejects a zero SavingsBank in the constructor", async function () {
+      const factory = await ethers.getContractFactory("DepositNFT");
+      await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWith("DepositNFT: Invalid SavingsBank");
+    });
+  });
+
+  describe("Metadata", function () {
+    beforeEach(async function () {
+      await savingsBank.connect(user1).openDeposit(2, parseUSDC("1234.5"), true);
+    });
+
+    it("serves the certificate as base64 JSON with an SVG image", async function () {
+      await time.increase(10 * DAY);
+      const json = decodeURI(await depositNFT.tokenURI(1));
+      const trait = (name: string) => json.attributes.find((a: { trait_type: string }) => a.trait_type === name).value;
+
+      expect(json.name).to.equal("Deposit Certificate #1");
+      expect(trait("Plan")).to.equal("30 Days");
+      expect(trait("Asset")).to.equal("USDC");
+      expect(trait("Principal (USDC)")).to.equal("1234.500000");
+      expect(trait("Locked APR")).to.equal("8.00%");
+      expect(trait("Duration (Days)")).to.equal(30);
+      expect(trait("Days Elapsed")).to.equal(10);
+      expect(trait("Days Remaining")).to.equal(20);
+      expect(trait("Status")).to.equal("Active");
+      expect(trait("Auto-Renew")).to.equal("Enabled");
+      expect(trait("Renewal count")).to.equal(0);
+
+      const [prefix, image] = json.image.split(",");
+      expect(prefix).to.equal("data:image/svg+xml;base64");
+      const svg = Buffer.from(image, "base64").toString();
+      expect(svg).to.match(/^<svg /);
+      expect(svg).to.contain("Principal: 1234.500000 USDC");
+      expect(svg).to.contain(">33%</text>");
+    });
+
+    it("follows the certificate through changes and transfers", async function () {
+      await savingsBank.connect(user1).setAutoRenew(1, false);
+      await depositNFT.connect(user1).transferFrom(user1.address, user2.address, 1);
+      await expect(savingsBank.connect(user2).increaseDeposit(1, parseUSDC("765.5")))
+        .to.emit(depositNFT, "MetadataUpdated")
+        .withArgs(1);
+
+      const json = decodeURI(await depositNFT.tokenURI(1));
+      const trait = (name: string) => json.attributes.find((a: { trait_type: string }) => a.trait_type === name).value;
+      expect(trait("Auto-Renew")).to.equal("Disabled");
+      expect(trait("Principal (USDC)")).to.equal("2000.000000");
+    });
+
+    it("is minted and burned only by SavingsBank", async function () {
+      expect(await depositNFT.owner()).to.equal(await savingsBank.getAddress());
+      await expect(depositNFT.connect(admin).mint(admin.address, 9)).to.be.revertedWithCustomError(
+        depositNFT,
+        "OwnableUnauthorizedAccount"
+      );
+
+      await time.increase(30 * DAY);
+      await savingsBank.connect(user1).withdraw(1);
+      await expect(depositNFT.tokenURI(1)).to.be.revertedWithCustomError(depositNFT, "ERC721NonexistentToken");
+    });
+  });
+});
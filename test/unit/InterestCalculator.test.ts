@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { DayCount, InterestMode, calculateInterest, countDays } from "../../sdk";
 
 /**
  * InterestCalculator library tests (localhost).
@@ -59,4 +60,102 @@ describe("InterestCalculator", function () {
       expect(penalty).to.equal(0);
     });
   });
+
+  describe("interest modes", function () {
+    const DAY = 86_400n;
+    const utc = (y: number, m: number, d: number) => BigInt(Date.UTC(y, m - 1, d) / 1000);
+    const principal = toUSDC(10000);
+
+    it("matches the whole-day formula for Simple / Actual365", async function () {
+      const start = utc(2025, 1, 15) + 3600n;
+      const end = start + 90n * DAY + 500n; // partial day is ignored
+
+      const interest = await testContract.calculateInterestWithMode(
+        principal,
+        800,
+        start,
+        end,
+        InterestMode.Simple,
+        DayCount.Actual365
+      );
+      expect(interest).to.equal(await testContract.calculateInterest(principal, 800, 90));
+    });
+
+    it("counts 30/360 days with the ISDA end-of-month rules", async function () {
+      const cases: [bigint, bigint, bigint][] = [
+        [utc(2025, 1, 31), utc(2025, 3, 1), 31n], // D1 31 -> 30
+        [utc(2025, 1, 30), utc(2025, 3, 31), 60n], // D2 31 -> 30 because D1 == 30
+        [utc(2025, 2, 28), utc(2025, 3, 31), 33n], // D2 stays 31
+        [utc(2024, 12, 15), utc(2025, 3, 15), 90n],
+      ];
+
+      for (const [start, end, expected] of cases) {
+        expect(await testContract.countDays(start, end, DayCount.Thirty360)).to.equal(expected);
+        expect(countDays(start, end, DayCount.Thirty360)).to.equal(expected);
+      }
+    });
+
+    it("compounds daily above simple interest", async function () {
+      const start = utc(2025, 1, 1);
+      const end = start + 365n * DAY;
+
+      const compound = await testContract.calculateInterestWithMode(
+        principal,
+        1000,
+        start,
+        end,
+        InterestMode.DailyCompound,
+        DayCount.Actual365
+      );
+
+      // 10,000 * ((1 + 0.10/365)^365 - 1) ≈ 1051.56 USDC
+      expect(compound).to.be.closeTo(toUSDC(1051.56), toUSDC(0.01));
+      expect(compound).to.be.gt(toUSDC(1000));
+    });
+
+    it("accrues per second including partial days", async function () {
+      const start = utc(2025, 1, 1);
+      const end = start + DAY / 2n;
+
+      const interest = await testContract.calculateInterestWithMode(
+        principal,
+        1000,
+        start,
+        end,
+        InterestMode.PerSecond,
+        DayCount.Actual365
+      );
+      expect(interest).to.be.gt(0);
+      expect(interest).to.equal((principal * 1000n * (DAY / 2n)) / (365n * DAY * 10_000n));
+    });
+
+    it("matches the TypeScript reference implementation", async function () {
+      // Deterministic sweep over amounts, rates, month/year boundaries and all modes
+      let seed = 7;
+      const rand = (n: number) => {
+        seed = (seed * 1103515245 + 12345) % 2 ** 31;
+        return seed % n;
+      };
+
+      const modes: [InterestMode, DayCount][] = [
+        [InterestMode.Simple, DayCount.Actual365],
+        [InterestMode.Simple, DayCount.Thirty360],
+        [InterestMode.DailyCompound, DayCount.Actual365],
+        [InterestMode.DailyCompound, DayCount.Thirty360],
+        [InterestMode.PerSecond, DayCount.Actual365],
+      ];
+
+      for (let i = 0; i < 40; i++) {
+        const amount = toUSDC(1 + rand(1_000_000)) + BigInt(rand(1_000_000));
+        const aprBps = BigInt(1 + rand(10_000));
+        const start = utc(2023, 1, 1) + BigInt(rand(3 * 365)) * DAY + BigInt(rand(86_400));
+        const end = start + BigInt(rand(4 * 365)) * DAY + BigInt(rand(86_400));
+        const [mode, dayCount] = modes[i % modes.length];
+
+        const onChain = await testContract.calculateInterestWithMode(amount, aprBps, start, end, mode, dayCount);
+        const reference = calculateInterest({ principal: amount, aprBps, startTime: start, endTime: end, mode, dayCount });
+        expect(onChain, `case ${i}`).to.equal(reference);
+      }
+    });
+  });
 });
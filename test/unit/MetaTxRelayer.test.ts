@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import type { HDNodeWallet, Signer } from "ethers";
+import { DepositNFT, MockUSDC, SavingsBank } from "../../typechain";
+import { ForwardRequestData, GaslessAction, parseUSDC, signPermit, signSavingsIntent } from "../../sdk";
+import { MetaTxRelayer, RelayError, RelayErrorCode, RelayerLogger } from "../../relayer";
+import { deploySavingsSystem } from "../helpers/fixtures";
+
+const DAY = 24 * 60 * 60;
+const silent: RelayerLogger = { info: () => {}, warn: () => {}, error: () => {} };
+
+/**
+ * Gasless SavingsBank actions through SavingsForwarder (ERC-2771) and MetaTxRelayer.
+ * `wallet` is a fresh key with USDC but no ETH; every transaction is paid by the relayer.
+ */
+describe("MetaTxRelayer", function () {
+  let usdc: MockUSDC;
+  let depositNFT: DepositNFT;
+  let savingsBank: SavingsBank;
+  let user1: SignerWithAddress;
+  let relayerSigner: SignerWithAddress;
+  let wallet: HDNodeWallet;
+  let relayer: MetaTxRelayer;
+  let bankAddr: string;
+  let forwarderAddr: string;
+  let tokenVaultAddr: string;
+
+  const intent = (action: GaslessAction, args: unknown[], signer: Signer = wallet, gas?: bigint) =>
+    signSavingsIntent(signer, forwarderAddr, bankAddr, action, args, { gas });
+
+  async function expectRelayError(promise: Promise<unknown>, code: RelayErrorCode, message?: string) {
+    try {
+      await promise;
+    } catch (e) {
+      expect(e).to.be.instanceOf(RelayError);
+      expect((e as RelayError).code).to.equal(code);
+      if (message) expect((e as RelayError).message).to.contain(message);
+      return;
+    }
+    expect.fail(`expected RelayError ${code}`);
+  }
+
+  /** Gasless deposit: permit for TokenVault + openDepositWithPermit intent */
+  async function openGasless(planId: number, amount: bigint, autoRenew: boolean): Promise<bigint> {
+    const permit = await signPermit(
+      wallet,
+      await usdc.getAddress(),
+      tokenVaultAddr,
+      amount,
+      BigInt(await time.latest()) + 3600n
+    );
+    const request = await intent("openDepositWithPermit", [
+      planId,
+      amount,
+      autoRenew,
+      permit.deadline,
+      permit.v,
+      permit.r,
+      permit.s,
+    ]);
+    const result = await relayer.relay(request);
+    return BigInt(result.events.find((e) => e.name === "DepositOpened")!.args.depositId as string);
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ usdc, depositNFT, savingsBank } = system);
+    [user1, , , , relayerSigner] = system.users;
+    bankAddr = system.addresses.savingsBank;
+    forwarderAddr = system.addresses.forwarder!;
+    tokenVaultAddr = system.addresses.tokenVault;
+
+    wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+    await usdc.mint(wallet.address, parseUSDC("10000"));
+
+    relayer = new MetaTxRelayer(relayerSigner, forwarderAddr, bankAddr, { logger: silent });
+  });
+
+  describe("SavingsBank ERC-2771", function () {
+    it("trusts only the forwarder it was deployed with", async function () {
+      expect(await savingsBank.isTrustedForwarder(forwarderAddr)).to.equal(true);
+      expect(await savingsBank.isTrustedForwarder(relayerSigner.address)).to.equal(false);
+    });
+
+    it("ignores an appended sender on direct calls", async function () {
+      await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+      await time.increase(7 * DAY);
+
+      // user1 tries to spoof another owner by appending an address to the calldata
+      const data = ethers.concat([savingsBank.interface.encodeFunctionData("withdraw", [1]), wallet.address]);
+      await expect(relayerSigner.sendTransaction({ to: bankAddr, data })).to.be.revertedWith("SavingsBank: Not owner");
+    });
+  });
+
+  describe("gasless actions", function () {
+    it("opens a deposit for a wallet without ETH", async function () {
+      const depositId = await openGasless(2, parseUSDC("1000"), false);
+
+      expect(depositId).to.equal(1n);
+      expect(await depositNFT.ownerOf(depositId)).to.equal(wallet.address);
+      expect(await savingsBank.depositOwner(depositId)).to.equal(wallet.address);
+      expect(await usdc.balanceOf(wallet.address)).to.equal(parseUSDC("9000"));
+      expect(await ethers.provider.getBalance(wallet.address)).to.equal(0n);
+    });
+
+    it("opens a deposit from an existing allowance", async function () {
+      await usdc.connect(user1).approve(tokenVaultAddr, parseUSDC("1000"));
+      const result = await relayer.relay(await intent("openDeposit", [1, parseUSDC("1000"), true], user1));
+
+      expect(result.action).to.equal("openDeposit");
+      expect(result.from).to.equal(user1.address);
+      expect(await depositNFT.ownerOf(1)).to.equal(user1.address);
+    });
+
+    it("sets auto-renew and renews for the signer", async function () {
+      const depositId = await openGasless(1, parseUSDC("1000"), false);
+
+      await relayer.relay(await intent("setAutoRenew", [depositId, true]));
+      expect((await savingsBank.deposits(depositId)).isAutoRenewEnabled).to.equal(true);
+
+      await time.increase(7 * DAY);
+      const result = await relayer.relay(await intent("autoRenew", [depositId]));
+      const renewed = result.events.find((e) => e.name === "AutoRenewed")!;
+
+      expect(renewed.args.oldDepositId).to.equal(depositId.toString());
+      expect(await depositNFT.ownerOf(BigInt(renewed.args.newDepositId as string))).to.equal(wallet.address);
+    });
+
+    it("withdraws and early-withdraws to the signer", async function () {
+      const matured = await openGasless(1, parseUSDC("1000"), false);
+      const early = await openGasless(2, parseUSDC("1000"), false);
+      await time.increase(7 * DAY);
+
+      const withdrawn = await relayer.relay(await intent("withdraw", [matured]));
+      expect(withdrawn.events.map((e) => e.name)).to.include("Withdrawn");
+
+      const earlyResult = await relayer.relay(await intent("earlyWithdraw", [early]));
+      const event = earlyResult.events.find((e) => e.name === "Withdrawn")!;
+      expect(event.args.owner).to.equal(wallet.address);
+      expect(event.args.isEarly).to.equal(true);
+
+      expect(await usdc.balanceOf(wallet.address)).to.be.greaterThan(parseUSDC("9900"));
+      expect(await ethers.provider.getBalance(wallet.address)).to.equal(0n);
+    });
+  });
+
+  describe("validation", function () {
+    let depositId: bigint;
+
+    beforeEach(async function () {
+      depositId = await openGasless(1, parseUSDC("1000"), false);
+    });
+
+    it("rejects requests to another target or with ETH", async function () {
+      const request = await intent("withdraw", [depositId]);
+      await expectRelayError(relayer.relay({ ...request, to: forwarderAddr }), "INVALID_TARGET");
+      await expectRelayError(relayer.relay({ ...request, value: 1n }), "INVALID_VALUE");
+    });
+
+    it("rejects actions outside the allowlist", async function () {
+      const data = savingsBank.interface.encodeFunctionData("partialEarlyWithdraw", [depositId, parseUSDC("100")]);
+      const request: ForwardRequestData = { ...(await intent("withdraw", [depositId])), data };
+      await expectRelayError(relayer.relay(request), "ACTION_NOT_ALLOWED");
+
+      const withdrawOnly = new MetaTxRelayer(relayerSigner, forwarderAddr, bankAddr, {
+        allowedActions: ["withdraw"],
+        logger: silent,
+      });
+      await expectRelayError(withdrawOnly.relay(await intent("setAutoRenew", [depositId, true])), "ACTION_NOT_ALLOWED");
+    });
+
+    it("rejects expired requests and excessive gas", async function () {
+      const expired = await signSavingsIntent(wallet, forwarderAddr, bankAddr, "withdraw", [depositId], {
+        deadline: BigInt(await time.latest()) + 10n,
+      });
+      await expectRelayError(relayer.relay(expired), "EXPIRED");
+
+      await expectRelayError(relayer.relay(await intent("withdraw", [depositId], wallet, 2_000_000n)), "GAS_TOO_HIGH");
+    });
+
+    it("rejects tampered signatures and replays", async function () {
+      const request = await intent("setAutoRenew", [depositId, true]);
+      const tampered = {
+        ...request,
+        data: savingsBank.interface.encodeFunctionData("setAutoRenew", [depositId, false]),
+      };
+      await expectRelayError(relayer.relay(tampered), "INVALID_SIGNATURE");
+
+      await relayer.relay(request);
+      await expectRelayError(relayer.relay(request), "INVALID_SIGNATURE");
+    });
+
+    it("reports the SavingsBank revert reason without sending a transaction", async function () {
+      const nonce = await ethers.provider.getTransactionCount(relayerSigner.address);
+
+      await expectRelayError(relayer.relay(await intent("withdraw", [depositId])), "SIMULATION_FAILED", "Not matured");
+      await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+      await expectRelayError(relayer.relay(await intent("earlyWithdraw", [2])), "SIMULATION_FAILED", "Not owner");
+
+      // Matured, but the signed gas budget cannot cover the withdrawal
+      await time.increase(7 * DAY);
+      await expectRelayError(relayer.relay(await intent("withdraw", [depositId], wallet, 30_000n)), "GAS_TOO_LOW");
+
+      expect(await ethers.provider.getTransactionCount(relayerSigner.address)).to.equal(nonce);
+    });
+  });
+});
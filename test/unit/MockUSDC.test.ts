@@ -1,11 +1,13 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { MockUSDC } from "../../typechain";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { signPermit } from "../../sdk";
 
 /**
  * MockUSDC unit tests (localhost).
- * ERC20 with 6 decimals and public mint.
+ * ERC20 with 6 decimals, public mint and EIP-2612 permit.
  */
 describe("MockUSDC", function () {
   let mockUSDC: MockUSDC;
@@ -41,5 +43,18 @@ describe("MockUSDC", function () {
     expect(await mockUSDC.balanceOf(owner.address)).to.equal(amount);
     expect(await mockUSDC.balanceOf(user.address)).to.equal(0);
   });
+
+  it("sets allowance from an EIP-2612 permit signature", async function () {
+    const amount = ethers.parseUnits("250", 6);
+    const deadline = BigInt(await time.latest()) + 3600n;
+    const { v, r, s } = await signPermit(user, await mockUSDC.getAddress(), owner.address, amount, deadline);
+
+    await mockUSDC.permit(user.address, owner.address, amount, deadline, v, r, s);
+    expect(await mockUSDC.allowance(user.address, owner.address)).to.equal(amount);
+    expect(await mockUSDC.nonces(user.address)).to.equal(1);
+
+    // Same signature cannot be replayed
+    await expect(mockUSDC.permit(user.address, owner.address, amount, deadline, v, r, s)).to.be.reverted;
+  });
 });
 
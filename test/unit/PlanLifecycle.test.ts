@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { SavingsBank, SavingsTimelock } from "../../typechain";
+import { NO_PLAN_LIMITS, PlanLimits, SavingsClient, TimelockedAction, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+
+/**
+ * Plan lifecycle: opening window, total capacity, per-wallet cap and max active certificates per
+ * wallet, enforced on openDeposit / increaseDeposit and released when certificates close.
+ */
+describe("Plan lifecycle", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let client: SavingsClient;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
+  /** 7-day plan (100 - 10,000 USDC, 5% APR) with the given limits; returns its ID */
+  async function createPlan(limits: Partial<PlanLimits>): Promise<bigint> {
+    await savingsBank.createPlan("Limited", 7, parseUSDC("100"), parseUSDC("10000"), 500, 500, {
+      ...NO_PLAN_LIMITS,
+      ...limits,
+    });
+    return (await savingsBank.nextPlanId()) - 1n;
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, admin } = system);
+    [user1, user2] = system.users;
+    client = new SavingsClient(system.addresses, admin);
+  });
+
+  it("only accepts deposits inside the opening window", async function () {
+    const now = BigInt(await time.latest());
+    await expect(createPlan({ startsAt: now + 10n, endsAt: now + 10n })).to.be.revertedWith(
+      "SavingsBank: Invalid plan window"
+    );
+
+    const planId = await createPlan({ startsAt: now + BigInt(DAY), endsAt: now + BigInt(3 * DAY) });
+    expect(await savingsBank.isPlanOpen(planId)).to.equal(false);
+    await expect(savingsBank.connect(user1).openDeposit(planId, parseUSDC("1000"), false)).to.be.revertedWith(
+      "SavingsBank: Plan not started"
+    );
+
+    await time.increase(DAY);
+    expect(await savingsBank.isPlanOpen(planId)).to.equal(true);
+    await expect(savingsBank.connect(user1).openDeposit(planId, parseUSDC("1000"), false)).to.emit(
+      savingsBank,
+      "DepositOpened"
+    );
+
+    await time.increase(2 * DAY);
+    expect(await savingsBank.isPlanOpen(planId)).to.equal(false);
+    await expect(savingsBank.connect(user1).openDeposit(planId, parseUSDC("1000"), false)).to.be.revertedWith(
+      "SavingsBank: Plan ended"
+    );
+    await expect(savingsBank.connect(user1).increaseDeposit(1, parseUSDC("100"))).to.be.revertedWith(
+      "SavingsBank: Plan ended"
+    );
+
+    // Certificates opened in the window still mature normally
+    await time.increase(5 * DAY);
+    await expect(savingsBank.connect(user1).withdraw(1)).to.emit(savingsBank, "Withdrawn");
+  });
+
+  it("caps the plan principal and each wallet's share", async function () {
+    const planId = await createPlan({ capacity: parseUSDC("3000"), walletCap: parseUSDC("2000") });
+
+    await savingsBank.connect(user1).openDeposit(planId, parseUSDC("1500"), false);
+    await expect(savingsBank.connect(user1).openDeposit(planId, parseUSDC("600"), false)).to.be.revertedWith(
+      "SavingsBank: Wallet cap exceeded"
+    );
+    await expect(savingsBank.connect(user1).increaseDeposit(1, parseUSDC("600"))).to.be.revertedWith(
+      "SavingsBank: Wallet cap exceeded"
+    );
+    await savingsBank.connect(user1).increaseDeposit(1, parseUSDC("500"));
+
+    await expect(savingsBank.connect(user2).openDeposit(planId, parseUSDC("1100"), false)).to.be.revertedWith(
+      "SavingsBank: Plan capacity exceeded"
+    );
+    await savingsBank.connect(user2).openDeposit(planId, parseUSDC("1000"), false);
+
+    expect(await savingsBank.getPlanUsage(planId, user1.address)).to.deep.equal([
+      parseUSDC("3000"),
+      parseUSDC("2000"),
+      1n,
+    ]);
+    expect(await savingsBank.getRemainingCapacity(planId, user2.address)).to.deep.equal([
+      0n,
+      parseUSDC("1000"),
+      2n ** 256n - 1n,
+    ]);
+
+    // Closing a certificate frees its share
+    await savingsBank.connect(user1).partialEarlyWithdraw(1, parseUSDC("500"));
+    expect(await savingsBank.getPlanUsage(planId, user1.address)).to.deep.equal([
+      parseUSDC("2500"),
+      parseUSDC("1500"),
+      1n,
+    ]);
+    await savingsBank.connect(user1).earlyWithdraw(1);
+    await expect(savingsBank.connect(user2).openDeposit(planId, parseUSDC("1000"), false)).to.emit(
+      savingsBank,
+      "DepositOpened"
+    );
+    expect(await savingsBank.getPlanUsage(planId, user1.address)).to.deep.equal([parseUSDC("2000"), 0n, 0n]);
+  });
+
+  it("limits active certificates per wallet without blocking renewals", async function () {
+    const planId = await createPlan({ maxDepositsPerUser: 2n });
+
+    await savingsBank.connect(user1).openDeposit(planId, parseUSDC("1000"), true);
+    await savingsBank.connect(user1).openDeposit(planId, parseUSDC("1000"), false);
+    await expect(savingsBank.connect(user1).openDeposit(planId, parseUSDC("100"), false)).to.be.revertedWith(
+      "SavingsBank: Too many deposits"
+    );
+
+    // The renewed certificate takes the place of the old one
+    await time.increase(7 * DAY);
+    const interest = await savingsBank.calculateInterest(1);
+    await savingsBank.connect(user1).autoRenew(1);
+    expect(await savingsBank.getPlanUsage(planId, user1.address)).to.deep.equal([
+      parseUSDC("2000") + interest,
+      parseUSDC("2000") + interest,
+      2n,
+    ]);
+
+    await savingsBank.connect(user1).withdraw(2);
+    const [, , depositsRemaining] = await savingsBank.getRemainingCapacity(planId, user1.address);
+    expect(depositsRemaining).to.equal(1);
+    await expect(savingsBank.connect(user1).openDeposit(planId, parseUSDC("100"), false)).to.emit(
+      savingsBank,
+      "DepositOpened"
+    );
+  });
+
+  it("changes limits through TIMELOCK_ROLE without touching open certificates", async function () {
+    const planId = await createPlan({});
+    await savingsBank.connect(user1).openDeposit(planId, parseUSDC("2000"), false);
+    const limits = { ...NO_PLAN_LIMITS, capacity: parseUSDC("1000") };
+
+    await expect(savingsBank.updatePlan(planId, 500, 500, limits)).to.be.revertedWithCustomError(
+      savingsBank,
+      "AccessControlUnauthorizedAccount"
+    );
+    await timelocked("updatePlan", [planId, 500, 500, limits]);
+
+    expect((await client.getPlan(planId)).limits.capacity).to.equal(parseUSDC("1000"));
+    await expect(savingsBank.connect(user2).openDeposit(planId, parseUSDC("100"), false)).to.be.revertedWith(
+      "SavingsBank: Plan capacity exceeded"
+    );
+    await time.increase(7 * DAY);
+    await expect(savingsBank.connect(user1).withdraw(1)).to.emit(savingsBank, "Withdrawn");
+  });
+
+  it("reports the depositable amount through SavingsClient", async function () {
+    const planId = await createPlan({
+      capacity: parseUSDC("5000"),
+      walletCap: parseUSDC("3000"),
+      maxDepositsPerUser: 1n,
+    });
+    await savingsBank.connect(user2).openDeposit(planId, parseUSDC("2500"), false);
+
+    let capacity = await client.getPlanCapacity(planId, user1.address);
+    expect(capacity.isOpen).to.equal(true);
+    expect(capacity.planRemaining).to.equal(parseUSDC("2500"));
+    expect(capacity.walletRemaining).to.equal(parseUSDC("3000"));
+    expect(capacity.maxAmount).to.equal(parseUSDC("2500"));
+
+    capacity = await client.getPlanCapacity(planId, user2.address);
+    expect(capacity.walletPrincipal).to.equal(parseUSDC("2500"));
+    expect(capacity.depositsRemaining).to.equal(0);
+    expect(capacity.maxAmount).to.equal(0);
+
+    await savingsBank.enablePlan(planId, false);
+    expect((await client.getPlanCapacity(planId, user1.address)).maxAmount).to.equal(0);
+  });
+});
@@ -0,0 +1,237 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositNFT, InterestVault, SavingsBank, SavingsTimelock } from "../../typechain";
+import { ProtocolIndexer } from "../../indexer";
+import { NO_PLAN_LIMITS, TimelockedAction, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+const DAY = 24 * 60 * 60;
+
+/**
+ * ProtocolIndexer tests (localhost).
+ * Reorgs are simulated with evm_snapshot / evm_revert.
+ */
+describe("ProtocolIndexer", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let interestVault: InterestVault;
+  let depositNFT: DepositNFT;
+  let usdc: string;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let startBlock: number;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
+  async function newIndexer(storePath?: string, blockRange = 2000) {
+    return new ProtocolIndexer(
+      ethers.provider,
+      {
+        savingsBank: await savingsBank.getAddress(),
+        depositNFT: await depositNFT.getAddress(),
+      },
+      { startBlock, storePath, blockRange }
+    );
+  }
+
+  beforeEach(async function () {
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, interestVault, depositNFT, admin } = system);
+    usdc = system.addresses.usdc;
+    [user1, user2] = system.users;
+  });
+
+  it("indexes plans, deposits, withdrawals and vault flows", async function () {
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("5000"), false);
+    await savingsBank.connect(user2).openDeposit(1, parseUSDC("2000"), false);
+    await savingsBank.connect(user2).partialEarlyWithdraw(3, parseUSDC("500"));
+    await savingsBank.enablePlan(2, false);
+    await timelocked("updatePlan", [1, 600, 500, NO_PLAN_LIMITS]);
+
+    await time.increase(7 * DAY);
+    await savingsBank.connect(user1).withdraw(1);
+    await savingsBank.connect(user1).earlyWithdraw(2);
+
+    const indexer = await newIndexer(undefined, 5);
+    const result = await indexer.sync();
+    expect(result.newEvents).to.be.gt(0);
+
+    const view = indexer.view;
+    expect(view.getPlans().map((p) => p.name)).to.deep.equal(["7 Days", "30 Days"]);
+    expect(view.getPlans()[1].isActive).to.equal(false);
+    expect(view.getPlans()[0].updateCount).to.equal(1);
+
+    const mine = view.getDepositsByOwner(user1.address);
+    expect(mine.map((d) => [d.depositId, d.status])).to.deep.equal([
+      [1n, "Withdrawn"],
+      [2n, "EarlyWithdrawn"],
+    ]);
+    expect(mine[0].interestPaid).to.equal((parseUSDC("1000") * 500n * 7n) / (365n * 10_000n));
+    expect(view.getDepositsByOwner(user2.address, { status: "Active" }).length).to.equal(1);
+
+    const plan1 = view.getPlanVolume(1n);
+    expect(plan1.depositCount).to.equal(2);
+    expect(plan1.openedPrincipal).to.equal(parseUSDC("3000"));
+    expect(plan1.activePrincipal).to.equal(parseUSDC("1500"));
+    expect(view.getDeposit(3n)?.partiallyWithdrawn).to.equal(parseUSDC("500"));
+
+    const flows = view.getVaultFlows(usdc);
+    expect(flows.funded).to.equal(parseUSDC("100000"));
+    expect(flows.outstandingReserve).to.equal(await interestVault.totalReserved());
+  });
+
+  it("follows renewal chains and NFT transfers", async function () {
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+    await time.increase(7 * DAY);
+    await savingsBank.connect(user1).autoRenew(1);
+    await depositNFT.connect(user1).transferFrom(user1.address, user2.address, 2);
+    await time.increase(7 * DAY);
+    await savingsBank.connect(user2).autoRenew(2);
+
+    const indexer = await newIndexer();
+    await indexer.sync();
+    const view = indexer.view;
+
+    const chain = view.getRenewalChain(2n);
+    expect(chain.map((d) => d.depositId)).to.deep.equal([1n, 2n, 3n]);
+    expect(chain.map((d) => d.status)).to.deep.equal(["Renewed", "Renewed", "Active"]);
+    expect(chain[2].principal).to.equal((await savingsBank.getDepositDetails(3))[1]);
+
+    expect(view.getDepositsByOwner(user2.address).map((d) => d.depositId)).to.deep.equal([2n, 3n]);
+    expect(view.getDepositsByOwner(user2.address, { status: "Active" })[0].depositId).to.equal(3n);
+    expect(view.getPlanVolume(1n).renewalCount).to.equal(2);
+    expect(await interestVault.totalReserved()).to.equal(view.getVaultFlows(usdc).outstandingReserve);
+
+    // Without the NFT, SavingsBank's DepositTransferred events track the same owners
+    const bankOnly = new ProtocolIndexer(
+      ethers.provider,
+      { savingsBank: await savingsBank.getAddress() },
+      { startBlock }
+    );
+    await bankOnly.sync();
+    expect(bankOnly.view.getDepositsByOwner(user2.address).map((d) => d.depositId)).to.deep.equal([2n, 3n]);
+  });
+
+  it("records split and merged certificates without counting their principal twice", async function () {
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    await savingsBank.connect(user1).splitDeposit(1, [parseUSDC("300"), parseUSDC("300"), parseUSDC("400")]);
+    await depositNFT.connect(user1).transferFrom(user1.address, user2.address, 4);
+    await savingsBank.connect(user1).mergeDeposits([2, 3]);
+
+    const indexer = await newIndexer();
+    await indexer.sync();
+    const view = indexer.view;
+
+    expect(view.getDeposit(1n)?.status).to.equal("Split");
+    expect(view.getDeposit(1n)?.restructuredInto).to.deep.equal([2n, 3n, 4n]);
+    expect(view.getDeposit(2n)?.status).to.equal("Merged");
+    expect(view.getDeposit(4n)).to.include({ owner: user2.address, principal: parseUSDC("400"), status: "Active" });
+
+    const merged = view.getDeposit(5n)!;
+    expect(merged.restructuredFrom).to.deep.equal([2n, 3n]);
+    expect(merged).to.include({ owner: user1.address, principal: parseUSDC("600"), planId: 1n });
+
+    const volume = view.getPlanVolume(1n);
+    expect(volume.depositCount).to.equal(1);
+    expect(volume.openedPrincipal).to.equal(parseUSDC("1000"));
+    expect(volume.activePrincipal).to.equal(parseUSDC("1000"));
+    expect(await interestVault.totalReserved()).to.equal(view.getVaultFlows(usdc).outstandingReserve);
+  });
+
+  it("indexes the InterestVault of every registered asset, including assets added later", async function () {
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    const indexer = await newIndexer();
+    await indexer.sync();
+
+    const dai = await (await ethers.getContractFactory("MockERC20")).deploy("Mock DAI", "DAI", 18);
+    const daiTokenVault = await (await ethers.getContractFactory("TokenVault")).deploy(dai);
+    const daiInterestVault = await (await ethers.getContractFactory("InterestVault")).deploy(dai);
+    await daiTokenVault.transferOwnership(savingsBank);
+    await daiInterestVault.transferOwnership(savingsBank);
+    await savingsBank.addAsset(dai, daiTokenVault, daiInterestVault);
+    await savingsBank.createAssetPlan(dai, "DAI", 30, 1, ethers.MaxUint256, 500, 500, NO_PLAN_LIMITS);
+    await dai.mint(admin.address, ethers.parseEther("1000"));
+    await dai.approve(daiInterestVault, ethers.parseEther("1000"));
+    await savingsBank.fundAssetVault(dai, ethers.parseEther("1000"));
+    await timelocked("withdrawAssetVault", [await dai.getAddress(), admin.address, ethers.parseEther("100")]);
+    await dai.mint(user2.address, ethers.parseEther("500"));
+    await dai.connect(user2).approve(daiTokenVault, ethers.MaxUint256);
+    await savingsBank.connect(user2).openDeposit(3, ethers.parseEther("500"), false);
+
+    await indexer.sync();
+    const daiAddress = await dai.getAddress();
+    const daiFlows = indexer.view.getVaultFlows(daiAddress);
+    expect(daiFlows.funded).to.equal(ethers.parseEther("1000"));
+    expect(daiFlows.withdrawn).to.equal(ethers.parseEther("100"));
+    expect(daiFlows.outstandingReserve).to.be.gt(0);
+    expect(daiFlows.outstandingReserve).to.equal(await daiInterestVault.totalReserved());
+
+    // USDC flows are kept apart
+    const usdcFlows = indexer.view.getVaultFlows(usdc);
+    expect(usdcFlows.funded).to.equal(parseUSDC("100000"));
+    expect(usdcFlows.outstandingReserve).to.equal(await interestVault.totalReserved());
+
+    // A fresh index over the same blocks finds the DAI vault too
+    const fresh = await newIndexer();
+    await fresh.sync();
+    expect(fresh.view.getVaultFlows(daiAddress)).to.deep.equal(daiFlows);
+  });
+
+  it("resumes from the persisted checkpoint", async function () {
+    const storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "store.json");
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+
+    const first = await newIndexer(storePath);
+    await first.sync();
+    const indexedTo = first.lastBlock;
+
+    await savingsBank.connect(user2).openDeposit(1, parseUSDC("2000"), false);
+
+    const second = await newIndexer(storePath);
+    const result = await second.sync();
+    expect(result.fromBlock).to.equal(indexedTo + 1);
+    expect(result.newEvents).to.be.gt(0);
+    expect(second.view.getPlanVolume(1n).depositCount).to.equal(2);
+  });
+
+  it("rolls back events from reorged blocks", async function () {
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    const snapshot = await network.provider.send("evm_snapshot");
+
+    // Orphaned branch: user2 deposits
+    await savingsBank.connect(user2).openDeposit(1, parseUSDC("2000"), false);
+    await savingsBank.connect(user2).openDeposit(2, parseUSDC("3000"), false);
+
+    const indexer = await newIndexer();
+    await indexer.sync();
+    expect(indexer.view.getDepositsByOwner(user2.address).length).to.equal(2);
+
+    // Canonical branch: user1 deposits instead
+    await network.provider.send("evm_revert", [snapshot]);
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("4000"), false);
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("4000"), false);
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("4000"), false);
+
+    const result = await indexer.sync();
+    expect(result.reorgedTo).to.not.be.undefined;
+
+    const view = indexer.view;
+    expect(view.getDepositsByOwner(user2.address)).to.be.empty;
+    expect(view.getDepositsByOwner(user1.address).map((d) => d.principal)).to.deep.equal([
+      parseUSDC("1000"),
+      parseUSDC("4000"),
+      parseUSDC("4000"),
+      parseUSDC("4000"),
+    ]);
+    expect(view.getVaultFlows(usdc).outstandingReserve).to.equal(await interestVault.totalReserved());
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositNFT, InterestVault, SavingsBank, SavingsTimelock } from "../../typechain";
+import { SavingsClient, TimelockedAction, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+
+/**
+ * Loyalty bonus: each consecutive autoRenew locks the certificate's base APR plus
+ * min(renewalCount * renewalBonusBps, maxRenewalBonusBps); withdrawing ends the chain.
+ */
+describe("Renewal bonus", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let interestVault: InterestVault;
+  let depositNFT: DepositNFT;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let client: SavingsClient;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
+  /** Let deposit `id` (plan 1, 7 days) mature and renew it; returns the new deposit ID */
+  async function renew(id: bigint): Promise<bigint> {
+    await time.increase(7 * DAY);
+    await savingsBank.connect(user1).autoRenew(id);
+    return id + 1n;
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, interestVault, depositNFT, admin } = system);
+    [user1] = system.users;
+    client = new SavingsClient(system.addresses, admin);
+  });
+
+  it("only accepts a bonus within its cap through TIMELOCK_ROLE", async function () {
+    await expect(savingsBank.connect(user1).setPlanRenewalBonus(1, 25, 60)).to.be.revertedWithCustomError(
+      savingsBank,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(timelocked("setPlanRenewalBonus", [9, 25, 60])).to.be.revertedWith("SavingsBank: Plan not found");
+    await expect(timelocked("setPlanRenewalBonus", [1, 61, 60])).to.be.revertedWith("SavingsBank: Invalid renewal bonus");
+    await expect(timelocked("setPlanRenewalBonus", [1, 25, 10_001])).to.be.revertedWith(
+      "SavingsBank: Invalid renewal bonus"
+    );
+
+    await expect(timelocked("setPlanRenewalBonus", [1, 25, 60])).to.emit(savingsBank, "PlanUpdated").withArgs(1);
+    const plan = await client.getPlan(1);
+    expect(plan.renewalBonusBps).to.equal(25);
+    expect(plan.maxRenewalBonusBps).to.equal(60);
+  });
+
+  it("adds the bonus per consecutive renewal up to the cap and reserves interest at it", async function () {
+    await timelocked("setPlanRenewalBonus", [1, 25, 60]);
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+
+    let id = 1n;
+    for (const [count, bonus] of [
+      [1n, 25n],
+      [2n, 50n],
+      [3n, 60n],
+      [4n, 60n],
+    ]) {
+      id = await renew(id);
+      expect(await savingsBank.getDepositRenewal(id)).to.deep.equal([count, bonus]);
+      expect((await savingsBank.deposits(id)).lockedAprBps).to.equal(500n + bonus);
+      expect(await interestVault.totalReserved()).to.equal(await savingsBank.calculateInterest(id));
+    }
+
+    // Base APR stays locked: plan rate changes only move new deposits
+    await timelocked("updatePlan", [1, 700, 500, (await client.getPlan(1)).limits]);
+    id = await renew(id);
+    expect((await savingsBank.deposits(id)).lockedAprBps).to.equal(560);
+
+    const deposit = await client.getDeposit(id);
+    expect(deposit.renewalCount).to.equal(5);
+    expect(deposit.renewalBonusBps).to.equal(60);
+  });
+
+  it("starts a new chain after a withdrawal", async function () {
+    await timelocked("setPlanRenewalBonus", [1, 25, 60]);
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+    const renewed = await renew(1n);
+
+    await time.increase(7 * DAY);
+    await savingsBank.connect(user1).withdraw(renewed);
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+    expect(await savingsBank.getDepositRenewal(3)).to.deep.equal([0n, 0n]);
+    expect((await savingsBank.deposits(3)).lockedAprBps).to.equal(500);
+
+    // Without a bonus the count still grows and the APR is unchanged
+    await timelocked("setPlanRenewalBonus", [1, 0, 0]);
+    await renew(3n);
+    expect(await savingsBank.getDepositRenewal(4)).to.deep.equal([1n, 0n]);
+    expect((await savingsBank.deposits(4)).lockedAprBps).to.equal(500);
+  });
+
+  it("shows the renewal count in the certificate metadata", async function () {
+    await timelocked("setPlanRenewalBonus", [1, 25, 60]);
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+    await renew(await renew(1n));
+
+    const uri = await depositNFT.tokenURI(3);
+    const json = JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+    const trait = (name: string) => json.attributes.find((a: { trait_type: string }) => a.trait_type === name).value;
+
+    expect(trait("Renewal count")).to.equal(2);
+    expect(trait("Locked APR")).to.equal("5.50%");
+  });
+});
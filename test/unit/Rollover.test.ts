@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositNFT, InterestVault, MockUSDC, SavingsBank, SavingsTimelock, TokenVault } from "../../typechain";
+import { NO_PLAN_LIMITS, SavingsClient, TimelockedAction, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+
+/**
+ * rollover: move a matured certificate into any active plan at its current rate; the principal
+ * stays in TokenVault and the interest is compounded or paid out.
+ */
+describe("Rollover", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let usdc: MockUSDC;
+  let tokenVault: TokenVault;
+  let interestVault: InterestVault;
+  let depositNFT: DepositNFT;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let client: SavingsClient;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, usdc, tokenVault, interestVault, depositNFT, admin } = system);
+    [user1, user2] = system.users;
+    client = new SavingsClient(system.addresses, user1);
+
+    // Deposit #1: 1,000 USDC in plan 1 (7 days, 5%), matured
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+    await time.increase(7 * DAY);
+  });
+
+  it("compounds the interest into a new certificate of the target plan at its current rate", async function () {
+    const interest = await savingsBank.calculateInterest(1);
+    const newPrincipal = parseUSDC("1000") + interest;
+    const [userBefore, tokenVaultBefore] = [await usdc.balanceOf(user1.address), await usdc.balanceOf(tokenVault)];
+
+    await expect(savingsBank.connect(user1).rollover(1, 2, false))
+      .to.emit(savingsBank, "RolledOver")
+      .withArgs(1, 2, 2, newPrincipal, 0, 800);
+
+    const cert = await savingsBank.deposits(2);
+    expect(cert.planId).to.equal(2);
+    expect(cert.principal).to.equal(newPrincipal);
+    expect(cert.maturityTime - cert.startTime).to.equal(30 * DAY);
+    expect(cert.isAutoRenewEnabled).to.equal(true);
+    expect((await savingsBank.deposits(1)).status).to.equal(3); // RENEWED
+    expect(await depositNFT.ownerOf(2)).to.equal(user1.address);
+    await expect(depositNFT.ownerOf(1)).to.be.reverted;
+
+    // Funds stay in the protocol; the reservation now covers the new term only
+    expect(await usdc.balanceOf(user1.address)).to.equal(userBefore);
+    expect(await usdc.balanceOf(tokenVault)).to.equal(tokenVaultBefore + interest);
+    expect(await interestVault.totalReserved()).to.equal(await savingsBank.calculateInterest(2));
+
+    expect(await savingsBank.getPlanUsage(1, user1.address)).to.deep.equal([0n, 0n, 0n]);
+    expect(await savingsBank.getPlanUsage(2, user1.address)).to.deep.equal([newPrincipal, newPrincipal, 1n]);
+  });
+
+  it("pays the interest out and locks the tier of the rolled principal", async function () {
+    await timelocked("setPlanAprTiers", [2, [{ minAmount: parseUSDC("1000"), aprBps: 900 }]]);
+    const interest = await savingsBank.calculateInterest(1);
+    const userBefore = await usdc.balanceOf(user1.address);
+
+    // Long after the auto-renew grace period
+    await time.increase(30 * DAY);
+    const result = await client.rollover(1, 2, true);
+
+    expect(result.newDepositId).to.equal(2);
+    expect(result.newPlanId).to.equal(2);
+    expect(result.newPrincipal).to.equal(parseUSDC("1000"));
+    expect(result.interestPaid).to.equal(interest);
+    expect(result.lockedAprBps).to.equal(900);
+    expect(await usdc.balanceOf(user1.address)).to.equal(userBefore + interest);
+    expect(await interestVault.totalReserved()).to.equal(await savingsBank.calculateInterest(2));
+  });
+
+  it("rolls into the same plan at its current rate and starts a new renewal chain", async function () {
+    await timelocked("updatePlan", [1, 600, 500, NO_PLAN_LIMITS]);
+    await timelocked("setPlanRenewalBonus", [1, 25, 50]);
+
+    await savingsBank.connect(user1).rollover(1, 1, false);
+    expect((await savingsBank.deposits(2)).lockedAprBps).to.equal(600);
+    expect(await savingsBank.getDepositRenewal(2)).to.deep.equal([0n, 0n]);
+  });
+
+  it("rolls a certificate whose interest rounds to zero", async function () {
+    // Plan 3: 7 days at 1%, down to 0.001 USDC; a partial withdrawal leaves too little to earn interest
+    await savingsBank.createPlan("Dust", 7, 1000, parseUSDC("5000"), 100, 500, NO_PLAN_LIMITS);
+    await savingsBank.connect(user1).openDeposit(3, parseUSDC("1000"), false);
+    await savingsBank.connect(user1).partialEarlyWithdraw(2, parseUSDC("1000") - 1000n);
+    expect(await savingsBank.calculateInterest(2)).to.equal(0);
+    await time.increase(7 * DAY);
+
+    await expect(savingsBank.connect(user1).rollover(2, 3, false))
+      .to.emit(savingsBank, "RolledOver")
+      .withArgs(2, 3, 3, 1000, 0, 100);
+    await expect(savingsBank.connect(user1).rollover(1, 1, true)).to.emit(savingsBank, "RolledOver");
+    expect(await interestVault.totalReserved()).to.equal(await savingsBank.calculateInterest(4));
+  });
+
+  it("only rolls a matured certificate of the caller into an open plan of the same asset", async function () {
+    await expect(savingsBank.connect(user2).rollover(1, 2, false)).to.be.revertedWith("SavingsBank: Not owner");
+    await expect(savingsBank.connect(user1).rollover(1, 9, false)).to.be.revertedWith("SavingsBank: Plan not found");
+
+    await savingsBank.enablePlan(2, false);
+    await expect(savingsBank.connect(user1).rollover(1, 2, false)).to.be.revertedWith("SavingsBank: Plan not active");
+    await savingsBank.enablePlan(2, true);
+
+    await savingsBank.createPlan("Small", 7, parseUSDC("100"), parseUSDC("500"), 500, 500, NO_PLAN_LIMITS);
+    await expect(savingsBank.connect(user1).rollover(1, 3, false)).to.be.revertedWith("SavingsBank: Above maxDeposit");
+    await savingsBank.createPlan("Full", 7, parseUSDC("100"), parseUSDC("5000"), 500, 500, {
+      ...NO_PLAN_LIMITS,
+      capacity: parseUSDC("1000"),
+    });
+    await expect(savingsBank.connect(user1).rollover(1, 4, false)).to.be.revertedWith(
+      "SavingsBank: Plan capacity exceeded"
+    );
+
+    const dai = await (await ethers.getContractFactory("MockERC20")).deploy("Mock DAI", "DAI", 18);
+    const daiTokenVault = await (await ethers.getContractFactory("TokenVault")).deploy(dai);
+    const daiInterestVault = await (await ethers.getContractFactory("InterestVault")).deploy(dai);
+    await savingsBank.addAsset(dai, daiTokenVault, daiInterestVault);
+    await savingsBank.createAssetPlan(dai, "DAI", 7, 1, ethers.MaxUint256, 500, 500, NO_PLAN_LIMITS);
+    await expect(savingsBank.connect(user1).rollover(1, 5, false)).to.be.revertedWith("SavingsBank: Asset mismatch");
+
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    await expect(savingsBank.connect(user1).rollover(2, 2, false)).to.be.revertedWith("SavingsBank: Not matured");
+  });
+});
@@ -1,29 +1,39 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import {
+  MockERC20,
   MockUSDC,
+  MockUSDT,
   TokenVault,
   InterestVault,
-  MockDepositNFT,
+  DepositNFT,
   SavingsBank,
+  SavingsTimelock,
 } from "../../typechain";
+import { DayCount, InterestMode, NO_PLAN_LIMITS, TimelockedAction, calculateInterest, signPermit } from "../../sdk";
+import { deployDepositNFT, deploySavingsBank, deploySavingsTimelock, executeTimelocked } from "../helpers/fixtures";
 
 /**
  * SavingsBank unit tests (localhost).
- * MockUSDC + TokenVault + InterestVault + MockDepositNFT + SavingsBank.
+ * MockUSDC + TokenVault + InterestVault + SavingsBank + DepositNFT.
  */
 describe("SavingsBank (Pragmatic SOLID)", function () {
   let usdc: MockUSDC;
   let tokenVault: TokenVault;
   let interestVault: InterestVault;
-  let depositNFT: MockDepositNFT;
+  let depositNFT: DepositNFT;
   let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
   let admin: any;
   let user1: any;
   let user2: any;
   let feeReceiver: any;
 
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
   const BPS_DENOMINATOR = 10_000n;
   const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
 
@@ -71,25 +81,22 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
     interestVault = (await InterestVaultFactory.deploy(await usdc.getAddress())) as InterestVault;
     await interestVault.waitForDeployment();
 
-    // Deploy MockDepositNFT
-    const MockDepositNFTFactory = await ethers.getContractFactory("MockDepositNFT");
-    depositNFT = (await MockDepositNFTFactory.deploy()) as MockDepositNFT;
-    await depositNFT.waitForDeployment();
-
-    // Deploy SavingsBank (direct deployment)
-    const SavingsBankFactory = await ethers.getContractFactory("SavingsBank");
-    savingsBank = (await SavingsBankFactory.deploy(
+    // Deploy SavingsTimelock (no delay; admin proposes and executes) and SavingsBank
+    // (transparent proxy, no trusted forwarder), then its DepositNFT
+    timelock = await deploySavingsTimelock(0, admin.address, admin.address);
+    savingsBank = await deploySavingsBank(
       await usdc.getAddress(),
       await tokenVault.getAddress(),
       await interestVault.getAddress(),
-      await depositNFT.getAddress()
-    )) as SavingsBank;
-    await savingsBank.waitForDeployment();
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      await timelock.getAddress()
+    );
+    depositNFT = await deployDepositNFT(savingsBank);
 
-    // Transfer ownership of vaults and NFT to SavingsBank
+    // Transfer ownership of vaults to SavingsBank
     await tokenVault.transferOwnership(await savingsBank.getAddress());
     await interestVault.transferOwnership(await savingsBank.getAddress());
-    await depositNFT.transferOwnership(await savingsBank.getAddress());
 
     // Fund InterestVault via SavingsBank helper
     const fundAmount = ethers.parseUnits("100000", 6);
@@ -104,7 +111,8 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
       PLAN_7_DAYS.minDeposit,
       PLAN_7_DAYS.maxDeposit,
       PLAN_7_DAYS.aprBps,
-      500 // 5% penalty
+      500, // 5% penalty
+      NO_PLAN_LIMITS
     );
 
     await savingsBank.connect(admin).createPlan(
@@ -113,7 +121,8 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
       PLAN_30_DAYS.minDeposit,
       PLAN_30_DAYS.maxDeposit,
       PLAN_30_DAYS.aprBps,
-      500 // 5% penalty
+      500, // 5% penalty
+      NO_PLAN_LIMITS
     );
 
     await savingsBank.connect(admin).createPlan(
@@ -122,7 +131,8 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
       PLAN_90_DAYS.minDeposit,
       PLAN_90_DAYS.maxDeposit,
       PLAN_90_DAYS.aprBps,
-      500 // 5% penalty
+      500, // 5% penalty
+      NO_PLAN_LIMITS
     );
 
     // Approve TokenVault for principal
@@ -310,6 +320,169 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
     });
   });
 
+  describe("openDepositWithPermit()", function () {
+    const amount = ethers.parseUnits("1000", 6);
+    let user3: any;
+
+    beforeEach(async function () {
+      user3 = (await ethers.getSigners())[4];
+      await usdc.mint(user3.address, amount);
+    });
+
+    const permit = async (value: bigint, deadline?: bigint) =>
+      signPermit(
+        user3,
+        await usdc.getAddress(),
+        await tokenVault.getAddress(),
+        value,
+        deadline ?? BigInt(await time.latest()) + 3600n
+      );
+
+    it("Should open a deposit without a prior approve", async function () {
+      const { deadline, v, r, s } = await permit(amount);
+
+      await expect(savingsBank.connect(user3).openDepositWithPermit(2, amount, true, deadline, v, r, s))
+        .to.emit(savingsBank, "DepositOpened")
+        .withArgs(1, user3.address, 2, amount, anyUint);
+
+      expect(await tokenVault.balance()).to.equal(amount);
+      expect(await usdc.allowance(user3.address, await tokenVault.getAddress())).to.equal(0);
+      expect(await depositNFT.ownerOf(1)).to.equal(user3.address);
+      expect((await savingsBank.deposits(1)).isAutoRenewEnabled).to.equal(true);
+    });
+
+    it("Should still open when the permit was already consumed (front-run)", async function () {
+      const { deadline, v, r, s } = await permit(amount);
+      await usdc.permit(user3.address, await tokenVault.getAddress(), amount, deadline, v, r, s);
+
+      await expect(savingsBank.connect(user3).openDepositWithPermit(2, amount, false, deadline, v, r, s)).to.emit(
+        savingsBank,
+        "DepositOpened"
+      );
+    });
+
+    it("Should revert on an invalid or expired permit without allowance", async function () {
+      const { deadline, v, r, s } = await permit(amount - 1n);
+      await expect(
+        savingsBank.connect(user3).openDepositWithPermit(2, amount, false, deadline, v, r, s)
+      ).to.be.revertedWith("SavingsBank: Permit failed");
+
+      const expired = await permit(amount, BigInt(await time.latest()) - 1n);
+      await expect(
+        savingsBank
+          .connect(user3)
+          .openDepositWithPermit(2, amount, false, expired.deadline, expired.v, expired.r, expired.s)
+      ).to.be.revertedWith("SavingsBank: Permit failed");
+    });
+
+    it("Should apply the same plan checks as openDeposit", async function () {
+      const { deadline, v, r, s } = await permit(amount);
+      await expect(
+        savingsBank.connect(user3).openDepositWithPermit(99, amount, false, deadline, v, r, s)
+      ).to.be.revertedWith("SavingsBank: Plan not found");
+      const below = await permit(amount - 1n);
+      await expect(
+        savingsBank
+          .connect(user3)
+          .openDepositWithPermit(3, amount - 1n, false, below.deadline, below.v, below.r, below.s)
+      ).to.be.revertedWith("SavingsBank: Below minDeposit");
+    });
+  });
+
+  describe("increaseDeposit()", function () {
+    const DAY = 24 * 60 * 60;
+    const PRINCIPAL = ethers.parseUnits("10000", 6);
+    const TOP_UP = ethers.parseUnits("5000", 6);
+
+    beforeEach(async function () {
+      // Plan 2: 30 days, 8% APR, max 50,000 USDC
+      await savingsBank.connect(user1).openDeposit(2, PRINCIPAL, false);
+    });
+
+    describe("Success Cases", function () {
+      it("Should re-weight maturity by principal (default policy)", async function () {
+        const [, , , maturityBefore] = await savingsBank.getDepositDetails(1);
+        await time.increase(10 * DAY);
+
+        await expect(savingsBank.connect(user1).increaseDeposit(1, TOP_UP))
+          .to.emit(savingsBank, "DepositIncreased")
+          .withArgs(1, user1.address, TOP_UP, PRINCIPAL + TOP_UP, anyUint)
+          .and.to.emit(depositNFT, "MetadataUpdated")
+          .withArgs(1);
+
+        const now = BigInt(await time.latest());
+        const expectedMaturity =
+          (PRINCIPAL * maturityBefore + TOP_UP * (now + 30n * BigInt(DAY))) / (PRINCIPAL + TOP_UP);
+
+        const [, principal, startTime, maturityTime, lockedAprBps] = await savingsBank.getDepositDetails(1);
+        expect(principal).to.equal(PRINCIPAL + TOP_UP);
+        expect(maturityTime).to.equal(expectedMaturity);
+        expect(maturityTime - startTime).to.equal(30n * BigInt(DAY));
+        expect(lockedAprBps).to.equal(PLAN_30_DAYS.aprBps);
+        expect(await tokenVault.balance()).to.equal(PRINCIPAL + TOP_UP);
+      });
+
+      it("Should keep the reservation equal to the full-term interest of the new principal", async function () {
+        await time.increase(10 * DAY);
+        await savingsBank.connect(user1).increaseDeposit(1, TOP_UP);
+
+        const expected = ((PRINCIPAL + TOP_UP) * BigInt(PLAN_30_DAYS.aprBps) * 30n) / (365n * BPS_DENOMINATOR);
+        expect(await savingsBank.calculateInterest(1)).to.equal(expected);
+        expect(await interestVault.totalReserved()).to.equal(expected);
+
+        // Withdraw at the new maturity releases everything
+        const [, , , maturityTime] = await savingsBank.getDepositDetails(1);
+        await time.increaseTo(maturityTime);
+        await savingsBank.connect(user1).withdraw(1);
+        expect(await interestVault.totalReserved()).to.equal(0);
+      });
+
+      it("Should compound accrued interest and restart the term with the Restart policy", async function () {
+        await savingsBank.connect(admin).setPlanTopUpPolicy(2, 1); // Restart
+        await time.increase(10 * DAY);
+
+        const accrued = (PRINCIPAL * BigInt(PLAN_30_DAYS.aprBps) * 10n) / (365n * BPS_DENOMINATOR);
+        await savingsBank.connect(user1).increaseDeposit(1, TOP_UP);
+
+        const now = BigInt(await time.latest());
+        const [, principal, startTime, maturityTime] = await savingsBank.getDepositDetails(1);
+        expect(principal).to.equal(PRINCIPAL + accrued + TOP_UP);
+        expect(startTime).to.equal(now);
+        expect(maturityTime).to.equal(now + 30n * BigInt(DAY));
+        expect(await tokenVault.balance()).to.equal(principal);
+        expect(await interestVault.totalReserved()).to.equal(await savingsBank.calculateInterest(1));
+      });
+    });
+
+    describe("Failure Cases", function () {
+      it("Should revert above maxDeposit", async function () {
+        await expect(
+          savingsBank.connect(user1).increaseDeposit(1, PLAN_30_DAYS.maxDeposit - PRINCIPAL + 1n)
+        ).to.be.revertedWith("SavingsBank: Above maxDeposit");
+      });
+
+      it("Should revert if matured, not owner, zero or plan disabled", async function () {
+        await expect(savingsBank.connect(user2).increaseDeposit(1, TOP_UP)).to.be.revertedWith(
+          "SavingsBank: Not owner"
+        );
+        await expect(savingsBank.connect(user1).increaseDeposit(1, 0)).to.be.revertedWith(
+          "SavingsBank: Amount must be > 0"
+        );
+
+        await savingsBank.connect(admin).enablePlan(2, false);
+        await expect(savingsBank.connect(user1).increaseDeposit(1, TOP_UP)).to.be.revertedWith(
+          "SavingsBank: Plan not active"
+        );
+        await savingsBank.connect(admin).enablePlan(2, true);
+
+        await time.increase(30 * DAY);
+        await expect(savingsBank.connect(user1).increaseDeposit(1, TOP_UP)).to.be.revertedWith(
+          "SavingsBank: Already matured"
+        );
+      });
+    });
+  });
+
   describe("withdraw()", function () {
     beforeEach(async function () {
       await savingsBank.connect(user1).openDeposit(2, ethers.parseUnits("10000", 6), false);
@@ -412,6 +585,64 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
       });
     });
 
+    describe("Early rate", function () {
+      // Plan 2: 30 days, 8% APR, 5% penalty; deposit 10,000 USDC opened in beforeEach
+      const PRINCIPAL = ethers.parseUnits("10000", 6);
+      const PENALTY = ethers.parseUnits("500", 6);
+
+      it("Should quote zero interest while the plan has no early rate", async function () {
+        await time.increase(15 * 24 * 60 * 60);
+
+        const [principalMinusPenalty, penalty, accruedInterest, netAmount] =
+          await savingsBank.calculateEarlyWithdrawAmount(1);
+        expect(penalty).to.equal(PENALTY);
+        expect(principalMinusPenalty).to.equal(PRINCIPAL - PENALTY);
+        expect(accruedInterest).to.equal(0);
+        expect(netAmount).to.equal(PRINCIPAL - PENALTY);
+      });
+
+      it("Should pay pro-rated interest at the early rate minus the penalty", async function () {
+        await timelocked("setPlanEarlyRate", [2, 400]); // 4%
+        await time.increase(15 * 24 * 60 * 60);
+
+        const expectedInterest = (PRINCIPAL * 400n * 15n) / (365n * BPS_DENOMINATOR);
+        const [, , accruedInterest, netAmount] = await savingsBank.calculateEarlyWithdrawAmount(1);
+        expect(accruedInterest).to.equal(expectedInterest);
+        expect(netAmount).to.equal(PRINCIPAL - PENALTY + expectedInterest);
+
+        const userBalanceBefore = await usdc.balanceOf(user1.address);
+        await expect(savingsBank.connect(user1).earlyWithdraw(1))
+          .to.emit(savingsBank, "Withdrawn")
+          .withArgs(1, user1.address, PRINCIPAL, expectedInterest, true);
+
+        expect((await usdc.balanceOf(user1.address)) - userBalanceBefore).to.equal(netAmount);
+        expect(await interestVault.totalReserved()).to.equal(0);
+      });
+
+      it("Should pay early-rate interest on the withdrawn portion of a partial withdrawal", async function () {
+        await timelocked("setPlanEarlyRate", [2, 800]);
+        await time.increase(10 * 24 * 60 * 60);
+
+        const amount = ethers.parseUnits("4000", 6);
+        const interest = (amount * 800n * 10n) / (365n * BPS_DENOMINATOR);
+        await expect(savingsBank.connect(user1).partialEarlyWithdraw(1, amount))
+          .to.emit(savingsBank, "PartialWithdrawn")
+          .withArgs(1, user1.address, amount, interest, ethers.parseUnits("200", 6), PRINCIPAL - amount);
+
+        expect(await interestVault.totalReserved()).to.equal(await savingsBank.calculateInterest(1));
+      });
+
+      it("Should reject early rates above the plan APR", async function () {
+        await expect(timelocked("setPlanEarlyRate", [2, 801])).to.be.revertedWith(
+          "SavingsBank: Invalid early rate"
+        );
+        await expect(savingsBank.connect(user1).setPlanEarlyRate(2, 100)).to.be.revertedWithCustomError(
+          savingsBank,
+          "AccessControlUnauthorizedAccount"
+        );
+      });
+    });
+
     describe("Failure Cases", function () {
       it("Should revert if already matured", async function () {
         await time.increase(31 * 24 * 60 * 60);
@@ -429,6 +660,103 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
     });
   });
 
+  describe("partialEarlyWithdraw()", function () {
+    const PRINCIPAL = ethers.parseUnits("10000", 6);
+
+    beforeEach(async function () {
+      await savingsBank.connect(user1).openDeposit(2, PRINCIPAL, false);
+      await time.increase(10 * 24 * 60 * 60);
+    });
+
+    describe("Success Cases", function () {
+      it("Should penalize only the withdrawn amount and keep the rest locked", async function () {
+        const amount = ethers.parseUnits("4000", 6);
+        const penalty = ethers.parseUnits("200", 6); // 5% of 4000
+        const [, , startBefore, maturityBefore, aprBefore] = await savingsBank.getDepositDetails(1);
+        const userBalanceBefore = await usdc.balanceOf(user1.address);
+        const vaultBalanceBefore = await interestVault.balance();
+
+        await expect(savingsBank.connect(user1).partialEarlyWithdraw(1, amount))
+          .to.emit(savingsBank, "PartialWithdrawn")
+          .withArgs(1, user1.address, amount, 0, penalty, PRINCIPAL - amount)
+          .and.to.emit(depositNFT, "MetadataUpdated")
+          .withArgs(1);
+
+        expect((await usdc.balanceOf(user1.address)) - userBalanceBefore).to.equal(amount - penalty);
+        expect((await interestVault.balance()) - vaultBalanceBefore).to.equal(penalty);
+
+        const [, principal, startTime, maturityTime, lockedAprBps, , status] = await savingsBank.getDepositDetails(1);
+        expect(principal).to.equal(PRINCIPAL - amount);
+        expect(startTime).to.equal(startBefore);
+        expect(maturityTime).to.equal(maturityBefore);
+        expect(lockedAprBps).to.equal(aprBefore);
+        expect(status).to.equal(0); // still ACTIVE
+        expect(await depositNFT.ownerOf(1)).to.equal(user1.address);
+      });
+
+      it("Should shrink the reservation to the remaining principal's interest", async function () {
+        const reservedBefore = await interestVault.totalReserved();
+        const interestBefore = await savingsBank.calculateInterest(1);
+        expect(reservedBefore).to.equal(interestBefore);
+
+        await savingsBank.connect(user1).partialEarlyWithdraw(1, ethers.parseUnits("2500", 6));
+        await savingsBank.connect(user1).partialEarlyWithdraw(1, ethers.parseUnits("1234.567891", 6));
+
+        const interestAfter = await savingsBank.calculateInterest(1);
+        expect(await interestVault.totalReserved()).to.equal(interestAfter);
+        expect(interestAfter).to.be.lt(interestBefore);
+      });
+
+      it("Should pay full interest on the remainder at maturity and release everything", async function () {
+        await savingsBank.connect(user1).partialEarlyWithdraw(1, ethers.parseUnits("6000", 6));
+        const expectedInterest = await savingsBank.calculateInterest(1);
+
+        await time.increase(20 * 24 * 60 * 60);
+        await expect(savingsBank.connect(user1).withdraw(1))
+          .to.emit(savingsBank, "Withdrawn")
+          .withArgs(1, user1.address, ethers.parseUnits("4000", 6), expectedInterest, false);
+
+        expect(await interestVault.totalReserved()).to.equal(0);
+        expect(await tokenVault.balance()).to.equal(0);
+      });
+    });
+
+    describe("Failure Cases", function () {
+      it("Should revert for zero or full amounts", async function () {
+        await expect(savingsBank.connect(user1).partialEarlyWithdraw(1, 0)).to.be.revertedWith(
+          "SavingsBank: Amount must be > 0"
+        );
+        await expect(savingsBank.connect(user1).partialEarlyWithdraw(1, PRINCIPAL)).to.be.revertedWith(
+          "SavingsBank: Use earlyWithdraw"
+        );
+      });
+
+      it("Should revert if the remainder falls below minDeposit", async function () {
+        // Plan 2 minDeposit = 500 USDC
+        await expect(
+          savingsBank.connect(user1).partialEarlyWithdraw(1, PRINCIPAL - ethers.parseUnits("499", 6))
+        ).to.be.revertedWith("SavingsBank: Below minDeposit");
+      });
+
+      it("Should revert if matured, not owner or paused", async function () {
+        await expect(
+          savingsBank.connect(user2).partialEarlyWithdraw(1, ethers.parseUnits("1000", 6))
+        ).to.be.revertedWith("SavingsBank: Not owner");
+
+        await savingsBank.connect(admin).pause();
+        await expect(
+          savingsBank.connect(user1).partialEarlyWithdraw(1, ethers.parseUnits("1000", 6))
+        ).to.be.revertedWithCustomError(savingsBank, "EnforcedPause");
+        await savingsBank.connect(admin).unpause();
+
+        await time.increase(20 * 24 * 60 * 60);
+        await expect(
+          savingsBank.connect(user1).partialEarlyWithdraw(1, ethers.parseUnits("1000", 6))
+        ).to.be.revertedWith("SavingsBank: Already matured");
+      });
+    });
+  });
+
   describe("autoRenew()", function () {
     beforeEach(async function () {
       await savingsBank.connect(user1).openDeposit(2, ethers.parseUnits("10000", 6), true);
@@ -471,6 +799,87 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
     });
   });
 
+  describe("performAutoRenew()", function () {
+    const GRACE_PERIOD = 2 * 24 * 60 * 60;
+    let keeper: any;
+
+    beforeEach(async function () {
+      keeper = feeReceiver;
+      await savingsBank.connect(admin).grantRole(await savingsBank.KEEPER_ROLE(), keeper.address);
+      await savingsBank.connect(user1).openDeposit(2, ethers.parseUnits("10000", 6), true);
+    });
+
+    it("Should let a non-owner keeper renew within grace period", async function () {
+      await time.increase(30 * 24 * 60 * 60 + GRACE_PERIOD / 2);
+
+      const [upkeepNeeded, performData] = await savingsBank.checkAutoRenew(1);
+      expect(upkeepNeeded).to.be.true;
+
+      await expect(savingsBank.connect(keeper).performAutoRenew(performData))
+        .to.emit(savingsBank, "AutoRenewed")
+        .withArgs(1, 2, anyUint, PLAN_30_DAYS.aprBps);
+
+      // New certificate belongs to the NFT owner, not the keeper
+      expect(await depositNFT.ownerOf(2)).to.equal(user1.address);
+      expect(await depositNFT.balanceOf(keeper.address)).to.equal(0n);
+      expect(await savingsBank.depositOwner(2)).to.equal(user1.address);
+
+      const [, , , , , , oldStatus] = await savingsBank.getDepositDetails(1);
+      expect(oldStatus).to.equal(3); // RENEWED
+    });
+
+    it("Should mint to the current holder after an NFT transfer", async function () {
+      await depositNFT.connect(user1).transferFrom(user1.address, user2.address, 1);
+      await time.increase(30 * 24 * 60 * 60);
+
+      await savingsBank.connect(keeper).performAutoRenew(ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]));
+
+      expect(await depositNFT.ownerOf(2)).to.equal(user2.address);
+    });
+
+    it("Should revert for keeper outside grace period", async function () {
+      await time.increase(30 * 24 * 60 * 60 + GRACE_PERIOD + 1);
+
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]);
+      await expect(savingsBank.connect(keeper).performAutoRenew(performData)).to.be.revertedWith(
+        "SavingsBank: Grace period expired"
+      );
+    });
+
+    it("Should revert for keeper before maturity", async function () {
+      await time.increase(15 * 24 * 60 * 60);
+
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]);
+      await expect(savingsBank.connect(keeper).performAutoRenew(performData)).to.be.revertedWith(
+        "SavingsBank: Not matured"
+      );
+    });
+
+    it("Should revert for keeper if owner did not enable auto-renew", async function () {
+      await savingsBank.connect(user1).setAutoRenew(1, false);
+      await time.increase(30 * 24 * 60 * 60);
+
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]);
+      await expect(savingsBank.connect(keeper).performAutoRenew(performData)).to.be.revertedWith(
+        "SavingsBank: Auto-renew not enabled"
+      );
+    });
+
+    it("Should reject callers without KEEPER_ROLE", async function () {
+      await time.increase(30 * 24 * 60 * 60);
+
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]);
+      await expect(savingsBank.connect(user2).performAutoRenew(performData))
+        .to.be.revertedWithCustomError(savingsBank, "AccessControlUnauthorizedAccount")
+        .withArgs(user2.address, await savingsBank.KEEPER_ROLE());
+    });
+
+    it("Should still reject autoRenew() from a non-owner", async function () {
+      await time.increase(30 * 24 * 60 * 60);
+      await expect(savingsBank.connect(keeper).autoRenew(1)).to.be.revertedWith("SavingsBank: Not owner");
+    });
+  });
+
   describe("setAutoRenew()", function () {
     beforeEach(async function () {
       await savingsBank.connect(user1).openDeposit(2, ethers.parseUnits("10000", 6), false);
@@ -496,6 +905,262 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
     });
   });
 
+  describe("Interest modes", function () {
+    const reference = async (depositId: number) => {
+      const [, principal, startTime, maturityTime, lockedAprBps] = await savingsBank.getDepositDetails(depositId);
+      const [mode, dayCount] = await savingsBank.getDepositInterestMode(depositId);
+      return calculateInterest({
+        principal,
+        aprBps: lockedAprBps,
+        startTime,
+        endTime: maturityTime,
+        mode: Number(mode) as InterestMode,
+        dayCount: Number(dayCount) as DayCount,
+      });
+    };
+
+    it("Should default new plans to Simple / Actual365", async function () {
+      const plan = await savingsBank.savingPlans(2);
+      expect(plan.interestMode).to.equal(InterestMode.Simple);
+      expect(plan.dayCount).to.equal(DayCount.Actual365);
+    });
+
+    it("Should reserve and pay daily-compound interest per the plan", async function () {
+      await savingsBank.connect(admin).setPlanInterestMode(2, InterestMode.DailyCompound, DayCount.Thirty360);
+      await savingsBank.connect(user1).openDeposit(2, ethers.parseUnits("10000", 6), false);
+
+      const expected = await reference(1);
+      expect(await savingsBank.calculateInterest(1)).to.equal(expected);
+      expect(await interestVault.totalReserved()).to.equal(expected);
+
+      await time.increase(30 * 24 * 60 * 60);
+      await expect(savingsBank.connect(user1).withdraw(1))
+        .to.emit(savingsBank, "Withdrawn")
+        .withArgs(1, user1.address, ethers.parseUnits("10000", 6), expected, false);
+      expect(await interestVault.totalReserved()).to.equal(0);
+    });
+
+    it("Should keep the locked mode on existing deposits and across auto-renew", async function () {
+      await savingsBank.connect(admin).setPlanInterestMode(2, InterestMode.PerSecond, DayCount.Actual365);
+      await savingsBank.connect(user1).openDeposit(2, ethers.parseUnits("10000", 6), true);
+      await savingsBank.connect(admin).setPlanInterestMode(2, InterestMode.Simple, DayCount.Thirty360);
+
+      await time.increase(30 * 24 * 60 * 60);
+      await savingsBank.connect(user1).autoRenew(1);
+
+      const [mode, dayCount] = await savingsBank.getDepositInterestMode(2);
+      expect(mode).to.equal(InterestMode.PerSecond);
+      expect(dayCount).to.equal(DayCount.Actual365);
+      expect(await interestVault.totalReserved()).to.equal(await reference(2));
+    });
+
+    it("Should release the mode's reservation on early withdraw", async function () {
+      await savingsBank.connect(admin).setPlanInterestMode(3, InterestMode.DailyCompound, DayCount.Actual365);
+      await savingsBank.connect(user1).openDeposit(3, ethers.parseUnits("5000", 6), false);
+
+      await savingsBank.connect(user1).earlyWithdraw(1);
+      expect(await interestVault.totalReserved()).to.equal(0);
+    });
+
+    it("Should reject PerSecond with 30/360 and non-owner updates", async function () {
+      await expect(
+        savingsBank.connect(admin).setPlanInterestMode(1, InterestMode.PerSecond, DayCount.Thirty360)
+      ).to.be.revertedWith("SavingsBank: Invalid day count");
+      await expect(
+        savingsBank.connect(admin).setPlanInterestMode(99, InterestMode.Simple, DayCount.Actual365)
+      ).to.be.revertedWith("SavingsBank: Plan not found");
+      await expect(
+        savingsBank.connect(user1).setPlanInterestMode(1, InterestMode.DailyCompound, DayCount.Actual365)
+      ).to.be.revertedWithCustomError(savingsBank, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Multi-asset", function () {
+    const DAI = (amount: string) => ethers.parseUnits(amount, 18);
+    let dai: MockERC20;
+    let daiTokenVault: TokenVault;
+    let daiInterestVault: InterestVault;
+    let daiPlanId: bigint;
+
+    beforeEach(async function () {
+      dai = (await (await ethers.getContractFactory("MockERC20")).deploy("Mock DAI", "DAI", 18)) as MockERC20;
+      const daiAddr = await dai.getAddress();
+      daiTokenVault = (await (await ethers.getContractFactory("TokenVault")).deploy(daiAddr)) as TokenVault;
+      daiInterestVault = (await (await ethers.getContractFactory("InterestVault")).deploy(daiAddr)) as InterestVault;
+
+      const bankAddr = await savingsBank.getAddress();
+      await daiTokenVault.transferOwnership(bankAddr);
+      await daiInterestVault.transferOwnership(bankAddr);
+      await savingsBank
+        .connect(admin)
+        .addAsset(daiAddr, await daiTokenVault.getAddress(), await daiInterestVault.getAddress());
+
+      await dai.mint(admin.address, DAI("100000"));
+      await dai.connect(admin).approve(await daiInterestVault.getAddress(), DAI("100000"));
+      await savingsBank.connect(admin).fundAssetVault(daiAddr, DAI("100000"));
+
+      daiPlanId = await savingsBank.nextPlanId();
+      await savingsBank.connect(admin).createAssetPlan(daiAddr, "30 Days DAI", 30, DAI("100"), DAI("50000"), 900, 500, NO_PLAN_LIMITS);
+
+      await dai.mint(user1.address, DAI("10000"));
+      await dai.connect(user1).approve(await daiTokenVault.getAddress(), DAI("10000"));
+    });
+
+    it("Should register USDC by default and list added assets", async function () {
+      expect(await savingsBank.getAssets()).to.deep.equal([await usdc.getAddress(), await dai.getAddress()]);
+
+      const usdcConfig = await savingsBank.assets(await usdc.getAddress());
+      expect(usdcConfig.tokenVault).to.equal(await tokenVault.getAddress());
+      expect(usdcConfig.decimals).to.equal(6);
+
+      const daiConfig = await savingsBank.assets(await dai.getAddress());
+      expect(daiConfig.interestVault).to.equal(await daiInterestVault.getAddress());
+      expect(daiConfig.decimals).to.equal(18);
+      expect(daiConfig.isWhitelisted).to.equal(true);
+
+      expect((await savingsBank.savingPlans(1)).asset).to.equal(await usdc.getAddress());
+      expect((await savingsBank.savingPlans(daiPlanId)).asset).to.equal(await dai.getAddress());
+    });
+
+    it("Should keep principal, reservation and interest in the asset's own vaults", async function () {
+      const amount = DAI("5000");
+      await savingsBank.connect(user1).openDeposit(daiPlanId, amount, false);
+      expect(await savingsBank.getDepositAsset(1)).to.equal(await dai.getAddress());
+
+      const [, , startTime, maturityTime] = await savingsBank.getDepositDetails(1);
+      const expected = calculateInterest({ principal: amount, aprBps: 900n, startTime, endTime: maturityTime });
+      expect(await daiTokenVault.balance()).to.equal(amount);
+      expect(await daiInterestVault.totalReserved()).to.equal(expected);
+      expect(await tokenVault.balance()).to.equal(0);
+      expect(await interestVault.totalReserved()).to.equal(0);
+
+      await time.increase(30 * 24 * 60 * 60);
+      const before = await dai.balanceOf(user1.address);
+      await expect(savingsBank.connect(user1).withdraw(1))
+        .to.emit(savingsBank, "Withdrawn")
+        .withArgs(1, user1.address, amount, expected, false);
+      expect((await dai.balanceOf(user1.address)) - before).to.equal(amount + expected);
+      expect(await daiInterestVault.totalReserved()).to.equal(0);
+      expect(await usdc.balanceOf(user1.address)).to.equal(ethers.parseUnits("100000", 6));
+    });
+
+    it("Should move early-withdraw penalties and renewals within the asset", async function () {
+      await savingsBank.connect(user1).openDeposit(daiPlanId, DAI("1000"), false);
+      await savingsBank.connect(user1).earlyWithdraw(1);
+      expect(await daiInterestVault.balance()).to.equal(DAI("100000") + DAI("50")); // 5% penalty
+      expect(await daiInterestVault.totalReserved()).to.equal(0);
+
+      await savingsBank.connect(user1).openDeposit(daiPlanId, DAI("2000"), true);
+      const interest = await savingsBank.calculateInterest(2);
+      await time.increase(30 * 24 * 60 * 60);
+      await savingsBank.connect(user1).autoRenew(2);
+
+      expect(await daiTokenVault.balance()).to.equal(DAI("2000") + interest);
+      expect(await daiInterestVault.totalReserved()).to.equal(await savingsBank.calculateInterest(3));
+      expect(await interestVault.totalReserved()).to.equal(0);
+    });
+
+    it("Should move penalties and renewals for a token whose approve returns nothing", async function () {
+      const USDT = (amount: string) => ethers.parseUnits(amount, 6);
+      const usdt = (await (await ethers.getContractFactory("MockUSDT")).deploy()) as MockUSDT;
+      const usdtAddr = await usdt.getAddress();
+      const usdtTokenVault = (await (await ethers.getContractFactory("TokenVault")).deploy(usdtAddr)) as TokenVault;
+      const usdtInterestVault = (await (
+        await ethers.getContractFactory("InterestVault")
+      ).deploy(usdtAddr)) as InterestVault;
+
+      const bankAddr = await savingsBank.getAddress();
+      await usdtTokenVault.transferOwnership(bankAddr);
+      await usdtInterestVault.transferOwnership(bankAddr);
+      await savingsBank
+        .connect(admin)
+        .addAsset(usdtAddr, await usdtTokenVault.getAddress(), await usdtInterestVault.getAddress());
+
+      await usdt.mint(admin.address, USDT("100000"));
+      await usdt.connect(admin).approve(await usdtInterestVault.getAddress(), USDT("100000"));
+      await savingsBank.connect(admin).fundAssetVault(usdtAddr, USDT("100000"));
+      const usdtPlanId = await savingsBank.nextPlanId();
+      await savingsBank
+        .connect(admin)
+        .createAssetPlan(usdtAddr, "30 Days USDT", 30, USDT("100"), USDT("50000"), 700, 500, NO_PLAN_LIMITS);
+
+      await usdt.mint(user1.address, USDT("10000"));
+      await usdt.connect(user1).approve(await usdtTokenVault.getAddress(), ethers.MaxUint256);
+
+      await savingsBank.connect(user1).openDeposit(usdtPlanId, USDT("1000"), false);
+      await savingsBank.connect(user1).earlyWithdraw(1);
+      expect(await usdtInterestVault.balance()).to.equal(USDT("100000") + USDT("50")); // 5% penalty
+
+      await savingsBank.connect(user1).openDeposit(usdtPlanId, USDT("2000"), true);
+      const interest = await savingsBank.calculateInterest(2);
+      await time.increase(30 * 24 * 60 * 60);
+      await savingsBank.connect(user1).autoRenew(2);
+      expect(await usdtTokenVault.balance()).to.equal(USDT("2000") + interest);
+      expect(await usdt.allowance(bankAddr, await usdtTokenVault.getAddress())).to.equal(0);
+    });
+
+    it("Should block new deposits on a delisted asset but allow withdrawals", async function () {
+      const daiAddr = await dai.getAddress();
+      await savingsBank.connect(user1).openDeposit(daiPlanId, DAI("1000"), false);
+
+      await expect(savingsBank.connect(admin).setAssetWhitelisted(daiAddr, false))
+        .to.emit(savingsBank, "AssetWhitelisted")
+        .withArgs(daiAddr, false);
+      await expect(savingsBank.connect(user1).openDeposit(daiPlanId, DAI("1000"), false)).to.be.revertedWith(
+        "SavingsBank: Asset not whitelisted"
+      );
+      await expect(savingsBank.connect(user1).increaseDeposit(1, DAI("100"))).to.be.revertedWith(
+        "SavingsBank: Asset not whitelisted"
+      );
+      await expect(
+        savingsBank.connect(admin).createAssetPlan(daiAddr, "DAI 2", 7, DAI("1"), DAI("10"), 500, 500, NO_PLAN_LIMITS)
+      ).to.be.revertedWith("SavingsBank: Asset not whitelisted");
+
+      await time.increase(30 * 24 * 60 * 60);
+      await expect(savingsBank.connect(user1).withdraw(1)).to.not.be.reverted;
+    });
+
+    it("Should reject invalid asset registrations and unknown assets", async function () {
+      const usdt = await (await ethers.getContractFactory("MockERC20")).deploy("Mock USDT", "USDT", 6);
+      const usdtAddr = await usdt.getAddress();
+
+      await expect(
+        savingsBank
+          .connect(admin)
+          .addAsset(usdtAddr, await daiTokenVault.getAddress(), await daiInterestVault.getAddress())
+      ).to.be.revertedWith("SavingsBank: Vault asset mismatch");
+      await expect(
+        savingsBank
+          .connect(admin)
+          .addAsset(await dai.getAddress(), await daiTokenVault.getAddress(), await daiInterestVault.getAddress())
+      ).to.be.revertedWith("SavingsBank: Asset exists");
+      await expect(
+        savingsBank.connect(user1).addAsset(usdtAddr, await tokenVault.getAddress(), await interestVault.getAddress())
+      ).to.be.revertedWithCustomError(savingsBank, "AccessControlUnauthorizedAccount");
+
+      await expect(savingsBank.connect(admin).fundAssetVault(usdtAddr, 1)).to.be.revertedWith(
+        "SavingsBank: Asset not found"
+      );
+      await expect(
+        savingsBank.connect(admin).createAssetPlan(usdtAddr, "USDT", 7, 1, 10, 500, 500, NO_PLAN_LIMITS)
+      ).to.be.revertedWith("SavingsBank: Asset not whitelisted");
+    });
+
+    it("Should withdraw only unreserved asset vault liquidity", async function () {
+      const daiAddr = await dai.getAddress();
+      await savingsBank.connect(user1).openDeposit(daiPlanId, DAI("10000"), false);
+      const available = await daiInterestVault.availableBalance();
+
+      await expect(timelocked("withdrawAssetVault", [daiAddr, admin.address, available + 1n])).to.be.revertedWith(
+        "SavingsBank: Insufficient available funds"
+      );
+      await expect(timelocked("withdrawAssetVault", [daiAddr, admin.address, available]))
+        .to.emit(savingsBank, "AssetVaultWithdrawn")
+        .withArgs(daiAddr, available);
+      expect(await dai.balanceOf(admin.address)).to.equal(available);
+    });
+  });
+
   describe("Admin Functions", function () {
     it("Should create new plan", async function () {
       const tx = await savingsBank.connect(admin).createPlan(
@@ -504,7 +1169,8 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
         ethers.parseUnits("200", 6),
         ethers.parseUnits("20000", 6),
         600,
-        300
+        300,
+        NO_PLAN_LIMITS
       );
 
       const receipt = await tx.wait();
@@ -532,4 +1198,120 @@ describe("SavingsBank (Pragmatic SOLID)", function () {
         .reverted;
     });
   });
+
+  describe("Access Control (roles)", function () {
+    let planManager: any;
+    let treasurer: any;
+    let pauser: any;
+    let keeper: any;
+    let roles: Record<string, string>;
+    let timelockRole: string;
+
+    const expectDenied = async (call: Promise<unknown>, account: any, role: string) =>
+      expect(call)
+        .to.be.revertedWithCustomError(savingsBank, "AccessControlUnauthorizedAccount")
+        .withArgs(account.address, role);
+
+    beforeEach(async function () {
+      [planManager, treasurer, pauser, keeper] = (await ethers.getSigners()).slice(5, 9);
+      roles = {
+        admin: await savingsBank.DEFAULT_ADMIN_ROLE(),
+        planManager: await savingsBank.PLAN_MANAGER_ROLE(),
+        treasurer: await savingsBank.TREASURER_ROLE(),
+        pauser: await savingsBank.PAUSER_ROLE(),
+        keeper: await savingsBank.KEEPER_ROLE(),
+      };
+      timelockRole = await savingsBank.TIMELOCK_ROLE();
+
+      await savingsBank.connect(admin).grantRole(roles.planManager, planManager.address);
+      await savingsBank.connect(admin).grantRole(roles.treasurer, treasurer.address);
+      await savingsBank.connect(admin).grantRole(roles.pauser, pauser.address);
+      await savingsBank.connect(admin).grantRole(roles.keeper, keeper.address);
+    });
+
+    it("Should grant every role to the deployer", async function () {
+      for (const role of Object.values(roles)) {
+        expect(await savingsBank.hasRole(role, admin.address)).to.be.true;
+      }
+      expect(await savingsBank.hasRole(roles.admin, planManager.address)).to.be.false;
+
+      // TIMELOCK_ROLE is held by SavingsTimelock only and administered by itself
+      expect(await savingsBank.hasRole(timelockRole, admin.address)).to.be.false;
+      expect(await savingsBank.hasRole(timelockRole, await timelock.getAddress())).to.be.true;
+      expect(await savingsBank.getRoleAdmin(timelockRole)).to.equal(timelockRole);
+    });
+
+    it("Should let the plan manager manage plans only", async function () {
+      await expect(savingsBank.connect(planManager).createPlan("14 Days", 14, 1, 10, 600, 300, NO_PLAN_LIMITS)).to.emit(
+        savingsBank,
+        "PlanCreated"
+      );
+      await savingsBank.connect(planManager).enablePlan(1, false);
+
+      // Rate changes must go through the timelock
+      await expectDenied(savingsBank.connect(planManager).updatePlan(1, 550, 400, NO_PLAN_LIMITS), planManager, timelockRole);
+      await expectDenied(savingsBank.connect(planManager).setPlanEarlyRate(1, 100), planManager, timelockRole);
+
+      await expectDenied(savingsBank.connect(planManager).fundVault(1), planManager, roles.treasurer);
+      await expectDenied(savingsBank.connect(planManager).pause(), planManager, roles.pauser);
+      await expectDenied(
+        savingsBank.connect(planManager).setAssetWhitelisted(await usdc.getAddress(), false),
+        planManager,
+        roles.admin
+      );
+      await expectDenied(
+        savingsBank.connect(planManager).grantRole(roles.treasurer, planManager.address),
+        planManager,
+        roles.admin
+      );
+    });
+
+    it("Should let the treasurer fund InterestVaults only", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await usdc.mint(treasurer.address, amount);
+      await usdc.connect(treasurer).approve(await interestVault.getAddress(), amount);
+
+      await expect(savingsBank.connect(treasurer).fundVault(amount)).to.emit(savingsBank, "VaultFunded");
+      expect(await usdc.balanceOf(treasurer.address)).to.equal(0);
+
+      await expectDenied(
+        savingsBank.connect(treasurer).withdrawVault(treasurer.address, amount),
+        treasurer,
+        timelockRole
+      );
+      await expectDenied(savingsBank.connect(treasurer).createPlan("X", 7, 1, 10, 500, 500, NO_PLAN_LIMITS), treasurer, roles.planManager);
+      await expectDenied(savingsBank.connect(treasurer).pause(), treasurer, roles.pauser);
+    });
+
+    it("Should let the pauser (guardian) pause and unpause only", async function () {
+      await savingsBank.connect(pauser).pause();
+      expect(await savingsBank.paused()).to.be.true;
+      await savingsBank.connect(pauser).unpause();
+      expect(await savingsBank.paused()).to.be.false;
+
+      await expectDenied(savingsBank.connect(pauser).fundVault(1), pauser, roles.treasurer);
+      await expectDenied(savingsBank.connect(pauser).createPlan("X", 7, 1, 10, 500, 500, NO_PLAN_LIMITS), pauser, roles.planManager);
+    });
+
+    it("Should let the keeper run performAutoRenew only", async function () {
+      await savingsBank.connect(user1).openDeposit(1, ethers.parseUnits("1000", 6), true);
+      await time.increase(7 * 24 * 60 * 60);
+
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1]);
+      await expect(savingsBank.connect(keeper).performAutoRenew(performData)).to.emit(savingsBank, "AutoRenewed");
+
+      await expectDenied(savingsBank.connect(keeper).enablePlan(1, false), keeper, roles.planManager);
+      await expectDenied(savingsBank.connect(keeper).fundVault(1), keeper, roles.treasurer);
+      await expectDenied(savingsBank.connect(keeper).pause(), keeper, roles.pauser);
+    });
+
+    it("Should let the admin revoke roles, including its own operational ones", async function () {
+      await savingsBank.connect(admin).revokeRole(roles.planManager, admin.address);
+      await savingsBank.connect(admin).revokeRole(roles.pauser, pauser.address);
+
+      await expectDenied(savingsBank.connect(admin).createPlan("X", 7, 1, 10, 500, 500, NO_PLAN_LIMITS), admin, roles.planManager);
+      await expectDenied(savingsBank.connect(pauser).pause(), pauser, roles.pauser);
+      await expect(savingsBank.connect(planManager).createPlan("X", 7, 1, 10, 500, 500, NO_PLAN_LIMITS)).to.not.be.reverted;
+    });
+  });
 });
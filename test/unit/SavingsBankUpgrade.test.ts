@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { InterestVault, SavingsBank, SavingsBankV2, SavingsTimelock } from "../../typechain";
+import { encodeUpgradeCall, listPendingOperations, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, getSavingsBankFactory } from "../helpers/fixtures";
+
+const DELAY = 3600;
+
+/**
+ * SavingsBank behind its transparent proxy: live plans and deposits survive an upgrade to
+ * SavingsBankV2, which is only reachable through SavingsTimelock (owner of the ProxyAdmin).
+ */
+describe("SavingsBank upgrade", function () {
+  let savingsBank: SavingsBank;
+  let interestVault: InterestVault;
+  let timelock: SavingsTimelock;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let executor: SignerWithAddress;
+  let bankAddr: string;
+  let forwarderAddr: string;
+  let proxyAdmin: string;
+
+  async function snapshot() {
+    const plans = [];
+    for (let id = 1n; id < (await savingsBank.nextPlanId()); id++) plans.push(await savingsBank.savingPlans(id));
+    const deposits = [];
+    for (let id = 1n; id < (await savingsBank.nextDepositId()); id++) {
+      deposits.push([await savingsBank.deposits(id), await savingsBank.depositOwner(id)]);
+    }
+    return {
+      plans,
+      deposits,
+      nextPlanId: await savingsBank.nextPlanId(),
+      nextDepositId: await savingsBank.nextDepositId(),
+      assets: await savingsBank.getAssets(),
+      reserved: await interestVault.totalReserved(),
+      available: await interestVault.availableBalance(),
+      isAdmin: await savingsBank.hasRole(await savingsBank.DEFAULT_ADMIN_ROLE(), admin.address),
+    };
+  }
+
+  /** Deploy the V2 implementation and schedule ProxyAdmin.upgradeAndCall(initializeV2) on the timelock */
+  async function scheduleUpgrade(maxDepositsPerUser = 5) {
+    const factory = await getSavingsBankFactory("SavingsBankV2");
+    const implementation = (await upgrades.prepareUpgrade(bankAddr, factory, {
+      kind: "transparent",
+      constructorArgs: [forwarderAddr],
+    })) as string;
+    const initData = factory.interface.encodeFunctionData("initializeV2", [maxDepositsPerUser]);
+    const call = encodeUpgradeCall(proxyAdmin, bankAddr, implementation, initData);
+    await timelock.schedule(call.target, call.value, call.data, call.predecessor, call.salt, DELAY);
+    return { call, implementation };
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, interestVault, admin } = system);
+    [user1, user2, , , executor] = system.users;
+    bankAddr = system.addresses.savingsBank;
+    forwarderAddr = system.addresses.forwarder!;
+
+    timelock = (await (
+      await ethers.getContractFactory("SavingsTimelock")
+    ).deploy(DELAY, [admin.address], [executor.address])) as SavingsTimelock;
+    proxyAdmin = await upgrades.erc1967.getAdminAddress(bankAddr);
+    await upgrades.admin.transferProxyAdminOwnership(bankAddr, await timelock.getAddress(), admin, { silent: true });
+
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("5000"), true);
+    await savingsBank.connect(user2).openDeposit(2, parseUSDC("2000"), false);
+    await savingsBank.connect(user2).earlyWithdraw(3);
+    await savingsBank.enablePlan(1, false);
+  });
+
+  it("locks the implementation and the proxy initializer", async function () {
+    const implementation = await ethers.getContractAt(
+      "SavingsBank",
+      await upgrades.erc1967.getImplementationAddress(bankAddr)
+    );
+    const args = [admin.address, admin.address, admin.address, admin.address, admin.address] as const;
+    await expect(implementation.initialize(...args)).to.be.revertedWithCustomError(
+      implementation,
+      "InvalidInitialization"
+    );
+    await expect(savingsBank.initialize(...args)).to.be.revertedWithCustomError(savingsBank, "InvalidInitialization");
+  });
+
+  it("only upgrades through the timelock", async function () {
+    const current = await upgrades.erc1967.getImplementationAddress(bankAddr);
+    // The deployer no longer owns the ProxyAdmin
+    await expect(
+      upgrades.upgradeProxy(bankAddr, await getSavingsBankFactory("SavingsBankV2"), {
+        kind: "transparent",
+        constructorArgs: [forwarderAddr],
+      })
+    ).to.be.reverted;
+    expect(await upgrades.erc1967.getImplementationAddress(bankAddr)).to.equal(current);
+
+    const { call } = await scheduleUpgrade();
+    await expect(
+      timelock.connect(executor).execute(call.target, call.value, call.data, call.predecessor, call.salt)
+    ).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+    const [pending] = await listPendingOperations(await timelock.getAddress(), admin, { proxyAdmin });
+    expect(pending.action).to.equal("upgradeAndCall");
+    expect(pending.args[0]).to.equal(bankAddr);
+  });
+
+  it("keeps plans, deposits, roles and reservations across the upgrade", async function () {
+    const before = await snapshot();
+    const { call, implementation } = await scheduleUpgrade(5);
+    await time.increase(DELAY);
+    await timelock.connect(executor).execute(call.target, call.value, call.data, call.predecessor, call.salt);
+
+    expect(await upgrades.erc1967.getImplementationAddress(bankAddr)).to.equal(implementation);
+    const v2 = (await ethers.getContractAt("SavingsBankV2", bankAddr)) as unknown as SavingsBankV2;
+    expect(await v2.version()).to.equal("2");
+    expect(await v2.maxDepositsPerUser()).to.equal(5);
+    await expect(v2.initializeV2(10)).to.be.revertedWithCustomError(v2, "InvalidInitialization");
+
+    expect(await snapshot()).to.deep.equal(before);
+    expect(await savingsBank.trustedForwarder()).to.equal(forwarderAddr);
+  });
+
+  it("keeps serving live deposits after the upgrade", async function () {
+    const { call } = await scheduleUpgrade();
+    await time.increase(DELAY);
+    await timelock.connect(executor).execute(call.target, call.value, call.data, call.predecessor, call.salt);
+
+    // Deposit 1 (7 days) matures, deposit 2 (30 days, auto-renew) is renewed with its locked APR
+    await time.increase(7 * 24 * 3600);
+    const expected = parseUSDC("1000") + (await savingsBank.calculateInterest(1));
+    await expect(savingsBank.connect(user1).withdraw(1)).to.changeTokenBalance(
+      await ethers.getContractAt("MockUSDC", await savingsBank.usdc()),
+      user1,
+      expected
+    );
+
+    await time.increase(23 * 24 * 3600 + 60);
+    await expect(savingsBank.connect(user1).autoRenew(2)).to.emit(savingsBank, "AutoRenewed");
+    const renewed = await savingsBank.deposits(4);
+    expect(renewed.lockedAprBps).to.equal((await savingsBank.deposits(2)).lockedAprBps);
+    expect(await savingsBank.depositOwner(4)).to.equal(user1.address);
+
+    await savingsBank.connect(user2).openDeposit(2, parseUSDC("1000"), false);
+    expect(await savingsBank.nextDepositId()).to.equal(6);
+  });
+});
@@ -0,0 +1,250 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockUSDC, SavingsBank, SavingsTimelock } from "../../typechain";
+import { DepositStatus, NO_PLAN_LIMITS, SavingsClient, TopUpPolicy, formatBps, formatUSDC, parseUSDC } from "../../sdk";
+import { deployDepositNFT, deploySavingsBank, deploySavingsTimelock, executeTimelocked } from "../helpers/fixtures";
+
+/**
+ * SDK SavingsClient tests (localhost).
+ * Same deployment as SavingsBank tests, driven through the client.
+ */
+describe("SavingsClient (SDK)", function () {
+  let usdc: MockUSDC;
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let client: SavingsClient;
+
+  beforeEach(async function () {
+    [admin, user1] = await ethers.getSigners();
+
+    usdc = (await (await ethers.getContractFactory("MockUSDC")).deploy()) as MockUSDC;
+    const usdcAddr = await usdc.getAddress();
+    const tokenVault = await (await ethers.getContractFactory("TokenVault")).deploy(usdcAddr);
+    const interestVault = await (await ethers.getContractFactory("InterestVault")).deploy(usdcAddr);
+    timelock = await deploySavingsTimelock(0, admin.address, admin.address);
+
+    savingsBank = await deploySavingsBank(
+      usdcAddr,
+      await tokenVault.getAddress(),
+      await interestVault.getAddress(),
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      await timelock.getAddress()
+    );
+    const bankAddr = await savingsBank.getAddress();
+    const depositNFT = await deployDepositNFT(savingsBank);
+
+    await tokenVault.transferOwnership(bankAddr);
+    await interestVault.transferOwnership(bankAddr);
+
+    const fundAmount = parseUSDC("100000");
+    await usdc.mint(admin.address, fundAmount);
+    await usdc.approve(await interestVault.getAddress(), fundAmount);
+    await savingsBank.fundVault(fundAmount);
+
+    await savingsBank.createPlan("7 Days", 7, parseUSDC("100"), parseUSDC("10000"), 500, 500, NO_PLAN_LIMITS);
+    await savingsBank.createPlan("30 Days", 30, parseUSDC("500"), parseUSDC("50000"), 800, 500, NO_PLAN_LIMITS);
+
+    await usdc.mint(user1.address, parseUSDC("100000"));
+
+    client = new SavingsClient(
+      {
+        usdc: usdcAddr,
+        tokenVault: await tokenVault.getAddress(),
+        interestVault: await interestVault.getAddress(),
+        depositNFT: await depositNFT.getAddress(),
+        savingsBank: bankAddr,
+      },
+      user1
+    );
+  });
+
+  it("lists plans as decoded objects", async function () {
+    await savingsBank.enablePlan(2, false);
+
+    const plans = await client.listPlans();
+    expect(plans.map((p) => p.name)).to.deep.equal(["7 Days", "30 Days"]);
+    expect(plans[0].planId).to.equal(1n);
+    expect(plans[0].aprBps).to.equal(500n);
+    expect(plans[1].isActive).to.equal(false);
+
+    const active = await client.listPlans({ activeOnly: true });
+    expect(active.length).to.equal(1);
+  });
+
+  it("opens a deposit (approving TokenVault) and decodes DepositOpened", async function () {
+    const amount = parseUSDC("1000");
+    const result = await client.openDeposit({ planId: 1, amount, enableAutoRenew: true });
+
+    expect(result.depositId).to.equal(1n);
+    expect(result.owner).to.equal(user1.address);
+    expect(result.principal).to.equal(amount);
+
+    const deposit = await client.getDeposit(result.depositId);
+    expect(deposit.status).to.equal(DepositStatus.Active);
+    expect(deposit.owner).to.equal(user1.address);
+    expect(deposit.isAutoRenewEnabled).to.equal(true);
+    expect(deposit.maturityTime).to.equal(result.maturityTime);
+    expect(deposit.expectedInterest).to.equal((amount * 500n * 7n) / (365n * 10_000n));
+
+    const mine = await client.getUserDeposits(user1.address);
+    expect(mine.map((d) => d.depositId)).to.deep.equal([1n]);
+  });
+
+  it("opens a deposit with a signed permit (no approve transaction)", async function () {
+    const amount = parseUSDC("1000");
+    const result = await client.openDepositWithPermit({ planId: 1, amount });
+
+    expect(result.depositId).to.equal(1n);
+    expect(result.principal).to.equal(amount);
+    expect(await usdc.allowance(user1.address, await client.tokenVault.getAddress())).to.equal(0n);
+    expect(await usdc.nonces(user1.address)).to.equal(1n);
+  });
+
+  it("withdraws at maturity and returns principal + interest", async function () {
+    const { depositId } = await client.openDeposit({ planId: 1, amount: parseUSDC("1000") });
+    await time.increase(7 * 24 * 60 * 60);
+
+    const before = await usdc.balanceOf(user1.address);
+    const result = await client.withdraw(depositId);
+
+    expect(result.isEarly).to.equal(false);
+    expect(result.interest).to.be.gt(0n);
+    expect((await usdc.balanceOf(user1.address)) - before).to.equal(result.principal + result.interest);
+    expect((await client.getDeposit(depositId)).status).to.equal(DepositStatus.Withdrawn);
+  });
+
+  it("quotes and executes an early withdraw", async function () {
+    const { depositId } = await client.openDeposit({ planId: 2, amount: parseUSDC("10000") });
+    await executeTimelocked(timelock, savingsBank, "setPlanEarlyRate", [2, 400]);
+    await time.increase(10 * 24 * 60 * 60);
+
+    const quote = await client.quoteEarlyWithdraw(depositId);
+    expect(quote.penalty).to.equal(parseUSDC("500"));
+    expect(quote.accruedInterest).to.equal((parseUSDC("10000") * 400n * 10n) / (365n * 10_000n));
+
+    const before = await usdc.balanceOf(user1.address);
+    const result = await client.earlyWithdraw(depositId);
+
+    expect(result.isEarly).to.equal(true);
+    expect(result.interest).to.equal(quote.accruedInterest);
+    expect((await usdc.balanceOf(user1.address)) - before).to.equal(quote.netAmount);
+  });
+
+  it("tops up an active deposit", async function () {
+    const { depositId } = await client.openDeposit({ planId: 2, amount: parseUSDC("10000") });
+    const result = await client.increaseDeposit(depositId, parseUSDC("2000"));
+
+    expect(result.newPrincipal).to.equal(parseUSDC("12000"));
+    const deposit = await client.getDeposit(depositId);
+    expect(deposit.principal).to.equal(parseUSDC("12000"));
+    expect(deposit.maturityTime).to.equal(result.newMaturityTime);
+    expect((await client.getPlan(2)).topUpPolicy).to.equal(TopUpPolicy.Reweight);
+  });
+
+  it("withdraws part of a deposit early", async function () {
+    const { depositId } = await client.openDeposit({ planId: 2, amount: parseUSDC("10000") });
+
+    const before = await usdc.balanceOf(user1.address);
+    const result = await client.partialEarlyWithdraw(depositId, parseUSDC("3000"));
+
+    expect(result.penalty).to.equal(parseUSDC("150"));
+    expect(result.remainingPrincipal).to.equal(parseUSDC("7000"));
+    expect((await usdc.balanceOf(user1.address)) - before).to.equal(result.received);
+
+    const deposit = await client.getDeposit(depositId);
+    expect(deposit.principal).to.equal(parseUSDC("7000"));
+    expect(deposit.status).to.equal(DepositStatus.Active);
+  });
+
+  it("auto-renews within the grace period", async function () {
+    const { depositId } = await client.openDeposit({ planId: 2, amount: parseUSDC("10000"), enableAutoRenew: true });
+    await time.increase(30 * 24 * 60 * 60);
+
+    const eligibility = await client.getDepositEligibility(depositId);
+    expect(eligibility.canAutoRenew).to.equal(true);
+
+    const result = await client.autoRenew(depositId);
+    expect(result.oldDepositId).to.equal(depositId);
+    expect(result.newDepositId).to.equal(2n);
+    expect(result.lockedAprBps).to.equal(800n);
+    expect((await client.getDeposit(depositId)).status).to.equal(DepositStatus.Renewed);
+  });
+
+  it("lets a keeper renew on the owner's behalf", async function () {
+    const { depositId } = await client.openDeposit({ planId: 2, amount: parseUSDC("10000"), enableAutoRenew: true });
+    await time.increase(30 * 24 * 60 * 60);
+
+    const result = await client.connect(admin).performAutoRenew(depositId);
+    expect(result.newDepositId).to.equal(2n);
+    expect((await client.getDeposit(result.newDepositId)).owner).to.equal(user1.address);
+  });
+
+  it("reads account roles", async function () {
+    expect(await client.getRoles(admin.address)).to.deep.equal({
+      admin: true,
+      planManager: true,
+      treasurer: true,
+      pauser: true,
+      keeper: true,
+      timelock: false,
+    });
+    expect((await client.getRoles(await timelock.getAddress())).timelock).to.equal(true);
+
+    await savingsBank.connect(admin).grantRole(await savingsBank.KEEPER_ROLE(), user1.address);
+    const roles = await client.getRoles(user1.address);
+    expect(roles.keeper).to.equal(true);
+    expect(roles.admin || roles.planManager || roles.treasurer || roles.pauser || roles.timelock).to.equal(false);
+  });
+
+  it("reports vault health", async function () {
+    await client.openDeposit({ planId: 2, amount: parseUSDC("10000") });
+
+    const health = await client.getVaultHealth();
+    expect(health.interestVaultBalance).to.equal(parseUSDC("100000"));
+    expect(health.tokenVaultBalance).to.equal(parseUSDC("10000"));
+    expect(health.availableBalance).to.equal(health.interestVaultBalance - health.totalReserved);
+    expect(health.utilizationBps).to.equal((health.totalReserved * 10_000n) / health.interestVaultBalance);
+    expect(health.totalDeposits).to.equal(1n);
+  });
+
+  it("deposits another asset through its own TokenVault", async function () {
+    const DAI = (amount: string) => ethers.parseUnits(amount, 18);
+    const dai = await (await ethers.getContractFactory("MockERC20")).deploy("Mock DAI", "DAI", 18);
+    const daiAddr = await dai.getAddress();
+    const daiTokenVault = await (await ethers.getContractFactory("TokenVault")).deploy(daiAddr);
+    const daiInterestVault = await (await ethers.getContractFactory("InterestVault")).deploy(daiAddr);
+    await daiTokenVault.transferOwnership(await savingsBank.getAddress());
+    await daiInterestVault.transferOwnership(await savingsBank.getAddress());
+    await savingsBank.addAsset(daiAddr, await daiTokenVault.getAddress(), await daiInterestVault.getAddress());
+    await dai.mint(admin.address, DAI("1000"));
+    await dai.approve(await daiInterestVault.getAddress(), DAI("1000"));
+    await savingsBank.fundAssetVault(daiAddr, DAI("1000"));
+    await savingsBank.createAssetPlan(daiAddr, "30 Days DAI", 30, DAI("100"), DAI("5000"), 900, 500, NO_PLAN_LIMITS);
+    await dai.mint(user1.address, DAI("3000"));
+
+    const assets = await client.listAssets();
+    expect(assets.map((a) => a.symbol)).to.deep.equal(["USDC", "DAI"]);
+    expect(assets[1].decimals).to.equal(18);
+    expect((await client.getPlan(3)).asset).to.equal(daiAddr);
+
+    const { depositId } = await client.openDeposit({ planId: 3, amount: DAI("2000") });
+    await client.increaseDeposit(depositId, DAI("1000"));
+    expect((await client.getDeposit(depositId)).principal).to.equal(DAI("3000"));
+
+    const health = await client.getVaultHealth(daiAddr);
+    expect(health.asset).to.equal(daiAddr);
+    expect(health.tokenVaultBalance).to.equal(DAI("3000"));
+    expect(health.totalReserved).to.equal(await savingsBank.calculateInterest(depositId));
+    expect((await client.getVaultHealth()).tokenVaultBalance).to.equal(0n);
+  });
+
+  it("formats amounts and rates", function () {
+    expect(formatUSDC(parseUSDC("1234.5"))).to.equal("1234.5");
+    expect(formatBps(550n)).to.equal("5.50%");
+  });
+});
@@ -0,0 +1,326 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Result } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  DepositNFT,
+  InterestVault,
+  MockERC4626Vault,
+  MockUSDC,
+  SavingsBank,
+  SavingsTimelock,
+  TokenVault,
+} from "../../typechain";
+import { SavingsMigrator } from "../../migration";
+import { TimelockedAction, parseUSDC } from "../../sdk";
+import {
+  deployDepositNFT,
+  deploySavingsBank,
+  deploySavingsSystem,
+  executeTimelockCall,
+  executeTimelocked,
+} from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+
+/**
+ * Migration between deployments: the paused source exports its vaults (TIMELOCK_ROLE), the fresh
+ * target imports plans and active certificates during its migration window, and SavingsMigrator
+ * reconciles both sides.
+ */
+describe("SavingsBank migration", function () {
+  let usdc: MockUSDC;
+  let source: SavingsBank;
+  let timelock: SavingsTimelock;
+  let sourceTokenVault: TokenVault;
+  let sourceInterestVault: InterestVault;
+  let target: SavingsBank;
+  let targetTokenVault: TokenVault;
+  let targetInterestVault: InterestVault;
+  let targetNFT: DepositNFT;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let user3: SignerWithAddress;
+  let targetAddr: string;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) => executeTimelocked(timelock, source, action, args);
+
+  /** Source records as plain objects (ethers Results are read-only and can't be passed back as structs) */
+  const planOf = async (id: number) =>
+    ((await source.savingPlans(id)) as unknown as Result).toObject(true) as SavingsBank.SavingPlanStruct;
+  const certOf = async (id: number) =>
+    ((await source.deposits(id)) as unknown as Result).toObject() as SavingsBank.DepositCertificateStruct;
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ usdc, admin, timelock, savingsBank: source, tokenVault: sourceTokenVault, interestVault: sourceInterestVault } = system);
+    [user1, user2, user3] = system.users;
+
+    await source.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+    await source.connect(user1).openDeposit(2, parseUSDC("5000"), true);
+    await source.connect(user2).openDeposit(2, parseUSDC("2000"), false);
+    await source.connect(user2).earlyWithdraw(3);
+    await system.depositNFT.connect(user1).transferFrom(user1.address, user3.address, 2);
+    await source.enablePlan(1, false);
+
+    // Fresh deployment sharing the asset: own vaults and NFT, no plans, no funding
+    const usdcAddr = await usdc.getAddress();
+    targetTokenVault = (await (await ethers.getContractFactory("TokenVault")).deploy(usdcAddr)) as TokenVault;
+    targetInterestVault = (await (await ethers.getContractFactory("InterestVault")).deploy(usdcAddr)) as InterestVault;
+    target = await deploySavingsBank(
+      usdcAddr,
+      await targetTokenVault.getAddress(),
+      await targetInterestVault.getAddress(),
+      ethers.ZeroAddress,
+      system.addresses.forwarder!,
+      await timelock.getAddress()
+    );
+    targetAddr = await target.getAddress();
+    targetNFT = await deployDepositNFT(target);
+    await targetTokenVault.transferOwnership(targetAddr);
+    await targetInterestVault.transferOwnership(targetAddr);
+  });
+
+  describe("Import window", function () {
+    it("imports only while the window is open, plans in order", async function () {
+      const plan = await planOf(1);
+      await expect(target.importPlan(1, plan, [])).to.be.revertedWith("SavingsBank: Migration window closed");
+
+      await expect(target.connect(user1).openMigration(DAY)).to.be.revertedWithCustomError(
+        target,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(target.openMigration(0)).to.be.revertedWith("SavingsBank: Invalid migration window");
+      await expect(target.openMigration(31 * DAY)).to.be.revertedWith("SavingsBank: Invalid migration window");
+
+      await expect(target.openMigration(DAY)).to.emit(target, "MigrationOpened");
+      await expect(target.openMigration(DAY)).to.be.revertedWith("SavingsBank: Migration already opened");
+
+      await expect(target.importPlan(2, await planOf(2), [])).to.be.revertedWith("SavingsBank: Plan out of order");
+      await expect(target.importPlan(1, plan, []))
+        .to.emit(target, "PlanCreated")
+        .withArgs(1, plan.name)
+        .and.to.emit(target, "PlanEnabled")
+        .withArgs(1, false);
+
+      await expect(target.closeMigration()).to.emit(target, "MigrationClosed");
+      await expect(target.importPlan(2, await planOf(2), [])).to.be.revertedWith(
+        "SavingsBank: Migration window closed"
+      );
+      await expect(target.closeMigration()).to.be.revertedWith("SavingsBank: Migration window closed");
+    });
+
+    it("blocks new deposits until the window ends", async function () {
+      await target.openMigration(DAY);
+      await target.importPlan(1, await planOf(1), []);
+      await target.importPlan(2, await planOf(2), []);
+      await usdc.connect(user1).approve(await targetTokenVault.getAddress(), ethers.MaxUint256);
+      await usdc.mint(admin.address, parseUSDC("1000"));
+      await usdc.approve(await targetInterestVault.getAddress(), parseUSDC("1000"));
+      await target.fundVault(parseUSDC("1000"));
+
+      await expect(target.connect(user1).openDeposit(2, parseUSDC("1000"), false)).to.be.revertedWith(
+        "SavingsBank: Migration in progress"
+      );
+      await time.increase(DAY);
+      await expect(target.connect(user1).openDeposit(2, parseUSDC("1000"), false)).to.emit(target, "DepositOpened");
+    });
+
+    it("blocks top-ups and renewals of imported deposits until the window ends", async function () {
+      // Deposit #2 (auto-renew, held by user3) matures one day into the window
+      await time.increase(29 * DAY);
+      await target.openMigration(2 * DAY);
+      await target.importPlan(1, await planOf(1), []);
+      await target.importPlan(2, await planOf(2), []);
+      await usdc.mint(admin.address, parseUSDC("1000"));
+      await usdc.approve(await targetInterestVault.getAddress(), parseUSDC("1000"));
+      await target.fundVault(parseUSDC("1000"));
+      await target.importDeposit(2, user3.address, await certOf(2));
+      await usdc.connect(user3).approve(await targetTokenVault.getAddress(), ethers.MaxUint256);
+
+      await expect(target.connect(user3).increaseDeposit(2, parseUSDC("100"))).to.be.revertedWith(
+        "SavingsBank: Migration in progress"
+      );
+      await time.increase(DAY);
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [2]);
+      expect((await target.checkAutoRenew(2)).upkeepNeeded).to.equal(false);
+      await expect(target.connect(user3).autoRenew(2)).to.be.revertedWith("SavingsBank: Migration in progress");
+      await expect(target.performAutoRenew(performData)).to.be.revertedWith("SavingsBank: Migration in progress");
+
+      await time.increase(DAY);
+      expect((await target.checkAutoRenew(2)).upkeepNeeded).to.equal(true);
+      await expect(target.performAutoRenew(performData)).to.emit(target, "AutoRenewed");
+    });
+
+    it("only opens on a deployment without deposits", async function () {
+      await expect(source.openMigration(DAY)).to.be.revertedWith("SavingsBank: Deposits exist");
+    });
+
+    it("rejects existing deposits and unknown plans", async function () {
+      await target.openMigration(DAY);
+      await target.importPlan(1, await planOf(1), []);
+      const cert = await certOf(1);
+
+      await expect(target.importDeposit(1, ethers.ZeroAddress, cert)).to.be.revertedWith("SavingsBank: Invalid owner");
+      await expect(target.importDeposit(2, user3.address, await certOf(2))).to.be.revertedWith(
+        "SavingsBank: Plan not found"
+      );
+      await expect(target.importDeposit(3, user2.address, { ...cert, status: 2 })).to.be.revertedWith(
+        "SavingsBank: Not active"
+      );
+      // Interest must already sit in the target InterestVault
+      await expect(target.importDeposit(1, user1.address, cert)).to.be.reverted;
+    });
+  });
+
+  describe("Vault export", function () {
+    it("requires TIMELOCK_ROLE and a paused source", async function () {
+      const usdcAddr = await usdc.getAddress();
+      await expect(source.connect(user1).exportVaults(usdcAddr, targetAddr)).to.be.revertedWithCustomError(
+        source,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(timelocked("exportVaults", [usdcAddr, targetAddr])).to.be.revertedWithCustomError(source, "ExpectedPause");
+
+      await source.pause();
+      await expect(timelocked("exportVaults", [usdcAddr, await source.getAddress()])).to.be.revertedWith(
+        "SavingsBank: Invalid bank"
+      );
+    });
+
+    it("moves principal and interest liquidity and keeps the source paused", async function () {
+      const usdcAddr = await usdc.getAddress();
+      const principal = await sourceTokenVault.balance();
+      const interest = await sourceInterestVault.balance();
+
+      await source.pause();
+      await expect(timelocked("exportVaults", [usdcAddr, targetAddr]))
+        .to.emit(source, "VaultsExported")
+        .withArgs(usdcAddr, targetAddr, principal, interest);
+
+      expect(await sourceTokenVault.balance()).to.equal(0);
+      expect(await sourceInterestVault.balance()).to.equal(0);
+      expect(await sourceInterestVault.totalReserved()).to.equal(0);
+      expect(await targetTokenVault.balance()).to.equal(principal);
+      expect(await targetInterestVault.balance()).to.equal(interest);
+      expect(await source.migratedTo()).to.equal(targetAddr);
+
+      await expect(source.unpause()).to.be.revertedWith("SavingsBank: Migrated");
+      await expect(timelocked("exportVaults", [usdcAddr, user1.address])).to.be.revertedWith("SavingsBank: Migrated");
+    });
+    it("makes up principal lost in the strategy from InterestVault", async function () {
+      const usdcAddr = await usdc.getAddress();
+      const strategy = (await (
+        await ethers.getContractFactory("MockERC4626Vault")
+      ).deploy(usdcAddr)) as MockERC4626Vault;
+      await sourceTokenVault.setInterestVault(sourceInterestVault);
+      await sourceTokenVault.setStrategy(strategy);
+      await sourceTokenVault.setDeployedShare(8000);
+      await sourceTokenVault.rebalance();
+      await strategy.simulateLoss(parseUSDC("800"));
+
+      // Deposits #1 (1,000) and #2 (5,000) are still owed in full
+      const owed = parseUSDC("6000");
+      const shortfall = owed - (await sourceTokenVault.principalBalance());
+      expect(shortfall).to.be.gt(0);
+      const interest = (await sourceInterestVault.balance()) - shortfall;
+
+      await source.pause();
+      await expect(timelocked("exportVaults", [usdcAddr, targetAddr]))
+        .to.emit(source, "VaultsExported")
+        .withArgs(usdcAddr, targetAddr, owed, interest);
+      expect(await targetTokenVault.balance()).to.equal(owed);
+      expect(await targetInterestVault.balance()).to.equal(interest);
+      expect(await sourceInterestVault.balance()).to.equal(0);
+    });
+  });
+
+  describe("SavingsMigrator", function () {
+    it("migrates plans, active deposits and vaults and reconciles them", async function () {
+      const migrator = new SavingsMigrator(admin, await source.getAddress(), targetAddr);
+      await timelocked("setPlanAprTiers", [2, [{ minAmount: parseUSDC("10000"), aprBps: 900 }]]);
+
+      // Source still live: nothing moved yet
+      let plan = await migrator.plan(await migrator.exportSnapshot());
+      expect(plan.problems.join()).to.contain("not paused");
+      expect(plan.problems.join()).to.contain("run exportVaults first");
+
+      await source.pause();
+      const snapshot = await migrator.exportSnapshot();
+      expect(snapshot.plans.map((p) => p.name)).to.deep.equal(["7 Days", "30 Days"]);
+      expect(snapshot.deposits.map((d) => [d.depositId, d.owner])).to.deep.equal([
+        [1n, user1.address],
+        [2n, user3.address],
+      ]);
+      expect(snapshot.vaults[0].activePrincipal).to.equal(snapshot.vaults[0].tokenVaultBalance);
+
+      for (const call of await migrator.exportVaultCalls(snapshot)) {
+        await executeTimelockCall(timelock, call);
+      }
+
+      // Dry run lists the steps without sending
+      const dryRun = await new SavingsMigrator(admin, await source.getAddress(), targetAddr, { dryRun: true }).run(
+        snapshot
+      );
+      expect(dryRun.problems).to.be.empty;
+      expect(dryRun.txHashes).to.be.empty;
+      expect(dryRun.steps.map((s) => s.kind)).to.deep.equal([
+        "openMigration",
+        "importPlan",
+        "importPlan",
+        "importDeposit",
+        "importDeposit",
+        "closeMigration",
+      ]);
+      expect(await target.migrationEndsAt()).to.equal(0);
+
+      const result = await migrator.run(snapshot);
+      expect(result.txHashes).to.have.length(6);
+
+      const report = await migrator.reconcile(snapshot);
+      expect(report.checks.filter((c) => !c.ok)).to.be.empty;
+      expect(report.ok).to.equal(true);
+      expect(await targetNFT.ownerOf(2)).to.equal(user3.address);
+      expect(await target.getPlanAprTiers(2)).to.deep.equal([[parseUSDC("10000"), 900n]]);
+      expect(await targetInterestVault.totalReserved()).to.equal(snapshot.vaults[0].totalReserved);
+
+      // Certificates keep working on the new deployment
+      await time.increase(30 * DAY);
+      const before = await usdc.balanceOf(user3.address);
+      await target.connect(user3).withdraw(2);
+      expect(await usdc.balanceOf(user3.address)).to.be.gt(before + parseUSDC("5000"));
+      await usdc.connect(user2).approve(await targetTokenVault.getAddress(), ethers.MaxUint256);
+      await target.connect(user2).openDeposit(2, parseUSDC("1000"), false);
+      expect(await target.nextDepositId()).to.equal(4);
+
+      // A tampered snapshot is reported
+      const tampered = { ...snapshot, deposits: [{ ...snapshot.deposits[0], principal: parseUSDC("999") }] };
+      expect((await migrator.reconcile(tampered)).ok).to.equal(false);
+
+      plan = await migrator.plan(snapshot);
+      expect(plan.problems.join()).to.contain("window closed");
+    });
+
+    it("resumes a partial import", async function () {
+      await source.pause();
+      const migrator = new SavingsMigrator(admin, await source.getAddress(), targetAddr, { closeWindow: false });
+      const snapshot = await migrator.exportSnapshot();
+      for (const call of await migrator.exportVaultCalls(snapshot)) {
+        await executeTimelockCall(timelock, call);
+      }
+
+      await target.openMigration(DAY);
+      await target.importPlan(1, await planOf(1), []);
+
+      const plan = await migrator.plan(snapshot);
+      expect(plan.problems).to.be.empty;
+      expect(plan.skipped).to.deep.equal(["plan #1"]);
+      expect(plan.steps.map((s) => s.kind)).to.deep.equal(["importPlan", "importDeposit", "importDeposit"]);
+
+      await migrator.run(snapshot);
+      expect((await migrator.reconcile(snapshot)).ok).to.equal(true);
+    });
+  });
+});
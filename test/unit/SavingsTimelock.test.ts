@@ -0,0 +1,230 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockUSDC, SavingsBank, SavingsTimelock } from "../../typechain";
+import {
+  encodeTimelockCall,
+  hashTimelockCall,
+  listPendingOperations,
+  NO_PLAN_LIMITS,
+  parseUSDC,
+  TimelockCall,
+} from "../../sdk";
+import { deploySavingsSystem, deploySavingsTimelock } from "../helpers/fixtures";
+
+const DELAY = 3600;
+
+/**
+ * Plan rate changes and InterestVault withdrawals through SavingsTimelock (TIMELOCK_ROLE).
+ * admin is the proposer, `executor` the only executor; the bank grants the role to the timelock
+ * at initialization and only the timelock administers it.
+ */
+describe("SavingsTimelock", function () {
+  let usdc: MockUSDC;
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let executor: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let bankAddr: string;
+  let timelockAddr: string;
+
+  const schedule = (call: TimelockCall, delay = DELAY) =>
+    timelock.connect(admin).schedule(call.target, call.value, call.data, call.predecessor, call.salt, delay);
+  const execute = (call: TimelockCall, signer = executor) =>
+    timelock.connect(signer).execute(call.target, call.value, call.data, call.predecessor, call.salt);
+
+  beforeEach(async function () {
+    // users[4] executes
+    const system = await deploySavingsSystem({
+      timelockDelay: DELAY,
+      timelockExecutor: (await ethers.getSigners())[5].address,
+    });
+    ({ usdc, savingsBank, timelock, admin } = system);
+    [user1, , , , executor, treasury] = system.users;
+    bankAddr = system.addresses.savingsBank;
+    timelockAddr = await timelock.getAddress();
+  });
+
+  it("blocks direct rate changes and withdrawals, even from the admin", async function () {
+    const role = await savingsBank.TIMELOCK_ROLE();
+    expect(await savingsBank.hasRole(role, admin.address)).to.equal(false);
+    expect(await savingsBank.hasRole(role, timelockAddr)).to.equal(true);
+
+    // TIMELOCK_ROLE administers itself: DEFAULT_ADMIN_ROLE can neither take it nor strip the timelock
+    expect(await savingsBank.getRoleAdmin(role)).to.equal(role);
+    await expect(savingsBank.grantRole(role, admin.address))
+      .to.be.revertedWithCustomError(savingsBank, "AccessControlUnauthorizedAccount")
+      .withArgs(admin.address, role);
+    await expect(savingsBank.revokeRole(role, timelockAddr))
+      .to.be.revertedWithCustomError(savingsBank, "AccessControlUnauthorizedAccount")
+      .withArgs(admin.address, role);
+    expect(await savingsBank.hasRole(role, admin.address)).to.equal(false);
+
+    await expect(savingsBank.updatePlan(1, 600, 500, NO_PLAN_LIMITS))
+      .to.be.revertedWithCustomError(savingsBank, "AccessControlUnauthorizedAccount")
+      .withArgs(admin.address, role);
+    await expect(savingsBank.setPlanEarlyRate(1, 100)).to.be.revertedWithCustomError(
+      savingsBank,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(savingsBank.withdrawVault(admin.address, 1)).to.be.revertedWithCustomError(
+      savingsBank,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(savingsBank.setPlanAprTiers(1, [])).to.be.revertedWithCustomError(
+      savingsBank,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(savingsBank.exportVaults(await usdc.getAddress(), admin.address)).to.be.revertedWithCustomError(
+      savingsBank,
+      "AccessControlUnauthorizedAccount"
+    );
+  });
+
+  it("hands TIMELOCK_ROLE to another timelock only through a timelocked call", async function () {
+    const role = await savingsBank.TIMELOCK_ROLE();
+    const next = await deploySavingsTimelock(DELAY, admin.address, executor.address);
+    const nextAddr = await next.getAddress();
+    const grant: TimelockCall = {
+      target: bankAddr,
+      value: 0n,
+      data: savingsBank.interface.encodeFunctionData("grantRole", [role, nextAddr]),
+      predecessor: ethers.ZeroHash,
+      salt: ethers.ZeroHash,
+    };
+    const revoke: TimelockCall = {
+      ...grant,
+      data: savingsBank.interface.encodeFunctionData("renounceRole", [role, timelockAddr]),
+      predecessor: await hashTimelockCall(timelockAddr, grant, admin),
+    };
+    await schedule(grant);
+    await schedule(revoke);
+
+    await time.increase(DELAY);
+    await execute(grant);
+    await execute(revoke);
+    expect(await savingsBank.hasRole(role, nextAddr)).to.equal(true);
+    expect(await savingsBank.hasRole(role, timelockAddr)).to.equal(false);
+  });
+
+  it("changes plan rates only after the delay", async function () {
+    const call = encodeTimelockCall(bankAddr, "updatePlan", [1, 600, 400, NO_PLAN_LIMITS]);
+    const id = await hashTimelockCall(timelockAddr, call, admin);
+
+    await expect(schedule(call))
+      .to.emit(timelock, "CallScheduled")
+      .withArgs(id, 0, bankAddr, 0, call.data, call.predecessor, DELAY);
+    const scheduledAt = BigInt(await time.latest());
+    const rushed = { ...call, salt: ethers.id("rushed") };
+    await expect(schedule(rushed, DELAY - 1)).to.be.revertedWithCustomError(timelock, "TimelockInsufficientDelay");
+
+    const [pending] = await listPendingOperations(timelockAddr, admin, { savingsBank: bankAddr });
+    expect(pending.id).to.equal(id);
+    expect(pending.action).to.equal("updatePlan");
+    expect(pending.args.slice(0, 3)).to.deep.equal([1n, 600n, 400n]);
+    expect(pending.eta).to.equal(scheduledAt + BigInt(DELAY));
+    expect(pending.ready).to.equal(false);
+
+    await expect(execute(call)).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+    await time.increase(DELAY);
+    expect((await listPendingOperations(timelockAddr, admin))[0].ready).to.equal(true);
+
+    await expect(execute(call)).to.emit(savingsBank, "PlanUpdated").withArgs(1).and.to.emit(timelock, "CallExecuted");
+    expect((await savingsBank.savingPlans(1)).aprBps).to.equal(600);
+    expect(await listPendingOperations(timelockAddr, admin)).to.have.length(0);
+  });
+
+  it("drops cancelled operations", async function () {
+    const call = encodeTimelockCall(bankAddr, "setPlanEarlyRate", [1, 200]);
+    const id = await hashTimelockCall(timelockAddr, call, admin);
+    await schedule(call);
+
+    await expect(timelock.connect(admin).cancel(id)).to.emit(timelock, "Cancelled").withArgs(id);
+    expect(await listPendingOperations(timelockAddr, admin)).to.have.length(0);
+
+    await time.increase(DELAY);
+    await expect(execute(call)).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+    expect((await savingsBank.savingPlans(1)).earlyRateBps).to.equal(0);
+  });
+
+  it("pays treasury withdrawals to the scheduled recipient", async function () {
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("10000"), false);
+    const available = await (
+      await ethers.getContractAt("InterestVault", await savingsBank.interestVault())
+    ).availableBalance();
+
+    const tooMuch = encodeTimelockCall(bankAddr, "withdrawVault", [treasury.address, available + 1n]);
+    const call = encodeTimelockCall(bankAddr, "withdrawVault", [treasury.address, available]);
+    await schedule(tooMuch);
+    await schedule(call);
+
+    const pending = await listPendingOperations(timelockAddr, admin, { savingsBank: bankAddr });
+    expect(pending.map((op) => op.args[1])).to.deep.equal([available + 1n, available]);
+
+    await time.increase(DELAY);
+    await expect(execute(tooMuch)).to.be.revertedWith("SavingsBank: Insufficient available funds");
+    await expect(execute(call)).to.emit(savingsBank, "VaultWithdrawn").withArgs(available);
+    expect(await usdc.balanceOf(treasury.address)).to.equal(available);
+  });
+
+  it("keeps the same call apart by salt", async function () {
+    const first = encodeTimelockCall(bankAddr, "setPlanEarlyRate", [1, 100]);
+    const second = encodeTimelockCall(bankAddr, "setPlanEarlyRate", [1, 100], ethers.id("second"));
+    await schedule(first);
+    await expect(schedule(first)).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+    await schedule(second);
+
+    const pending = await listPendingOperations(timelockAddr, admin, { savingsBank: bankAddr });
+    expect(pending.map((op) => op.call.salt)).to.deep.equal([ethers.ZeroHash, ethers.id("second")]);
+    expect(pending[1].id).to.equal(await hashTimelockCall(timelockAddr, second, admin));
+  });
+
+  it("restricts scheduling to proposers and execution to executors", async function () {
+    const call = encodeTimelockCall(bankAddr, "updatePlan", [1, 600, 500, NO_PLAN_LIMITS]);
+    const proposer = await timelock.PROPOSER_ROLE();
+    const executorRole = await timelock.EXECUTOR_ROLE();
+
+    await expect(
+      timelock.connect(user1).schedule(call.target, call.value, call.data, call.predecessor, call.salt, DELAY)
+    )
+      .to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount")
+      .withArgs(user1.address, proposer);
+
+    await schedule(call);
+    await time.increase(DELAY);
+    await expect(execute(call, user1))
+      .to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount")
+      .withArgs(user1.address, executorRole);
+    await expect(execute(call, admin)).to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+  });
+
+  it("timelocks changes to its own delay", async function () {
+    await expect(timelock.connect(admin).updateDelay(60)).to.be.revertedWithCustomError(
+      timelock,
+      "TimelockUnauthorizedCaller"
+    );
+
+    const data = timelock.interface.encodeFunctionData("updateDelay", [2 * DELAY]);
+    const call: TimelockCall = {
+      target: timelockAddr,
+      value: 0n,
+      data,
+      predecessor: ethers.ZeroHash,
+      salt: ethers.ZeroHash,
+    };
+    await schedule(call);
+
+    const [pending] = await listPendingOperations(timelockAddr, admin, { savingsBank: bankAddr });
+    expect(pending.action).to.equal(undefined);
+
+    await time.increase(DELAY);
+    await expect(execute(call))
+      .to.emit(timelock, "MinDelayChange")
+      .withArgs(DELAY, 2 * DELAY);
+    expect(await timelock.getMinDelay()).to.equal(2 * DELAY);
+  });
+});
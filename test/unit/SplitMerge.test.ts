@@ -0,0 +1,275 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DepositNFT, InterestVault, MockUSDC, SavingsBank, SavingsTimelock } from "../../typechain";
+import { DepositStatus, NO_PLAN_LIMITS, SavingsAddresses, SavingsClient, TimelockedAction, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+
+/**
+ * splitDeposit / mergeDeposits: restructure certificates before maturity without touching their terms.
+ * The InterestVault reservation always equals the full-term interest of the active certificates.
+ */
+describe("Split and merge", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let usdc: MockUSDC;
+  let interestVault: InterestVault;
+  let depositNFT: DepositNFT;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let addresses: SavingsAddresses;
+
+  const timelocked = (action: TimelockedAction, args: unknown[]) =>
+    executeTimelocked(timelock, savingsBank, action, args);
+
+  /** Sum of the full-term interest of `ids` (what the vault must reserve for them) */
+  async function interestOf(ids: number[]) {
+    let total = 0n;
+    for (const id of ids) total += await savingsBank.calculateInterest(id);
+    return total;
+  }
+
+  /** Send `txs` in a single block so the certificates share their start and maturity */
+  async function inOneBlock(txs: (() => Promise<unknown>)[]) {
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      for (const tx of txs) await tx();
+      await ethers.provider.send("evm_mine", []);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, usdc, interestVault, depositNFT, admin, addresses } = system);
+    [user1, user2] = system.users;
+
+    // Deposit #1: 1,000 USDC in plan 1 (7 days, 5%); 1,000 × 5% × 7 / 365 does not divide evenly
+    await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), true);
+    await time.increase(2 * DAY);
+  });
+
+  describe("splitDeposit()", function () {
+    it("creates one certificate and NFT per part with the original terms", async function () {
+      const original = await savingsBank.deposits(1);
+      const amounts = [parseUSDC("600"), parseUSDC("400")];
+
+      await expect(savingsBank.connect(user1).splitDeposit(1, amounts))
+        .to.emit(savingsBank, "DepositSplit")
+        .withArgs(1, 2, amounts[0])
+        .and.to.emit(savingsBank, "DepositSplit")
+        .withArgs(1, 3, amounts[1]);
+
+      expect((await savingsBank.deposits(1)).status).to.equal(await savingsBank.STATUS_SPLIT());
+      await expect(depositNFT.ownerOf(1)).to.be.revertedWithCustomError(depositNFT, "ERC721NonexistentToken");
+      for (const [i, id] of [2, 3].entries()) {
+        const part = await savingsBank.deposits(id);
+        expect(part.principal).to.equal(amounts[i]);
+        expect(part.planId).to.equal(original.planId);
+        expect(part.startTime).to.equal(original.startTime);
+        expect(part.maturityTime).to.equal(original.maturityTime);
+        expect(part.lockedAprBps).to.equal(original.lockedAprBps);
+        expect(part.isAutoRenewEnabled).to.equal(true);
+        expect(part.status).to.equal(0);
+        expect(await depositNFT.ownerOf(id)).to.equal(user1.address);
+        expect(await savingsBank.depositOwner(id)).to.equal(user1.address);
+      }
+      expect(await savingsBank.nextDepositId()).to.equal(4);
+      expect(await savingsBank.getPlanUsage(1, user1.address)).to.deep.equal([
+        parseUSDC("1000"),
+        parseUSDC("1000"),
+        2n,
+      ]);
+
+      // A part can be handed over and withdrawn on its own at maturity
+      await depositNFT.connect(user1).transferFrom(user1.address, user2.address, 3);
+      await time.increase(5 * DAY);
+      const interest = await savingsBank.calculateInterest(3);
+      await expect(savingsBank.connect(user2).withdraw(3)).to.changeTokenBalance(usdc, user2, amounts[1] + interest);
+    });
+
+    it("releases only the rounding dust so the reservation matches the parts exactly", async function () {
+      const reservedBefore = await interestVault.totalReserved();
+      expect(reservedBefore).to.equal(await interestOf([1]));
+
+      const amounts = [parseUSDC("333.333333"), parseUSDC("333.333333"), parseUSDC("333.333334")];
+      await savingsBank.connect(user1).splitDeposit(1, amounts);
+
+      const parts = await interestOf([2, 3, 4]);
+      const dust = reservedBefore - parts;
+      expect(await interestVault.totalReserved()).to.equal(parts);
+      expect(dust).to.be.gt(0n);
+      expect(dust).to.be.lt(BigInt(amounts.length));
+    });
+
+    it("rejects invalid splits", async function () {
+      const half = parseUSDC("500");
+      await expect(savingsBank.connect(user2).splitDeposit(1, [half, half])).to.be.revertedWith(
+        "SavingsBank: Not owner"
+      );
+      await expect(savingsBank.connect(user1).splitDeposit(1, [parseUSDC("1000")])).to.be.revertedWith(
+        "SavingsBank: Invalid split"
+      );
+      await expect(savingsBank.connect(user1).splitDeposit(1, Array(11).fill(parseUSDC("100")))).to.be.revertedWith(
+        "SavingsBank: Invalid split"
+      );
+      await expect(savingsBank.connect(user1).splitDeposit(1, [half, parseUSDC("400")])).to.be.revertedWith(
+        "SavingsBank: Parts must add up to principal"
+      );
+      await expect(savingsBank.connect(user1).splitDeposit(1, [parseUSDC("950"), parseUSDC("50")])).to.be.revertedWith(
+        "SavingsBank: Below minDeposit"
+      );
+
+      await savingsBank.pause();
+      await expect(savingsBank.connect(user1).splitDeposit(1, [half, half])).to.be.revertedWithCustomError(
+        savingsBank,
+        "EnforcedPause"
+      );
+      await savingsBank.unpause();
+
+      await time.increase(5 * DAY);
+      await expect(savingsBank.connect(user1).splitDeposit(1, [half, half])).to.be.revertedWith(
+        "SavingsBank: Already matured"
+      );
+    });
+
+    it("counts every part against maxDepositsPerUser", async function () {
+      await savingsBank.createPlan("Limited", 7, parseUSDC("100"), parseUSDC("10000"), 500, 500, {
+        ...NO_PLAN_LIMITS,
+        maxDepositsPerUser: 3n,
+      });
+      const amount = parseUSDC("1000");
+      await savingsBank.connect(user1).openDeposit(3, amount, false);
+      await savingsBank.connect(user1).openDeposit(3, amount, false);
+
+      const third = parseUSDC("333.333333");
+      await expect(savingsBank.connect(user1).splitDeposit(2, [third, third, amount - 2n * third])).to.be.revertedWith(
+        "SavingsBank: Too many deposits"
+      );
+
+      await savingsBank.connect(user1).splitDeposit(2, [parseUSDC("500"), parseUSDC("500")]);
+      expect(await savingsBank.getPlanUsage(3, user1.address)).to.deep.equal([amount * 2n, amount * 2n, 3n]);
+      await expect(savingsBank.connect(user1).openDeposit(3, amount, false)).to.be.revertedWith(
+        "SavingsBank: Too many deposits"
+      );
+
+      // Merging the parts back frees a slot
+      await savingsBank.connect(user1).mergeDeposits([4, 5]);
+      expect(await savingsBank.getPlanUsage(3, user1.address)).to.deep.equal([amount * 2n, amount * 2n, 2n]);
+      await expect(savingsBank.connect(user1).openDeposit(3, amount, false)).to.emit(savingsBank, "DepositOpened");
+    });
+  });
+
+  describe("mergeDeposits()", function () {
+    it("restores the original certificate's reservation and payout after a split", async function () {
+      const reservedBefore = await interestVault.totalReserved();
+      const interestBefore = await savingsBank.calculateInterest(1);
+      await savingsBank
+        .connect(user1)
+        .splitDeposit(1, [parseUSDC("333.333333"), parseUSDC("333.333333"), parseUSDC("333.333334")]);
+
+      await expect(savingsBank.connect(user1).mergeDeposits([2, 3, 4]))
+        .to.emit(savingsBank, "DepositMerged")
+        .withArgs(2, 5, parseUSDC("333.333333"))
+        .and.to.emit(savingsBank, "DepositMerged")
+        .withArgs(4, 5, parseUSDC("333.333334"));
+
+      const merged = await savingsBank.deposits(5);
+      const original = await savingsBank.deposits(1);
+      expect(merged.principal).to.equal(parseUSDC("1000"));
+      expect(merged.maturityTime).to.equal(original.maturityTime);
+      expect(merged.lockedAprBps).to.equal(original.lockedAprBps);
+      for (const id of [2, 3, 4]) {
+        expect((await savingsBank.deposits(id)).status).to.equal(await savingsBank.STATUS_MERGED());
+        await expect(depositNFT.ownerOf(id)).to.be.revertedWithCustomError(depositNFT, "ERC721NonexistentToken");
+      }
+      expect(await depositNFT.ownerOf(5)).to.equal(user1.address);
+      expect(await savingsBank.calculateInterest(5)).to.equal(interestBefore);
+      expect(await interestVault.totalReserved()).to.equal(reservedBefore);
+      expect(await savingsBank.getPlanUsage(1, user1.address)).to.deep.equal([
+        parseUSDC("1000"),
+        parseUSDC("1000"),
+        1n,
+      ]);
+
+      // Nothing is left behind: the payout is the original one and the reservation goes back to zero
+      await time.increase(5 * DAY);
+      await expect(savingsBank.connect(user1).withdraw(5)).to.changeTokenBalance(
+        usdc,
+        user1,
+        parseUSDC("1000") + interestBefore
+      );
+      expect(await interestVault.totalReserved()).to.equal(0);
+    });
+
+    it("reserves for the merged principal exactly what a single deposit would", async function () {
+      const amount = parseUSDC("333.333333");
+      await inOneBlock([
+        () => savingsBank.connect(user2).openDeposit(1, amount, true),
+        () => savingsBank.connect(user2).openDeposit(1, amount, false),
+        () => savingsBank.connect(user2).openDeposit(1, amount * 2n, false),
+      ]);
+      const separately = await interestOf([1, 2, 3, 4]);
+      expect(await interestVault.totalReserved()).to.equal(separately);
+
+      await savingsBank.connect(user2).mergeDeposits([2, 3]);
+      await savingsBank.connect(user2).mergeDeposits([5, 4]);
+
+      const merged = await savingsBank.deposits(6);
+      expect(merged.principal).to.equal(amount * 4n);
+      expect(merged.isAutoRenewEnabled).to.equal(false);
+      expect(await savingsBank.calculateInterest(6)).to.equal((amount * 4n * 500n * 7n) / (365n * 10_000n));
+      expect(await interestVault.totalReserved()).to.equal(await interestOf([1, 6]));
+    });
+
+    it("only merges active certificates of the caller with the same plan, maturity and terms", async function () {
+      await timelocked("setPlanAprTiers", [1, [{ minAmount: parseUSDC("2000"), aprBps: 600 }]]);
+      await inOneBlock([
+        () => savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false),
+        () => savingsBank.connect(user1).openDeposit(1, parseUSDC("2000"), false),
+        () => savingsBank.connect(user1).openDeposit(2, parseUSDC("1000"), false),
+        () => savingsBank.connect(user2).openDeposit(1, parseUSDC("1000"), false),
+        () => savingsBank.connect(user1).openDeposit(1, parseUSDC("6000"), false),
+        () => savingsBank.connect(user1).openDeposit(1, parseUSDC("6000"), false),
+      ]);
+
+      await expect(savingsBank.connect(user1).mergeDeposits([2])).to.be.revertedWith("SavingsBank: Invalid merge");
+      await expect(savingsBank.connect(user1).mergeDeposits([2, 5])).to.be.revertedWith("SavingsBank: Not owner");
+      await expect(savingsBank.connect(user1).mergeDeposits([2, 2])).to.be.revertedWith("SavingsBank: Not active");
+      await expect(savingsBank.connect(user1).mergeDeposits([1, 2])).to.be.revertedWith(
+        "SavingsBank: Plan or maturity mismatch"
+      );
+      await expect(savingsBank.connect(user1).mergeDeposits([2, 4])).to.be.revertedWith(
+        "SavingsBank: Plan or maturity mismatch"
+      );
+      await expect(savingsBank.connect(user1).mergeDeposits([2, 3])).to.be.revertedWith("SavingsBank: Terms mismatch");
+
+      await expect(savingsBank.connect(user1).mergeDeposits([6, 7])).to.be.revertedWith(
+        "SavingsBank: Above maxDeposit"
+      );
+
+      await time.increase(7 * DAY);
+      await expect(savingsBank.connect(user1).mergeDeposits([6, 7])).to.be.revertedWith("SavingsBank: Already matured");
+    });
+  });
+
+  it("splits and merges through SavingsClient", async function () {
+    const client = new SavingsClient(addresses, user1);
+
+    const split = await client.splitDeposit(1, [parseUSDC("400"), parseUSDC("600")]);
+    expect(split.newDepositIds).to.deep.equal([2n, 3n]);
+    expect(split.amounts).to.deep.equal([parseUSDC("400"), parseUSDC("600")]);
+    expect((await client.getDeposit(1)).status).to.equal(DepositStatus.Split);
+
+    const merged = await client.mergeDeposits(split.newDepositIds);
+    expect(merged.depositIds).to.deep.equal([2n, 3n]);
+    expect(merged.newDepositId).to.equal(4n);
+    expect(merged.principal).to.equal(parseUSDC("1000"));
+    expect((await client.getDeposit(2)).status).to.equal(DepositStatus.Merged);
+  });
+});
@@ -0,0 +1,291 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { InterestVault, MockERC4626Vault, MockUSDC, SavingsBank, SavingsTimelock, TokenVault } from "../../typechain";
+import { SavingsAddresses, SavingsClient, parseUSDC } from "../../sdk";
+import { deploySavingsSystem, executeTimelocked } from "../helpers/fixtures";
+
+const DAY = 24 * 3600;
+/** ERC-4626 conversions round in the strategy's favour by a few units */
+const ROUNDING = 2n;
+const BPS = 10_000n;
+
+/**
+ * TokenVault ERC-4626 strategy: a share of the principal is deployed, the rest stays idle as a
+ * withdrawal buffer, and yield above the deployed principal is harvested into InterestVault.
+ * Principal a strategy loss leaves short is covered from InterestVault's unreserved balance.
+ */
+describe("TokenVault strategy", function () {
+  let savingsBank: SavingsBank;
+  let timelock: SavingsTimelock;
+  let usdc: MockUSDC;
+  let tokenVault: TokenVault;
+  let interestVault: InterestVault;
+  let strategy: MockERC4626Vault;
+  let admin: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let addresses: SavingsAddresses;
+
+  async function deployStrategy() {
+    return (await (await ethers.getContractFactory("MockERC4626Vault")).deploy(usdc)) as MockERC4626Vault;
+  }
+
+  beforeEach(async function () {
+    const system = await deploySavingsSystem();
+    ({ savingsBank, timelock, usdc, tokenVault, interestVault, admin, addresses } = system);
+    [user1] = system.users;
+
+    // The deployer (admin) is the strategy manager until it hands over
+    strategy = await deployStrategy();
+    await tokenVault.setInterestVault(interestVault);
+    await tokenVault.setStrategy(strategy);
+    await tokenVault.setDeployedShare(8000);
+
+    // Deposit #1: 10,000 USDC in plan 2 (30 days, 8%)
+    await savingsBank.connect(user1).openDeposit(2, parseUSDC("10000"), false);
+  });
+
+  describe("Rebalancing", function () {
+    it("deploys the configured share and keeps the rest idle", async function () {
+      await expect(tokenVault.rebalance()).to.emit(tokenVault, "StrategyDeposited").withArgs(parseUSDC("8000"));
+
+      expect(await tokenVault.strategyAssets()).to.equal(parseUSDC("8000"));
+      expect(await tokenVault.strategyDebt()).to.equal(parseUSDC("8000"));
+      expect(await tokenVault.idleBalance()).to.equal(parseUSDC("2000"));
+      expect(await tokenVault.balance()).to.equal(parseUSDC("10000"));
+
+      // A lower share pulls the difference back into the buffer
+      await tokenVault.setDeployedShare(5000);
+      await expect(tokenVault.rebalance()).to.emit(tokenVault, "StrategyWithdrawn").withArgs(parseUSDC("3000"));
+      expect(await tokenVault.idleBalance()).to.equal(parseUSDC("5000"));
+      expect(await tokenVault.strategyDebt()).to.equal(parseUSDC("5000"));
+    });
+
+    it("pays withdrawals from the buffer first, then from the strategy", async function () {
+      await savingsBank.connect(user1).openDeposit(1, parseUSDC("1000"), false);
+      await tokenVault.rebalance();
+      expect(await tokenVault.idleBalance()).to.equal(parseUSDC("2200"));
+
+      await time.increase(7 * DAY);
+      await savingsBank.connect(user1).withdraw(2);
+      expect(await tokenVault.strategyAssets()).to.equal(parseUSDC("8800"));
+      expect(await tokenVault.idleBalance()).to.equal(parseUSDC("1200"));
+
+      const [principalMinusPenalty, , accruedInterest] = await savingsBank.calculateEarlyWithdrawAmount(1);
+      await expect(savingsBank.connect(user1).earlyWithdraw(1)).to.changeTokenBalance(
+        usdc,
+        user1,
+        principalMinusPenalty + accruedInterest
+      );
+      expect(await tokenVault.balance()).to.equal(0);
+      expect(await tokenVault.strategyDebt()).to.equal(0);
+    });
+
+    it("harvests pending yield before principal leaves the strategy", async function () {
+      await tokenVault.rebalance();
+      await usdc.mint(strategy, parseUSDC("400"));
+      const before = await interestVault.balance();
+
+      await tokenVault.setDeployedShare(5000);
+      await expect(tokenVault.rebalance()).to.emit(tokenVault, "Harvested");
+      expect((await interestVault.balance()) - before).to.be.closeTo(parseUSDC("400"), ROUNDING);
+      expect(await tokenVault.strategyDebt()).to.equal(parseUSDC("5000"));
+      expect(await tokenVault.idleBalance()).to.be.closeTo(parseUSDC("5000"), ROUNDING);
+
+      // Yield accrued since is harvested when a withdrawal reaches into the strategy, not left idle
+      await usdc.mint(strategy, parseUSDC("100"));
+      const [principalMinusPenalty, , accruedInterest] = await savingsBank.calculateEarlyWithdrawAmount(1);
+      await expect(savingsBank.connect(user1).earlyWithdraw(1)).to.changeTokenBalance(
+        usdc,
+        user1,
+        principalMinusPenalty + accruedInterest
+      );
+      expect((await interestVault.balance()) - before).to.be.closeTo(
+        parseUSDC("500") + parseUSDC("10000") - principalMinusPenalty - accruedInterest,
+        ROUNDING * 2n
+      );
+      expect(await tokenVault.strategyDebt()).to.be.lte(ROUNDING);
+      expect(await tokenVault.balance()).to.be.lte(ROUNDING * 2n);
+    });
+
+    it("reduces strategyDebt by the principal share only when there is no InterestVault", async function () {
+      const system = await deploySavingsSystem();
+      const vault = system.tokenVault;
+      const yieldSource = (await (
+        await ethers.getContractFactory("MockERC4626Vault")
+      ).deploy(system.usdc)) as MockERC4626Vault;
+      await vault.setStrategy(yieldSource);
+      await vault.setDeployedShare(BPS);
+      await system.savingsBank.connect(system.users[0]).openDeposit(2, parseUSDC("10000"), false);
+      await vault.rebalance();
+      await system.usdc.mint(yieldSource, parseUSDC("1000"));
+
+      // 5,500 of 11,000 strategy assets: half is principal, so the yield share stays harvestable
+      await vault.setDeployedShare(BPS / 2n);
+      await vault.rebalance();
+      expect(await vault.strategyDebt()).to.be.closeTo(parseUSDC("5000"), ROUNDING);
+      expect(await vault.strategyAssets()).to.be.closeTo(parseUSDC("5500"), ROUNDING);
+      expect(await vault.principalBalance()).to.be.closeTo(parseUSDC("10500"), ROUNDING);
+    });
+
+    it("can be called by anyone but needs a strategy", async function () {
+      await tokenVault.connect(user1).rebalance();
+      expect(await tokenVault.strategyAssets()).to.equal(parseUSDC("8000"));
+
+      await tokenVault.setStrategy(ethers.ZeroAddress);
+      await expect(tokenVault.rebalance()).to.be.revertedWith("TokenVault: No strategy");
+      await expect(tokenVault.harvest()).to.be.revertedWith("TokenVault: No strategy");
+    });
+  });
+
+  describe("Harvest", function () {
+    beforeEach(async function () {
+      await tokenVault.rebalance();
+    });
+
+    it("sends yield above the deployed principal to InterestVault", async function () {
+      await usdc.mint(strategy, parseUSDC("400"));
+      const before = await interestVault.balance();
+
+      await expect(tokenVault.connect(user1).harvest()).to.emit(tokenVault, "Harvested");
+
+      const harvested = (await interestVault.balance()) - before;
+      expect(harvested).to.be.closeTo(parseUSDC("400"), ROUNDING);
+      expect(await tokenVault.strategyAssets()).to.be.gte(parseUSDC("8000"));
+      expect(await tokenVault.strategyDebt()).to.equal(parseUSDC("8000"));
+      expect(await interestVault.availableBalance()).to.equal(
+        before + harvested - (await interestVault.totalReserved())
+      );
+    });
+
+    it("holds back yield until a strategy loss is recovered", async function () {
+      await strategy.simulateLoss(parseUSDC("800"));
+      expect(await tokenVault.balance()).to.be.closeTo(parseUSDC("9200"), ROUNDING);
+
+      const before = await interestVault.balance();
+      const tx = await tokenVault.harvest();
+      const loss = parseUSDC("8000") - (await tokenVault.strategyAssets());
+      await expect(tx).to.emit(tokenVault, "Harvested").withArgs(0, loss);
+      expect(await interestVault.balance()).to.equal(before);
+
+      // Later yield first makes the deployed principal whole; only the excess is harvested
+      await usdc.mint(strategy, parseUSDC("1000"));
+      await tokenVault.harvest();
+      expect((await interestVault.balance()) - before).to.be.closeTo(parseUSDC("200"), ROUNDING);
+      expect(await tokenVault.balance()).to.be.gte(parseUSDC("10000"));
+
+      await time.increase(30 * DAY);
+      const interest = await savingsBank.calculateInterest(1);
+      await expect(savingsBank.connect(user1).withdraw(1)).to.changeTokenBalance(
+        usdc,
+        user1,
+        parseUSDC("10000") + interest
+      );
+    });
+
+    it("covers the principal a strategy loss leaves short from InterestVault's available balance", async function () {
+      await strategy.simulateLoss(parseUSDC("800"));
+      expect(await tokenVault.principalBalance()).to.be.closeTo(parseUSDC("9200"), ROUNDING);
+      const available = await interestVault.availableBalance();
+
+      // The first withdrawer is paid from the buffer and the strategy as usual
+      await savingsBank.connect(user1).openDeposit(2, parseUSDC("1000"), false);
+      await savingsBank.connect(user1).earlyWithdraw(2);
+      expect(await interestVault.availableBalance()).to.be.gte(available);
+
+      // The last one finds the vault short: InterestVault makes up the difference
+      await time.increase(30 * DAY);
+      const shortfall = parseUSDC("10000") - (await tokenVault.principalBalance());
+      const interest = await savingsBank.calculateInterest(1);
+      const ivBefore = await interestVault.balance();
+      await expect(savingsBank.connect(user1).withdraw(1)).to.changeTokenBalance(
+        usdc,
+        user1,
+        parseUSDC("10000") + interest
+      );
+      expect(shortfall).to.be.closeTo(parseUSDC("800"), ROUNDING);
+      expect(ivBefore - (await interestVault.balance())).to.equal(shortfall + interest);
+      expect(await tokenVault.principalBalance()).to.equal(0);
+    });
+
+    it("rejects a withdrawal whose shortfall InterestVault cannot cover", async function () {
+      await strategy.simulateLoss(parseUSDC("800"));
+      const available = await interestVault.availableBalance();
+      await executeTimelocked(timelock, savingsBank, "withdrawVault", [admin.address, available - parseUSDC("500")]);
+
+      await expect(savingsBank.connect(user1).earlyWithdraw(1)).to.be.revertedWith("SavingsBank: Principal shortfall");
+
+      // Funding InterestVault unblocks it
+      await usdc.mint(admin.address, parseUSDC("1000"));
+      await usdc.approve(interestVault, parseUSDC("1000"));
+      await savingsBank.fundVault(parseUSDC("1000"));
+      const [principalMinusPenalty, , accruedInterest] = await savingsBank.calculateEarlyWithdrawAmount(1);
+      await expect(savingsBank.connect(user1).earlyWithdraw(1)).to.changeTokenBalance(
+        usdc,
+        user1,
+        principalMinusPenalty + accruedInterest
+      );
+    });
+
+    it("harvests and redeems the old strategy when switching", async function () {
+      await usdc.mint(strategy, parseUSDC("100"));
+      const next = await deployStrategy();
+      const before = await interestVault.balance();
+
+      await expect(tokenVault.setStrategy(next))
+        .to.emit(tokenVault, "StrategyUpdated")
+        .withArgs(await next.getAddress());
+
+      expect((await interestVault.balance()) - before).to.be.closeTo(parseUSDC("100"), ROUNDING);
+      expect(await strategy.balanceOf(tokenVault)).to.equal(0);
+      expect(await tokenVault.strategyDebt()).to.equal(0);
+      expect(await tokenVault.idleBalance()).to.be.closeTo(parseUSDC("10000"), ROUNDING);
+
+      await tokenVault.rebalance();
+      expect(await next.totalAssets()).to.equal(await tokenVault.strategyDebt());
+    });
+  });
+
+  describe("Configuration", function () {
+    it("is restricted to the strategy manager", async function () {
+      await expect(tokenVault.connect(user1).setStrategy(ethers.ZeroAddress)).to.be.revertedWith(
+        "TokenVault: Not strategy manager"
+      );
+      await expect(tokenVault.connect(user1).setDeployedShare(0)).to.be.revertedWith(
+        "TokenVault: Not strategy manager"
+      );
+      await expect(tokenVault.connect(user1).setInterestVault(user1.address)).to.be.revertedWith(
+        "TokenVault: Not strategy manager"
+      );
+
+      await expect(tokenVault.setStrategyManager(user1.address))
+        .to.emit(tokenVault, "StrategyManagerUpdated")
+        .withArgs(user1.address);
+      await expect(tokenVault.setDeployedShare(0)).to.be.revertedWith("TokenVault: Not strategy manager");
+      await tokenVault.connect(user1).setDeployedShare(0);
+    });
+
+    it("validates the strategy asset and the deployed share", async function () {
+      const dai = await (await ethers.getContractFactory("MockERC20")).deploy("Mock DAI", "DAI", 18);
+      const daiStrategy = await (await ethers.getContractFactory("MockERC4626Vault")).deploy(dai);
+
+      await expect(tokenVault.setStrategy(daiStrategy)).to.be.revertedWith("TokenVault: Strategy asset mismatch");
+      await expect(tokenVault.setDeployedShare(10_001)).to.be.revertedWith("TokenVault: Invalid share");
+      await expect(tokenVault.setInterestVault(ethers.ZeroAddress)).to.be.revertedWith(
+        "TokenVault: Invalid interest vault"
+      );
+    });
+  });
+
+  it("is reported by SavingsClient vault health", async function () {
+    await tokenVault.rebalance();
+    await usdc.mint(strategy, parseUSDC("50"));
+
+    const health = await new SavingsClient(addresses, admin).getVaultHealth();
+    expect(health.tokenVaultIdle).to.equal(parseUSDC("2000"));
+    expect(health.strategyDebt).to.equal(parseUSDC("8000"));
+    expect(health.strategyAssets).to.be.closeTo(parseUSDC("8050"), ROUNDING);
+    expect(health.tokenVaultBalance).to.equal(health.tokenVaultIdle + health.strategyAssets);
+  });
+});